@@ -0,0 +1,38 @@
+CREATE TABLE `bank_accounts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`account_holder` text NOT NULL,
+	`bank_name` text NOT NULL,
+	`branch_code` text NOT NULL,
+	`account_number` text NOT NULL,
+	`account_type` text DEFAULT 'cheque' NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `bank_accounts_user_id_unique` ON `bank_accounts` (`user_id`);--> statement-breakpoint
+CREATE TABLE `payout_requests` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`amount` integer NOT NULL,
+	`currency` text DEFAULT 'ZAR',
+	`account_holder` text NOT NULL,
+	`bank_name` text NOT NULL,
+	`branch_code` text NOT NULL,
+	`account_number` text NOT NULL,
+	`account_type` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`transaction_id` text,
+	`batch_id` text,
+	`exported_at` text,
+	`reviewed_by` text,
+	`reviewed_at` text,
+	`rejection_reason` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`completed_at` text,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`reviewed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,18 @@
+CREATE TABLE `webhook_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`provider` text NOT NULL,
+	`provider_reference` text NOT NULL,
+	`provider_transaction_id` text,
+	`status` text NOT NULL,
+	`event_key` text NOT NULL,
+	`amount` integer,
+	`payload` text,
+	`processing_status` text DEFAULT 'received' NOT NULL,
+	`error` text,
+	`transaction_id` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`processed_at` text,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `webhook_events_event_key_unique` ON `webhook_events` (`event_key`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `orders` ADD `fee_schedule_version` integer;--> statement-breakpoint
+ALTER TABLE `orders` ADD `buyer_fee_bps` integer;--> statement-breakpoint
+ALTER TABLE `orders` ADD `seller_fee_bps` integer;
\ No newline at end of file
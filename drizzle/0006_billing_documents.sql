@@ -0,0 +1,25 @@
+CREATE TABLE `billing_documents` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`number` text NOT NULL,
+	`user_id` text NOT NULL,
+	`order_id` text,
+	`subscription_id` text,
+	`transaction_id` text,
+	`total` integer NOT NULL,
+	`vat_amount` integer DEFAULT 0 NOT NULL,
+	`data` text NOT NULL,
+	`r2_key` text NOT NULL,
+	`stored_at` text,
+	`issued_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`subscription_id`) REFERENCES `subscriptions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `billing_documents_number_unique` ON `billing_documents` (`number`);--> statement-breakpoint
+CREATE TABLE `document_sequences` (
+	`type` text PRIMARY KEY NOT NULL,
+	`last_number` integer DEFAULT 0 NOT NULL
+);
@@ -0,0 +1,4 @@
+ALTER TABLE `subscriptions` ADD `payfast_token` text;--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `past_due_since` text;--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `dunning_count` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `last_dunning_at` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `orders` ADD `auto_complete_warned_at` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `auto_completed_at` text;
\ No newline at end of file
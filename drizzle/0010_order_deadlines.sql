@@ -0,0 +1,19 @@
+CREATE TABLE `deadline_extensions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`order_id` text NOT NULL,
+	`milestone_id` text,
+	`requested_by` text NOT NULL,
+	`current_deadline` text,
+	`requested_deadline` text NOT NULL,
+	`reason` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`response_note` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`responded_at` text,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`milestone_id`) REFERENCES `milestones`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`requested_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `order_events` ADD `type` text DEFAULT 'status_change' NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders` ADD `late_notified_at` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `disputes` ADD `response_required_from` text REFERENCES users(id);--> statement-breakpoint
+ALTER TABLE `disputes` ADD `response_due_at` text;
\ No newline at end of file
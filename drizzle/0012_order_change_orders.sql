@@ -0,0 +1,17 @@
+CREATE TABLE `change_orders` (
+	`id` text PRIMARY KEY NOT NULL,
+	`order_id` text NOT NULL,
+	`proposed_by` text NOT NULL,
+	`changes` text NOT NULL,
+	`reason` text NOT NULL,
+	`previous_subtotal` integer NOT NULL,
+	`proposed_subtotal` integer NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`responded_by` text,
+	`response_note` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`responded_at` text,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`proposed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`responded_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
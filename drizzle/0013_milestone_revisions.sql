@@ -0,0 +1,3 @@
+ALTER TABLE `milestones` ADD `revisions_allowed` integer DEFAULT 2;--> statement-breakpoint
+ALTER TABLE `milestones` ADD `revisions_used` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `revision_requests` ADD `milestone_id` text REFERENCES milestones(id);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `services` ADD `requirements_form` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `requirements_form` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `requirement_answers` text;
\ No newline at end of file
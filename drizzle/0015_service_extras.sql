@@ -0,0 +1,2 @@
+ALTER TABLE `services` ADD `extras` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `extras` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `orders` ADD `conversation_id` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `offer_details` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `offer_order_id` text REFERENCES orders(id);
\ No newline at end of file
@@ -0,0 +1,33 @@
+-- Full-text search indexes for services and projects (see @/lib/search).
+-- FTS5 virtual tables aren't modelled in the Drizzle schema; the app keeps
+-- them in sync when services and projects are created, updated or deleted.
+CREATE VIRTUAL TABLE `services_fts` USING fts5(
+	`service_id` UNINDEXED,
+	`title`,
+	`short_description`,
+	`description`,
+	`tags`,
+	tokenize = 'porter unicode61'
+);--> statement-breakpoint
+CREATE VIRTUAL TABLE `projects_fts` USING fts5(
+	`project_id` UNINDEXED,
+	`title`,
+	`description`,
+	`skills`,
+	tokenize = 'porter unicode61'
+);--> statement-breakpoint
+INSERT INTO `services_fts` (`service_id`, `title`, `short_description`, `description`, `tags`)
+SELECT
+	`id`,
+	`title`,
+	coalesce(`short_description`, ''),
+	`description`,
+	coalesce((SELECT group_concat(`value`, ' ') FROM json_each(`services`.`tags`)), '')
+FROM `services`;--> statement-breakpoint
+INSERT INTO `projects_fts` (`project_id`, `title`, `description`, `skills`)
+SELECT
+	`id`,
+	`title`,
+	`description`,
+	coalesce((SELECT group_concat(`value`, ' ') FROM json_each(`projects`.`skills`)), '')
+FROM `projects`;
@@ -0,0 +1,2 @@
+-- Open projects posted before listings expired get a full listing period from today
+UPDATE `projects` SET `expires_at` = strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+30 days') WHERE `status` = 'open' AND `expires_at` IS NULL;
@@ -4,6 +4,10 @@ const nextConfig: NextConfig = {
   // Required for Cloudflare Workers deployment
   experimental: {
     // Enable edge runtime by default for API routes
+    serverActions: {
+      // Dispute evidence is uploaded through a server action (5 files of up to 5 MB)
+      bodySizeLimit: "26mb",
+    },
   },
   images: {
     // Use Cloudflare Image optimization or unoptimized for now
@@ -0,0 +1,97 @@
+// Mock OZOW / PayFast status APIs for testing payment reconciliation locally.
+//
+//   npm run mock:payments
+//   OZOW_BASE_URL=http://localhost:4010 PAYFAST_API_URL=http://localhost:4010 npm run cf:dev
+//
+// Set what the "provider" reports for a payment reference (amount in Rands):
+//   curl -X POST localhost:4010/__mock/transactions \
+//     -d '{"reference":"ABC123","status":"Complete","amount":"150.00"}'
+//
+// Use OZOW statuses (Complete, Pending, Cancelled, Error, Abandoned) for OZOW
+// payments and PayFast statuses (COMPLETE, PENDING, FAILED, CANCELLED) for PayFast.
+// References that were never set are reported as not found.
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.MOCK_PAYMENTS_PORT || 4010);
+const payments = new Map();
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  console.log(req.method, url.pathname + url.search);
+
+  try {
+    if (req.method === "POST" && url.pathname === "/__mock/transactions") {
+      const { reference, status, amount } = await readJson(req);
+      if (!reference || !status) {
+        return send(res, 400, { error: "reference and status are required" });
+      }
+      const payment = {
+        reference,
+        status,
+        amount: String(amount ?? "0"),
+        transactionId: payments.get(reference)?.transactionId || randomUUID(),
+      };
+      payments.set(reference, payment);
+      return send(res, 200, payment);
+    }
+
+    if (req.method === "DELETE" && url.pathname === "/__mock/transactions") {
+      payments.clear();
+      return send(res, 200, { cleared: true });
+    }
+
+    // OZOW: GET /GetTransactionByReference?siteCode=...&transactionReference=...
+    if (req.method === "GET" && url.pathname === "/GetTransactionByReference") {
+      const payment = payments.get(url.searchParams.get("transactionReference"));
+      if (!payment) return send(res, 200, []);
+      return send(res, 200, [
+        {
+          transactionId: payment.transactionId,
+          transactionReference: payment.reference,
+          amount: payment.amount,
+          status: payment.status,
+        },
+      ]);
+    }
+
+    // PayFast: GET /process/query/:m_payment_id
+    const payfastMatch = url.pathname.match(/^\/process\/query\/(.+)$/);
+    if (req.method === "GET" && payfastMatch) {
+      const payment = payments.get(decodeURIComponent(payfastMatch[1]));
+      if (!payment) return send(res, 404, { code: 404, status: "failed" });
+      return send(res, 200, {
+        code: 200,
+        status: "success",
+        data: {
+          response: {
+            payment_status: payment.status,
+            pf_payment_id: payment.transactionId,
+            amount_gross: payment.amount,
+          },
+        },
+      });
+    }
+
+    send(res, 404, { error: "Not found" });
+  } catch (error) {
+    console.error(error);
+    send(res, 500, { error: String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock payment provider listening on http://localhost:${PORT}`);
+});
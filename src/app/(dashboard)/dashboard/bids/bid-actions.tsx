@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, Loader2, Pencil, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { updateBid, withdrawBid } from "@/lib/projects/actions";
+import { BID_CONFIG, validateBid } from "@/lib/projects/bids";
+
+interface BidActionsProps {
+  bid: {
+    id: string;
+    amount: number;
+    deliveryDays: number;
+    proposal: string;
+    status: string;
+  };
+  canEdit: boolean;
+}
+
+export function BidActions({ bid, canEdit }: BidActionsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState(bid.amount.toString());
+  const [deliveryDays, setDeliveryDays] = useState(bid.deliveryDays.toString());
+  const [proposal, setProposal] = useState(bid.proposal);
+  const [saving, setSaving] = useState(false);
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const values = {
+      amount: parseFloat(amount),
+      deliveryDays: parseInt(deliveryDays),
+      proposal,
+    };
+
+    const validationError = validateBid(values);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const result = await updateBid(bid.id, values);
+
+    if (result.success) {
+      setOpen(false);
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to update bid");
+    }
+
+    setSaving(false);
+  };
+
+  const handleWithdraw = async () => {
+    if (!confirm("Withdraw this bid? You won't be able to bid on this project again.")) {
+      return;
+    }
+
+    setWithdrawing(true);
+    setError(null);
+
+    const result = await withdrawBid(bid.id);
+
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to withdraw bid");
+      setWithdrawing(false);
+    }
+  };
+
+  return (
+    <>
+      {canEdit && bid.status === "pending" && (
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit Bid
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Edit Your Bid</DialogTitle>
+              <DialogDescription>
+                The client will see your updated bid as new.
+              </DialogDescription>
+            </DialogHeader>
+
+            {error && (
+              <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="grid gap-4 grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor={`amount-${bid.id}`}>Your Bid (ZAR)</Label>
+                  <Input
+                    id={`amount-${bid.id}`}
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`days-${bid.id}`}>Delivery Time (days)</Label>
+                  <Input
+                    id={`days-${bid.id}`}
+                    type="number"
+                    min="1"
+                    max={BID_CONFIG.maxDeliveryDays}
+                    value={deliveryDays}
+                    onChange={(e) => setDeliveryDays(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`proposal-${bid.id}`}>Your Proposal</Label>
+                <Textarea
+                  id={`proposal-${bid.id}`}
+                  value={proposal}
+                  onChange={(e) => setProposal(e.target.value)}
+                  rows={6}
+                  maxLength={BID_CONFIG.maxProposalLength}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {proposal.length}/{BID_CONFIG.maxProposalLength} characters (minimum {BID_CONFIG.minProposalLength})
+                </p>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Changes
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {(bid.status === "pending" || bid.status === "shortlisted") && (
+        <Button variant="ghost" size="sm" onClick={handleWithdraw} disabled={withdrawing} className="text-destructive">
+          {withdrawing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+          Withdraw
+        </Button>
+      )}
+
+      {error && !open && <p className="basis-full text-sm text-destructive">{error}</p>}
+    </>
+  );
+}
@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { Clock, CheckCircle2, XCircle, DollarSign, AlertCircle } from "lucide-react";
+import { Clock, CheckCircle2, XCircle, DollarSign, AlertCircle, Star } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { getUserBids } from "@/lib/projects/actions";
@@ -8,6 +8,8 @@ import { projects } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { formatCurrency } from "@/lib/utils";
+import { isListingExpired } from "@/lib/projects/lifecycle";
+import { BidActions } from "./bid-actions";
 
 const statusConfig: Record<string, { label: string; icon: React.ReactNode; color: string }> = {
   pending: { 
@@ -15,6 +17,11 @@ const statusConfig: Record<string, { label: string; icon: React.ReactNode; color
     icon: <Clock className="h-4 w-4" />,
     color: "text-yellow-600"
   },
+  shortlisted: {
+    label: "Shortlisted",
+    icon: <Star className="h-4 w-4" />,
+    color: "text-blue-600"
+  },
   accepted: { 
     label: "Accepted", 
     icon: <CheckCircle2 className="h-4 w-4" />,
@@ -129,7 +136,7 @@ export default async function MyBidsPage() {
                     <p className="text-sm line-clamp-2">{bid.proposal}</p>
                   </div>
 
-                  <div className="flex gap-2">
+                  <div className="flex flex-wrap gap-2">
                     {bid.project && (
                       <Button variant="outline" size="sm" asChild>
                         <Link href={`/projects/${bid.project.slug}`}>
@@ -144,6 +151,10 @@ export default async function MyBidsPage() {
                         </Link>
                       </Button>
                     )}
+                    <BidActions
+                      bid={bid}
+                      canEdit={bid.project?.status === "open" && !isListingExpired(bid.project)}
+                    />
                   </div>
                 </CardContent>
               </Card>
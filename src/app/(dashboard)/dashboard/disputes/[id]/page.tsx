@@ -0,0 +1,186 @@
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { format } from "date-fns";
+import { ArrowLeft, Clock, ExternalLink, Scale } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { DisputeThread } from "@/components/disputes";
+import { requireSession } from "@/lib/auth/server";
+import { getDispute } from "@/lib/disputes/actions";
+import { DISPUTE_CATEGORIES, type DisputeCategory } from "@/lib/disputes/config";
+import { formatCurrency } from "@/lib/utils";
+
+interface DisputeDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const statusConfig: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  open: { label: "Open", variant: "destructive" },
+  under_review: { label: "Under Review", variant: "default" },
+  escalated: { label: "Escalated", variant: "destructive" },
+  resolved: { label: "Resolved", variant: "secondary" },
+  closed: { label: "Closed", variant: "outline" },
+};
+
+const ACTIVE_STATUSES = ["open", "under_review", "escalated"];
+
+export default async function DisputeDetailPage({ params }: DisputeDetailPageProps) {
+  const session = await requireSession();
+  const { id } = await params;
+
+  const view = await getDispute(id);
+
+  if (!view) {
+    // Admins who aren't a party work the dispute from the admin panel
+    if (session.role === "admin" || session.role === "moderator") {
+      redirect(`/admin/disputes/${id}`);
+    }
+    notFound();
+  }
+
+  const { dispute, order, buyer, seller, userRole, messages } = view;
+  const status = statusConfig[dispute.status] || statusConfig.open;
+  const isActive = ACTIVE_STATUSES.includes(dispute.status);
+  const otherParty = userRole === "buyer" ? seller : buyer;
+  const responseOwedByMe = isActive && dispute.responseRequiredFrom === session.userId && dispute.responseDueAt;
+  const responseOwedByOther =
+    isActive && dispute.responseRequiredFrom === otherParty.id && dispute.responseDueAt;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="mb-4">
+          <Link href={`/dashboard/orders/${order.id}`}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Order
+          </Link>
+        </Button>
+
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-2xl font-bold">{dispute.title}</h1>
+              <Badge variant={status.variant}>{status.label}</Badge>
+            </div>
+            <p className="text-muted-foreground">
+              Order {order.orderNumber} · Opened {format(new Date(dispute.createdAt), "MMM d, yyyy")}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {responseOwedByMe && (
+        <Alert variant="destructive">
+          <Clock className="h-4 w-4" />
+          <AlertTitle>Your response is needed</AlertTitle>
+          <AlertDescription>
+            Please reply by {format(new Date(dispute.responseDueAt!), "MMM d, yyyy HH:mm")}.{" "}
+            {userRole === "buyer"
+              ? "If you don't, the dispute will be closed and work on the order will resume."
+              : "If you don't, the buyer will be refunded in full."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {responseOwedByOther && (
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertTitle>Waiting for {otherParty.name || `the ${userRole === "buyer" ? "seller" : "buyer"}`}</AlertTitle>
+          <AlertDescription>
+            They have until {format(new Date(dispute.responseDueAt!), "MMM d, yyyy HH:mm")} to respond.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>{DISPUTE_CATEGORIES[dispute.category as DisputeCategory] || dispute.category}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <p className="whitespace-pre-wrap">{dispute.description}</p>
+              {dispute.evidence.length > 0 && (
+                <div>
+                  <p className="font-medium mb-2">Evidence</p>
+                  <div className="flex flex-wrap gap-3">
+                    {dispute.evidence.map((file) => (
+                      <a
+                        key={file.url}
+                        href={file.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-emerald-500 hover:underline"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        {file.name}
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <DisputeThread
+            disputeId={dispute.id}
+            messages={messages}
+            currentUserId={session.userId}
+            canReply={isActive}
+          />
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Order</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Buyer</span>
+                <span>{buyer.name || "Buyer"}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Seller</span>
+                <span>{seller.name || "Seller"}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Order total</span>
+                <span>{formatCurrency(order.totalAmount)}</span>
+              </div>
+              <Button variant="outline" className="w-full mt-2" asChild>
+                <Link href={`/dashboard/orders/${order.id}`}>View Order</Link>
+              </Button>
+            </CardContent>
+          </Card>
+
+          {!isActive && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Scale className="h-5 w-5" />
+                  Outcome
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {dispute.resolution && (
+                  <p className="font-medium capitalize">{dispute.resolution.replace(/_/g, " ")}</p>
+                )}
+                {dispute.resolutionNotes && (
+                  <p className="text-muted-foreground whitespace-pre-wrap">{dispute.resolutionNotes}</p>
+                )}
+                {dispute.resolvedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(dispute.resolvedAt), "MMM d, yyyy")}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
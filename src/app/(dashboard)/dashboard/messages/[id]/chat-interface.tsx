@@ -1,10 +1,16 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { Send, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { sendMessage } from "@/lib/messages/actions";
+import { sendMessage, declineOffer } from "@/lib/messages/actions";
+import { createOrderFromOffer } from "@/lib/orders/actions";
+import type { CustomOffer } from "@/lib/messages/offers";
+import { OfferDialog } from "./offer-dialog";
 
 interface Message {
   id: string;
@@ -12,6 +18,10 @@ interface Message {
   senderId: string;
   isOwn: boolean;
   createdAt: string;
+  messageType?: "text" | "offer" | "system" | "file";
+  offer?: CustomOffer | null;
+  offerStatus?: "pending" | "accepted" | "rejected" | null;
+  offerOrderId?: string | null;
 }
 
 interface ChatInterfaceProps {
@@ -24,6 +34,8 @@ export function ChatInterface({ conversationId, initialMessages }: ChatInterface
   const [newMessage, setNewMessage] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const router = useRouter();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -67,6 +79,54 @@ export function ChatInterface({ conversationId, initialMessages }: ChatInterface
     setIsSending(false);
   };
 
+  const handleOfferSent = (messageId: string, offer: CustomOffer) => {
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: messageId,
+        content: offer.title,
+        senderId: "self",
+        isOwn: true,
+        createdAt: new Date().toISOString(),
+        messageType: "offer",
+        offer,
+        offerStatus: "pending",
+      },
+    ]);
+  };
+
+  const handleAcceptOffer = async (messageId: string) => {
+    setRespondingTo(messageId);
+    setError(null);
+
+    const result = await createOrderFromOffer(messageId);
+
+    if (result.success && result.orderId) {
+      router.push(`/dashboard/orders/${result.orderId}`);
+      return;
+    }
+
+    setError(result.error || "Failed to accept offer");
+    setRespondingTo(null);
+  };
+
+  const handleDeclineOffer = async (messageId: string) => {
+    setRespondingTo(messageId);
+    setError(null);
+
+    const result = await declineOffer(messageId);
+
+    if (result.success) {
+      setMessages((prev) =>
+        prev.map((m) => (m.id === messageId ? { ...m, offerStatus: "rejected" } : m))
+      );
+    } else {
+      setError(result.error || "Failed to decline offer");
+    }
+
+    setRespondingTo(null);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -85,31 +145,52 @@ export function ChatInterface({ conversationId, initialMessages }: ChatInterface
             </p>
           </div>
         ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${message.isOwn ? "justify-end" : "justify-start"}`}
-            >
+          messages.map((message) =>
+            message.messageType === "system" ? (
+              <p key={message.id} className="text-center text-xs text-muted-foreground">
+                {message.content}
+              </p>
+            ) : message.messageType === "offer" && message.offer ? (
+              <div
+                key={message.id}
+                className={`flex ${message.isOwn ? "justify-end" : "justify-start"}`}
+              >
+                <OfferCard
+                  offer={message.offer}
+                  status={message.offerStatus || "pending"}
+                  orderId={message.offerOrderId || null}
+                  isOwn={message.isOwn}
+                  isResponding={respondingTo === message.id}
+                  onAccept={() => handleAcceptOffer(message.id)}
+                  onDecline={() => handleDeclineOffer(message.id)}
+                />
+              </div>
+            ) : (
               <div
-                className={`max-w-[70%] rounded-lg px-4 py-2 ${
-                  message.isOwn
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-muted"
-                }`}
+                key={message.id}
+                className={`flex ${message.isOwn ? "justify-end" : "justify-start"}`}
               >
-                <p className="text-sm whitespace-pre-wrap break-words">
-                  {message.content}
-                </p>
-                <p
-                  className={`text-xs mt-1 ${
-                    message.isOwn ? "text-primary-foreground/70" : "text-muted-foreground"
+                <div
+                  className={`max-w-[70%] rounded-lg px-4 py-2 ${
+                    message.isOwn
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted"
                   }`}
                 >
-                  {formatTime(message.createdAt)}
-                </p>
+                  <p className="text-sm whitespace-pre-wrap break-words">
+                    {message.content}
+                  </p>
+                  <p
+                    className={`text-xs mt-1 ${
+                      message.isOwn ? "text-primary-foreground/70" : "text-muted-foreground"
+                    }`}
+                  >
+                    {formatTime(message.createdAt)}
+                  </p>
+                </div>
               </div>
-            </div>
-          ))
+            )
+          )
         )}
         <div ref={messagesEndRef} />
       </div>
@@ -126,6 +207,7 @@ export function ChatInterface({ conversationId, initialMessages }: ChatInterface
       {/* Input Area */}
       <div className="border-t p-4">
         <form onSubmit={handleSend} className="flex gap-2">
+          <OfferDialog conversationId={conversationId} onSent={handleOfferSent} />
           <Textarea
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
@@ -155,6 +237,78 @@ export function ChatInterface({ conversationId, initialMessages }: ChatInterface
   );
 }
 
+const offerStatusLabel: Record<string, string> = {
+  pending: "Awaiting response",
+  accepted: "Accepted",
+  rejected: "Declined",
+};
+
+function OfferCard({
+  offer,
+  status,
+  orderId,
+  isOwn,
+  isResponding,
+  onAccept,
+  onDecline,
+}: {
+  offer: CustomOffer;
+  status: string;
+  orderId: string | null;
+  isOwn: boolean;
+  isResponding: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+}) {
+  return (
+    <div className="w-full max-w-[70%] rounded-lg border bg-card p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-xs text-muted-foreground">Custom offer</p>
+          <p className="font-medium">{offer.title}</p>
+        </div>
+        <Badge variant={status === "accepted" ? "default" : "secondary"}>{offerStatusLabel[status]}</Badge>
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{offer.description}</p>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        <span className="font-semibold">R{(offer.price / 100).toFixed(2)}</span>
+        <span className="text-muted-foreground">{offer.deliveryDays} day delivery</span>
+        <span className="text-muted-foreground">
+          {offer.revisions} revision{offer.revisions === 1 ? "" : "s"}
+        </span>
+      </div>
+      {offer.milestones && offer.milestones.length > 0 && (
+        <ol className="text-sm list-decimal pl-5 space-y-1">
+          {offer.milestones.map((milestone, i) => (
+            <li key={i}>
+              {milestone.title} - R{(milestone.amount / 100).toFixed(2)}
+              {milestone.dueInDays && (
+                <span className="text-muted-foreground"> (day {milestone.dueInDays})</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+      {status === "pending" && !isOwn && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={onAccept} disabled={isResponding}>
+            {isResponding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Accept &amp; Order
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDecline} disabled={isResponding}>
+            Decline
+          </Button>
+        </div>
+      )}
+      {status === "accepted" && orderId && (
+        <Button size="sm" variant="outline" asChild>
+          <Link href={`/dashboard/orders/${orderId}`}>View Order</Link>
+        </Button>
+      )}
+    </div>
+  );
+}
+
 function formatTime(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -0,0 +1,262 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, FileSignature, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { sendOffer } from "@/lib/messages/actions";
+import { OFFER_CONFIG, validateOffer, type CustomOffer } from "@/lib/messages/offers";
+
+interface OfferDialogProps {
+  conversationId: string;
+  onSent: (messageId: string, offer: CustomOffer) => void;
+}
+
+// Editable milestone - amount in rands
+interface MilestoneDraft {
+  title: string;
+  amount: string;
+  dueInDays: string;
+}
+
+export function OfferDialog({ conversationId, onSent }: OfferDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [price, setPrice] = useState("");
+  const [deliveryDays, setDeliveryDays] = useState("7");
+  const [revisions, setRevisions] = useState("2");
+  const [useMilestones, setUseMilestones] = useState(false);
+  const [milestones, setMilestones] = useState<MilestoneDraft[]>([{ title: "", amount: "", dueInDays: "" }]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toCents = (rands: string) => Math.round(parseFloat(rands || "0") * 100);
+
+  const updateMilestone = (index: number, patch: Partial<MilestoneDraft>) => {
+    setMilestones(milestones.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+  };
+
+  const reset = () => {
+    setTitle("");
+    setDescription("");
+    setPrice("");
+    setDeliveryDays("7");
+    setRevisions("2");
+    setUseMilestones(false);
+    setMilestones([{ title: "", amount: "", dueInDays: "" }]);
+  };
+
+  const handleSend = async () => {
+    const offerMilestones = useMilestones
+      ? milestones.map((m) => ({
+          title: m.title,
+          amount: toCents(m.amount),
+          ...(m.dueInDays ? { dueInDays: parseInt(m.dueInDays) } : {}),
+        }))
+      : undefined;
+
+    const offer: CustomOffer = {
+      title,
+      description,
+      // With milestones the price is whatever they add up to
+      price: offerMilestones ? offerMilestones.reduce((sum, m) => sum + m.amount, 0) : toCents(price),
+      deliveryDays: parseInt(deliveryDays || "0"),
+      revisions: parseInt(revisions || "0"),
+      milestones: offerMilestones,
+    };
+
+    const offerError = validateOffer(offer);
+    if (offerError) {
+      setError(offerError);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const result = await sendOffer(conversationId, offer);
+
+    if (result.success && result.messageId) {
+      onSent(result.messageId, offer);
+      setOpen(false);
+      reset();
+    } else {
+      setError(result.error || "Failed to send offer");
+    }
+
+    setLoading(false);
+  };
+
+  const milestoneTotal = milestones.reduce((sum, m) => sum + toCents(m.amount), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="icon" title="Send a custom offer">
+          <FileSignature className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Send a Custom Offer</DialogTitle>
+          <DialogDescription>
+            If the buyer accepts, an order is placed with these terms and they&apos;re asked to pay.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="space-y-2">
+            <Label htmlFor="offer-title">Title</Label>
+            <Input
+              id="offer-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Logo and brand guide for your coffee shop"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="offer-description">What&apos;s included</Label>
+            <Textarea
+              id="offer-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+            />
+          </div>
+
+          <div className="grid gap-4 grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="offer-price">Price (R)</Label>
+              <Input
+                id="offer-price"
+                type="number"
+                min={OFFER_CONFIG.minPrice / 100}
+                step="0.01"
+                value={useMilestones ? (milestoneTotal / 100).toString() : price}
+                disabled={useMilestones}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offer-days">Delivery days</Label>
+              <Input
+                id="offer-days"
+                type="number"
+                min={1}
+                max={OFFER_CONFIG.maxDeliveryDays}
+                value={deliveryDays}
+                onChange={(e) => setDeliveryDays(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offer-revisions">Revisions</Label>
+              <Input
+                id="offer-revisions"
+                type="number"
+                min={0}
+                max={OFFER_CONFIG.maxRevisions}
+                value={revisions}
+                onChange={(e) => setRevisions(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">Pay in milestones</p>
+              <p className="text-xs text-muted-foreground">The buyer funds each milestone separately</p>
+            </div>
+            <Switch checked={useMilestones} onCheckedChange={setUseMilestones} />
+          </div>
+
+          {useMilestones && (
+            <div className="space-y-2">
+              {milestones.map((milestone, index) => (
+                <div key={index} className="grid gap-2 grid-cols-[1fr_100px_90px_auto] items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Milestone</Label>
+                    <Input
+                      value={milestone.title}
+                      onChange={(e) => updateMilestone(index, { title: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Amount (R)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={milestone.amount}
+                      onChange={(e) => updateMilestone(index, { amount: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Due (days)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={milestone.dueInDays}
+                      onChange={(e) => updateMilestone(index, { dueInDays: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={milestones.length === 1}
+                    onClick={() => setMilestones(milestones.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {milestones.length < OFFER_CONFIG.maxMilestones && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setMilestones([...milestones, { title: "", amount: "", dueInDays: "" }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Milestone
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Offer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -26,37 +26,75 @@ async function handleMarkAllRead() {
 
 const typeIcons: Record<string, string> = {
   order_created: "📦",
+  requirements_needed: "📋",
+  requirements_submitted: "📋",
   order_delivered: "🚀",
+  delivery_review_reminder: "⏳",
+  order_late: "⏰",
+  deadline_extension_requested: "📅",
+  deadline_extension_responded: "📅",
+  revision_requested: "🔁",
+  change_order_proposed: "📝",
+  change_order_responded: "📝",
   order_completed: "✅",
   order_cancelled: "❌",
   payment_received: "💰",
   new_message: "💬",
+  custom_offer_received: "🤝",
+  custom_offer_responded: "🤝",
   new_bid: "📝",
   bid_accepted: "🎉",
+  bid_shortlisted: "📌",
+  bid_rejected: "📭",
+  project_expired: "⌛",
   review_received: "⭐",
   dispute_opened: "⚠️",
   dispute_resolved: "✅",
+  dispute_message: "💬",
+  dispute_updated: "⚖️",
   verification_approved: "✅",
   verification_rejected: "❌",
   subscription_expiring: "⏰",
+  subscription_renewed: "🔄",
+  subscription_payment_failed: "💳",
+  subscription_expired: "⌛",
   system: "ℹ️",
 };
 
 const typeColors: Record<string, string> = {
   order_created: "bg-blue-500/10 text-blue-500",
+  requirements_needed: "bg-yellow-500/10 text-yellow-500",
+  requirements_submitted: "bg-blue-500/10 text-blue-500",
   order_delivered: "bg-cyan-500/10 text-cyan-500",
+  delivery_review_reminder: "bg-yellow-500/10 text-yellow-600",
+  order_late: "bg-red-500/10 text-red-500",
+  deadline_extension_requested: "bg-blue-500/10 text-blue-500",
+  deadline_extension_responded: "bg-blue-500/10 text-blue-500",
+  revision_requested: "bg-orange-500/10 text-orange-500",
+  change_order_proposed: "bg-purple-500/10 text-purple-500",
+  change_order_responded: "bg-purple-500/10 text-purple-500",
   order_completed: "bg-green-500/10 text-green-500",
   order_cancelled: "bg-red-500/10 text-red-500",
   payment_received: "bg-emerald-500/10 text-emerald-500",
   new_message: "bg-purple-500/10 text-purple-500",
+  custom_offer_received: "bg-emerald-500/10 text-emerald-500",
+  custom_offer_responded: "bg-emerald-500/10 text-emerald-500",
   new_bid: "bg-yellow-500/10 text-yellow-600",
   bid_accepted: "bg-green-500/10 text-green-500",
+  bid_shortlisted: "bg-blue-500/10 text-blue-500",
+  bid_rejected: "bg-gray-500/10 text-gray-500",
+  project_expired: "bg-yellow-500/10 text-yellow-600",
   review_received: "bg-yellow-500/10 text-yellow-600",
   dispute_opened: "bg-orange-500/10 text-orange-500",
   dispute_resolved: "bg-green-500/10 text-green-500",
+  dispute_message: "bg-orange-500/10 text-orange-500",
+  dispute_updated: "bg-orange-500/10 text-orange-500",
   verification_approved: "bg-green-500/10 text-green-500",
   verification_rejected: "bg-red-500/10 text-red-500",
   subscription_expiring: "bg-yellow-500/10 text-yellow-600",
+  subscription_renewed: "bg-emerald-500/10 text-emerald-500",
+  subscription_payment_failed: "bg-red-500/10 text-red-500",
+  subscription_expired: "bg-gray-500/10 text-gray-500",
   system: "bg-gray-500/10 text-gray-500",
 };
 
@@ -65,9 +103,11 @@ function getEntityLink(entityType: string | null, entityId: string | null): stri
   
   const links: Record<string, string> = {
     order: `/dashboard/orders/${entityId}`,
-    project: `/dashboard/projects/${entityId}`,
+    project: `/dashboard/projects/${entityId}/bids`,
+    bid: "/dashboard/bids",
     conversation: `/dashboard/messages/${entityId}`,
     service: `/dashboard/services/${entityId}`,
+    dispute: `/dashboard/disputes/${entityId}`,
   };
   
   return links[entityType] || null;
@@ -0,0 +1,398 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { AlertCircle, FilePen, Loader2, Plus, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { proposeChangeOrder, respondToChangeOrder, withdrawChangeOrder } from "@/lib/orders/actions";
+import type { ChangeOrder } from "@/lib/db/schema";
+import type { ChangeOrderInput } from "@/lib/orders/change-orders";
+
+interface ChangeOrderMilestone {
+  id: string;
+  title: string;
+  amount: number;
+  status: string;
+  dueDate: string | null;
+}
+
+interface ChangeOrderPanelProps {
+  orderId: string;
+  canPropose: boolean;
+  currentUserId: string;
+  milestones: ChangeOrderMilestone[];
+  changeOrders: (ChangeOrder & { summary: string[] })[];
+}
+
+// Editable copy of an unfunded milestone - amounts in rands, dates as yyyy-mm-dd
+interface MilestoneDraft {
+  id: string | null; // Null for a new milestone
+  title: string;
+  amount: string;
+  dueDate: string;
+  remove: boolean;
+}
+
+const statusVariant: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  accepted: "default",
+  declined: "destructive",
+  withdrawn: "outline",
+};
+
+function formatRands(cents: number): string {
+  return `R ${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2 })}`;
+}
+
+function toDateInput(date: string | null): string {
+  return date ? format(new Date(date), "yyyy-MM-dd") : "";
+}
+
+function fromDateInput(date: string): string | null {
+  return date ? new Date(`${date}T23:59:59`).toISOString() : null;
+}
+
+export function ChangeOrderPanel({
+  orderId,
+  canPropose,
+  currentUserId,
+  milestones,
+  changeOrders,
+}: ChangeOrderPanelProps) {
+  const router = useRouter();
+  const unfunded = milestones.filter((m) => m.status === "pending");
+  const initialDrafts = (): MilestoneDraft[] =>
+    unfunded.map((m) => ({
+      id: m.id,
+      title: m.title,
+      amount: String(m.amount / 100),
+      dueDate: toDateInput(m.dueDate),
+      remove: false,
+    }));
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [drafts, setDrafts] = useState<MilestoneDraft[]>(initialDrafts);
+  const [reason, setReason] = useState("");
+  const [responseNote, setResponseNote] = useState("");
+  const [loading, setLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasPending = changeOrders.some((c) => c.status === "pending");
+
+  const updateDraft = (index: number, patch: Partial<MilestoneDraft>) => {
+    setDrafts(drafts.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  // Turn the edited drafts into the list of changes the server expects
+  const buildChanges = (): ChangeOrderInput[] | string => {
+    const changes: ChangeOrderInput[] = [];
+
+    for (const draft of drafts) {
+      const amount = Math.round(parseFloat(draft.amount) * 100);
+
+      if (!draft.id) {
+        if (draft.remove) continue;
+        if (!draft.title.trim() || !(amount > 0)) return "New milestones need a title and an amount";
+        changes.push({
+          action: "add",
+          title: draft.title,
+          amount,
+          dueDate: fromDateInput(draft.dueDate) || undefined,
+        });
+        continue;
+      }
+
+      if (draft.remove) {
+        changes.push({ action: "remove", milestoneId: draft.id });
+        continue;
+      }
+
+      const original = unfunded.find((m) => m.id === draft.id)!;
+      const update: Extract<ChangeOrderInput, { action: "update" }> = { action: "update", milestoneId: draft.id };
+      if (draft.title.trim() !== original.title) update.title = draft.title;
+      if (amount !== original.amount) {
+        if (!(amount > 0)) return `"${original.title}" needs an amount`;
+        update.amount = amount;
+      }
+      if (draft.dueDate !== toDateInput(original.dueDate)) update.dueDate = fromDateInput(draft.dueDate);
+
+      if (Object.keys(update).length > 2) changes.push(update);
+    }
+
+    return changes;
+  };
+
+  const handlePropose = async () => {
+    const changes = buildChanges();
+    if (typeof changes === "string") {
+      setError(changes);
+      return;
+    }
+    if (changes.length === 0) {
+      setError("Make at least one change");
+      return;
+    }
+    if (!reason.trim()) {
+      setError("Explain why the milestones need to change");
+      return;
+    }
+
+    setLoading("propose");
+    setError(null);
+
+    const result = await proposeChangeOrder(orderId, { changes, reason });
+
+    if (result.success) {
+      setDialogOpen(false);
+      setReason("");
+    } else {
+      setError(result.error || "Failed to propose change order");
+    }
+
+    setLoading(null);
+    router.refresh();
+  };
+
+  const handleRespond = async (changeOrderId: string, accept: boolean) => {
+    setLoading(changeOrderId);
+    setError(null);
+
+    const result = await respondToChangeOrder(changeOrderId, accept, responseNote);
+
+    if (result.success) {
+      setResponseNote("");
+    } else {
+      setError(result.error || "Failed to respond");
+    }
+
+    setLoading(null);
+    router.refresh();
+  };
+
+  const handleWithdraw = async (changeOrderId: string) => {
+    setLoading(changeOrderId);
+    setError(null);
+
+    const result = await withdrawChangeOrder(changeOrderId);
+
+    if (!result.success) {
+      setError(result.error || "Failed to withdraw");
+    }
+
+    setLoading(null);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FilePen className="h-5 w-5" />
+          Change Orders
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {error && (
+          <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {canPropose && !hasPending && (
+          <Dialog
+            open={dialogOpen}
+            onOpenChange={(open) => {
+              setDialogOpen(open);
+              if (open) setDrafts(initialDrafts());
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button variant="outline" className="w-full">
+                Propose Milestone Changes
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Propose a Change Order</DialogTitle>
+                <DialogDescription>
+                  Add, remove, re-price or re-date milestones that haven&apos;t been funded yet. Nothing
+                  changes until the other party accepts; fees are recalculated on the new total.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+                {drafts.map((draft, index) => (
+                  <div
+                    key={draft.id || `new-${index}`}
+                    className={`grid gap-2 md:grid-cols-[1fr_120px_150px_auto] items-end rounded-lg border p-3 ${
+                      draft.remove ? "opacity-50" : ""
+                    }`}
+                  >
+                    <div className="space-y-1">
+                      <Label className="text-xs">{draft.id ? "Milestone" : "New milestone"}</Label>
+                      <Input
+                        value={draft.title}
+                        disabled={draft.remove}
+                        onChange={(e) => updateDraft(index, { title: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Amount (R)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={draft.amount}
+                        disabled={draft.remove}
+                        onChange={(e) => updateDraft(index, { amount: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Due date</Label>
+                      <Input
+                        type="date"
+                        value={draft.dueDate}
+                        disabled={draft.remove}
+                        onChange={(e) => updateDraft(index, { dueDate: e.target.value })}
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        draft.id
+                          ? updateDraft(index, { remove: !draft.remove })
+                          : setDrafts(drafts.filter((_, i) => i !== index))
+                      }
+                    >
+                      {draft.remove ? <Undo2 className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                ))}
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDrafts([...drafts, { id: null, title: "", amount: "", dueDate: "", remove: false }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Milestone
+                </Button>
+
+                <div className="space-y-2">
+                  <Label htmlFor="change-order-reason">Reason</Label>
+                  <Textarea
+                    id="change-order-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="What changed in the scope of the project?"
+                    rows={3}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handlePropose} disabled={loading === "propose"}>
+                  {loading === "propose" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Send Proposal
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+
+        {changeOrders.length === 0 ? (
+          <p className="text-muted-foreground">
+            No change orders. Milestones that haven&apos;t been funded can be changed if both parties agree.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {changeOrders.map((changeOrder) => {
+              const isMine = changeOrder.proposedBy === currentUserId;
+              return (
+                <div key={changeOrder.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">
+                      {isMine ? "You" : "The other party"} · {format(new Date(changeOrder.createdAt), "MMM d, yyyy")}
+                    </span>
+                    <Badge variant={statusVariant[changeOrder.status]}>{changeOrder.status}</Badge>
+                  </div>
+                  <ul className="list-disc pl-5 space-y-1">
+                    {changeOrder.summary.map((line, i) => (
+                      <li key={i}>{line}</li>
+                    ))}
+                  </ul>
+                  <p>
+                    Subtotal {formatRands(changeOrder.previousSubtotal)} → {formatRands(changeOrder.proposedSubtotal)}
+                  </p>
+                  <p className="text-muted-foreground whitespace-pre-wrap">{changeOrder.reason}</p>
+                  {changeOrder.responseNote && (
+                    <p className="text-muted-foreground italic">Response: {changeOrder.responseNote}</p>
+                  )}
+
+                  {changeOrder.status === "pending" && !isMine && (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={responseNote}
+                        onChange={(e) => setResponseNote(e.target.value)}
+                        placeholder="Optional note"
+                        rows={2}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleRespond(changeOrder.id, true)}
+                          disabled={loading === changeOrder.id}
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRespond(changeOrder.id, false)}
+                          disabled={loading === changeOrder.id}
+                        >
+                          Decline
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {changeOrder.status === "pending" && isMine && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleWithdraw(changeOrder.id)}
+                      disabled={loading === changeOrder.id}
+                    >
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
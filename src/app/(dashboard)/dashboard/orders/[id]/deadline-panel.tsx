@@ -0,0 +1,337 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { CalendarClock, Loader2, AlertCircle, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { cancelOrder, requestDeadlineExtension, respondToDeadlineExtension } from "@/lib/orders/actions";
+import type { DeadlineExtension } from "@/lib/db/schema";
+import type { MissedDeadline } from "@/lib/orders/deadlines";
+
+interface DeadlineMilestone {
+  id: string;
+  title: string;
+  status: string;
+  dueDate: string | null;
+}
+
+interface DeadlinePanelProps {
+  orderId: string;
+  orderStatus: string;
+  userRole: "buyer" | "seller";
+  deliveryDeadline: string | null;
+  missedDeadline: MissedDeadline | null;
+  milestones: DeadlineMilestone[];
+  extensions: DeadlineExtension[];
+}
+
+const EXTENDABLE_STATUSES = ["pending_requirements", "in_progress", "revision_requested"];
+const ORDER_DEADLINE = "order";
+
+const extensionStatusVariant: Record<string, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  accepted: "default",
+  declined: "destructive",
+};
+
+function formatDate(date: string | null): string {
+  return date ? format(new Date(date), "MMM d, yyyy") : "None";
+}
+
+export function DeadlinePanel({
+  orderId,
+  orderStatus,
+  userRole,
+  deliveryDeadline,
+  missedDeadline,
+  milestones,
+  extensions,
+}: DeadlinePanelProps) {
+  const router = useRouter();
+  const [dialogOpen, setDialogOpen] = useState<"extension" | "cancel" | null>(null);
+  const [loading, setLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [target, setTarget] = useState(ORDER_DEADLINE);
+  const [newDeadline, setNewDeadline] = useState("");
+  const [reason, setReason] = useState("");
+  const [responseNote, setResponseNote] = useState("");
+
+  const hasPending = extensions.some((e) => e.status === "pending");
+  const canRequest = userRole === "seller" && EXTENDABLE_STATUSES.includes(orderStatus) && !hasPending;
+  const openMilestones = milestones.filter((m) => !["released", "refunded", "cancelled"].includes(m.status));
+  const milestoneTitle = (id: string | null) => milestones.find((m) => m.id === id)?.title;
+
+  const handleRequest = async () => {
+    if (!newDeadline || !reason.trim()) {
+      setError("Choose a new deadline and explain why you need it");
+      return;
+    }
+
+    setLoading("request");
+    setError(null);
+
+    const result = await requestDeadlineExtension(orderId, {
+      milestoneId: target === ORDER_DEADLINE ? undefined : target,
+      requestedDeadline: new Date(`${newDeadline}T23:59:59`).toISOString(),
+      reason,
+    });
+
+    if (result.success) {
+      setDialogOpen(null);
+      setNewDeadline("");
+      setReason("");
+    } else {
+      setError(result.error || "Failed to request extension");
+    }
+
+    setLoading(null);
+    router.refresh();
+  };
+
+  const handleRespond = async (extensionId: string, accept: boolean) => {
+    setLoading(extensionId);
+    setError(null);
+
+    const result = await respondToDeadlineExtension(extensionId, accept, responseNote);
+
+    if (result.success) {
+      setResponseNote("");
+    } else {
+      setError(result.error || "Failed to respond");
+    }
+
+    setLoading(null);
+    router.refresh();
+  };
+
+  const handleCancel = async () => {
+    if (!reason.trim()) {
+      setError("Please give a reason for cancelling");
+      return;
+    }
+
+    setLoading("cancel");
+    setError(null);
+
+    const result = await cancelOrder(orderId, reason);
+
+    if (result.success) {
+      setDialogOpen(null);
+      setReason("");
+    } else {
+      setError(result.error || "Failed to cancel order");
+    }
+
+    setLoading(null);
+    router.refresh();
+  };
+
+  return (
+    <Card className={missedDeadline ? "border-destructive/50" : ""}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Deadline
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {error && (
+          <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Delivery due</span>
+          <span className={missedDeadline ? "text-destructive font-medium" : ""}>
+            {formatDate(deliveryDeadline)}
+          </span>
+        </div>
+
+        {missedDeadline && (
+          <p className="text-destructive">
+            {missedDeadline.milestoneTitle ? `"${missedDeadline.milestoneTitle}" was` : "This order was"} due on{" "}
+            {formatDate(missedDeadline.deadline)}.
+          </p>
+        )}
+
+        {/* Buyer: cancel a late order for a full refund */}
+        {userRole === "buyer" && missedDeadline && (
+          <Dialog open={dialogOpen === "cancel"} onOpenChange={(open) => setDialogOpen(open ? "cancel" : null)}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="w-full text-destructive hover:text-destructive">
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel & Refund
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Cancel Late Order</DialogTitle>
+                <DialogDescription>
+                  The seller missed the deadline, so you can cancel and get back everything still held
+                  in escrow. Milestones already released are not refunded.
+                </DialogDescription>
+              </DialogHeader>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why are you cancelling?"
+                rows={3}
+              />
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(null)}>
+                  Keep Order
+                </Button>
+                <Button variant="destructive" onClick={handleCancel} disabled={loading === "cancel"}>
+                  {loading === "cancel" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Cancel Order
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+
+        {/* Seller: ask for more time */}
+        {canRequest && (
+          <Dialog open={dialogOpen === "extension"} onOpenChange={(open) => setDialogOpen(open ? "extension" : null)}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="w-full">
+                Request Extension
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Request a Deadline Extension</DialogTitle>
+                <DialogDescription>
+                  The buyer can accept or decline. The current deadline applies until they accept.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {openMilestones.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Deadline to extend</Label>
+                    <Select value={target} onValueChange={setTarget}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ORDER_DEADLINE}>
+                          Whole order (due {formatDate(deliveryDeadline)})
+                        </SelectItem>
+                        {openMilestones.map((m) => (
+                          <SelectItem key={m.id} value={m.id}>
+                            {m.title} (due {formatDate(m.dueDate)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="new-deadline">New deadline</Label>
+                  <Input
+                    id="new-deadline"
+                    type="date"
+                    value={newDeadline}
+                    onChange={(e) => setNewDeadline(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="extension-reason">Reason</Label>
+                  <Textarea
+                    id="extension-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Explain why you need more time"
+                    rows={3}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleRequest} disabled={loading === "request"}>
+                  {loading === "request" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Send Request
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+
+        {/* Extension requests */}
+        {extensions.length > 0 && (
+          <div className="space-y-3 pt-2">
+            <p className="font-medium">Extension Requests</p>
+            {extensions.map((extension) => (
+              <div key={extension.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span>
+                    {milestoneTitle(extension.milestoneId) || "Order"} → {formatDate(extension.requestedDeadline)}
+                  </span>
+                  <Badge variant={extensionStatusVariant[extension.status]}>{extension.status}</Badge>
+                </div>
+                <p className="text-muted-foreground whitespace-pre-wrap">{extension.reason}</p>
+                {extension.responseNote && (
+                  <p className="text-muted-foreground italic">Buyer: {extension.responseNote}</p>
+                )}
+
+                {userRole === "buyer" && extension.status === "pending" && (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={responseNote}
+                      onChange={(e) => setResponseNote(e.target.value)}
+                      placeholder="Optional note to the seller"
+                      rows={2}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleRespond(extension.id, true)}
+                        disabled={loading === extension.id}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRespond(extension.id, false)}
+                        disabled={loading === extension.id}
+                      >
+                        Decline
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { format } from "date-fns";
 import {
   CheckCircle2,
   Clock,
@@ -9,10 +10,12 @@ import {
   Upload,
   AlertCircle,
   Loader2,
+  RotateCcw,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import {
   Dialog,
   DialogContent,
@@ -23,7 +26,8 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { formatCurrency } from "@/lib/utils";
-import { fundMilestone, submitDelivery, acceptDelivery } from "@/lib/orders/actions";
+import { fundMilestone, submitDelivery, acceptDelivery, requestRevision } from "@/lib/orders/actions";
+import type { OrderDelivery, RevisionRequest } from "@/lib/db/schema";
 
 interface Milestone {
   id: string;
@@ -36,10 +40,15 @@ interface Milestone {
   fundedAt: string | null;
   deliveredAt: string | null;
   releasedAt: string | null;
+  revisionsAllowed: number | null;
+  revisionsUsed: number | null;
 }
 
+type Delivery = OrderDelivery & { revision: RevisionRequest | null };
+
 interface MilestoneTimelineProps {
   milestones: Milestone[];
+  deliveries: Delivery[];
   userRole: "buyer" | "seller";
   orderId: string;
 }
@@ -52,12 +61,15 @@ const statusConfig: Record<string, { label: string; color: string; bgColor: stri
   released: { label: "Released", color: "text-green-600", bgColor: "bg-green-500" },
   disputed: { label: "Disputed", color: "text-red-600", bgColor: "bg-red-500" },
   refunded: { label: "Refunded", color: "text-gray-600", bgColor: "bg-gray-500" },
+  cancelled: { label: "Cancelled", color: "text-gray-400", bgColor: "bg-gray-300" },
 };
 
-export function MilestoneTimeline({ milestones, userRole, orderId }: MilestoneTimelineProps) {
+export function MilestoneTimeline({ milestones, deliveries, userRole, orderId }: MilestoneTimelineProps) {
   const router = useRouter();
   const [loadingId, setLoadingId] = useState<string | null>(null);
   const [deliveryMessage, setDeliveryMessage] = useState("");
+  const [revisionReason, setRevisionReason] = useState("");
+  const [revisionDetails, setRevisionDetails] = useState("");
   const [dialogOpen, setDialogOpen] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -66,11 +78,14 @@ export function MilestoneTimeline({ milestones, userRole, orderId }: MilestoneTi
     setError(null);
     
     const result = await fundMilestone(milestoneId, "ozow");
-    
-    if (!result.success) {
-      setError(result.error || "Failed to fund milestone");
+
+    // Redirect to payment gateway; funding is confirmed by its webhook
+    if (result.success && result.redirectUrl) {
+      window.location.assign(result.redirectUrl);
+      return;
     }
-    
+
+    setError(result.error || "Failed to fund milestone");
     setLoadingId(null);
     router.refresh();
   };
@@ -111,6 +126,29 @@ export function MilestoneTimeline({ milestones, userRole, orderId }: MilestoneTi
     router.refresh();
   };
 
+  const handleRequestRevision = async (milestoneId: string) => {
+    if (!revisionReason.trim()) {
+      setError("Please say what needs to change");
+      return;
+    }
+
+    setLoadingId(milestoneId);
+    setError(null);
+
+    const result = await requestRevision(orderId, revisionReason, revisionDetails, milestoneId);
+
+    if (result.success) {
+      setRevisionReason("");
+      setRevisionDetails("");
+      setDialogOpen(null);
+    } else {
+      setError(result.error || "Failed to request revision");
+    }
+
+    setLoadingId(null);
+    router.refresh();
+  };
+
   return (
     <div className="space-y-4">
       {error && (
@@ -125,6 +163,9 @@ export function MilestoneTimeline({ milestones, userRole, orderId }: MilestoneTi
         const isLoading = loadingId === milestone.id;
         const isLast = index === milestones.length - 1;
         const milestoneNumber = milestone.sortOrder ?? index + 1;
+        const history = deliveries.filter((d) => d.milestoneId === milestone.id);
+        const revisionsAllowed = milestone.revisionsAllowed ?? 2;
+        const revisionsLeft = Math.max(revisionsAllowed - (milestone.revisionsUsed || 0), 0);
 
         return (
           <div key={milestone.id} className="relative">
@@ -181,9 +222,37 @@ export function MilestoneTimeline({ milestones, userRole, orderId }: MilestoneTi
                         Due: {new Date(milestone.dueDate).toLocaleDateString()}
                       </span>
                     )}
+                    {history.length > 0 && (
+                      <span className="text-muted-foreground">
+                        Revisions: {revisionsLeft} of {revisionsAllowed} left
+                      </span>
+                    )}
                   </div>
                 </div>
 
+                {/* Delivery history, newest first */}
+                {history.length > 0 && (
+                  <div className="pl-16 mb-4 space-y-2">
+                    {history.map((delivery) => (
+                      <div key={delivery.id} className="rounded-lg border p-3 text-sm space-y-1">
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                          <span>{delivery.deliveryType === "revision" ? "Revised delivery" : "Delivery"}</span>
+                          <span>{format(new Date(delivery.createdAt), "MMM d, yyyy HH:mm")}</span>
+                        </div>
+                        <p className="whitespace-pre-wrap">{delivery.message}</p>
+                        {delivery.revision && (
+                          <div className="rounded bg-orange-500/10 p-2 text-xs">
+                            <p className="font-medium">Revision requested: {delivery.revision.reason}</p>
+                            {delivery.revision.details && (
+                              <p className="text-muted-foreground whitespace-pre-wrap">{delivery.revision.details}</p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Action buttons */}
                 <div className="pl-16 flex gap-2">
                   {/* Buyer: Fund milestone */}
@@ -259,6 +328,49 @@ export function MilestoneTimeline({ milestones, userRole, orderId }: MilestoneTi
                       )}
                     </Button>
                   )}
+
+                  {/* Buyer: Send a delivered milestone back for changes */}
+                  {userRole === "buyer" && milestone.status === "delivered" && revisionsLeft > 0 && (
+                    <Dialog open={dialogOpen === `revision-${milestone.id}`} onOpenChange={(open) => setDialogOpen(open ? `revision-${milestone.id}` : null)}>
+                      <DialogTrigger asChild>
+                        <Button size="sm" variant="outline">
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Request Revision
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Request a Revision</DialogTitle>
+                          <DialogDescription>
+                            &quot;{milestone.title}&quot; goes back to the seller. {revisionsLeft} of {revisionsAllowed} revisions left on this milestone.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <Input
+                          value={revisionReason}
+                          onChange={(e) => setRevisionReason(e.target.value)}
+                          placeholder="What needs to change?"
+                        />
+                        <Textarea
+                          value={revisionDetails}
+                          onChange={(e) => setRevisionDetails(e.target.value)}
+                          placeholder="Any details that will help the seller (optional)"
+                          rows={4}
+                        />
+                        <DialogFooter>
+                          <Button variant="outline" onClick={() => setDialogOpen(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            onClick={() => handleRequestRevision(milestone.id)}
+                            disabled={isLoading}
+                          >
+                            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Request Revision
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, Loader2, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { openDispute } from "@/lib/disputes/actions";
+import { DISPUTE_CATEGORIES, EVIDENCE_CONFIG, type DisputeCategory } from "@/lib/disputes/config";
+
+interface OpenDisputeDialogProps {
+  orderId: string;
+}
+
+export function OpenDisputeDialog({ orderId }: OpenDisputeDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [category, setCategory] = useState<DisputeCategory | "">("");
+  const [description, setDescription] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = (selected: FileList | null) => {
+    if (!selected) return;
+    setFiles([...files, ...Array.from(selected)].slice(0, EVIDENCE_CONFIG.maxFiles));
+  };
+
+  const handleSubmit = async () => {
+    if (!category) {
+      setError("Choose what the dispute is about");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const formData = new FormData();
+    formData.set("orderId", orderId);
+    formData.set("category", category);
+    formData.set("description", description);
+    for (const file of files) {
+      formData.append("evidence", file);
+    }
+
+    const result = await openDispute(formData);
+
+    if (result.success) {
+      setOpen(false);
+      setCategory("");
+      setDescription("");
+      setFiles([]);
+      if (result.disputeId) {
+        router.push(`/dashboard/disputes/${result.disputeId}`);
+        return;
+      }
+    } else {
+      setError(result.error || "Failed to open dispute");
+    }
+
+    setLoading(false);
+    router.refresh();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full text-destructive hover:text-destructive">
+          <AlertCircle className="mr-2 h-4 w-4" />
+          Open Dispute
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Open a Dispute</DialogTitle>
+          <DialogDescription>
+            Payments on this order are put on hold while our team reviews the dispute. Try
+            messaging the seller first - most problems are sorted out that way.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>What went wrong?</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as DisputeCategory)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DISPUTE_CATEGORIES) as DisputeCategory[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {DISPUTE_CATEGORIES[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dispute-description">Describe the problem</Label>
+            <Textarea
+              id="dispute-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What was agreed, what happened, and what outcome you're looking for"
+              rows={5}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dispute-evidence">
+              Evidence (up to {EVIDENCE_CONFIG.maxFiles} files, {EVIDENCE_CONFIG.maxFileSize / 1024 / 1024} MB each)
+            </Label>
+            <Input
+              id="dispute-evidence"
+              type="file"
+              multiple
+              accept={EVIDENCE_CONFIG.allowedTypes.join(",")}
+              disabled={files.length >= EVIDENCE_CONFIG.maxFiles}
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+            {files.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {files.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex items-center gap-2">
+                    <Paperclip className="h-3 w-3 text-muted-foreground" />
+                    <span className="flex-1 truncate">{file.name}</span>
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-destructive"
+                      onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Open Dispute
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
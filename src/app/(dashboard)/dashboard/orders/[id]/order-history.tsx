@@ -0,0 +1,83 @@
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ORDER_STATUS_LABELS,
+  MILESTONE_STATUS_LABELS,
+  type OrderStatus,
+  type MilestoneStatus,
+  type OrderTimelineEvent,
+} from "@/lib/orders/state-machine";
+
+interface OrderHistoryProps {
+  events: OrderTimelineEvent[];
+  buyerId: string;
+  sellerId: string;
+  currentUserId: string;
+}
+
+function describeEvent(event: OrderTimelineEvent): string {
+  const subject = event.milestoneId ? `Milestone "${event.milestoneTitle || "Milestone"}"` : "Order";
+
+  if (event.type === "deadline_missed") {
+    return `${subject} - deadline missed`;
+  }
+
+  if (event.type === "deadline_extended") {
+    return `${subject} - deadline extended`;
+  }
+
+  if (event.type === "scope_changed") {
+    return "Change order accepted";
+  }
+
+  if (event.milestoneId) {
+    const label = MILESTONE_STATUS_LABELS[event.toStatus as MilestoneStatus] || event.toStatus;
+    return `Milestone "${event.milestoneTitle || "Milestone"}" - ${label}`;
+  }
+
+  if (!event.fromStatus) {
+    return "Order placed";
+  }
+
+  return ORDER_STATUS_LABELS[event.toStatus as OrderStatus] || event.toStatus;
+}
+
+function describeActor(event: OrderTimelineEvent, props: OrderHistoryProps): string {
+  if (!event.actorId) return "Zomieks";
+  if (event.actorId === props.currentUserId) return "You";
+  if (event.actorId === props.buyerId) return event.actorName || "Buyer";
+  if (event.actorId === props.sellerId) return event.actorName || "Seller";
+  return "Zomieks Support";
+}
+
+export function OrderHistory(props: OrderHistoryProps) {
+  const { events } = props;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Order History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity yet.</p>
+        ) : (
+          <ol className="relative border-l border-muted ml-2 space-y-5">
+            {[...events].reverse().map((event) => (
+              <li key={event.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                <p className="text-sm font-medium">{describeEvent(event)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {describeActor(event, props)} · {format(new Date(event.createdAt), "MMM d, yyyy HH:mm")}
+                </p>
+                {event.note && (
+                  <p className="mt-1 text-sm text-muted-foreground whitespace-pre-wrap">{event.note}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { Suspense } from "react";
 import { notFound } from "next/navigation";
 import Link from "next/link";
+import { format } from "date-fns";
 import { ArrowLeft, Clock, User, Calendar, AlertCircle, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,9 +10,20 @@ import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { requireSession } from "@/lib/auth/server";
 import { getOrderById } from "@/lib/orders/actions";
+import { getOrderDocuments } from "@/lib/documents/actions";
 import { formatCurrency } from "@/lib/utils";
+import { formatFeeRate } from "@/lib/fees";
 import { MilestoneTimeline } from "./milestone-timeline";
+import { OrderHistory } from "./order-history";
+import { DeadlinePanel } from "./deadline-panel";
+import { ChangeOrderPanel } from "./change-order-panel";
+import { OpenDisputeDialog } from "./open-dispute-dialog";
+import { RequirementsForm } from "./requirements-form";
+import { RequirementsAnswers } from "./requirements-answers";
 import { PaymentSelector, PaymentStatusAlert } from "@/components/payments";
+import { DocumentList } from "@/components/documents";
+import { SANDBOX_CONFIG } from "@/lib/payments/config";
+import { DISPUTE_CATEGORIES, DISPUTABLE_ORDER_STATUSES } from "@/lib/disputes";
 
 interface OrderDetailPageProps {
   params: Promise<{ id: string }>;
@@ -33,7 +45,7 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
   const session = await requireSession();
   const { id } = await params;
 
-  const order = await getOrderById(id);
+  const [order, documents] = await Promise.all([getOrderById(id), getOrderDocuments(id)]);
 
   if (!order) {
     notFound();
@@ -44,7 +56,7 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
   const status = statusConfig[order.status] || statusConfig.pending_payment;
 
   const fundedAmount = order.milestones
-    .filter((m) => m.status !== "pending")
+    .filter((m) => m.status !== "pending" && m.status !== "cancelled")
     .reduce((sum, m) => sum + m.amount, 0);
 
   const completedAmount = order.milestones
@@ -77,7 +89,7 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
           </div>
 
           <Button asChild>
-            <Link href={`/dashboard/messages`}>
+            <Link href={order.conversationId ? `/dashboard/messages/${order.conversationId}` : `/dashboard/messages`}>
               <MessageSquare className="mr-2 h-4 w-4" />
               Message {isBuyer ? "Seller" : "Buyer"}
             </Link>
@@ -111,6 +123,40 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
         </Alert>
       )}
 
+      {order.status === "pending_requirements" && !isBuyer && (
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertTitle>Awaiting Requirements</AlertTitle>
+          <AlertDescription>
+            The order is paid. Work starts once the buyer has answered your requirements questions.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {order.autoCompletesAt && (
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertTitle>Delivery Awaiting Review</AlertTitle>
+          <AlertDescription>
+            {isBuyer
+              ? `Review the delivery by ${format(new Date(order.autoCompletesAt), "MMM d, yyyy")}. If you don't accept it or request a revision, it will be accepted automatically and payment released to the seller.`
+              : `If the buyer doesn't respond, this delivery will be accepted automatically on ${format(new Date(order.autoCompletesAt), "MMM d, yyyy")}.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {order.missedDeadline && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Order Is Late</AlertTitle>
+          <AlertDescription>
+            {isBuyer
+              ? `The seller missed the deadline of ${format(new Date(order.missedDeadline.deadline), "MMM d, yyyy")}. You can cancel for a full refund of what's in escrow, or wait for the delivery.`
+              : `You missed the deadline of ${format(new Date(order.missedDeadline.deadline), "MMM d, yyyy")}. Deliver now or request an extension - until then the buyer can cancel for a full refund.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Main Content - Milestones */}
         <div className="lg:col-span-2 space-y-6">
@@ -121,23 +167,49 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
             <CardContent>
               <MilestoneTimeline
                 milestones={order.milestones}
+                deliveries={order.deliveries}
                 userRole={userRole}
                 orderId={order.id}
               />
             </CardContent>
           </Card>
 
-          {/* Requirements */}
-          {order.requirements && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Project Requirements</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-sm whitespace-pre-wrap">{order.requirements}</p>
-              </CardContent>
-            </Card>
+          {/* Change orders for unfunded milestones */}
+          {order.orderType === "project" &&
+            (["pending_payment", "in_progress", "delivered", "revision_requested"].includes(order.status) ||
+              order.changeOrders.length > 0) && (
+              <ChangeOrderPanel
+                orderId={order.id}
+                canPropose={["pending_payment", "in_progress", "delivered", "revision_requested"].includes(order.status)}
+                currentUserId={session.userId}
+                milestones={order.milestones}
+                changeOrders={order.changeOrders}
+              />
+            )}
+
+          {/* Requirements - the buyer answers the service's questions before work starts */}
+          {order.status === "pending_requirements" && isBuyer ? (
+            <RequirementsForm
+              orderId={order.id}
+              questions={order.requirementResponses.map((r) => r.question)}
+            />
+          ) : (
+            order.status !== "pending_requirements" &&
+            (order.requirementAnswers || order.requirements) && (
+              <RequirementsAnswers
+                orderId={order.id}
+                responses={order.requirementResponses}
+                notes={order.requirements}
+              />
+            )
           )}
+
+          <OrderHistory
+            events={order.events}
+            buyerId={order.buyerId}
+            sellerId={order.sellerId}
+            currentUserId={session.userId}
+          />
         </div>
 
         {/* Sidebar */}
@@ -153,6 +225,7 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
                   ? `Milestone 1: ${order.milestones[0].title}`
                   : `Order ${order.orderNumber}`
               }
+              sandboxEnabled={SANDBOX_CONFIG.enabled}
             />
           )}
 
@@ -167,8 +240,16 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
                   <span className="text-muted-foreground">Subtotal</span>
                   <span>{formatCurrency(order.subtotal)}</span>
                 </div>
+                {order.extras.map((extra) => (
+                  <div key={extra.id} className="flex justify-between text-xs text-muted-foreground pl-3">
+                    <span>+ {extra.title}</span>
+                    <span>{formatCurrency(extra.price)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Buyer Fee (3%)</span>
+                  <span className="text-muted-foreground">
+                    Buyer Fee{order.buyerFeeBps !== null && ` (${formatFeeRate(order.buyerFeeBps)})`}
+                  </span>
                   <span>{formatCurrency(order.buyerFee)}</span>
                 </div>
                 <Separator />
@@ -199,7 +280,9 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
                 <>
                   <Separator />
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Platform Fee (8%)</span>
+                    <span className="text-muted-foreground">
+                      Platform Fee{order.sellerFeeBps !== null && ` (${formatFeeRate(order.sellerFeeBps)})`}
+                    </span>
                     <span>-{formatCurrency(order.sellerFee)}</span>
                   </div>
                   <div className="flex justify-between font-bold text-green-600">
@@ -211,6 +294,9 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
             </CardContent>
           </Card>
 
+          {/* Invoices, receipts and statements */}
+          <DocumentList documents={documents} />
+
           {/* Timeline Card */}
           <Card>
             <CardHeader>
@@ -239,6 +325,20 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
             </CardContent>
           </Card>
 
+          {/* Deadline, late cancellation and extension requests */}
+          {(["pending_requirements", "in_progress", "revision_requested"].includes(order.status) ||
+            order.extensions.length > 0) && (
+            <DeadlinePanel
+              orderId={order.id}
+              orderStatus={order.status}
+              userRole={userRole}
+              deliveryDeadline={order.deliveryDeadline}
+              missedDeadline={order.missedDeadline}
+              milestones={order.milestones}
+              extensions={order.extensions}
+            />
+          )}
+
           {/* Parties */}
           <Card>
             <CardHeader>
@@ -257,21 +357,38 @@ export default async function OrderDetailPage({ params }: OrderDetailPageProps)
             </CardContent>
           </Card>
 
-          {/* Dispute Option */}
-          {order.status === "in_progress" && (
-            <Card>
-              <CardContent className="py-4">
-                <Button variant="outline" className="w-full text-destructive hover:text-destructive" asChild>
-                  <Link href={`/dashboard/disputes/new?order=${order.id}`}>
-                    <AlertCircle className="mr-2 h-4 w-4" />
-                    Open Dispute
-                  </Link>
-                </Button>
-                <p className="text-xs text-muted-foreground text-center mt-2">
-                  Having issues? We&apos;ll help mediate.
+          {/* Dispute */}
+          {order.dispute ? (
+            <Card className="border-destructive/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-destructive">
+                  <AlertCircle className="h-5 w-5" />
+                  Dispute {order.dispute.status === "open" ? "Open" : "Under Review"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p>{DISPUTE_CATEGORIES[order.dispute.category]}</p>
+                <p className="text-muted-foreground">
+                  Opened {format(new Date(order.dispute.createdAt), "MMM d, yyyy")}. Payments on this
+                  order are on hold until our team resolves it.
                 </p>
+                <Button variant="outline" className="w-full mt-3" asChild>
+                  <Link href={`/dashboard/disputes/${order.dispute.id}`}>View Dispute</Link>
+                </Button>
               </CardContent>
             </Card>
+          ) : (
+            isBuyer &&
+            DISPUTABLE_ORDER_STATUSES.includes(order.status) && (
+              <Card>
+                <CardContent className="py-4">
+                  <OpenDisputeDialog orderId={order.id} />
+                  <p className="text-xs text-muted-foreground text-center mt-2">
+                    Having issues? We&apos;ll help mediate.
+                  </p>
+                </CardContent>
+              </Card>
+            )
           )}
         </div>
       </div>
@@ -0,0 +1,72 @@
+import { ClipboardList, Paperclip } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { getRequirementFileUrl } from "@/lib/services/requirements";
+import type { RequirementResponse } from "@/lib/orders/requirements";
+
+interface RequirementsAnswersProps {
+  orderId: string;
+  responses: RequirementResponse[];
+  notes: string | null;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function RequirementsAnswers({ orderId, responses, notes }: RequirementsAnswersProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          Requirements
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {responses.map(({ question, answer }) => (
+          <div key={question.id} className="space-y-1">
+            <p className="font-medium">{question.label}</p>
+            {!answer ? (
+              <p className="text-muted-foreground italic">Not answered</p>
+            ) : question.type === "text" ? (
+              <p className="whitespace-pre-wrap">{answer.text}</p>
+            ) : question.type === "multiple_choice" ? (
+              <div className="flex flex-wrap gap-2">
+                {(answer.choices || []).map((choice) => (
+                  <Badge key={choice} variant="secondary">
+                    {choice}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <ul className="space-y-1">
+                {(answer.files || []).map((file) => (
+                  <li key={file.key} className="flex items-center gap-2">
+                    <Paperclip className="h-3 w-3 text-muted-foreground" />
+                    <a
+                      href={getRequirementFileUrl(orderId, file.key)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline truncate"
+                    >
+                      {file.name}
+                    </a>
+                    <span className="text-muted-foreground">{formatSize(file.size)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+
+        {notes && (
+          <div className="space-y-1">
+            {responses.length > 0 && <p className="font-medium">Additional notes</p>}
+            <p className="whitespace-pre-wrap">{notes}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
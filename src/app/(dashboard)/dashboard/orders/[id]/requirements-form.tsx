@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, ClipboardList, Loader2, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { submitRequirements } from "@/lib/orders/actions";
+import {
+  REQUIREMENTS_CONFIG,
+  getMissingRequirements,
+  type RequirementQuestion,
+  type RequirementAnswer,
+} from "@/lib/services/requirements";
+
+interface RequirementsFormProps {
+  orderId: string;
+  questions: RequirementQuestion[];
+}
+
+export function RequirementsForm({ orderId, questions }: RequirementsFormProps) {
+  const router = useRouter();
+  const [texts, setTexts] = useState<Record<string, string>>({});
+  const [choices, setChoices] = useState<Record<string, string[]>>({});
+  const [files, setFiles] = useState<Record<string, File[]>>({});
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleChoice = (question: RequirementQuestion, option: string) => {
+    const current = choices[question.id] || [];
+    const next = current.includes(option)
+      ? current.filter((c) => c !== option)
+      : [...current, option];
+    setChoices({ ...choices, [question.id]: next });
+  };
+
+  const addFiles = (questionId: string, selected: FileList | null) => {
+    if (!selected) return;
+    setFiles({
+      ...files,
+      [questionId]: [...(files[questionId] || []), ...Array.from(selected)].slice(
+        0,
+        REQUIREMENTS_CONFIG.maxFilesPerQuestion
+      ),
+    });
+  };
+
+  const removeFile = (questionId: string, index: number) => {
+    setFiles({ ...files, [questionId]: (files[questionId] || []).filter((_, i) => i !== index) });
+  };
+
+  const handleSubmit = async () => {
+    const answers: RequirementAnswer[] = questions.map((question) => ({
+      questionId: question.id,
+      text: texts[question.id],
+      choices: choices[question.id],
+    }));
+
+    // File answers only exist once uploaded - count the questions with files picked
+    const missing = getMissingRequirements(
+      questions,
+      answers,
+      new Set(Object.keys(files).filter((questionId) => files[questionId].length > 0))
+    );
+    if (missing.length > 0) {
+      setError(`Please answer: ${missing.join(", ")}`);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const formData = new FormData();
+    formData.set("orderId", orderId);
+    formData.set("answers", JSON.stringify(answers));
+    formData.set("requirements", notes);
+    for (const [questionId, list] of Object.entries(files)) {
+      for (const file of list) {
+        formData.append(`file:${questionId}`, file);
+      }
+    }
+
+    const result = await submitRequirements(formData);
+
+    if (!result.success) {
+      setError(result.error || "Failed to submit requirements");
+    }
+
+    setLoading(false);
+    router.refresh();
+  };
+
+  return (
+    <Card className="border-primary/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          Submit Your Requirements
+        </CardTitle>
+        <CardDescription>
+          The seller starts working once you&apos;ve answered
+          {questions.length > 0 ? " the questions marked required." : " - tell them what you need."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {questions.map((question, index) => (
+          <div key={question.id} className="space-y-2">
+            <Label htmlFor={`requirement-${question.id}`}>
+              {index + 1}. {question.label}
+              {question.required && <span className="text-destructive"> *</span>}
+            </Label>
+            {question.description && (
+              <p className="text-sm text-muted-foreground">{question.description}</p>
+            )}
+
+            {question.type === "text" && (
+              <Textarea
+                id={`requirement-${question.id}`}
+                value={texts[question.id] || ""}
+                onChange={(e) => setTexts({ ...texts, [question.id]: e.target.value })}
+                maxLength={REQUIREMENTS_CONFIG.maxTextLength}
+                rows={3}
+              />
+            )}
+
+            {question.type === "multiple_choice" && !question.allowMultiple && (
+              <RadioGroup
+                value={choices[question.id]?.[0] || ""}
+                onValueChange={(value: string) => setChoices({ ...choices, [question.id]: [value] })}
+              >
+                {(question.options || []).map((option, i) => (
+                  <Label
+                    key={option}
+                    htmlFor={`requirement-${question.id}-${i}`}
+                    className="flex items-center gap-3 font-normal cursor-pointer"
+                  >
+                    <RadioGroupItem value={option} id={`requirement-${question.id}-${i}`} />
+                    {option}
+                  </Label>
+                ))}
+              </RadioGroup>
+            )}
+
+            {question.type === "multiple_choice" && question.allowMultiple && (
+              <div className="space-y-2">
+                {(question.options || []).map((option) => (
+                  <Label key={option} className="flex items-center gap-3 font-normal cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={(choices[question.id] || []).includes(option)}
+                      onChange={() => toggleChoice(question, option)}
+                    />
+                    {option}
+                  </Label>
+                ))}
+              </div>
+            )}
+
+            {question.type === "file" && (
+              <>
+                <Input
+                  id={`requirement-${question.id}`}
+                  type="file"
+                  multiple
+                  accept={REQUIREMENTS_CONFIG.allowedTypes.join(",")}
+                  disabled={(files[question.id] || []).length >= REQUIREMENTS_CONFIG.maxFilesPerQuestion}
+                  onChange={(e) => {
+                    addFiles(question.id, e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Up to {REQUIREMENTS_CONFIG.maxFilesPerQuestion} files,{" "}
+                  {REQUIREMENTS_CONFIG.maxFileSize / 1024 / 1024} MB each
+                </p>
+                {(files[question.id] || []).length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {files[question.id].map((file, i) => (
+                      <li key={`${file.name}-${i}`} className="flex items-center gap-2">
+                        <Paperclip className="h-3 w-3 text-muted-foreground" />
+                        <span className="flex-1 truncate">{file.name}</span>
+                        <button
+                          type="button"
+                          className="text-muted-foreground hover:text-destructive"
+                          onClick={() => removeFile(question.id, i)}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label htmlFor="requirement-notes">
+            {questions.length > 0 ? "Anything else the seller should know?" : "What do you need?"}
+          </Label>
+          <Textarea
+            id="requirement-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Goals, references, deadlines, examples you like..."
+            rows={4}
+          />
+        </div>
+
+        <Button onClick={handleSubmit} disabled={loading} className="w-full">
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Submit Requirements
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
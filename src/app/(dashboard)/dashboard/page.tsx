@@ -1,5 +1,6 @@
 // Dashboard home page
 import { getServerSession } from "@/lib/auth/server";
+import { getWallet } from "@/lib/ledger/actions";
 import { redirect } from "next/navigation";
 import Link from "next/link";
 import {
@@ -21,6 +22,7 @@ import {
   AlertCircle,
   CheckCircle,
   Clock,
+  Wallet,
 } from "lucide-react";
 
 export default async function DashboardPage() {
@@ -38,6 +40,8 @@ export default async function DashboardPage() {
     unreadMessages: 0,
   };
 
+  const wallet = (await getWallet()) ?? { available: 0, pending: 0, inEscrow: 0 };
+
   return (
     <div className="space-y-8">
       {/* Welcome section */}
@@ -146,6 +150,38 @@ export default async function DashboardPage() {
         />
       </div>
 
+      {/* Wallet balances */}
+      <Card className="border-slate-800 bg-slate-900/50">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-emerald-400" />
+            Wallet
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            Released earnings clear before they can be withdrawn
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3">
+            <WalletBalanceItem
+              label="Available"
+              amount={wallet.available}
+              description="Ready to withdraw"
+            />
+            <WalletBalanceItem
+              label="Pending Clearance"
+              amount={wallet.pending}
+              description="Released, still clearing"
+            />
+            <WalletBalanceItem
+              label="In Escrow"
+              amount={wallet.inEscrow}
+              description="Held for your orders"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Quick actions and recent activity */}
       <div className="grid gap-6 lg:grid-cols-2">
         {/* Recent Orders */}
@@ -283,6 +319,26 @@ function StatsCard({
   );
 }
 
+function WalletBalanceItem({
+  label,
+  amount,
+  description,
+}: {
+  label: string;
+  amount: number;
+  description: string;
+}) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-sm font-medium text-slate-400">{label}</span>
+      <span className="text-2xl font-bold text-white mt-1">
+        R {(amount / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2 })}
+      </span>
+      <span className="text-xs text-slate-500 mt-1">{description}</span>
+    </div>
+  );
+}
+
 function UsageBar({
   label,
   used,
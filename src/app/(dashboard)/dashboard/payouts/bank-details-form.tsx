@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { saveBankAccount } from "@/lib/payouts/actions";
+
+type AccountType = "cheque" | "savings" | "transmission";
+
+interface BankDetails {
+  accountHolder: string;
+  bankName: string;
+  branchCode: string;
+  accountNumber: string;
+  accountType: AccountType;
+}
+
+interface BankDetailsFormProps {
+  banks: { name: string; branchCode: string }[];
+  initial: BankDetails | null;
+}
+
+export function BankDetailsForm({ banks, initial }: BankDetailsFormProps) {
+  const router = useRouter();
+  const [details, setDetails] = useState<BankDetails>(
+    initial ?? {
+      accountHolder: "",
+      bankName: "",
+      branchCode: "",
+      accountNumber: "",
+      accountType: "cheque",
+    }
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleBankChange = (name: string) => {
+    const bank = banks.find((b) => b.name === name);
+    setDetails((prev) => ({
+      ...prev,
+      bankName: name,
+      branchCode: bank?.branchCode ?? prev.branchCode,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setSaved(false);
+
+    const result = await saveBankAccount(details);
+
+    if (result.success) {
+      setSaved(true);
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to save bank details");
+    }
+
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bank Account</CardTitle>
+        <CardDescription>
+          Payouts are sent by EFT. The account must be in your own name.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+              {error}
+            </div>
+          )}
+          {saved && (
+            <div className="rounded-lg bg-emerald-500/10 p-3 text-emerald-600 text-sm">
+              Bank details saved
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="accountHolder">Account Holder *</Label>
+            <Input
+              id="accountHolder"
+              value={details.accountHolder}
+              onChange={(e) => setDetails({ ...details, accountHolder: e.target.value })}
+              placeholder="Name as it appears on your bank account"
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Bank *</Label>
+              <Select value={details.bankName} onValueChange={handleBankChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select your bank" />
+                </SelectTrigger>
+                <SelectContent>
+                  {banks.map((bank) => (
+                    <SelectItem key={bank.name} value={bank.name}>
+                      {bank.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="branchCode">Branch Code *</Label>
+              <Input
+                id="branchCode"
+                inputMode="numeric"
+                value={details.branchCode}
+                onChange={(e) => setDetails({ ...details, branchCode: e.target.value })}
+                placeholder="6 digits"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="accountNumber">Account Number *</Label>
+              <Input
+                id="accountNumber"
+                inputMode="numeric"
+                value={details.accountNumber}
+                onChange={(e) => setDetails({ ...details, accountNumber: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Account Type *</Label>
+              <Select
+                value={details.accountType}
+                onValueChange={(value) =>
+                  setDetails({ ...details, accountType: value as AccountType })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cheque">Cheque / Current</SelectItem>
+                  <SelectItem value="savings">Savings</SelectItem>
+                  <SelectItem value="transmission">Transmission</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Bank Details
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
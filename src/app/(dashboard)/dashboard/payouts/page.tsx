@@ -0,0 +1,151 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { Wallet, Landmark, History } from "lucide-react";
+import { getServerSession } from "@/lib/auth/server";
+import { getPayoutOverview } from "@/lib/payouts/actions";
+import { SA_BANKS, maskAccountNumber } from "@/lib/payouts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { BankDetailsForm } from "./bank-details-form";
+import { PayoutRequestForm } from "./payout-request-form";
+
+export const metadata: Metadata = {
+  title: "Payouts | Zomieks",
+  description: "Withdraw your earnings to your bank account",
+};
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-yellow-500/10 text-yellow-600",
+  approved: "bg-blue-500/10 text-blue-600",
+  exported: "bg-blue-500/10 text-blue-600",
+  completed: "bg-emerald-500/10 text-emerald-600",
+  rejected: "bg-red-500/10 text-red-600",
+};
+
+function formatRands(cents: number): string {
+  return `R ${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2 })}`;
+}
+
+export default async function PayoutsPage() {
+  const session = await getServerSession();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const overview = await getPayoutOverview();
+
+  if (!overview) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        Unable to load payout details. Please try again later.
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl space-y-8 py-8">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Payouts</h1>
+        <p className="text-muted-foreground">
+          Withdraw your cleared earnings to a South African bank account
+        </p>
+      </div>
+
+      {/* Balances */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Available to withdraw</CardDescription>
+            <CardTitle className="text-2xl">{formatRands(overview.payable)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Pending clearance</CardDescription>
+            <CardTitle className="text-2xl">{formatRands(overview.wallet.pending)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Minimum withdrawal</CardDescription>
+            <CardTitle className="text-2xl">{formatRands(overview.minimum)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      {/* Request payout */}
+      <section>
+        <div className="mb-4 flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold">Request a Payout</h2>
+        </div>
+        <PayoutRequestForm
+          payable={overview.payable}
+          minimum={overview.minimum}
+          hasBankAccount={!!overview.bankAccount}
+          isIdVerified={session.isIdVerified}
+        />
+      </section>
+
+      {/* Bank details */}
+      <section>
+        <div className="mb-4 flex items-center gap-2">
+          <Landmark className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold">Bank Details</h2>
+        </div>
+        <BankDetailsForm
+          banks={SA_BANKS.map((bank) => ({ ...bank }))}
+          initial={
+            overview.bankAccount
+              ? {
+                  accountHolder: overview.bankAccount.accountHolder,
+                  bankName: overview.bankAccount.bankName,
+                  branchCode: overview.bankAccount.branchCode,
+                  accountNumber: overview.bankAccount.accountNumber,
+                  accountType: overview.bankAccount.accountType,
+                }
+              : null
+          }
+        />
+      </section>
+
+      {/* History */}
+      <section>
+        <div className="mb-4 flex items-center gap-2">
+          <History className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold">Payout History</h2>
+        </div>
+        <Card>
+          <CardContent className="p-0">
+            {overview.requests.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                No payouts requested yet
+              </p>
+            ) : (
+              <div className="divide-y">
+                {overview.requests.map((request) => (
+                  <div key={request.id} className="flex items-center justify-between p-4">
+                    <div>
+                      <p className="font-medium">{formatRands(request.amount)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {request.bankName} {maskAccountNumber(request.accountNumber)} ·{" "}
+                        {new Date(request.createdAt).toLocaleDateString("en-ZA")}
+                      </p>
+                      {request.rejectionReason && (
+                        <p className="text-xs text-red-600 mt-1">{request.rejectionReason}</p>
+                      )}
+                    </div>
+                    <Badge variant="secondary" className={statusStyles[request.status]}>
+                      {request.status === "exported" ? "processing" : request.status}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { requestPayout } from "@/lib/payouts/actions";
+
+interface PayoutRequestFormProps {
+  payable: number; // In cents
+  minimum: number; // In cents
+  hasBankAccount: boolean;
+  isIdVerified: boolean;
+}
+
+export function PayoutRequestForm({
+  payable,
+  minimum,
+  hasBankAccount,
+  isIdVerified,
+}: PayoutRequestFormProps) {
+  const router = useRouter();
+  const [amount, setAmount] = useState((payable / 100).toFixed(2));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [requested, setRequested] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setRequested(false);
+
+    const result = await requestPayout(Math.round(parseFloat(amount) * 100));
+
+    if (result.success) {
+      setRequested(true);
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to request payout");
+    }
+
+    setIsSubmitting(false);
+  };
+
+  if (!isIdVerified) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">
+          You need to{" "}
+          <Link href="/dashboard/verification" className="text-emerald-500 hover:underline">
+            verify your ID
+          </Link>{" "}
+          before you can withdraw earnings.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!hasBankAccount) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">
+          Add your bank details below to request a payout.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+              {error}
+            </div>
+          )}
+          {requested && (
+            <div className="rounded-lg bg-emerald-500/10 p-3 text-emerald-600 text-sm">
+              Payout requested. Payouts are usually paid within 2-3 business days.
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="amount">Amount (R)</Label>
+            <Input
+              id="amount"
+              type="number"
+              min={minimum / 100}
+              max={payable / 100}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || payable < minimum}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Request Payout
+          </Button>
+          {payable < minimum && (
+            <p className="text-xs text-muted-foreground">
+              You need at least R{(minimum / 100).toFixed(2)} available to request a payout.
+            </p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
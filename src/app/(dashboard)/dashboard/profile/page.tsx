@@ -0,0 +1,37 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getMyProfile } from "@/lib/profiles/actions";
+import { ProfileForm } from "./profile-form";
+import { PortfolioManager } from "./portfolio-manager";
+
+export default async function ProfilePage() {
+  const profile = await getMyProfile();
+
+  if (!profile) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Profile</h1>
+          <p className="text-slate-400">
+            What buyers see on your public profile
+          </p>
+        </div>
+        <Button variant="outline" className="border-slate-700 text-slate-300" asChild>
+          <Link href={`/users/${profile.id}`}>
+            <ExternalLink className="mr-2 h-4 w-4" />
+            View Public Profile
+          </Link>
+        </Button>
+      </div>
+
+      <ProfileForm profile={profile} />
+      <PortfolioManager userId={profile.id} items={profile.portfolio} />
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, ExternalLink, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { addPortfolioItem, removePortfolioItem } from "@/lib/profiles/actions";
+import {
+  PROFILE_CONFIG,
+  getPortfolioImageUrl,
+  validatePortfolioItem,
+  type PortfolioItem,
+} from "@/lib/profiles/portfolio";
+
+interface PortfolioManagerProps {
+  userId: string;
+  items: PortfolioItem[];
+}
+
+const inputClassName = "bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500";
+
+export function PortfolioManager({ userId, items }: PortfolioManagerProps) {
+  const router = useRouter();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [link, setLink] = useState("");
+  const [image, setImage] = useState<File | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isFull = items.length >= PROFILE_CONFIG.maxPortfolioItems;
+
+  const handleAdd = async () => {
+    const validationError = validatePortfolioItem({ title, description, link }, image);
+    if (validationError || !image) {
+      setError(validationError || "Add an image of the work");
+      return;
+    }
+
+    setAdding(true);
+    setError(null);
+
+    const formData = new FormData();
+    formData.append("title", title);
+    formData.append("description", description);
+    formData.append("link", link);
+    formData.append("image", image);
+
+    const result = await addPortfolioItem(formData);
+
+    if (result.success) {
+      setTitle("");
+      setDescription("");
+      setLink("");
+      setImage(null);
+      if (fileRef.current) fileRef.current.value = "";
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to add portfolio item");
+    }
+
+    setAdding(false);
+  };
+
+  const handleRemove = async (itemId: string) => {
+    setRemovingId(itemId);
+    setError(null);
+
+    const result = await removePortfolioItem(itemId);
+
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to remove portfolio item");
+    }
+
+    setRemovingId(null);
+  };
+
+  return (
+    <Card className="border-slate-800 bg-slate-900/50">
+      <CardHeader>
+        <CardTitle className="text-white">Portfolio</CardTitle>
+        <CardDescription className="text-slate-400">
+          Show examples of your work - up to {PROFILE_CONFIG.maxPortfolioItems} items
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="rounded-lg bg-red-500/10 border border-red-500/20 p-3 text-red-400 text-sm flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {items.map((item) => (
+              <div key={item.id} className="rounded-lg border border-slate-800 overflow-hidden">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={getPortfolioImageUrl(userId, item.id)}
+                  alt={item.title}
+                  className="aspect-video w-full object-cover bg-slate-800"
+                />
+                <div className="p-3 flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{item.title}</p>
+                    {item.link && (
+                      <a
+                        href={item.link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-slate-400 hover:text-white inline-flex items-center gap-1"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        {item.link.replace(/^https?:\/\//, "")}
+                      </a>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={removingId === item.id}
+                    onClick={() => handleRemove(item.id)}
+                    className="text-slate-400 hover:text-red-400 shrink-0"
+                  >
+                    {removingId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!isFull && (
+          <div className="space-y-4 rounded-lg border border-dashed border-slate-700 p-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="portfolio-title" className="text-slate-200">Title</Label>
+                <Input
+                  id="portfolio-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={100}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="portfolio-link" className="text-slate-200">Link (optional)</Label>
+                <Input
+                  id="portfolio-link"
+                  type="url"
+                  value={link}
+                  onChange={(e) => setLink(e.target.value)}
+                  placeholder="https://"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-description" className="text-slate-200">Description (optional)</Label>
+              <Textarea
+                id="portfolio-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                maxLength={500}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-image" className="text-slate-200">Image</Label>
+              <Input
+                id="portfolio-image"
+                ref={fileRef}
+                type="file"
+                accept={PROFILE_CONFIG.allowedImageTypes.join(",")}
+                onChange={(e) => setImage(e.target.files?.[0] || null)}
+                className={inputClassName}
+              />
+              <p className="text-xs text-slate-500">
+                JPEG, PNG, WebP or GIF up to {PROFILE_CONFIG.maxImageSize / 1024 / 1024} MB
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleAdd}
+              disabled={adding}
+              className="border-slate-700 text-slate-300"
+            >
+              {adding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Add to Portfolio
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
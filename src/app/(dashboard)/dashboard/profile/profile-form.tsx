@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { updateProfile, type PublicProfile } from "@/lib/profiles/actions";
+import { PROFILE_CONFIG, validateProfile, type ProfileFormData } from "@/lib/profiles/portfolio";
+
+interface ProfileFormProps {
+  profile: PublicProfile;
+}
+
+const inputClassName = "bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500";
+
+export function ProfileForm({ profile }: ProfileFormProps) {
+  const router = useRouter();
+  const [headline, setHeadline] = useState(profile.headline || "");
+  const [bio, setBio] = useState(profile.bio || "");
+  const [location, setLocation] = useState(profile.location || "");
+  const [website, setWebsite] = useState(profile.website || "");
+  const [hourlyRate, setHourlyRate] = useState(profile.hourlyRate?.toString() || "");
+  const [skills, setSkills] = useState<string[]>(profile.skills);
+  const [skillInput, setSkillInput] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  function addSkill() {
+    const skill = skillInput.trim();
+    if (skill && !skills.some((s) => s.toLowerCase() === skill.toLowerCase()) && skills.length < PROFILE_CONFIG.maxSkills) {
+      setSkills([...skills, skill]);
+      setSkillInput("");
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data: ProfileFormData = {
+      headline,
+      bio,
+      location,
+      website,
+      hourlyRate: hourlyRate ? parseFloat(hourlyRate) : null,
+      skills,
+    };
+
+    const validationError = validateProfile(data);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSaved(false);
+
+    const result = await updateProfile(data);
+
+    if (result.success) {
+      setSaved(true);
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to update profile");
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Card className="border-slate-800 bg-slate-900/50">
+        <CardHeader>
+          <CardTitle className="text-white">About You</CardTitle>
+          <CardDescription className="text-slate-400">
+            Tell buyers who you are and what you&apos;re good at
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="rounded-lg bg-red-500/10 border border-red-500/20 p-3 text-red-400 text-sm flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+          {saved && (
+            <div className="rounded-lg bg-emerald-500/10 border border-emerald-500/20 p-3 text-emerald-400 text-sm flex items-center gap-2">
+              <CheckCircle className="h-4 w-4" />
+              Profile saved
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="headline" className="text-slate-200">Headline</Label>
+            <Input
+              id="headline"
+              value={headline}
+              onChange={(e) => setHeadline(e.target.value)}
+              placeholder="Brand designer for small businesses"
+              maxLength={PROFILE_CONFIG.maxHeadlineLength}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bio" className="text-slate-200">Bio</Label>
+            <Textarea
+              id="bio"
+              value={bio}
+              onChange={(e) => setBio(e.target.value)}
+              placeholder="Your experience, how you work and the kind of projects you enjoy"
+              rows={6}
+              maxLength={PROFILE_CONFIG.maxBioLength}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="location" className="text-slate-200">Location</Label>
+              <Input
+                id="location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="Cape Town"
+                maxLength={PROFILE_CONFIG.maxLocationLength}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hourlyRate" className="text-slate-200">Hourly rate (R)</Label>
+              <Input
+                id="hourlyRate"
+                type="number"
+                min={0}
+                max={PROFILE_CONFIG.maxHourlyRate}
+                step="0.01"
+                value={hourlyRate}
+                onChange={(e) => setHourlyRate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="website" className="text-slate-200">Website</Label>
+              <Input
+                id="website"
+                type="url"
+                value={website}
+                onChange={(e) => setWebsite(e.target.value)}
+                placeholder="https://"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-slate-200">Skills</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                value={skillInput}
+                onChange={(e) => setSkillInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addSkill();
+                  }
+                }}
+                placeholder="Add a skill and press Enter"
+                maxLength={PROFILE_CONFIG.maxSkillLength}
+                className={inputClassName}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={addSkill}
+                className="border-slate-700 text-slate-300"
+              >
+                Add
+              </Button>
+            </div>
+            {skills.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {skills.map((skill) => (
+                  <span
+                    key={skill}
+                    className="inline-flex items-center gap-1 px-2 py-1 bg-slate-800 text-slate-300 rounded-full text-sm"
+                  >
+                    {skill}
+                    <button
+                      type="button"
+                      onClick={() => setSkills(skills.filter((s) => s !== skill))}
+                      className="hover:text-red-400"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-slate-500">Up to {PROFILE_CONFIG.maxSkills} skills</p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 text-white"
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Profile
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
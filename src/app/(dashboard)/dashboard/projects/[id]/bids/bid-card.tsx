@@ -1,49 +1,68 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { Loader2, CheckCircle, XCircle } from "lucide-react";
+import { Loader2, CheckCircle, XCircle, Star, MessageSquare, Shield } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { formatCurrency } from "@/lib/utils";
-import { acceptBid } from "@/lib/projects/actions";
-
-interface Bid {
-  id: string;
-  bidderId: string;
-  amount: number;
-  proposal: string;
-  deliveryDays: number;
-  status: string;
-  createdAt: string;
-}
+import { acceptBid, rejectBid, shortlistBid, type ProjectBid } from "@/lib/projects/actions";
+import { getOrCreateConversation } from "@/lib/messages/actions";
 
 interface BidCardProps {
-  bid: Bid;
+  bid: ProjectBid;
   projectStatus: string;
 }
 
+type BidAction = "accept" | "shortlist" | "reject" | "message";
+
 export function BidCard({ bid, projectStatus }: BidCardProps) {
   const router = useRouter();
-  const [isLoading, setIsLoading] = useState(false);
+  const [pending, setPending] = useState<BidAction | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleAccept = async () => {
-    if (!confirm("Are you sure you want to accept this bid? Other bids will be rejected.")) {
+  const isOpen = (bid.status === "pending" || bid.status === "shortlisted") && projectStatus === "open";
+
+  const run = async (action: BidAction) => {
+    if (action === "accept" && !confirm("Are you sure you want to accept this bid? Other bids will be rejected.")) {
+      return;
+    }
+    if (action === "reject" && !confirm("Reject this bid? The freelancer will be told.")) {
       return;
     }
 
-    setIsLoading(true);
+    setPending(action);
     setError(null);
 
-    const result = await acceptBid(bid.id);
+    if (action === "message") {
+      const result = await getOrCreateConversation(bid.bidderId);
+
+      if (result.success && result.conversationId) {
+        router.push(`/dashboard/messages/${result.conversationId}`);
+      } else {
+        setError(result.error || "Failed to start conversation");
+        setPending(null);
+      }
+      return;
+    }
+
+    const result =
+      action === "accept"
+        ? await acceptBid(bid.id)
+        : action === "reject"
+          ? await rejectBid(bid.id)
+          : await shortlistBid(bid.id, bid.status !== "shortlisted");
 
     if (result.success) {
       router.refresh();
     } else {
-      setError(result.error || "Failed to accept bid");
-      setIsLoading(false);
+      setError(result.error || "Failed to update bid");
     }
+
+    setPending(null);
   };
 
   const statusBadge = () => {
@@ -62,6 +81,13 @@ export function BidCard({ bid, projectStatus }: BidCardProps) {
             <span className="text-sm font-medium">Rejected</span>
           </div>
         );
+      case "shortlisted":
+        return (
+          <div className="flex items-center gap-1 text-blue-600">
+            <Star className="h-4 w-4 fill-current" />
+            <span className="text-sm font-medium">Shortlisted</span>
+          </div>
+        );
       default:
         return (
           <span className="text-sm text-muted-foreground">Pending</span>
@@ -70,7 +96,7 @@ export function BidCard({ bid, projectStatus }: BidCardProps) {
   };
 
   return (
-    <Card className={bid.status === "accepted" ? "border-green-500" : ""}>
+    <Card className={bid.status === "accepted" ? "border-green-500" : bid.status === "shortlisted" ? "border-blue-500/50" : ""}>
       <CardContent className="py-4">
         {error && (
           <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm mb-4">
@@ -80,13 +106,20 @@ export function BidCard({ bid, projectStatus }: BidCardProps) {
 
         <div className="flex items-start justify-between gap-4 mb-4">
           <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
-              <span className="text-sm font-medium">
-                {bid.bidderId.slice(0, 2).toUpperCase()}
-              </span>
-            </div>
+            <Avatar className="h-10 w-10">
+              {bid.bidder.avatarUrl && <AvatarImage src={bid.bidder.avatarUrl} alt={bid.bidder.name} />}
+              <AvatarFallback className="text-sm font-medium">
+                {bid.bidder.name.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
             <div>
-              <p className="font-medium">Freelancer</p>
+              <div className="flex items-center gap-2">
+                <Link href={`/users/${bid.bidderId}`} className="font-medium hover:text-primary transition-colors">
+                  {bid.bidder.name}
+                </Link>
+                {bid.bidder.isIdVerified && <Shield className="h-4 w-4 text-emerald-500" />}
+                {!bid.isRead && <Badge variant="secondary">New</Badge>}
+              </div>
               <p className="text-sm text-muted-foreground">
                 Bid submitted {new Date(bid.createdAt).toLocaleDateString()}
               </p>
@@ -111,15 +144,24 @@ export function BidCard({ bid, projectStatus }: BidCardProps) {
           <p className="text-sm whitespace-pre-wrap">{bid.proposal}</p>
         </div>
 
-        {bid.status === "pending" && projectStatus === "open" && (
-          <div className="flex gap-2">
-            <Button onClick={handleAccept} disabled={isLoading} className="flex-1">
-              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {isOpen && (
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => run("accept")} disabled={pending !== null} className="flex-1">
+              {pending === "accept" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Accept Bid
             </Button>
-            <Button variant="outline" className="flex-1">
+            <Button variant="outline" onClick={() => run("shortlist")} disabled={pending !== null} className="flex-1">
+              {pending === "shortlist" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Star className="mr-2 h-4 w-4" />}
+              {bid.status === "shortlisted" ? "Remove from Shortlist" : "Shortlist"}
+            </Button>
+            <Button variant="outline" onClick={() => run("message")} disabled={pending !== null} className="flex-1">
+              {pending === "message" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MessageSquare className="mr-2 h-4 w-4" />}
               Message
             </Button>
+            <Button variant="ghost" onClick={() => run("reject")} disabled={pending !== null} className="text-destructive">
+              {pending === "reject" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject
+            </Button>
           </div>
         )}
 
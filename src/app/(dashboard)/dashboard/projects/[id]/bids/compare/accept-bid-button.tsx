@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { acceptBid } from "@/lib/projects/actions";
+
+interface AcceptBidButtonProps {
+  bidId: string;
+  projectId: string;
+}
+
+export function AcceptBidButton({ bidId, projectId }: AcceptBidButtonProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    if (!confirm("Are you sure you want to accept this bid? Other bids will be rejected.")) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const result = await acceptBid(bidId);
+
+    if (result.success) {
+      router.push(`/dashboard/projects/${projectId}/bids`);
+    } else {
+      setError(result.error || "Failed to accept bid");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Button size="sm" onClick={handleAccept} disabled={isLoading} className="w-full">
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Accept Bid
+      </Button>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
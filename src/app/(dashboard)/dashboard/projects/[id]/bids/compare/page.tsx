@@ -0,0 +1,179 @@
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Shield, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { requireSession } from "@/lib/auth/server";
+import { getProjectBids } from "@/lib/projects/actions";
+import { getUserStats } from "@/lib/reviews/actions";
+import { createDb } from "@/lib/db";
+import { projects } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { formatCurrency } from "@/lib/utils";
+import { AcceptBidButton } from "./accept-bid-button";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function CompareBidsPage({ params }: PageProps) {
+  const session = await requireSession();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+
+  const { env } = await getCloudflareContext();
+  const db = createDb(env.DB);
+
+  const project = await db.query.projects.findFirst({
+    where: and(
+      eq(projects.id, id),
+      eq(projects.buyerId, session.userId)
+    ),
+  });
+
+  if (!project) {
+    notFound();
+  }
+
+  const shortlisted = (await getProjectBids(id)).filter((bid) => bid.status === "shortlisted");
+  const stats = await Promise.all(shortlisted.map((bid) => getUserStats(bid.bidderId)));
+
+  const lowestAmount = Math.min(...shortlisted.map((bid) => bid.amount));
+  const fastestDelivery = Math.min(...shortlisted.map((bid) => bid.deliveryDays));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="mb-4">
+          <Link href={`/dashboard/projects/${project.id}/bids`}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Bids
+          </Link>
+        </Button>
+
+        <h1 className="text-2xl font-bold">Compare Shortlist: {project.title}</h1>
+        <p className="text-muted-foreground">
+          Budget {formatCurrency(project.budgetMin)} - {formatCurrency(project.budgetMax)}
+          {project.budgetType === "hourly" ? " per hour" : ""}
+        </p>
+      </div>
+
+      {shortlisted.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            You haven&apos;t shortlisted any bids yet. Shortlist bids from the bids page to compare them here.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40" />
+                  {shortlisted.map((bid) => (
+                    <TableHead key={bid.id} className="min-w-56 align-top py-3">
+                      <Link href={`/users/${bid.bidderId}`} className="flex items-center gap-1 font-semibold hover:text-primary">
+                        {bid.bidder.name}
+                        {bid.bidder.isIdVerified && <Shield className="h-4 w-4 text-emerald-500" />}
+                      </Link>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Bid amount</TableCell>
+                  {shortlisted.map((bid) => (
+                    <TableCell key={bid.id}>
+                      <span className="font-bold">{formatCurrency(bid.amount)}</span>
+                      {shortlisted.length > 1 && bid.amount === lowestAmount && (
+                        <Badge variant="secondary" className="ml-2">Lowest</Badge>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Delivery</TableCell>
+                  {shortlisted.map((bid) => (
+                    <TableCell key={bid.id}>
+                      <span className="font-bold">{bid.deliveryDays} days</span>
+                      {shortlisted.length > 1 && bid.deliveryDays === fastestDelivery && (
+                        <Badge variant="secondary" className="ml-2">Fastest</Badge>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Rating</TableCell>
+                  {stats.map((stat, i) => (
+                    <TableCell key={shortlisted[i].id}>
+                      {stat.totalReviews > 0 ? (
+                        <span className="flex items-center gap-1">
+                          <Star className="h-4 w-4 fill-amber-400 text-amber-400" />
+                          {stat.averageRating.toFixed(1)}
+                          <span className="text-muted-foreground">({stat.totalReviews})</span>
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">No reviews yet</span>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Completed orders</TableCell>
+                  {stats.map((stat, i) => (
+                    <TableCell key={shortlisted[i].id}>
+                      {stat.completedOrders}
+                      {stat.completedOrders > 0 && (
+                        <span className="text-muted-foreground"> ({stat.completionRate}% completion)</span>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Submitted</TableCell>
+                  {shortlisted.map((bid) => (
+                    <TableCell key={bid.id}>{new Date(bid.createdAt).toLocaleDateString()}</TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="text-muted-foreground align-top">Proposal</TableCell>
+                  {shortlisted.map((bid) => (
+                    <TableCell key={bid.id} className="align-top whitespace-pre-wrap text-sm">
+                      {bid.proposal}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                {project.status === "open" && (
+                  <TableRow>
+                    <TableCell />
+                    {shortlisted.map((bid) => (
+                      <TableCell key={bid.id}>
+                        <AcceptBidButton bidId={bid.id} projectId={project.id} />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
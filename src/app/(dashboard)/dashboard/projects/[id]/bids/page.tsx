@@ -1,6 +1,6 @@
 import { notFound, redirect } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft, AlertCircle } from "lucide-react";
+import { ArrowLeft, AlertCircle, Columns3 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { requireSession } from "@/lib/auth/server";
@@ -10,6 +10,7 @@ import { projects } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { BidCard } from "./bid-card";
+import { ProjectActions } from "../../project-actions";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -40,6 +41,7 @@ export default async function ProjectBidsPage({ params }: PageProps) {
   }
 
   const bids = await getProjectBids(id);
+  const shortlistedCount = bids.filter((bid) => bid.status === "shortlisted").length;
 
   return (
     <div className="space-y-6">
@@ -66,6 +68,18 @@ export default async function ProjectBidsPage({ params }: PageProps) {
         </Alert>
       )}
 
+      <div className="flex flex-wrap gap-2">
+        {shortlistedCount >= 2 && (
+          <Button size="sm" asChild>
+            <Link href={`/dashboard/projects/${project.id}/bids/compare`}>
+              <Columns3 className="mr-2 h-4 w-4" />
+              Compare Shortlist ({shortlistedCount})
+            </Link>
+          </Button>
+        )}
+        <ProjectActions projectId={project.id} status={project.status} />
+      </div>
+
       {bids.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-muted-foreground mb-4">
@@ -1,16 +1,18 @@
 import Link from "next/link";
-import { Plus, Eye, MessageSquare, Clock, CheckCircle2 } from "lucide-react";
+import { Plus, Eye, MessageSquare, Clock, CheckCircle2, Hourglass } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { getUserProjects } from "@/lib/projects/actions";
 import { formatCurrency } from "@/lib/utils";
+import { ProjectActions } from "./project-actions";
 
 const statusConfig: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
   open: { label: "Open", variant: "default" },
   in_progress: { label: "In Progress", variant: "secondary" },
   completed: { label: "Completed", variant: "outline" },
-  cancelled: { label: "Cancelled", variant: "destructive" },
+  cancelled: { label: "Closed", variant: "destructive" },
+  expired: { label: "Expired", variant: "outline" },
 };
 
 export default async function ProjectsPage() {
@@ -98,6 +100,12 @@ export default async function ProjectsPage() {
                         <span>Due {new Date(project.deadline).toLocaleDateString()}</span>
                       </div>
                     )}
+                    {project.status === "open" && project.expiresAt && (
+                      <div className="flex items-center gap-1">
+                        <Hourglass className="h-4 w-4 text-muted-foreground" />
+                        <span>Bids close {new Date(project.expiresAt).toLocaleDateString()}</span>
+                      </div>
+                    )}
                     {project.awardedAt && (
                       <div className="flex items-center gap-1 text-green-600">
                         <CheckCircle2 className="h-4 w-4" />
@@ -106,7 +114,7 @@ export default async function ProjectsPage() {
                     )}
                   </div>
                   
-                  <div className="flex gap-2 mt-4">
+                  <div className="flex flex-wrap gap-2 mt-4">
                     <Button variant="outline" size="sm" asChild>
                       <Link href={`/projects/${project.slug}`}>
                         View Project
@@ -119,6 +127,7 @@ export default async function ProjectsPage() {
                         </Link>
                       </Button>
                     )}
+                    <ProjectActions projectId={project.id} status={project.status} />
                   </div>
                 </CardContent>
               </Card>
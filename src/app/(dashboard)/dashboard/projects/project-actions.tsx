@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, CalendarPlus, RotateCcw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { closeProject, extendProject, repostProject } from "@/lib/projects/actions";
+
+interface ProjectActionsProps {
+  projectId: string;
+  status: string;
+}
+
+type ProjectAction = "close" | "extend" | "repost";
+
+export function ProjectActions({ projectId, status }: ProjectActionsProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<ProjectAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canClose = status === "open";
+  const canExtend = status === "open" || status === "expired";
+  const canRepost = status === "expired" || status === "cancelled";
+
+  const run = async (action: ProjectAction) => {
+    if (action === "close" && !confirm("Close this project? Bids waiting on an answer will be rejected.")) {
+      return;
+    }
+
+    setPending(action);
+    setError(null);
+
+    const result =
+      action === "close"
+        ? await closeProject(projectId)
+        : action === "extend"
+          ? await extendProject(projectId)
+          : await repostProject(projectId);
+
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to update project");
+    }
+
+    setPending(null);
+  };
+
+  if (!canClose && !canExtend && !canRepost) {
+    return null;
+  }
+
+  return (
+    <>
+      {canExtend && (
+        <Button variant="outline" size="sm" onClick={() => run("extend")} disabled={pending !== null}>
+          {pending === "extend" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarPlus className="mr-2 h-4 w-4" />}
+          {status === "expired" ? "Extend & Reopen" : "Extend Listing"}
+        </Button>
+      )}
+      {canRepost && (
+        <Button variant="outline" size="sm" onClick={() => run("repost")} disabled={pending !== null}>
+          {pending === "repost" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+          Re-post
+        </Button>
+      )}
+      {canClose && (
+        <Button variant="ghost" size="sm" onClick={() => run("close")} disabled={pending !== null} className="text-destructive">
+          {pending === "close" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+          Close Project
+        </Button>
+      )}
+      {error && <p className="basis-full text-sm text-destructive">{error}</p>}
+    </>
+  );
+}
@@ -24,6 +24,13 @@ import {
 } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { createService, type PricingTier } from "@/lib/services/actions";
+import {
+  REQUIREMENT_QUESTION_TYPES,
+  REQUIREMENTS_CONFIG,
+  type RequirementQuestion,
+  type RequirementQuestionType,
+} from "@/lib/services/requirements";
+import { EXTRAS_CONFIG, type ServiceExtra } from "@/lib/services/extras";
 
 interface Category {
   id: string;
@@ -56,6 +63,8 @@ export function NewServiceForm({ categories }: NewServiceFormProps) {
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
   const [maxRevisions, setMaxRevisions] = useState(2);
+  const [extras, setExtras] = useState<ServiceExtra[]>([]);
+  const [requirementsForm, setRequirementsForm] = useState<RequirementQuestion[]>([]);
   
   // Pricing tiers
   const [basicTier, setBasicTier] = useState<PricingTier>({ ...defaultTier });
@@ -126,6 +135,40 @@ export function NewServiceForm({ categories }: NewServiceFormProps) {
     }
   }
 
+  function addExtra() {
+    if (extras.length < EXTRAS_CONFIG.maxExtras) {
+      setExtras([
+        ...extras,
+        { id: crypto.randomUUID(), title: "", price: 10000, deliveryDays: 0, revisions: 0 },
+      ]);
+    }
+  }
+
+  function updateExtra(index: number, extra: ServiceExtra) {
+    setExtras(extras.map((e, i) => (i === index ? extra : e)));
+  }
+
+  function removeExtra(index: number) {
+    setExtras(extras.filter((_, i) => i !== index));
+  }
+
+  function addQuestion() {
+    if (requirementsForm.length < REQUIREMENTS_CONFIG.maxQuestions) {
+      setRequirementsForm([
+        ...requirementsForm,
+        { id: crypto.randomUUID(), type: "text", label: "", required: true },
+      ]);
+    }
+  }
+
+  function updateQuestion(index: number, question: RequirementQuestion) {
+    setRequirementsForm(requirementsForm.map((q, i) => (i === index ? question : q)));
+  }
+
+  function removeQuestion(index: number) {
+    setRequirementsForm(requirementsForm.filter((_, i) => i !== index));
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setIsLoading(true);
@@ -155,6 +198,8 @@ export function NewServiceForm({ categories }: NewServiceFormProps) {
           : undefined,
         tags: tags.length > 0 ? tags : undefined,
         maxRevisions,
+        extras,
+        requirementsForm,
       });
 
       if (result.success) {
@@ -398,6 +443,71 @@ export function NewServiceForm({ categories }: NewServiceFormProps) {
         </CardContent>
       </Card>
 
+      {/* Extras */}
+      <Card className="border-slate-800 bg-slate-900/50">
+        <CardHeader>
+          <CardTitle className="text-white">Extras</CardTitle>
+          <CardDescription className="text-slate-400">
+            Optional add-ons buyers can pick with any package - extra fast delivery, more revisions, source files
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {extras.map((extra, i) => (
+            <ServiceExtraForm
+              key={extra.id}
+              extra={extra}
+              setExtra={(e) => updateExtra(i, e)}
+              removeExtra={() => removeExtra(i)}
+            />
+          ))}
+          {extras.length < EXTRAS_CONFIG.maxExtras && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={addExtra}
+              className="text-slate-400 hover:text-white"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add Extra
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Buyer Requirements */}
+      <Card className="border-slate-800 bg-slate-900/50">
+        <CardHeader>
+          <CardTitle className="text-white">Buyer Requirements</CardTitle>
+          <CardDescription className="text-slate-400">
+            Questions the buyer answers after paying. The order starts once every required question is answered.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {requirementsForm.map((question, i) => (
+            <RequirementQuestionForm
+              key={question.id}
+              index={i}
+              question={question}
+              setQuestion={(q) => updateQuestion(i, q)}
+              removeQuestion={() => removeQuestion(i)}
+            />
+          ))}
+          {requirementsForm.length < REQUIREMENTS_CONFIG.maxQuestions && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={addQuestion}
+              className="text-slate-400 hover:text-white"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add Question
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Settings */}
       <Card className="border-slate-800 bg-slate-900/50">
         <CardHeader>
@@ -542,3 +652,178 @@ function PricingTierForm({
     </div>
   );
 }
+
+function ServiceExtraForm({
+  extra,
+  setExtra,
+  removeExtra,
+}: {
+  extra: ServiceExtra;
+  setExtra: (extra: ServiceExtra) => void;
+  removeExtra: () => void;
+}) {
+  return (
+    <div className="p-4 rounded-lg border border-slate-800 bg-slate-800/20 space-y-4">
+      <div className="flex items-center gap-2">
+        <Input
+          value={extra.title}
+          onChange={(e) => setExtra({ ...extra, title: e.target.value })}
+          placeholder="Extra fast delivery"
+          maxLength={80}
+          className="bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500"
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={removeExtra}
+          className="text-slate-400 hover:text-red-400"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <Input
+        value={extra.description || ""}
+        onChange={(e) => setExtra({ ...extra, description: e.target.value })}
+        placeholder="Optional - what the buyer gets"
+        className="bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500"
+      />
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label className="text-slate-300">Price (ZAR)</Label>
+          <Input
+            type="number"
+            min={0}
+            step={10}
+            value={extra.price / 100}
+            onChange={(e) => setExtra({ ...extra, price: Math.round(parseFloat(e.target.value || "0") * 100) })}
+            className="bg-slate-800/50 border-slate-700 text-white"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-slate-300">Delivery Days (+/-)</Label>
+          <Input
+            type="number"
+            min={-EXTRAS_CONFIG.maxDeliveryDays}
+            max={EXTRAS_CONFIG.maxDeliveryDays}
+            value={extra.deliveryDays}
+            onChange={(e) => setExtra({ ...extra, deliveryDays: parseInt(e.target.value || "0") })}
+            className="bg-slate-800/50 border-slate-700 text-white"
+          />
+          <p className="text-xs text-slate-500">Negative for faster delivery</p>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-slate-300">Extra Revisions</Label>
+          <Input
+            type="number"
+            min={0}
+            max={EXTRAS_CONFIG.maxRevisions}
+            value={extra.revisions}
+            onChange={(e) => setExtra({ ...extra, revisions: parseInt(e.target.value || "0") })}
+            className="bg-slate-800/50 border-slate-700 text-white"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RequirementQuestionForm({
+  index,
+  question,
+  setQuestion,
+  removeQuestion,
+}: {
+  index: number;
+  question: RequirementQuestion;
+  setQuestion: (question: RequirementQuestion) => void;
+  removeQuestion: () => void;
+}) {
+  return (
+    <div className="p-4 rounded-lg border border-slate-800 bg-slate-800/20 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-white">Question {index + 1}</h4>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={removeQuestion}
+          className="text-slate-400 hover:text-red-400"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid gap-4 md:grid-cols-[1fr_200px]">
+        <div className="space-y-2">
+          <Label className="text-slate-300">Question</Label>
+          <Input
+            value={question.label}
+            onChange={(e) => setQuestion({ ...question, label: e.target.value })}
+            placeholder="What is the name of your business?"
+            maxLength={200}
+            className="bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-slate-300">Answer Type</Label>
+          <Select
+            value={question.type}
+            onValueChange={(v) => setQuestion({ ...question, type: v as RequirementQuestionType })}
+          >
+            <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {Object.entries(REQUIREMENT_QUESTION_TYPES).map(([value, label]) => (
+                <SelectItem
+                  key={value}
+                  value={value}
+                  className="text-slate-200 focus:text-white focus:bg-slate-700"
+                >
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label className="text-slate-300">Help Text</Label>
+        <Input
+          value={question.description || ""}
+          onChange={(e) => setQuestion({ ...question, description: e.target.value })}
+          placeholder="Optional - explain what you need"
+          className="bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500"
+        />
+      </div>
+      {question.type === "multiple_choice" && (
+        <>
+          <div className="space-y-2">
+            <Label className="text-slate-300">Options</Label>
+            <Textarea
+              value={(question.options || []).join("\n")}
+              onChange={(e) => setQuestion({ ...question, options: e.target.value.split("\n") })}
+              placeholder="One option per line"
+              rows={4}
+              className="bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-300">Allow more than one option</p>
+            <Switch
+              checked={!!question.allowMultiple}
+              onCheckedChange={(allowMultiple) => setQuestion({ ...question, allowMultiple })}
+            />
+          </div>
+        </>
+      )}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-300">Required</p>
+        <Switch
+          checked={question.required}
+          onCheckedChange={(required) => setQuestion({ ...question, required })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { redirect } from "next/navigation";
 import { CreditCard, Sparkles } from "lucide-react";
 import { getServerSession } from "@/lib/auth/server";
 import { getSubscription } from "@/lib/subscriptions/actions";
+import { getSubscriptionDocuments } from "@/lib/documents/actions";
+import { DocumentList } from "@/components/documents";
 import { SubscriptionStatus } from "@/components/subscription/subscription-status";
 import { PricingCard } from "@/components/subscription/pricing-card";
 
@@ -18,7 +20,10 @@ export default async function SubscriptionPage() {
     redirect("/login");
   }
 
-  const subscription = await getSubscription();
+  const [subscription, invoices] = await Promise.all([
+    getSubscription(),
+    getSubscriptionDocuments(),
+  ]);
 
   return (
     <div className="container max-w-5xl space-y-8 py-8">
@@ -38,6 +43,13 @@ export default async function SubscriptionPage() {
         {subscription && <SubscriptionStatus subscription={subscription} />}
       </section>
 
+      {/* Billing History */}
+      {invoices.length > 0 && (
+        <section>
+          <DocumentList documents={invoices} title="Invoices" />
+        </section>
+      )}
+
       {/* Pricing Plans */}
       <section>
         <div className="mb-4 flex items-center gap-2">
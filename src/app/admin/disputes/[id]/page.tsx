@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, ArrowLeft, Clock, Eye, ExternalLink, User } from "lucide-react";
+import { DisputeThread } from "@/components/disputes";
+import {
+  getDisputeDetail,
+  updateDisputeStatus,
+  requestDisputeResponse,
+} from "@/lib/admin/actions";
+import type { DisputeDetailView } from "@/lib/admin/actions";
+
+const statusColors: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  open: "destructive",
+  under_review: "default",
+  resolved: "secondary",
+  escalated: "destructive",
+  closed: "outline",
+};
+
+const ACTIVE_STATUSES = ["open", "under_review", "escalated"];
+
+export default function AdminDisputeDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [dispute, setDispute] = useState<DisputeDetailView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [note, setNote] = useState("");
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDispute = useCallback(() => {
+    getDisputeDetail(id).then((result) => {
+      setDispute(result);
+      setLoading(false);
+    });
+  }, [id]);
+
+  useEffect(() => {
+    loadDispute();
+  }, [loadDispute]);
+
+  const runAction = async (key: string, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setActionLoading(key);
+    setError(null);
+
+    const result = await action();
+
+    setActionLoading(null);
+
+    if (result.success) {
+      setNote("");
+      loadDispute();
+    } else {
+      setError(result.error || "Action failed");
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleString("en-ZA", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat("en-ZA", {
+      style: "currency",
+      currency: "ZAR",
+    }).format(cents / 100);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground">Loading dispute...</p>
+      </div>
+    );
+  }
+
+  if (!dispute) {
+    return (
+      <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+        Dispute not found
+      </div>
+    );
+  }
+
+  const isActive = ACTIVE_STATUSES.includes(dispute.status);
+  const awaiting =
+    dispute.responseRequiredFrom === dispute.raisedBy.id
+      ? "buyer"
+      : dispute.responseRequiredFrom === dispute.against.id
+      ? "seller"
+      : null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="mb-4">
+          <Link href="/admin/disputes">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Disputes
+          </Link>
+        </Button>
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl font-bold">{dispute.title}</h1>
+          <Badge variant={statusColors[dispute.status]}>{dispute.status.replace("_", " ")}</Badge>
+        </div>
+        <p className="text-muted-foreground">
+          Order {dispute.orderNumber} ({dispute.orderStatus.replace("_", " ")}) ·{" "}
+          {formatCurrency(dispute.orderAmount)} · Opened {formatDate(dispute.createdAt)}
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Description</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <p className="whitespace-pre-wrap">{dispute.description}</p>
+              {dispute.evidence.length > 0 && (
+                <div className="flex flex-wrap gap-3">
+                  {dispute.evidence.map((file) => (
+                    <a
+                      key={file.url}
+                      href={file.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-emerald-500 hover:underline"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      {file.name}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <DisputeThread
+            disputeId={dispute.id}
+            messages={dispute.messages}
+            currentUserId=""
+            canReply={isActive}
+            allowInternal
+            onPosted={loadDispute}
+          />
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Parties</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Buyer (raised by)</p>
+                <div className="flex items-center gap-2">
+                  <User className="w-4 h-4" />
+                  <span className="font-medium">{dispute.raisedBy.name || dispute.raisedBy.email}</span>
+                </div>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Seller</p>
+                <div className="flex items-center gap-2">
+                  <User className="w-4 h-4" />
+                  <span className="font-medium">{dispute.against.name || dispute.against.email}</span>
+                </div>
+              </div>
+              {awaiting && dispute.responseDueAt && (
+                <div className="flex items-center gap-2 rounded-lg bg-muted/50 p-2">
+                  <Clock className="w-4 h-4" />
+                  <span>
+                    Waiting on the {awaiting} until {formatDate(dispute.responseDueAt)}
+                  </span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {isActive ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Actions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Textarea
+                  placeholder="Optional note sent to the parties with the update"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                />
+                {dispute.status !== "under_review" && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    disabled={!!actionLoading}
+                    onClick={() => runAction("review", () => updateDisputeStatus(dispute.id, "under_review", note))}
+                  >
+                    <Eye className="w-4 h-4 mr-2" />
+                    Mark Under Review
+                  </Button>
+                )}
+                {dispute.status !== "escalated" && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    disabled={!!actionLoading}
+                    onClick={() => runAction("escalate", () => updateDisputeStatus(dispute.id, "escalated", note))}
+                  >
+                    <AlertTriangle className="w-4 h-4 mr-2" />
+                    Escalate
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={!!actionLoading}
+                  onClick={() => runAction("buyer", () => requestDisputeResponse(dispute.id, "buyer", note))}
+                >
+                  Request Response from Buyer
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={!!actionLoading}
+                  onClick={() => runAction("seller", () => requestDisputeResponse(dispute.id, "seller", note))}
+                >
+                  Request Response from Seller
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  A party who misses a response deadline loses the dispute automatically. Resolve
+                  the dispute from the disputes list.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>Outcome</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {dispute.resolution && (
+                  <p className="font-medium capitalize">{dispute.resolution.replace(/_/g, " ")}</p>
+                )}
+                {dispute.resolutionNotes && (
+                  <p className="text-muted-foreground whitespace-pre-wrap">{dispute.resolutionNotes}</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -32,6 +33,7 @@ import {
   Calendar,
   ExternalLink,
   Scale,
+  MessageSquare,
 } from "lucide-react";
 import { getDisputes, resolveDispute } from "@/lib/admin/actions";
 import type { DisputeDetails } from "@/lib/admin/actions";
@@ -136,6 +138,7 @@ export default function DisputesPage() {
             )}
           </TabsTrigger>
           <TabsTrigger value="under_review">Under Review</TabsTrigger>
+          <TabsTrigger value="escalated">Escalated</TabsTrigger>
           <TabsTrigger value="resolved">Resolved</TabsTrigger>
           <TabsTrigger value="all">All</TabsTrigger>
         </TabsList>
@@ -246,15 +249,23 @@ export default function DisputesPage() {
                           <span>Opened {formatDate(dispute.createdAt)}</span>
                         </div>
 
-                        {(dispute.status === "open" || dispute.status === "under_review") && (
-                          <Button
-                            onClick={() => setResolveDialog(dispute)}
-                            className="bg-emerald-600 hover:bg-emerald-700"
-                          >
-                            <Scale className="w-4 h-4 mr-2" />
-                            Resolve Dispute
+                        <div className="flex items-center gap-2">
+                          <Button variant="outline" asChild>
+                            <Link href={`/admin/disputes/${dispute.id}`}>
+                              <MessageSquare className="w-4 h-4 mr-2" />
+                              View Thread
+                            </Link>
                           </Button>
-                        )}
+                          {["open", "under_review", "escalated"].includes(dispute.status) && (
+                            <Button
+                              onClick={() => setResolveDialog(dispute)}
+                              className="bg-emerald-600 hover:bg-emerald-700"
+                            >
+                              <Scale className="w-4 h-4 mr-2" />
+                              Resolve Dispute
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     </div>
                   </CardContent>
@@ -0,0 +1,326 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Percent, Plus, Trash2, Save } from "lucide-react";
+import { getFeeSettings, updateFeeSchedule } from "@/lib/admin/actions";
+import type { FeeSettings } from "@/lib/admin/actions";
+import type { FeeRates, FeePlan, FeeSchedule } from "@/lib/fees";
+
+// Form values are percentages and Rands as typed; blank means "inherit"
+interface RatesForm {
+  buyerFee: string;
+  sellerFee: string;
+  minBuyerFee: string;
+  minSellerFee: string;
+}
+
+const PLANS: { id: FeePlan; label: string }[] = [
+  { id: "monthly", label: "Pro Monthly" },
+  { id: "annual", label: "Pro Annual" },
+];
+
+function toForm(rates: Partial<FeeRates> | undefined): RatesForm {
+  const pct = (bps?: number) => (bps === undefined ? "" : String(bps / 100));
+  const rands = (cents?: number) => (cents === undefined ? "" : (cents / 100).toFixed(2));
+  return {
+    buyerFee: pct(rates?.buyerFeeBps),
+    sellerFee: pct(rates?.sellerFeeBps),
+    minBuyerFee: rands(rates?.minBuyerFee),
+    minSellerFee: rands(rates?.minSellerFee),
+  };
+}
+
+function fromForm(form: RatesForm): Partial<FeeRates> {
+  const rates: Partial<FeeRates> = {};
+  if (form.buyerFee !== "") rates.buyerFeeBps = Math.round(parseFloat(form.buyerFee) * 100);
+  if (form.sellerFee !== "") rates.sellerFeeBps = Math.round(parseFloat(form.sellerFee) * 100);
+  if (form.minBuyerFee !== "") rates.minBuyerFee = Math.round(parseFloat(form.minBuyerFee) * 100);
+  if (form.minSellerFee !== "") rates.minSellerFee = Math.round(parseFloat(form.minSellerFee) * 100);
+  return rates;
+}
+
+function RatesFields({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: RatesForm;
+  onChange: (value: RatesForm) => void;
+  placeholder?: RatesForm;
+}) {
+  const fields: { key: keyof RatesForm; label: string }[] = [
+    { key: "buyerFee", label: "Buyer fee (%)" },
+    { key: "sellerFee", label: "Seller fee (%)" },
+    { key: "minBuyerFee", label: "Min buyer fee (R)" },
+    { key: "minSellerFee", label: "Min seller fee (R)" },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {fields.map((field) => (
+        <div key={field.key} className="space-y-1">
+          <Label className="text-xs">{field.label}</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={value[field.key]}
+            placeholder={placeholder?.[field.key]}
+            onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function FeesPage() {
+  const [settings, setSettings] = useState<FeeSettings | null>(null);
+  const [defaults, setDefaults] = useState<RatesForm>(toForm(undefined));
+  const [plans, setPlans] = useState<Record<FeePlan, RatesForm>>({
+    monthly: toForm(undefined),
+    annual: toForm(undefined),
+  });
+  const [categoryRows, setCategoryRows] = useState<{ categoryId: string; rates: RatesForm }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const applySettings = (result: FeeSettings | null) => {
+    setSettings(result);
+    if (result) {
+      const { schedule } = result;
+      setDefaults(toForm(schedule));
+      setPlans({
+        monthly: toForm(schedule.planOverrides.monthly),
+        annual: toForm(schedule.planOverrides.annual),
+      });
+      setCategoryRows(
+        Object.entries(schedule.categoryOverrides).map(([categoryId, rates]) => ({
+          categoryId,
+          rates: toForm(rates),
+        }))
+      );
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    getFeeSettings().then(applySettings);
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+
+    const base = fromForm(defaults);
+    if (
+      base.buyerFeeBps === undefined ||
+      base.sellerFeeBps === undefined ||
+      base.minBuyerFee === undefined ||
+      base.minSellerFee === undefined
+    ) {
+      setError("All default rates are required");
+      setSaving(false);
+      return;
+    }
+
+    const planOverrides: FeeSchedule["planOverrides"] = {};
+    for (const plan of PLANS) {
+      const rates = fromForm(plans[plan.id]);
+      if (Object.keys(rates).length > 0) planOverrides[plan.id] = rates;
+    }
+
+    const categoryOverrides: FeeSchedule["categoryOverrides"] = {};
+    for (const row of categoryRows) {
+      const rates = fromForm(row.rates);
+      if (row.categoryId && Object.keys(rates).length > 0) {
+        categoryOverrides[row.categoryId] = rates;
+      }
+    }
+
+    const result = await updateFeeSchedule({
+      buyerFeeBps: base.buyerFeeBps,
+      sellerFeeBps: base.sellerFeeBps,
+      minBuyerFee: base.minBuyerFee,
+      minSellerFee: base.minSellerFee,
+      planOverrides,
+      categoryOverrides,
+    });
+
+    setSaving(false);
+
+    if (result.success) {
+      setSaved(true);
+      getFeeSettings().then(applySettings);
+    } else {
+      setError(result.error || "Failed to save fee schedule");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground">Loading fees...</p>
+      </div>
+    );
+  }
+
+  if (!settings) {
+    return (
+      <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+        Failed to load fee settings
+      </div>
+    );
+  }
+
+  const usedCategories = new Set(categoryRows.map((r) => r.categoryId));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Percent className="h-8 w-8" />
+            Fees
+          </h1>
+          <p className="text-muted-foreground">
+            Applies to new orders. Existing orders keep the schedule they were placed under.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Badge variant="outline">Version {settings.schedule.version}</Badge>
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? "Saving..." : "Save New Version"}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+          {error}
+        </div>
+      )}
+
+      {saved && (
+        <div className="rounded-lg bg-emerald-500/15 p-3 text-emerald-700 text-sm">
+          Fee schedule saved.
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Default Rates</CardTitle>
+          <CardDescription>
+            Fees are rounded to the nearest cent, then raised to the minimum (never above the
+            order amount).
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RatesFields value={defaults} onChange={setDefaults} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Subscription Plan Overrides</CardTitle>
+          <CardDescription>
+            The buyer&apos;s plan sets the buyer fee and the seller&apos;s plan sets the seller
+            fee. Plan overrides win over category overrides. Leave blank to inherit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {PLANS.map((plan) => (
+            <div key={plan.id} className="space-y-2">
+              <p className="font-medium">{plan.label}</p>
+              <RatesFields
+                value={plans[plan.id]}
+                placeholder={defaults}
+                onChange={(value) => setPlans({ ...plans, [plan.id]: value })}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Category Overrides</CardTitle>
+            <CardDescription>Leave blank to inherit the default rate.</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setCategoryRows([...categoryRows, { categoryId: "", rates: toForm(undefined) }])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Category
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {categoryRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No category overrides.</p>
+          ) : (
+            categoryRows.map((row, index) => (
+              <div key={index} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={row.categoryId}
+                    onValueChange={(categoryId) =>
+                      setCategoryRows(
+                        categoryRows.map((r, i) => (i === index ? { ...r, categoryId } : r))
+                      )
+                    }
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {settings.categories
+                        .filter((c) => c.id === row.categoryId || !usedCategories.has(c.id))
+                        .map((c) => (
+                          <SelectItem key={c.id} value={c.id}>
+                            {c.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => setCategoryRows(categoryRows.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <RatesFields
+                  value={row.rates}
+                  placeholder={defaults}
+                  onChange={(rates) =>
+                    setCategoryRows(categoryRows.map((r, i) => (i === index ? { ...r, rates } : r)))
+                  }
+                />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
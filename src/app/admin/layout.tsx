@@ -14,6 +14,9 @@ import {
   FileText,
   Settings,
   ArrowLeft,
+  Banknote,
+  RefreshCw,
+  Percent,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -24,6 +27,9 @@ const adminNavItems = [
   { label: "Users", href: "/admin/users", icon: Users },
   { label: "Verifications", href: "/admin/verifications", icon: Shield },
   { label: "Disputes", href: "/admin/disputes", icon: AlertTriangle },
+  { label: "Payouts", href: "/admin/payouts", icon: Banknote },
+  { label: "Reconciliation", href: "/admin/reconciliation", icon: RefreshCw },
+  { label: "Fees", href: "/admin/fees", icon: Percent },
   { label: "Categories", href: "/admin/categories", icon: Folder },
   { label: "Audit Logs", href: "/admin/logs", icon: FileText },
   { label: "Settings", href: "/admin/settings", icon: Settings },
@@ -11,11 +11,18 @@ import {
   TrendingUp,
 } from "lucide-react";
 import Link from "next/link";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { getFeeSchedule, formatFeeRate } from "@/lib/fees";
 
 export const runtime = "edge";
 
 export default async function AdminDashboardPage() {
-  const stats = await getPlatformStats();
+  const { env } = await getCloudflareContext();
+  const [stats, fees] = await Promise.all([
+    getPlatformStats(),
+    getFeeSchedule(createDb(env.DB)),
+  ]);
   
   const formatCurrency = (cents: number) => {
     return new Intl.NumberFormat("en-ZA", {
@@ -67,7 +74,7 @@ export default async function AdminDashboardPage() {
           <CardContent>
             <div className="text-2xl font-bold">{formatCurrency(stats.totalRevenue)}</div>
             <p className="text-xs text-muted-foreground">
-              From fees (3% + 8%)
+              From fees ({formatFeeRate(fees.buyerFeeBps)} + {formatFeeRate(fees.sellerFeeBps)})
             </p>
           </CardContent>
         </Card>
@@ -0,0 +1,389 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Banknote,
+  CheckCircle,
+  XCircle,
+  Download,
+} from "lucide-react";
+import {
+  getPayoutRequests,
+  approvePayout,
+  rejectPayout,
+  exportPayoutBatch,
+  completePayoutBatch,
+} from "@/lib/admin/actions";
+import type { PayoutRequestDetails } from "@/lib/admin/actions";
+
+function formatRands(cents: number): string {
+  return `R ${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2 })}`;
+}
+
+export default function PayoutsPage() {
+  const [payouts, setPayouts] = useState<PayoutRequestDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [rejectDialog, setRejectDialog] = useState<PayoutRequestDetails | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  useEffect(() => {
+    loadPayouts();
+  }, []);
+
+  const loadPayouts = async () => {
+    setLoading(true);
+    const result = await getPayoutRequests();
+    setPayouts(result);
+    setLoading(false);
+  };
+
+  const pending = payouts.filter((p) => p.status === "pending");
+  const approved = payouts.filter((p) => p.status === "approved");
+  const exported = payouts.filter((p) => p.status === "exported");
+  const history = payouts.filter((p) => p.status === "completed" || p.status === "rejected");
+
+  // Group exported payouts by bank batch
+  const batches = exported.reduce<Record<string, PayoutRequestDetails[]>>((acc, p) => {
+    const key = p.batchId || "unknown";
+    (acc[key] ||= []).push(p);
+    return acc;
+  }, {});
+
+  const handleApprove = async (id: string) => {
+    setActionLoading(id);
+    setError(null);
+    const result = await approvePayout(id);
+    setActionLoading(null);
+
+    if (result.success) {
+      loadPayouts();
+    } else {
+      setError(result.error || "Failed to approve payout");
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectDialog || !rejectReason) return;
+
+    setActionLoading(rejectDialog.id);
+    setError(null);
+    const result = await rejectPayout(rejectDialog.id, rejectReason);
+    setActionLoading(null);
+
+    if (result.success) {
+      setRejectDialog(null);
+      setRejectReason("");
+      loadPayouts();
+    } else {
+      setError(result.error || "Failed to reject payout");
+    }
+  };
+
+  const handleExport = async () => {
+    if (!confirm(`Export ${approved.length} approved payout(s) to a bank batch file?`)) return;
+
+    setActionLoading("export");
+    setError(null);
+    const result = await exportPayoutBatch();
+    setActionLoading(null);
+
+    if (result.success && result.csv && result.filename) {
+      const url = URL.createObjectURL(new Blob([result.csv], { type: "text/csv" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = result.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      loadPayouts();
+    } else {
+      setError(result.error || "Failed to export payouts");
+    }
+  };
+
+  const handleComplete = async (batchId: string) => {
+    if (!confirm(`Mark all payouts in batch ${batchId} as paid?`)) return;
+
+    setActionLoading(batchId);
+    setError(null);
+    const result = await completePayoutBatch(batchId);
+    setActionLoading(null);
+
+    if (result.success) {
+      loadPayouts();
+    } else {
+      setError(result.error || "Failed to complete batch");
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString("en-ZA", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground">Loading payouts...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Banknote className="h-8 w-8" />
+          Payouts
+        </h1>
+        <p className="text-muted-foreground">
+          Review seller withdrawals and export them to the bank
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Pending review */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Review ({pending.length})</CardTitle>
+          <CardDescription>Approve payouts to include them in the next bank batch</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pending.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payouts awaiting review.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Seller</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Bank</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pending.map((p) => (
+                  <TableRow key={p.id}>
+                    <TableCell>
+                      <p className="font-medium">{p.user.name || "No name"}</p>
+                      <p className="text-xs text-muted-foreground">{p.user.email}</p>
+                    </TableCell>
+                    <TableCell className="font-medium">{formatRands(p.amount)}</TableCell>
+                    <TableCell>
+                      <p>{p.bankName} ({p.branchCode})</p>
+                      <p className="text-xs text-muted-foreground">
+                        {p.accountHolder} · {p.accountNumber} · {p.accountType}
+                      </p>
+                    </TableCell>
+                    <TableCell>{formatDate(p.createdAt)}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleApprove(p.id)}
+                          disabled={actionLoading === p.id}
+                          className="bg-emerald-600 hover:bg-emerald-700"
+                        >
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-destructive"
+                          onClick={() => setRejectDialog(p)}
+                          disabled={actionLoading === p.id}
+                        >
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Approved, ready to export */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Ready for Export ({approved.length})</CardTitle>
+            <CardDescription>
+              Total {formatRands(approved.reduce((sum, p) => sum + p.amount, 0))}
+            </CardDescription>
+          </div>
+          <Button
+            onClick={handleExport}
+            disabled={approved.length === 0 || actionLoading === "export"}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {actionLoading === "export" ? "Exporting..." : "Export Batch CSV"}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {approved.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No approved payouts.</p>
+          ) : (
+            <div className="space-y-2">
+              {approved.map((p) => (
+                <div key={p.id} className="flex items-center justify-between text-sm">
+                  <span>{p.user.name || p.user.email} · {p.bankName}</span>
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{formatRands(p.amount)}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive"
+                      onClick={() => setRejectDialog(p)}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Exported batches awaiting bank confirmation */}
+      {Object.entries(batches).map(([batchId, items]) => (
+        <Card key={batchId}>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Batch {batchId}</CardTitle>
+              <CardDescription>
+                {items.length} payout{items.length !== 1 && "s"} ·{" "}
+                {formatRands(items.reduce((sum, p) => sum + p.amount, 0))}
+              </CardDescription>
+            </div>
+            <Button
+              onClick={() => handleComplete(batchId)}
+              disabled={actionLoading === batchId}
+              className="bg-emerald-600 hover:bg-emerald-700"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              {actionLoading === batchId ? "Completing..." : "Mark as Paid"}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {items.map((p) => (
+                <div key={p.id} className="flex items-center justify-between text-sm">
+                  <span>{p.user.name || p.user.email} · {p.bankName}</span>
+                  <span className="font-medium">{formatRands(p.amount)}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No completed payouts yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Seller</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((p) => (
+                  <TableRow key={p.id}>
+                    <TableCell>{p.user.name || p.user.email}</TableCell>
+                    <TableCell>{formatRands(p.amount)}</TableCell>
+                    <TableCell className="font-mono text-xs">{p.batchId || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={p.status === "completed" ? "default" : "destructive"}>
+                        {p.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(p.completedAt || p.createdAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejectDialog} onOpenChange={() => setRejectDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Payout</DialogTitle>
+            <DialogDescription>
+              The seller will be notified and the amount returned to their available balance.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Textarea
+              placeholder="Reason for rejection (e.g., bank details do not match account holder)..."
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={actionLoading === rejectDialog?.id || !rejectReason.trim()}
+            >
+              {actionLoading === rejectDialog?.id ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
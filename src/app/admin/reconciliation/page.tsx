@@ -0,0 +1,244 @@
+"use client";
+
+import { Fragment, useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RefreshCw, AlertTriangle } from "lucide-react";
+import { getReconciliationReport, runReconciliation } from "@/lib/admin/actions";
+import type { ReconciliationReport } from "@/lib/admin/actions";
+import type { ReconciliationResult } from "@/lib/payments/reconciliation";
+
+function formatRands(cents: number): string {
+  return `R ${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2 })}`;
+}
+
+function parseDetails(details: string | null): ReconciliationResult[] {
+  if (!details) return [];
+  try {
+    return JSON.parse(details) as ReconciliationResult[];
+  } catch {
+    return [];
+  }
+}
+
+export default function ReconciliationPage() {
+  const [report, setReport] = useState<ReconciliationReport>({ runs: [], stuck: [] });
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = async () => {
+    setLoading(true);
+    const result = await getReconciliationReport();
+    setReport(result);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    getReconciliationReport().then((result) => {
+      setReport(result);
+      setLoading(false);
+    });
+  }, []);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    const result = await runReconciliation();
+    setRunning(false);
+
+    if (result.success) {
+      loadReport();
+    } else {
+      setError(result.error || "Failed to run reconciliation");
+    }
+  };
+
+  const formatDateTime = (date: string) => {
+    return new Date(date).toLocaleString("en-ZA", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground">Loading reconciliation...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <RefreshCw className="h-8 w-8" />
+            Reconciliation
+          </h1>
+          <p className="text-muted-foreground">
+            Payments stuck waiting on OZOW or PayFast are checked every 15 minutes
+          </p>
+        </div>
+        <Button onClick={handleRun} disabled={running}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${running ? "animate-spin" : ""}`} />
+          {running ? "Running..." : "Run Now"}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Currently stuck */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            Awaiting Provider ({report.stuck.length})
+          </CardTitle>
+          <CardDescription>Pending payments older than the reconciliation threshold</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.stuck.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stuck payments.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.stuck.map((t) => (
+                  <TableRow key={t.id}>
+                    <TableCell className="font-mono text-xs">{t.reference || "-"}</TableCell>
+                    <TableCell className="capitalize">{t.provider}</TableCell>
+                    <TableCell>{t.type}</TableCell>
+                    <TableCell>{formatRands(t.amount)}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{t.status}</Badge>
+                    </TableCell>
+                    <TableCell>{formatDateTime(t.createdAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Run history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Reconciliation has not run yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Checked</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead>Failed</TableHead>
+                  <TableHead>Unchanged</TableHead>
+                  <TableHead>Errors</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.runs.map((run) => {
+                  const details = parseDetails(run.details);
+                  const expanded = expandedRun === run.id;
+
+                  return (
+                    <Fragment key={run.id}>
+                      <TableRow>
+                        <TableCell>{formatDateTime(run.startedAt)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{run.trigger}</Badge>
+                        </TableCell>
+                        <TableCell>{run.checked}</TableCell>
+                        <TableCell className="text-emerald-600">{run.completed}</TableCell>
+                        <TableCell>{run.failed}</TableCell>
+                        <TableCell>{run.unchanged}</TableCell>
+                        <TableCell className={run.errors > 0 ? "text-destructive" : ""}>
+                          {run.errors}
+                        </TableCell>
+                        <TableCell>
+                          {details.length > 0 && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setExpandedRun(expanded ? null : run.id)}
+                            >
+                              {expanded ? "Hide" : "Details"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell colSpan={8}>
+                            <div className="space-y-1">
+                              {details.map((d) => (
+                                <div
+                                  key={d.transactionId}
+                                  className="flex items-center justify-between text-sm"
+                                >
+                                  <span className="font-mono text-xs">
+                                    {d.reference || d.transactionId} · {d.provider}
+                                  </span>
+                                  <span className="flex items-center gap-2">
+                                    {formatRands(d.amount)}
+                                    <Badge
+                                      variant={d.action === "error" ? "destructive" : "secondary"}
+                                    >
+                                      {d.action}
+                                    </Badge>
+                                    {d.message && (
+                                      <span className="text-muted-foreground">{d.message}</span>
+                                    )}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Settings, Save } from "lucide-react";
+import { getPlatformSettings, updatePlatformSettings } from "@/lib/admin/actions";
+import type { PlatformSettingsView } from "@/lib/admin/actions";
+import type { PlatformSettingKey, PlatformSettingValues } from "@/lib/settings";
+
+const GROUP_DESCRIPTIONS: Record<string, string> = {
+  Orders:
+    "Delivered orders the buyer has not reviewed are accepted automatically and the escrow released to the seller.",
+  Disputes:
+    "A party who doesn't reply by the deadline loses the dispute: the buyer's dispute is closed, or the seller's escrow is refunded.",
+};
+
+export default function SettingsPage() {
+  const [settings, setSettings] = useState<PlatformSettingsView | null>(null);
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const applySettings = (result: PlatformSettingsView | null) => {
+    setSettings(result);
+    if (result) {
+      setForm(
+        Object.fromEntries(
+          Object.entries(result.values).map(([key, value]) => [key, String(value)])
+        )
+      );
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    getPlatformSettings().then(applySettings);
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+
+    const values = Object.fromEntries(
+      Object.entries(form).map(([key, value]) => [key, Number(value)])
+    ) as PlatformSettingValues;
+
+    const result = await updatePlatformSettings(values);
+
+    setSaving(false);
+
+    if (result.success) {
+      setSaved(true);
+      getPlatformSettings().then(applySettings);
+    } else {
+      setError(result.error || "Failed to save settings");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground">Loading settings...</p>
+      </div>
+    );
+  }
+
+  if (!settings) {
+    return (
+      <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+        Failed to load settings
+      </div>
+    );
+  }
+
+  const keys = Object.keys(settings.definitions) as PlatformSettingKey[];
+  const groups = [...new Set(keys.map((key) => settings.definitions[key].group))];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Settings className="h-8 w-8" />
+            Settings
+          </h1>
+          <p className="text-muted-foreground">Platform operating settings</p>
+        </div>
+        <Button onClick={handleSave} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? "Saving..." : "Save Settings"}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm">
+          {error}
+        </div>
+      )}
+
+      {saved && (
+        <div className="rounded-lg bg-emerald-500/15 p-3 text-emerald-700 text-sm">
+          Settings saved.
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <Card key={group}>
+          <CardHeader>
+            <CardTitle>{group}</CardTitle>
+            {GROUP_DESCRIPTIONS[group] && (
+              <CardDescription>{GROUP_DESCRIPTIONS[group]}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {keys
+              .filter((key) => settings.definitions[key].group === group)
+              .map((key) => {
+                const definition = settings.definitions[key];
+                return (
+                  <div key={key} className="grid gap-1 md:grid-cols-[1fr_160px] md:items-center">
+                    <div>
+                      <Label htmlFor={key}>{definition.label}</Label>
+                      <p className="text-xs text-muted-foreground">
+                        {definition.description} (default {definition.default})
+                      </p>
+                    </div>
+                    <Input
+                      id={key}
+                      type="number"
+                      step="1"
+                      min={definition.min}
+                      max={definition.max}
+                      value={form[key] ?? ""}
+                      onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                    />
+                  </div>
+                );
+              })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+// Dispute evidence download - serves an evidence file from R2 to the parties (or an admin)
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { disputes } from "@/lib/db/schema";
+import { getServerSession } from "@/lib/auth/server";
+import { findDisputeFile } from "@/lib/disputes";
+import { getFileResponse } from "@/lib/files";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const key = request.nextUrl.searchParams.get("key") || "";
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.id, id),
+    });
+
+    const isAdmin = session.role === "admin" || session.role === "moderator";
+    const isParty = dispute && (dispute.raisedById === session.userId || dispute.againstId === session.userId);
+    if (!dispute || (!isParty && !isAdmin)) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    // Files on internal notes are only visible to admins
+    const file = await findDisputeFile(db, dispute, key, isAdmin);
+    const response = file ? await getFileResponse(env.FILES, file) : null;
+
+    return response ?? NextResponse.json({ error: "File not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Dispute evidence download error:", error);
+    return NextResponse.json({ error: "Failed to load file" }, { status: 500 });
+  }
+}
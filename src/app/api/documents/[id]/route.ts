@@ -0,0 +1,45 @@
+// Billing document download - serves the PDF from R2 to its recipient (or an admin)
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { billingDocuments } from "@/lib/db/schema";
+import { getServerSession } from "@/lib/auth/server";
+import { getDocumentPdf } from "@/lib/documents";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const document = await db.query.billingDocuments.findFirst({
+      where: eq(billingDocuments.id, id),
+    });
+
+    if (!document || (document.userId !== session.userId && session.role !== "admin")) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const pdf = await getDocumentPdf(db, env.FILES, document);
+
+    return new NextResponse(pdf as BodyInit, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${document.number}.pdf"`,
+        "Cache-Control": "private, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Document download error:", error);
+    return NextResponse.json({ error: "Failed to load document" }, { status: 500 });
+  }
+}
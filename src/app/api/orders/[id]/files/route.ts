@@ -0,0 +1,45 @@
+// Order requirements download - serves a file the buyer uploaded with their answers to the parties (or an admin)
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { orders } from "@/lib/db/schema";
+import { getServerSession } from "@/lib/auth/server";
+import { findRequirementFile } from "@/lib/orders/requirements";
+import { getFileResponse } from "@/lib/files";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const key = request.nextUrl.searchParams.get("key") || "";
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, id),
+    });
+
+    // Admins need the files when reviewing a dispute on the order
+    const isAdmin = session.role === "admin" || session.role === "moderator";
+    const isParty = order && (order.buyerId === session.userId || order.sellerId === session.userId);
+    if (!order || (!isParty && !isAdmin)) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const file = findRequirementFile(order, key);
+    const response = file ? await getFileResponse(env.FILES, file) : null;
+
+    return response ?? NextResponse.json({ error: "File not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Order requirements download error:", error);
+    return NextResponse.json({ error: "Failed to load file" }, { status: 500 });
+  }
+}
@@ -2,12 +2,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { createDb } from "@/lib/db";
-import {
-  verifyOzowWebhook,
-  parseOzowWebhook,
-  handlePaymentSuccess,
-  handlePaymentFailure,
-} from "@/lib/payments";
+import { handleProviderNotification } from "@/lib/payments/webhooks";
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,47 +13,26 @@ export async function POST(request: NextRequest) {
       params[key] = String(value);
     }
 
-    // Verify webhook signature
-    const isValid = await verifyOzowWebhook(params);
-    if (!isValid) {
-      console.error("Invalid OZOW webhook signature");
-      return NextResponse.json(
-        { error: "Invalid signature" },
-        { status: 400 }
-      );
-    }
-
-    const notification = parseOzowWebhook(params);
+    const clientIp = request.headers.get("cf-connecting-ip") || "";
 
     const { env } = await getCloudflareContext();
     const db = createDb(env.DB);
 
-    // Handle based on status
-    if (notification.status === "success") {
-      await handlePaymentSuccess(db, {
-        reference: notification.reference,
-        providerTransactionId: notification.transactionId,
-        orderId: notification.orderId,
-        milestoneId: notification.milestoneId,
-        amount: notification.amount,
-        provider: "ozow",
-      });
-    } else if (
-      notification.status === "cancelled" ||
-      notification.status === "failed"
-    ) {
-      await handlePaymentFailure(
-        db,
-        notification.reference,
-        `Payment ${notification.status}: ${notification.message || "No details"}`
+    const result = await handleProviderNotification(db, "ozow", params, { sourceIp: clientIp });
+
+    if (result.outcome === "invalid") {
+      console.error("Invalid OZOW webhook signature");
+      return NextResponse.json(
+        { error: "Invalid signature" },
+        { status: 400 }
       );
     }
 
-    // OZOW expects 200 OK response
-    return NextResponse.json({ success: true });
+    // OZOW expects 200 OK response, including for duplicates
+    return NextResponse.json({ success: true, outcome: result.outcome });
   } catch (error) {
     console.error("OZOW webhook error:", error);
-    // Return 200 to prevent retries for errors we can't fix
-    return NextResponse.json({ success: false });
+    // Let OZOW retry - the failed event will be reprocessed
+    return NextResponse.json({ success: false }, { status: 500 });
   }
 }
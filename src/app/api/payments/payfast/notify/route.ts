@@ -2,12 +2,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { createDb } from "@/lib/db";
-import {
-  verifyPayFastITN,
-  parsePayFastITN,
-  handlePaymentSuccess,
-  handlePaymentFailure,
-} from "@/lib/payments";
+import { handleProviderNotification } from "@/lib/payments/webhooks";
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,44 +20,21 @@ export async function POST(request: NextRequest) {
       params[key] = String(value);
     }
 
-    // Verify ITN
-    const verification = await verifyPayFastITN(params, clientIp);
-    if (!verification.valid) {
-      console.error("Invalid PayFast ITN", { clientIp, error: verification.error });
-      return new NextResponse("Invalid ITN", { status: 400 });
-    }
-
-    const notification = parsePayFastITN(params);
-
     const { env } = await getCloudflareContext();
     const db = createDb(env.DB);
 
-    // Handle based on status
-    if (notification.status === "success") {
-      await handlePaymentSuccess(db, {
-        reference: notification.reference,
-        providerTransactionId: notification.transactionId,
-        orderId: notification.orderId,
-        milestoneId: notification.milestoneId,
-        amount: notification.amount,
-        provider: "payfast",
-      });
-    } else if (
-      notification.status === "cancelled" ||
-      notification.status === "failed"
-    ) {
-      await handlePaymentFailure(
-        db,
-        notification.reference,
-        `Payment ${notification.status}`
-      );
+    const result = await handleProviderNotification(db, "payfast", params, { sourceIp: clientIp });
+
+    if (result.outcome === "invalid") {
+      console.error("Invalid PayFast ITN", { clientIp, error: result.error });
+      return new NextResponse("Invalid ITN", { status: 400 });
     }
 
-    // PayFast expects 200 OK response
+    // Duplicates and rejected notifications are acknowledged so PayFast stops resending
     return new NextResponse("OK", { status: 200 });
   } catch (error) {
     console.error("PayFast ITN error:", error);
-    // Return 200 to prevent retries for errors we can't fix
-    return new NextResponse("OK", { status: 200 });
+    // Let PayFast retry - the failed event will be reprocessed
+    return new NextResponse("ERROR", { status: 500 });
   }
 }
@@ -0,0 +1,62 @@
+// Sandbox Checkout Completion
+// Posted by the sandbox checkout page: sends the chosen outcome through the
+// webhook pipeline, then redirects the buyer back like a real gateway would.
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { transactions } from "@/lib/db/schema";
+import { getServerSession } from "@/lib/auth/server";
+import { buildSandboxNotification, type PaymentStatus } from "@/lib/payments";
+import { handleProviderNotification } from "@/lib/payments/webhooks";
+
+const OUTCOMES: PaymentStatus[] = ["success", "failed", "cancelled"];
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession();
+    if (!session) {
+      return NextResponse.redirect(new URL("/login", request.url), 303);
+    }
+
+    const formData = await request.formData();
+    const reference = String(formData.get("reference") || "");
+    const outcome = OUTCOMES.find((o) => o === formData.get("outcome")) || "cancelled";
+
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const transaction = await db.query.transactions.findFirst({
+      where: eq(transactions.providerReference, reference),
+    });
+
+    if (!transaction || transaction.provider !== "sandbox" || transaction.userId !== session.userId) {
+      return NextResponse.redirect(new URL("/dashboard/orders", request.url), 303);
+    }
+
+    const body = await buildSandboxNotification({
+      reference,
+      amount: transaction.amount,
+      status: outcome,
+    });
+
+    const result = await handleProviderNotification(db, "sandbox", body, { sourceIp: "" });
+    if (result.outcome === "invalid" || result.outcome === "rejected") {
+      console.error("Sandbox payment not applied:", result.error);
+    }
+
+    const redirectUrl = new URL(
+      transaction.orderId ? `/dashboard/orders/${transaction.orderId}` : "/dashboard/orders",
+      request.url
+    );
+    redirectUrl.searchParams.set("payment", outcome === "failed" ? "error" : outcome);
+    if (transaction.milestoneId) {
+      redirectUrl.searchParams.set("milestone", transaction.milestoneId);
+    }
+
+    return NextResponse.redirect(redirectUrl, 303);
+  } catch (error) {
+    console.error("Sandbox complete error:", error);
+    return NextResponse.redirect(new URL("/dashboard/orders", request.url), 303);
+  }
+}
@@ -0,0 +1,82 @@
+// Sandbox Payment Initiation API
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { getServerSession } from "@/lib/auth/server";
+import { initiatePayment } from "@/lib/payments";
+import { EMAIL_CONFIG } from "@/lib/email";
+import { orders, milestones } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+
+interface InitiateBody {
+  orderId: string;
+  milestoneId?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as InitiateBody;
+    const { orderId, milestoneId } = body;
+
+    if (!orderId) {
+      return NextResponse.json(
+        { error: "Order ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    // Only the buyer can pay for an order or one of its milestones
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, orderId),
+    });
+
+    if (!order || order.buyerId !== session.userId) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    if (milestoneId) {
+      const milestone = await db.query.milestones.findFirst({
+        where: and(eq(milestones.id, milestoneId), eq(milestones.orderId, orderId)),
+      });
+
+      if (!milestone) {
+        return NextResponse.json({ error: "Milestone not found" }, { status: 404 });
+      }
+    }
+
+    const result = await initiatePayment(
+      db,
+      {
+        orderId,
+        milestoneId,
+        provider: "sandbox",
+        buyerEmail: session.email,
+        buyerName: session.name || undefined,
+      },
+      EMAIL_CONFIG.baseUrl
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      redirectUrl: result.redirectUrl,
+    });
+  } catch (error) {
+    console.error("Sandbox initiate error:", error);
+    return NextResponse.json(
+      { error: "Failed to initiate payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+// Sandbox Webhook Notification Handler
+// Accepts signed notifications built by buildSandboxNotification (or by hand with
+// PAYMENT_SANDBOX_SECRET) so webhook handling can be exercised locally.
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { handleProviderNotification } from "@/lib/payments/webhooks";
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+
+    for (const [key, value] of formData.entries()) {
+      params[key] = String(value);
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const result = await handleProviderNotification(db, "sandbox", params, { sourceIp: "" });
+
+    if (result.outcome === "invalid") {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, outcome: result.outcome, error: result.error });
+  } catch (error) {
+    console.error("Sandbox webhook error:", error);
+    return NextResponse.json({ success: false }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+// Search API - same filters and cursors as /browse/services and /browse/projects
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { searchServices, searchProjects } from "@/lib/search";
+import { parseServiceSearchParams, parseProjectSearchParams } from "@/lib/search/filters";
+
+// GET /api/search?type=services|projects&q=...&cursor=...
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const type = searchParams.get("type") || "services";
+
+    if (type !== "services" && type !== "projects") {
+      return NextResponse.json({ error: "type must be services or projects" }, { status: 400 });
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const page =
+      type === "services"
+        ? await searchServices(db, parseServiceSearchParams(searchParams))
+        : await searchProjects(db, parseProjectSearchParams(searchParams));
+
+    return NextResponse.json({ results: page.items, nextCursor: page.nextCursor });
+  } catch (error) {
+    console.error("Search error:", error);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
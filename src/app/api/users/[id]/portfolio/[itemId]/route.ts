@@ -0,0 +1,33 @@
+// Portfolio image - public, shown on the freelancer's profile
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { userProfiles } from "@/lib/db/schema";
+import { parsePortfolio } from "@/lib/profiles/portfolio";
+import { getFileResponse } from "@/lib/files";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id, itemId } = await params;
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const profile = await db.query.userProfiles.findFirst({
+      where: eq(userProfiles.userId, id),
+    });
+
+    const item = parsePortfolio(profile?.portfolioUrls ?? null).find((i) => i.id === itemId);
+    const response = item
+      ? await getFileResponse(env.FILES, { key: item.imageKey, contentType: item.contentType }, "public, max-age=86400")
+      : null;
+
+    return response ?? NextResponse.json({ error: "Image not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Portfolio image error:", error);
+    return NextResponse.json({ error: "Failed to load image" }, { status: 500 });
+  }
+}
@@ -2,13 +2,30 @@ import Link from "next/link";
 import { Search, Clock, MessageSquare, Calendar } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { FilterSelect, SearchPagination } from "@/components/search/search-filters";
 import { getOpenProjects } from "@/lib/projects/actions";
+import { getCategories } from "@/lib/services/actions";
+import { parseProjectSearchParams, PROJECT_SORTS, SORT_LABELS } from "@/lib/search/filters";
 import { formatCurrency } from "@/lib/utils";
 
-export default async function BrowseProjectsPage() {
-  const projects = await getOpenProjects();
+interface BrowseProjectsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function BrowseProjectsPage({ searchParams }: BrowseProjectsPageProps) {
+  const params = await searchParams;
+  const filters = parseProjectSearchParams(params);
+  const [{ items: projects, nextCursor }, categories] = await Promise.all([
+    getOpenProjects(filters),
+    getCategories(),
+  ]);
+  const isFiltered = Boolean(
+    filters.query || filters.category || filters.budgetType || filters.skills ||
+    filters.minBudget !== undefined || filters.maxBudget !== undefined
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -20,16 +37,63 @@ export default async function BrowseProjectsPage() {
             Find projects that match your skills and start bidding
           </p>
           
-          <div className="flex gap-4 max-w-2xl">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search projects..."
-                className="pl-9"
+          <form method="get" action="/browse/projects" className="space-y-4">
+            <div className="flex gap-4 max-w-2xl">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  name="q"
+                  defaultValue={filters.query}
+                  placeholder="Search projects..."
+                  className="pl-9"
+                />
+              </div>
+              <Button type="submit">Search</Button>
+            </div>
+
+            <div className="grid gap-3 grid-cols-2 md:grid-cols-6 items-end">
+              <FilterSelect
+                id="category"
+                name="category"
+                label="Category"
+                defaultValue={filters.category}
+                options={[
+                  { value: "", label: "All categories" },
+                  ...categories.map((category) => ({ value: category.slug, label: category.name })),
+                ]}
+              />
+              <FilterSelect
+                id="budgetType"
+                name="budgetType"
+                label="Budget type"
+                defaultValue={filters.budgetType}
+                options={[
+                  { value: "", label: "Any" },
+                  { value: "fixed", label: "Fixed price" },
+                  { value: "hourly", label: "Hourly" },
+                ]}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="minBudget" className="text-xs text-muted-foreground">Min budget (R)</Label>
+                <Input id="minBudget" name="minBudget" type="number" min={0} defaultValue={filters.minBudget} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maxBudget" className="text-xs text-muted-foreground">Max budget (R)</Label>
+                <Input id="maxBudget" name="maxBudget" type="number" min={0} defaultValue={filters.maxBudget} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="skills" className="text-xs text-muted-foreground">Skills</Label>
+                <Input id="skills" name="skills" placeholder="react, figma" defaultValue={filters.skills?.join(", ")} />
+              </div>
+              <FilterSelect
+                id="sort"
+                name="sort"
+                label="Sort by"
+                defaultValue={filters.sort}
+                options={PROJECT_SORTS.map((sort) => ({ value: sort, label: SORT_LABELS[sort] }))}
               />
             </div>
-            <Button>Search</Button>
-          </div>
+          </form>
         </div>
       </div>
 
@@ -37,26 +101,32 @@ export default async function BrowseProjectsPage() {
       <div className="container mx-auto px-4 py-8">
         <div className="flex items-center justify-between mb-6">
           <p className="text-muted-foreground">
-            {projects.length} project{projects.length !== 1 ? "s" : ""} available
+            {projects.length}{nextCursor ? "+" : ""} project{projects.length !== 1 ? "s" : ""} {isFiltered ? "found" : "available"}
           </p>
-          {/* TODO: Add sorting/filtering */}
+          {isFiltered && (
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/browse/projects">Clear filters</Link>
+            </Button>
+          )}
         </div>
 
         {projects.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center">
               <p className="text-muted-foreground mb-4">
-                No open projects at the moment. Check back soon!
+                {isFiltered
+                  ? "No open projects match your search."
+                  : "No open projects at the moment. Check back soon!"}
               </p>
               <Button variant="outline" asChild>
-                <Link href="/">Go Home</Link>
+                {isFiltered ? <Link href="/browse/projects">Clear Filters</Link> : <Link href="/">Go Home</Link>}
               </Button>
             </CardContent>
           </Card>
         ) : (
           <div className="grid gap-4">
             {projects.map((project) => {
-              const skills = project.skills ? JSON.parse(project.skills) : [];
+              const skills = project.skills;
               
               return (
                 <Card key={project.id} className="hover:border-primary/50 transition-colors">
@@ -108,7 +178,7 @@ export default async function BrowseProjectsPage() {
                       </div>
                       <div className="flex items-center gap-1">
                         <MessageSquare className="h-4 w-4" />
-                        {project.bidCount ?? 0} bids
+                        {project.bidCount} bids
                       </div>
                       {project.deadline && (
                         <div className="flex items-center gap-1">
@@ -131,6 +201,8 @@ export default async function BrowseProjectsPage() {
             })}
           </div>
         )}
+
+        <SearchPagination basePath="/browse/projects" searchParams={params} nextCursor={nextCursor} />
       </div>
     </div>
   );
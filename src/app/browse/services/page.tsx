@@ -0,0 +1,210 @@
+import Link from "next/link";
+import { Search, Clock, Star, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { FilterSelect, SearchPagination } from "@/components/search/search-filters";
+import { getActiveServices, getCategories } from "@/lib/services/actions";
+import { parseServiceSearchParams, SERVICE_SORTS, SORT_LABELS } from "@/lib/search/filters";
+import { formatCurrency } from "@/lib/utils";
+
+interface BrowseServicesPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function BrowseServicesPage({ searchParams }: BrowseServicesPageProps) {
+  const params = await searchParams;
+  const filters = parseServiceSearchParams(params);
+  const [{ items: services, nextCursor }, categories] = await Promise.all([
+    getActiveServices(filters),
+    getCategories(),
+  ]);
+  const isFiltered = Boolean(
+    filters.query || filters.category || filters.skills || filters.verifiedOnly ||
+    filters.minPrice !== undefined || filters.maxPrice !== undefined ||
+    filters.maxDeliveryDays !== undefined || filters.minRating !== undefined
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-muted/30">
+        <div className="container mx-auto px-4 py-8">
+          <h1 className="text-3xl font-bold mb-2">Browse Services</h1>
+          <p className="text-muted-foreground mb-6">
+            Find a freelancer with a ready-made service for what you need
+          </p>
+
+          <form method="get" action="/browse/services" className="space-y-4">
+            <div className="flex gap-4 max-w-2xl">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  name="q"
+                  defaultValue={filters.query}
+                  placeholder="Search services..."
+                  className="pl-9"
+                />
+              </div>
+              <Button type="submit">Search</Button>
+            </div>
+
+            <div className="grid gap-3 grid-cols-2 md:grid-cols-4 lg:grid-cols-8 items-end">
+              <FilterSelect
+                id="category"
+                name="category"
+                label="Category"
+                defaultValue={filters.category}
+                options={[
+                  { value: "", label: "All categories" },
+                  ...categories.map((category) => ({ value: category.slug, label: category.name })),
+                ]}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="minPrice" className="text-xs text-muted-foreground">Min price (R)</Label>
+                <Input id="minPrice" name="minPrice" type="number" min={0} defaultValue={filters.minPrice} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maxPrice" className="text-xs text-muted-foreground">Max price (R)</Label>
+                <Input id="maxPrice" name="maxPrice" type="number" min={0} defaultValue={filters.maxPrice} />
+              </div>
+              <FilterSelect
+                id="deliveryDays"
+                name="deliveryDays"
+                label="Delivery within"
+                defaultValue={filters.maxDeliveryDays?.toString()}
+                options={[
+                  { value: "", label: "Any time" },
+                  { value: "1", label: "24 hours" },
+                  { value: "3", label: "3 days" },
+                  { value: "7", label: "7 days" },
+                  { value: "14", label: "14 days" },
+                ]}
+              />
+              <FilterSelect
+                id="rating"
+                name="rating"
+                label="Seller rating"
+                defaultValue={filters.minRating?.toString()}
+                options={[
+                  { value: "", label: "Any rating" },
+                  { value: "4.5", label: "4.5 & up" },
+                  { value: "4", label: "4 & up" },
+                  { value: "3", label: "3 & up" },
+                ]}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="skills" className="text-xs text-muted-foreground">Skills</Label>
+                <Input id="skills" name="skills" placeholder="logo, wordpress" defaultValue={filters.skills?.join(", ")} />
+              </div>
+              <FilterSelect
+                id="sort"
+                name="sort"
+                label="Sort by"
+                defaultValue={filters.sort}
+                options={SERVICE_SORTS.map((sort) => ({ value: sort, label: SORT_LABELS[sort] }))}
+              />
+              <Label className="flex items-center gap-2 h-9 font-normal text-sm">
+                <input
+                  type="checkbox"
+                  name="verified"
+                  value="1"
+                  defaultChecked={filters.verifiedOnly}
+                  className="h-4 w-4 accent-primary"
+                />
+                Verified sellers
+              </Label>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {/* Services Grid */}
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <p className="text-muted-foreground">
+            {services.length}{nextCursor ? "+" : ""} service{services.length !== 1 ? "s" : ""} {isFiltered ? "found" : "available"}
+          </p>
+          {isFiltered && (
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/browse/services">Clear filters</Link>
+            </Button>
+          )}
+        </div>
+
+        {services.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground mb-4">
+                {isFiltered ? "No services match your search." : "No services yet. Check back soon!"}
+              </p>
+              <Button variant="outline" asChild>
+                {isFiltered ? <Link href="/browse/services">Clear Filters</Link> : <Link href="/">Go Home</Link>}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {services.map((service) => (
+              <Card key={service.id} className="overflow-hidden hover:border-primary/50 transition-colors">
+                <Link href={`/services/${service.slug}`}>
+                  <div className="aspect-video bg-muted">
+                    {service.thumbnailUrl && (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={service.thumbnailUrl} alt={service.title} className="h-full w-full object-cover" />
+                    )}
+                  </div>
+                </Link>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Avatar className="h-6 w-6">
+                      {service.seller.avatarUrl && <AvatarImage src={service.seller.avatarUrl} />}
+                      <AvatarFallback className="text-xs">{service.seller.name.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <span className="font-medium truncate">{service.seller.name}</span>
+                    {service.seller.isIdVerified && (
+                      <ShieldCheck className="h-4 w-4 text-emerald-500 shrink-0" aria-label="Verified seller" />
+                    )}
+                  </div>
+                  <CardTitle className="text-base leading-snug">
+                    <Link
+                      href={`/services/${service.slug}`}
+                      className="hover:text-primary transition-colors line-clamp-2"
+                    >
+                      {service.title}
+                    </Link>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground mb-3">
+                    {service.seller.rating !== null && (
+                      <div className="flex items-center gap-1">
+                        <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                        <span className="font-medium text-foreground">{service.seller.rating.toFixed(1)}</span>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-1">
+                      <Clock className="h-4 w-4" />
+                      {service.deliveryDays} day{service.deliveryDays !== 1 ? "s" : ""}
+                    </div>
+                    <Badge variant="secondary" className="text-xs ml-auto">
+                      {service.category.name}
+                    </Badge>
+                  </div>
+                  <p className="text-right text-sm text-muted-foreground">
+                    From <span className="font-bold text-foreground">{formatCurrency(service.price / 100)}</span>
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <SearchPagination basePath="/browse/services" searchParams={params} nextCursor={nextCursor} />
+      </div>
+    </div>
+  );
+}
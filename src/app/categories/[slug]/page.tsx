@@ -0,0 +1,114 @@
+// Category landing page - services in a category and its subcategories
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { MarketplaceHeader } from "@/components/layout/marketplace-header";
+import { SearchPagination } from "@/components/search/search-filters";
+import { ServiceGrid, ServiceSortLinks } from "@/components/services/service-card";
+import { getActiveServices, getCategoryBySlug } from "@/lib/services/actions";
+import { getServerSession } from "@/lib/auth/server";
+import { parseServiceSearchParams } from "@/lib/search/filters";
+
+interface CategoryPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
+  const { slug } = await params;
+  const query = await searchParams;
+  const category = await getCategoryBySlug(slug);
+
+  if (!category) {
+    notFound();
+  }
+
+  const filters = parseServiceSearchParams({
+    sort: query.sort || "popular",
+    cursor: query.cursor,
+    category: category.slug,
+  });
+
+  const [session, { items: services, nextCursor }, featured] = await Promise.all([
+    getServerSession(),
+    getActiveServices(filters),
+    filters.cursor
+      ? Promise.resolve({ items: [], nextCursor: null })
+      : getActiveServices({ ...filters, featuredOnly: true, sort: "popular", limit: 4 }),
+  ]);
+
+  const basePath = `/categories/${category.slug}`;
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      <MarketplaceHeader isLoggedIn={!!session} />
+
+      <section className="border-b border-slate-800 py-10">
+        <div className="container mx-auto px-4 md:px-6">
+          <div className="flex items-center gap-2 text-sm text-slate-400 mb-2">
+            <Link href="/services" className="hover:text-white">
+              Services
+            </Link>
+            {category.parent && (
+              <>
+                <span>/</span>
+                <Link href={`/categories/${category.parent.slug}`} className="hover:text-white">
+                  {category.parent.name}
+                </Link>
+              </>
+            )}
+            <span>/</span>
+            <span>{category.name}</span>
+          </div>
+          <h1 className="text-3xl font-bold text-white">{category.name}</h1>
+          {category.description && <p className="mt-2 text-slate-400 max-w-2xl">{category.description}</p>}
+
+          {category.children.length > 0 && (
+            <div className="mt-6 flex flex-wrap gap-2">
+              {category.children.map((child) => (
+                <Link
+                  key={child.id}
+                  href={`/categories/${child.slug}`}
+                  className="rounded-full px-3 py-1 text-sm border border-slate-800 text-slate-300 hover:text-white hover:border-slate-700"
+                >
+                  {child.name}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+
+      <main className="container mx-auto px-4 md:px-6 py-10 space-y-12">
+        {featured.items.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-white mb-4">Featured in {category.name}</h2>
+            <ServiceGrid services={featured.items} />
+          </section>
+        )}
+
+        <section>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+            <h2 className="text-xl font-semibold text-white">All {category.name} Services</h2>
+            <ServiceSortLinks basePath={basePath} current={filters.sort} />
+          </div>
+
+          {services.length === 0 ? (
+            <Card className="border-slate-800 bg-slate-900/50">
+              <CardContent className="py-12 text-center text-slate-400">
+                No services in this category yet.{" "}
+                <Link href="/services" className="text-emerald-400 hover:underline">
+                  Explore other services
+                </Link>
+              </CardContent>
+            </Card>
+          ) : (
+            <ServiceGrid services={services} />
+          )}
+
+          <SearchPagination basePath={basePath} searchParams={query} nextCursor={nextCursor} />
+        </section>
+      </main>
+    </div>
+  );
+}
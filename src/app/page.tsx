@@ -9,8 +9,14 @@ import {
   Star,
   CheckCircle,
 } from "lucide-react";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { getFeeSchedule, formatFeeRate } from "@/lib/fees";
+
+export default async function HomePage() {
+  const { env } = await getCloudflareContext();
+  const fees = await getFeeSchedule(createDb(env.DB));
 
-export default function HomePage() {
   return (
     <div className="min-h-screen bg-slate-950">
       {/* Navigation */}
@@ -71,7 +77,7 @@ export default function HomePage() {
                 <ArrowRight className="ml-2 h-4 w-4" />
               </Button>
             </Link>
-            <Link href="/browse">
+            <Link href="/services">
               <Button
                 size="lg"
                 variant="outline"
@@ -200,7 +206,7 @@ export default function HomePage() {
             />
           </div>
           <p className="text-center text-sm text-slate-500 mt-8">
-            Platform fees: 3% buyer fee + 8% seller fee on all transactions
+            Platform fees: {formatFeeRate(fees.buyerFeeBps)} buyer fee + {formatFeeRate(fees.sellerFeeBps)} seller fee on all transactions
           </p>
         </div>
       </section>
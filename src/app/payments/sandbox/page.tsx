@@ -0,0 +1,67 @@
+// Sandbox checkout - stands in for the OZOW / PayFast hosted payment page in development
+import { notFound } from "next/navigation";
+import { FlaskConical, CheckCircle, XCircle, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireSession } from "@/lib/auth/server";
+import { SANDBOX_CONFIG } from "@/lib/payments/config";
+
+interface SandboxCheckoutPageProps {
+  searchParams: Promise<{ reference?: string; amount?: string; description?: string }>;
+}
+
+export default async function SandboxCheckoutPage({ searchParams }: SandboxCheckoutPageProps) {
+  if (!SANDBOX_CONFIG.enabled) {
+    notFound();
+  }
+
+  await requireSession();
+  const { reference, amount, description } = await searchParams;
+
+  if (!reference) {
+    notFound();
+  }
+
+  const amountInRands = (parseInt(amount || "0", 10) / 100).toLocaleString("en-ZA", {
+    minimumFractionDigits: 2,
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/40 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5 text-amber-500" />
+            Sandbox Checkout
+          </CardTitle>
+          <CardDescription>
+            Test payment - no money will move. Choose how the payment should end.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="rounded-lg border p-4 space-y-1">
+            <p className="text-sm text-muted-foreground">{description}</p>
+            <p className="text-3xl font-bold">R {amountInRands}</p>
+            <p className="font-mono text-xs text-muted-foreground">{reference}</p>
+          </div>
+
+          <form action={SANDBOX_CONFIG.completeUrl} method="POST" className="grid gap-2">
+            <input type="hidden" name="reference" value={reference} />
+            <Button type="submit" name="outcome" value="success" className="bg-emerald-600 hover:bg-emerald-700">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Pay successfully
+            </Button>
+            <Button type="submit" name="outcome" value="failed" variant="outline" className="text-destructive">
+              <XCircle className="w-4 h-4 mr-2" />
+              Decline payment
+            </Button>
+            <Button type="submit" name="outcome" value="cancelled" variant="ghost">
+              <Ban className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { getFeeSchedule, formatFeeRate } from "@/lib/fees";
 
 export const metadata: Metadata = {
   title: "Pricing | Zomieks",
@@ -78,20 +81,23 @@ const PLANS = [
   },
 ];
 
-const FEES = [
-  {
-    title: "Buyer Fee",
-    percentage: "3%",
-    description: "Small fee on each transaction to support platform security and escrow services",
-  },
-  {
-    title: "Seller Fee",
-    percentage: "8%",
-    description: "Platform fee deducted from earnings to maintain quality and support",
-  },
-];
+export default async function PricingPage() {
+  const { env } = await getCloudflareContext();
+  const schedule = await getFeeSchedule(createDb(env.DB));
+
+  const fees = [
+    {
+      title: "Buyer Fee",
+      percentage: formatFeeRate(schedule.buyerFeeBps),
+      description: "Small fee on each transaction to support platform security and escrow services",
+    },
+    {
+      title: "Seller Fee",
+      percentage: formatFeeRate(schedule.sellerFeeBps),
+      description: "Platform fee deducted from earnings to maintain quality and support",
+    },
+  ];
 
-export default function PricingPage() {
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-muted/20">
       {/* Header */}
@@ -211,7 +217,7 @@ export default function PricingPage() {
           </p>
 
           <div className="mt-8 grid gap-6 md:grid-cols-2">
-            {FEES.map((fee) => (
+            {fees.map((fee) => (
               <Card key={fee.title}>
                 <CardHeader>
                   <CardTitle className="flex items-center justify-between">
@@ -8,15 +8,17 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { submitBid } from "@/lib/projects/actions";
+import { validateBid } from "@/lib/projects/bids";
 
 interface BidFormProps {
   projectId: string;
   budgetMin: number;
   budgetMax: number;
+  sellerFeeRate: string; // The bidder's seller fee, e.g. "8%"
   onSuccess?: () => void;
 }
 
-export function BidForm({ projectId, budgetMin, budgetMax, onSuccess }: BidFormProps) {
+export function BidForm({ projectId, budgetMin, budgetMax, sellerFeeRate, onSuccess }: BidFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
@@ -33,20 +35,9 @@ export function BidForm({ projectId, budgetMin, budgetMax, onSuccess }: BidFormP
     const bidAmount = parseFloat(amount);
     const days = parseInt(deliveryDays);
 
-    if (isNaN(bidAmount) || bidAmount <= 0) {
-      setError("Please enter a valid bid amount");
-      setIsLoading(false);
-      return;
-    }
-
-    if (isNaN(days) || days <= 0) {
-      setError("Please enter valid delivery days");
-      setIsLoading(false);
-      return;
-    }
-
-    if (!proposal.trim() || proposal.trim().length < 50) {
-      setError("Proposal must be at least 50 characters");
+    const validationError = validateBid({ amount: bidAmount, deliveryDays: days, proposal });
+    if (validationError) {
+      setError(validationError);
       setIsLoading(false);
       return;
     }
@@ -146,7 +137,7 @@ export function BidForm({ projectId, budgetMin, budgetMax, onSuccess }: BidFormP
           </Button>
 
           <p className="text-xs text-muted-foreground text-center">
-            An 8% service fee will be deducted from your earnings if awarded
+            A service fee of {sellerFeeRate} will be deducted from your earnings if awarded
           </p>
         </form>
       </CardContent>
@@ -19,6 +19,10 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { getProjectBySlug } from "@/lib/projects/actions";
 import { getServerSession } from "@/lib/auth/server";
 import { formatCurrency } from "@/lib/utils";
+import { isListingExpired } from "@/lib/projects/lifecycle";
+import { createDb } from "@/lib/db";
+import { getFeeSchedule, resolveFeeRates, formatFeeRate } from "@/lib/fees";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { BidForm } from "./bid-form";
 
 interface ProjectPageProps {
@@ -29,7 +33,8 @@ const statusConfig: Record<string, { label: string; color: string }> = {
   open: { label: "Open for Bids", color: "bg-green-500" },
   in_progress: { label: "In Progress", color: "bg-blue-500" },
   completed: { label: "Completed", color: "bg-gray-500" },
-  cancelled: { label: "Cancelled", color: "bg-red-500" },
+  cancelled: { label: "Closed", color: "bg-red-500" },
+  expired: { label: "Expired", color: "bg-gray-500" },
 };
 
 const durationLabels: Record<string, string> = {
@@ -50,11 +55,26 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
     notFound();
   }
 
-  const status = statusConfig[project.status] || statusConfig.open;
+  const isOpen = project.status === "open" && !isListingExpired(project);
+  // Between scheduled expiry runs an open project may already be past its listing period
+  const status = statusConfig[project.status === "open" && !isOpen ? "expired" : project.status] || statusConfig.open;
   const isOwner = session?.userId === project.buyerId;
-  const canBid = session && !isOwner && project.status === "open";
+  const canBid = session && !isOwner && isOpen;
   const needsVerification = session && !session.isIdVerified;
 
+  // The seller fee this bidder would pay, after category and plan overrides
+  let sellerFeeRate = "";
+  if (canBid) {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const rates = await resolveFeeRates(db, await getFeeSchedule(db), {
+      categoryId: project.categoryId,
+      buyerId: project.buyerId,
+      sellerId: session.userId,
+    });
+    sellerFeeRate = formatFeeRate(rates.sellerFeeBps);
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -153,7 +173,7 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
             )}
 
             {/* Bid Form */}
-            {!session && project.status === "open" && (
+            {!session && isOpen && (
               <Card>
                 <CardContent className="py-6 text-center">
                   <p className="mb-4">Sign in to submit a bid on this project</p>
@@ -186,6 +206,7 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
                 projectId={project.id}
                 budgetMin={project.budgetMin}
                 budgetMax={project.budgetMax}
+                sellerFeeRate={sellerFeeRate}
               />
             )}
           </div>
@@ -217,6 +238,13 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
                   </div>
                 )}
                 
+                {isOpen && project.expiresAt && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    <span>Bids close: {new Date(project.expiresAt).toLocaleDateString()}</span>
+                  </div>
+                )}
+
                 {project.expectedDuration && (
                   <div className="flex items-center gap-2 text-sm">
                     <Clock className="h-4 w-4 text-muted-foreground" />
@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { setServiceFeatured } from "@/lib/admin/actions";
+
+interface FeatureButtonProps {
+  serviceId: string;
+  isFeatured: boolean;
+}
+
+// Admin-only toggle for featuring a service on the marketplace pages
+export function FeatureButton({ serviceId, isFeatured }: FeatureButtonProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setLoading(true);
+    setError(null);
+
+    const result = await setServiceFeatured(serviceId, !isFeatured);
+
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.error || "Failed to update service");
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Button
+        variant="outline"
+        onClick={handleClick}
+        disabled={loading}
+        className="w-full border-slate-700 text-slate-300"
+      >
+        {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+        {isFeatured ? "Remove from Featured" : "Feature Service"}
+      </Button>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
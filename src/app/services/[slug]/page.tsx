@@ -14,7 +14,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Star,
   Clock,
@@ -27,6 +27,8 @@ import {
   Eye,
   ShoppingCart,
 } from "lucide-react";
+import { ServiceCheckout } from "./service-checkout";
+import { FeatureButton } from "./feature-button";
 
 interface ServicePageProps {
   params: Promise<{ slug: string }>;
@@ -100,27 +102,44 @@ export default async function ServiceDetailPage({ params }: ServicePageProps) {
             {/* Title Section */}
             <div>
               <div className="flex items-center gap-2 text-sm text-slate-400 mb-2">
-                <Link href="/browse" className="hover:text-white">
+                <Link href="/services" className="hover:text-white">
                   Services
                 </Link>
-                <span>/</span>
-                <span>Category</span>
+                {service.parentCategory && (
+                  <>
+                    <span>/</span>
+                    <Link href={`/categories/${service.parentCategory.slug}`} className="hover:text-white">
+                      {service.parentCategory.name}
+                    </Link>
+                  </>
+                )}
+                {service.category && (
+                  <>
+                    <span>/</span>
+                    <Link href={`/categories/${service.category.slug}`} className="hover:text-white">
+                      {service.category.name}
+                    </Link>
+                  </>
+                )}
               </div>
               <h1 className="text-2xl md:text-3xl font-bold text-white">
                 {service.title}
               </h1>
               <div className="flex items-center flex-wrap gap-4 mt-4">
                 {/* Seller info */}
-                <Link href="#" className="flex items-center gap-2">
+                <Link href={`/users/${service.sellerId}`} className="flex items-center gap-2">
                   <Avatar className="h-8 w-8">
+                    {service.seller?.avatarUrl && (
+                      <AvatarImage src={service.seller.avatarUrl} alt={service.seller.name} />
+                    )}
                     <AvatarFallback className="bg-slate-700 text-white text-xs">
-                      U
+                      {service.seller?.name.charAt(0).toUpperCase() || "U"}
                     </AvatarFallback>
                   </Avatar>
                   <span className="text-slate-300 hover:text-white">
-                    Seller Name
+                    {service.seller?.name || "Seller"}
                   </span>
-                  <Shield className="h-4 w-4 text-emerald-400" />
+                  {service.seller?.isIdVerified && <Shield className="h-4 w-4 text-emerald-400" />}
                 </Link>
                 {service.averageRating && (
                   <div className="flex items-center gap-1 text-amber-400">
@@ -257,9 +276,15 @@ export default async function ServiceDetailPage({ params }: ServicePageProps) {
                             </Button>
                           </Link>
                         ) : (
-                          <Button className="w-full bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 text-white">
-                            Continue ({formatCurrency(tier.price / 100)})
-                          </Button>
+                          <ServiceCheckout
+                            serviceId={service.id}
+                            tier={tier.key as "basic" | "standard" | "premium"}
+                            price={tier.price}
+                            deliveryDays={tier.deliveryDays}
+                            revisions={service.maxRevisions ?? 2}
+                            extras={service.extras}
+                            isLoggedIn={!!session}
+                          />
                         )}
                       </CardContent>
                     </TabsContent>
@@ -292,6 +317,10 @@ export default async function ServiceDetailPage({ params }: ServicePageProps) {
                 </Button>
               </div>
 
+              {session?.role === "admin" && (
+                <FeatureButton serviceId={service.id} isFeatured={service.isFeatured ?? false} />
+              )}
+
               {/* Stats */}
               <Card className="border-slate-800 bg-slate-900/50">
                 <CardContent className="py-4">
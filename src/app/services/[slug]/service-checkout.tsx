@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { formatCurrency } from "@/lib/utils";
+import { createOrderFromService } from "@/lib/orders/actions";
+import { applyExtras, describeExtra, type ServiceExtra } from "@/lib/services/extras";
+
+interface ServiceCheckoutProps {
+  serviceId: string;
+  tier: "basic" | "standard" | "premium";
+  price: number; // In cents
+  deliveryDays: number;
+  revisions: number;
+  extras: ServiceExtra[];
+  isLoggedIn: boolean;
+}
+
+export function ServiceCheckout({
+  serviceId,
+  tier,
+  price,
+  deliveryDays,
+  revisions,
+  extras,
+  isLoggedIn,
+}: ServiceCheckoutProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totals = applyExtras({ deliveryDays, revisions }, extras, selected);
+  const total = price + totals.extrasTotal;
+
+  const toggle = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id]);
+  };
+
+  const handleOrder = async () => {
+    if (!isLoggedIn) {
+      router.push("/login");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const result = await createOrderFromService({ serviceId, serviceTier: tier, extras: selected });
+
+    if (result.success && result.orderId) {
+      router.push(`/dashboard/orders/${result.orderId}`);
+      return;
+    }
+
+    setError(result.error || "Failed to place order");
+    setLoading(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      {extras.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-200">Add extras</p>
+          {extras.map((extra) => (
+            <Label
+              key={extra.id}
+              className="flex items-start gap-3 p-3 rounded-lg border border-slate-800 font-normal cursor-pointer hover:border-slate-700"
+            >
+              <input
+                type="checkbox"
+                className="h-4 w-4 mt-0.5 accent-emerald-500"
+                checked={selected.includes(extra.id)}
+                onChange={() => toggle(extra.id)}
+              />
+              <div className="flex-1">
+                <p className="text-sm text-slate-200">{extra.title}</p>
+                {extra.description && <p className="text-xs text-slate-400">{extra.description}</p>}
+                <p className="text-xs text-slate-500">{describeExtra(extra)}</p>
+              </div>
+            </Label>
+          ))}
+        </div>
+      )}
+
+      {selected.length > 0 && (
+        <p className="text-sm text-slate-400">
+          {totals.deliveryDays} day delivery · {totals.revisions} revisions
+        </p>
+      )}
+
+      {error && (
+        <div className="rounded-lg bg-red-500/10 border border-red-500/20 p-3 text-red-400 text-sm flex items-center gap-2">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <Button
+        onClick={handleOrder}
+        disabled={loading}
+        className="w-full bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 text-white"
+      >
+        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Continue ({formatCurrency(total / 100)})
+      </Button>
+    </div>
+  );
+}
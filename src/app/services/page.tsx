@@ -0,0 +1,127 @@
+// Public services marketplace - categories, featured services and every active service
+import Link from "next/link";
+import { Search, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { MarketplaceHeader } from "@/components/layout/marketplace-header";
+import { SearchPagination } from "@/components/search/search-filters";
+import { ServiceGrid, ServiceSortLinks } from "@/components/services/service-card";
+import { getActiveServices, getCategoryTree } from "@/lib/services/actions";
+import { getServerSession } from "@/lib/auth/server";
+import { parseServiceSearchParams } from "@/lib/search/filters";
+
+interface ServicesPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function ServicesPage({ searchParams }: ServicesPageProps) {
+  const params = await searchParams;
+  const filters = parseServiceSearchParams({ sort: params.sort || "popular", cursor: params.cursor });
+
+  const [session, categories, { items: services, nextCursor }, featured] = await Promise.all([
+    getServerSession(),
+    getCategoryTree(),
+    getActiveServices(filters),
+    // Featured services lead the first page only
+    filters.cursor
+      ? Promise.resolve({ items: [], nextCursor: null })
+      : getActiveServices({ ...filters, featuredOnly: true, sort: "popular", limit: 4 }),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      <MarketplaceHeader isLoggedIn={!!session} />
+
+      {/* Hero */}
+      <section className="border-b border-slate-800 py-12">
+        <div className="container mx-auto px-4 md:px-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-white">Explore Services</h1>
+          <p className="mt-2 text-slate-400">
+            Ready-made services from South African freelancers, paid safely through escrow
+          </p>
+          <form method="get" action="/browse/services" className="mt-6 flex gap-3 max-w-2xl">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-500" />
+              <Input
+                name="q"
+                placeholder="What do you need done?"
+                className="pl-9 bg-slate-900 border-slate-800 text-white"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 text-white"
+            >
+              Search
+            </Button>
+          </form>
+        </div>
+      </section>
+
+      <main className="container mx-auto px-4 md:px-6 py-10 space-y-12">
+        {/* Categories */}
+        {categories.length > 0 && !filters.cursor && (
+          <section>
+            <h2 className="text-xl font-semibold text-white mb-4">Browse by Category</h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {categories.map((category) => (
+                <Card key={category.id} className="border-slate-800 bg-slate-900/50 hover:border-slate-700 transition-colors">
+                  <CardContent>
+                    <Link
+                      href={`/categories/${category.slug}`}
+                      className="flex items-center justify-between font-medium text-white hover:text-emerald-400"
+                    >
+                      {category.name}
+                      <ChevronRight className="h-4 w-4" />
+                    </Link>
+                    {category.description && (
+                      <p className="mt-1 text-sm text-slate-400 line-clamp-2">{category.description}</p>
+                    )}
+                    {category.children.length > 0 && (
+                      <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-sm">
+                        {category.children.map((child) => (
+                          <Link key={child.id} href={`/categories/${child.slug}`} className="text-slate-400 hover:text-white">
+                            {child.name}
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Featured */}
+        {featured.items.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-white mb-4">Featured Services</h2>
+            <ServiceGrid services={featured.items} />
+          </section>
+        )}
+
+        {/* All services */}
+        <section>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+            <h2 className="text-xl font-semibold text-white">All Services</h2>
+            <ServiceSortLinks basePath="/services" current={filters.sort} />
+          </div>
+
+          {services.length === 0 ? (
+            <Card className="border-slate-800 bg-slate-900/50">
+              <CardContent className="py-12 text-center text-slate-400">
+                No services yet. Check back soon!
+              </CardContent>
+            </Card>
+          ) : (
+            <ServiceGrid services={services} />
+          )}
+
+          <SearchPagination basePath="/services" searchParams={params} nextCursor={nextCursor} />
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+// Public freelancer profile
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { MapPin, Calendar, Globe, Wallet, ExternalLink, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { MarketplaceHeader } from "@/components/layout/marketplace-header";
+import { ServiceGrid } from "@/components/services/service-card";
+import { ReviewsList } from "@/components/reviews/reviews-list";
+import { TrustBadges, UserStatsCard } from "@/components/reviews/user-stats-card";
+import { getPublicProfile } from "@/lib/profiles/actions";
+import { getPortfolioImageUrl } from "@/lib/profiles/portfolio";
+import { getReviewsForUser, getUserStats } from "@/lib/reviews/actions";
+import { getActiveServices } from "@/lib/services/actions";
+import { getServerSession } from "@/lib/auth/server";
+import { formatCurrency } from "@/lib/utils";
+
+interface UserProfilePageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function UserProfilePage({ params }: UserProfilePageProps) {
+  const { id } = await params;
+  const profile = await getPublicProfile(id);
+
+  if (!profile) {
+    notFound();
+  }
+
+  const [session, stats, reviews, { items: services }] = await Promise.all([
+    getServerSession(),
+    getUserStats(profile.id),
+    getReviewsForUser(profile.id, "buyer_to_seller"),
+    getActiveServices({ sellerId: profile.id, sort: "popular", limit: 12 }),
+  ]);
+
+  const isOwnProfile = session?.userId === profile.id;
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      <MarketplaceHeader isLoggedIn={!!session} />
+
+      {/* Profile header */}
+      <section className="border-b border-slate-800 py-10">
+        <div className="container mx-auto px-4 md:px-6 flex flex-col md:flex-row md:items-center gap-6">
+          <Avatar className="h-24 w-24">
+            {profile.avatarUrl && <AvatarImage src={profile.avatarUrl} alt={profile.name} />}
+            <AvatarFallback className="bg-slate-700 text-white text-2xl">
+              {profile.name.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 space-y-2">
+            <h1 className="text-3xl font-bold text-white">{profile.name}</h1>
+            {profile.headline && <p className="text-lg text-slate-300">{profile.headline}</p>}
+            <TrustBadges isVerified={profile.isIdVerified} isPro={profile.isPro} stats={stats} />
+            <div className="flex flex-wrap items-center gap-4 text-sm text-slate-400">
+              {profile.location && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  {profile.location}
+                </span>
+              )}
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                Member since {new Date(profile.memberSince).toLocaleDateString("en-ZA", { month: "long", year: "numeric" })}
+              </span>
+              {profile.hourlyRate !== null && (
+                <span className="flex items-center gap-1">
+                  <Wallet className="h-4 w-4" />
+                  {formatCurrency(profile.hourlyRate)}/hr
+                </span>
+              )}
+              {profile.website && (
+                <a
+                  href={profile.website}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="flex items-center gap-1 hover:text-white"
+                >
+                  <Globe className="h-4 w-4" />
+                  {profile.website.replace(/^https?:\/\//, "")}
+                </a>
+              )}
+            </div>
+          </div>
+          {isOwnProfile && (
+            <Button variant="outline" className="border-slate-700 text-slate-300" asChild>
+              <Link href="/dashboard/profile">
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit Profile
+              </Link>
+            </Button>
+          )}
+        </div>
+      </section>
+
+      <main className="container mx-auto px-4 md:px-6 py-10 space-y-12">
+        <div className="grid gap-8 lg:grid-cols-3">
+          {/* Sidebar */}
+          <div className="space-y-6">
+            <UserStatsCard stats={stats} isVerified={profile.isIdVerified} isPro={profile.isPro} showBadges={false} />
+
+            {profile.skills.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Skills</CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  {profile.skills.map((skill) => (
+                    <Badge key={skill} variant="secondary">
+                      {skill}
+                    </Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Main */}
+          <div className="lg:col-span-2 space-y-8">
+            {profile.bio && (
+              <section>
+                <h2 className="text-xl font-semibold text-white mb-3">About</h2>
+                <p className="text-slate-300 whitespace-pre-wrap">{profile.bio}</p>
+              </section>
+            )}
+
+            {profile.portfolio.length > 0 && (
+              <section>
+                <h2 className="text-xl font-semibold text-white mb-4">Portfolio</h2>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {profile.portfolio.map((item) => (
+                    <Card key={item.id} className="border-slate-800 bg-slate-900/50 overflow-hidden gap-0 py-0">
+                      <a href={getPortfolioImageUrl(profile.id, item.id)} target="_blank" rel="noopener noreferrer">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={getPortfolioImageUrl(profile.id, item.id)}
+                          alt={item.title}
+                          className="aspect-video w-full object-cover bg-slate-800"
+                        />
+                      </a>
+                      <CardContent className="p-4 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="font-medium text-white">{item.title}</p>
+                          {item.link && (
+                            <a
+                              href={item.link}
+                              target="_blank"
+                              rel="noopener noreferrer nofollow"
+                              className="text-slate-400 hover:text-white"
+                              aria-label={`View ${item.title}`}
+                            >
+                              <ExternalLink className="h-4 w-4" />
+                            </a>
+                          )}
+                        </div>
+                        {item.description && <p className="text-sm text-slate-400">{item.description}</p>}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-xl font-semibold text-white mb-4">Reviews</h2>
+              <ReviewsList reviews={reviews} stats={stats} emptyMessage={`${profile.name} has no reviews yet`} />
+            </section>
+          </div>
+        </div>
+
+        {services.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-white mb-4">Services by {profile.name}</h2>
+            <ServiceGrid services={services} />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
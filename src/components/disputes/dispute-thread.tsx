@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { AlertCircle, Loader2, Lock, MessageSquare, Paperclip, Send, Shield, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { postDisputeMessage } from "@/lib/disputes/actions";
+import { EVIDENCE_CONFIG } from "@/lib/disputes/config";
+import type { DisputeThreadMessage } from "@/lib/disputes";
+
+interface DisputeThreadProps {
+  disputeId: string;
+  messages: DisputeThreadMessage[];
+  currentUserId: string;
+  canReply: boolean;
+  allowInternal?: boolean; // Admin view - lets notes be kept from the parties
+  onPosted?: () => void;
+}
+
+export function DisputeThread({
+  disputeId,
+  messages,
+  currentUserId,
+  canReply,
+  allowInternal = false,
+  onPosted,
+}: DisputeThreadProps) {
+  const router = useRouter();
+  const [message, setMessage] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [internal, setInternal] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = (selected: FileList | null) => {
+    if (!selected) return;
+    setFiles([...files, ...Array.from(selected)].slice(0, EVIDENCE_CONFIG.maxFiles));
+  };
+
+  const handleSubmit = async () => {
+    if (!message.trim()) {
+      setError("Message cannot be empty");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const formData = new FormData();
+    formData.set("disputeId", disputeId);
+    formData.set("message", message);
+    formData.set("internal", String(allowInternal && internal));
+    for (const file of files) {
+      formData.append("evidence", file);
+    }
+
+    const result = await postDisputeMessage(formData);
+
+    if (result.success) {
+      setMessage("");
+      setFiles([]);
+      onPosted?.();
+    } else {
+      setError(result.error || "Failed to send message");
+    }
+
+    setLoading(false);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Conversation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No messages yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {messages.map((m) => (
+              <div
+                key={m.id}
+                className={`rounded-lg border p-3 text-sm space-y-2 ${
+                  m.isInternal
+                    ? "border-dashed border-yellow-500/50 bg-yellow-500/5"
+                    : m.isFromAdmin
+                    ? "bg-emerald-500/5"
+                    : m.senderId === currentUserId
+                    ? "bg-muted/50"
+                    : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">
+                      {m.senderId === currentUserId ? "You" : m.isFromAdmin ? "Support" : m.senderName || "User"}
+                    </span>
+                    {m.isFromAdmin && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Shield className="h-3 w-3" />
+                        Admin
+                      </Badge>
+                    )}
+                    {m.isInternal && (
+                      <Badge variant="outline" className="gap-1">
+                        <Lock className="h-3 w-3" />
+                        Internal
+                      </Badge>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(m.createdAt), "MMM d, yyyy HH:mm")}
+                  </span>
+                </div>
+                <p className="whitespace-pre-wrap">{m.message}</p>
+                {m.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-3">
+                    {m.attachments.map((file) => (
+                      <a
+                        key={file.url}
+                        href={file.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-emerald-500 hover:underline"
+                      >
+                        <Paperclip className="h-3 w-3" />
+                        {file.name}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canReply && (
+          <div className="space-y-3 border-t pt-4">
+            {error && (
+              <div className="rounded-lg bg-destructive/15 p-3 text-destructive text-sm flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            <Textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={internal ? "Note for other admins - the parties won't see this" : "Write a reply..."}
+              rows={4}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="dispute-reply-evidence" className="text-xs text-muted-foreground">
+                Attach evidence (up to {EVIDENCE_CONFIG.maxFiles} files, {EVIDENCE_CONFIG.maxFileSize / 1024 / 1024} MB each)
+              </Label>
+              <Input
+                id="dispute-reply-evidence"
+                type="file"
+                multiple
+                accept={EVIDENCE_CONFIG.allowedTypes.join(",")}
+                disabled={files.length >= EVIDENCE_CONFIG.maxFiles}
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+              {files.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {files.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center gap-2">
+                      <Paperclip className="h-3 w-3 text-muted-foreground" />
+                      <span className="flex-1 truncate">{file.name}</span>
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              {allowInternal ? (
+                <div className="flex items-center gap-2">
+                  <Switch id="dispute-internal" checked={internal} onCheckedChange={setInternal} />
+                  <Label htmlFor="dispute-internal">Internal note</Label>
+                </div>
+              ) : (
+                <span />
+              )}
+              <Button onClick={handleSubmit} disabled={loading}>
+                {loading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4 mr-2" />
+                )}
+                {internal && allowInternal ? "Add Note" : "Send"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { DisputeThread } from "./dispute-thread";
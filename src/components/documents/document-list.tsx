@@ -0,0 +1,60 @@
+import { FileText, Download } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { DocumentSummary } from "@/lib/documents/actions";
+
+interface DocumentListProps {
+  documents: DocumentSummary[];
+  title?: string;
+}
+
+const typeLabels: Record<DocumentSummary["type"], string> = {
+  tax_invoice: "Tax Invoice",
+  receipt: "Receipt",
+  earning_statement: "Earning Statement",
+};
+
+function documentLabel(doc: DocumentSummary): string {
+  // Tax invoices issued without a VAT number are plain invoices
+  if (doc.type === "tax_invoice" && doc.title === "INVOICE") return "Invoice";
+  return typeLabels[doc.type];
+}
+
+function formatRands(cents: number): string {
+  return `R ${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2 })}`;
+}
+
+export function DocumentList({ documents, title = "Documents" }: DocumentListProps) {
+  if (documents.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {documents.map((doc) => (
+          <div key={doc.id} className="flex items-center justify-between text-sm">
+            <div>
+              <p className="font-medium">{documentLabel(doc)}</p>
+              <p className="text-xs text-muted-foreground">
+                {doc.number} · {new Date(doc.issuedAt).toLocaleDateString("en-ZA")} ·{" "}
+                {formatRands(doc.total)}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" asChild>
+              <a href={doc.url} download>
+                <Download className="h-4 w-4" />
+              </a>
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { DocumentList } from "./document-list";
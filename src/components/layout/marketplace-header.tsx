@@ -0,0 +1,55 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+interface MarketplaceHeaderProps {
+  isLoggedIn: boolean;
+}
+
+export function MarketplaceHeader({ isLoggedIn }: MarketplaceHeaderProps) {
+  return (
+    <header className="border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm sticky top-0 z-50">
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="flex items-center justify-between h-16">
+          <div className="flex items-center gap-8">
+            <Link href="/" className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-lg bg-gradient-to-br from-emerald-400 to-cyan-400 flex items-center justify-center">
+                <span className="text-sm font-bold text-slate-900">Z</span>
+              </div>
+              <span className="text-xl font-bold text-white">Zomieks</span>
+            </Link>
+            <nav className="hidden md:flex items-center gap-6 text-sm">
+              <Link href="/services" className="text-slate-300 hover:text-white">
+                Services
+              </Link>
+              <Link href="/browse/projects" className="text-slate-300 hover:text-white">
+                Projects
+              </Link>
+            </nav>
+          </div>
+          <div className="flex items-center gap-4">
+            {isLoggedIn ? (
+              <Link href="/dashboard">
+                <Button variant="ghost" className="text-slate-300 hover:text-white">
+                  Dashboard
+                </Button>
+              </Link>
+            ) : (
+              <>
+                <Link href="/login">
+                  <Button variant="ghost" className="text-slate-300 hover:text-white">
+                    Sign In
+                  </Button>
+                </Link>
+                <Link href="/register">
+                  <Button className="bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 text-white">
+                    Get Started
+                  </Button>
+                </Link>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -17,6 +17,7 @@ import {
   HelpCircle,
   Gavel,
   Briefcase,
+  Wallet,
 } from "lucide-react";
 
 interface SidebarProps {
@@ -37,6 +38,7 @@ const mainNavItems: NavItem[] = [
   { label: "My Projects", href: "/dashboard/projects", icon: FolderKanban },
   { label: "My Bids", href: "/dashboard/bids", icon: Gavel },
   { label: "Orders", href: "/dashboard/orders", icon: ShoppingCart },
+  { label: "Payouts", href: "/dashboard/payouts", icon: Wallet },
   { label: "Messages", href: "/dashboard/messages", icon: MessageSquare },
 ];
 
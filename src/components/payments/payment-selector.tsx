@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { CreditCard, Banknote, Loader2 } from "lucide-react";
+import { CreditCard, Banknote, FlaskConical, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
@@ -12,9 +12,11 @@ interface PaymentSelectorProps {
   milestoneId?: string;
   amount: number;
   description: string;
+  // Offer the simulated gateway (development only)
+  sandboxEnabled?: boolean;
 }
 
-type PaymentProvider = "ozow" | "payfast";
+type PaymentProvider = "ozow" | "payfast" | "sandbox";
 
 interface PaymentResponse {
   success?: boolean;
@@ -27,6 +29,7 @@ export function PaymentSelector({
   milestoneId,
   amount,
   description,
+  sandboxEnabled = false,
 }: PaymentSelectorProps) {
   const [provider, setProvider] = useState<PaymentProvider>("ozow");
   const [isLoading, setIsLoading] = useState(false);
@@ -121,6 +124,27 @@ export function PaymentSelector({
               </p>
             </div>
           </Label>
+
+          {/* Sandbox - Development only */}
+          {sandboxEnabled && (
+            <Label
+              htmlFor="sandbox"
+              className={`flex items-center gap-4 p-4 border border-dashed rounded-lg cursor-pointer transition-colors ${
+                provider === "sandbox"
+                  ? "border-primary bg-primary/5"
+                  : "border-border hover:border-muted-foreground"
+              }`}
+            >
+              <RadioGroupItem value="sandbox" id="sandbox" />
+              <FlaskConical className="h-6 w-6 text-amber-500" />
+              <div className="flex-1">
+                <p className="font-medium">Sandbox</p>
+                <p className="text-sm text-muted-foreground">
+                  Simulated payment for local testing. No money moves.
+                </p>
+              </div>
+            </Label>
+          )}
         </RadioGroup>
 
         {error && (
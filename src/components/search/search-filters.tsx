@@ -0,0 +1,72 @@
+import Link from "next/link";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { buildSearchQuery, type SearchParamsInput } from "@/lib/search/filters";
+
+interface FilterSelectProps {
+  id: string;
+  name: string;
+  label: string;
+  defaultValue?: string;
+  options: { value: string; label: string }[];
+  className?: string;
+}
+
+export function FilterSelect({ id, name, label, defaultValue, options, className }: FilterSelectProps) {
+  return (
+    <div className={cn("space-y-1", className)}>
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <select
+        id={id}
+        name={name}
+        defaultValue={defaultValue ?? ""}
+        className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30"
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+interface SearchPaginationProps {
+  basePath: string;
+  searchParams: SearchParamsInput;
+  nextCursor: string | null;
+}
+
+export function SearchPagination({ basePath, searchParams, nextCursor }: SearchPaginationProps) {
+  const isFirstPage = !(searchParams instanceof URLSearchParams ? searchParams.get("cursor") : searchParams.cursor);
+
+  if (isFirstPage && !nextCursor) return null;
+
+  return (
+    <div className="flex items-center justify-between mt-8">
+      {isFirstPage ? (
+        <span />
+      ) : (
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`${basePath}${buildSearchQuery(searchParams, { cursor: undefined })}`}>
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            First page
+          </Link>
+        </Button>
+      )}
+      {nextCursor && (
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`${basePath}${buildSearchQuery(searchParams, { cursor: nextCursor })}`}>
+            Next page
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Link>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import Link from "next/link";
+import { ShoppingCart, Star, Sparkles, Shield } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { formatCurrency } from "@/lib/utils";
+import type { ServiceSearchResult } from "@/lib/search";
+import { SORT_LABELS, type ServiceSort } from "@/lib/search/filters";
+
+interface ServiceCardProps {
+  service: ServiceSearchResult;
+}
+
+export function ServiceCard({ service }: ServiceCardProps) {
+  return (
+    <Card className="border-slate-800 bg-slate-900/50 overflow-hidden hover:border-slate-700 transition-colors gap-0 py-0">
+      <Link href={`/services/${service.slug}`} className="relative block aspect-video bg-slate-800">
+        {service.thumbnailUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={service.thumbnailUrl} alt={service.title} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <ShoppingCart className="h-10 w-10 text-slate-600" />
+          </div>
+        )}
+        {service.isFeatured && (
+          <Badge className="absolute top-2 left-2 bg-amber-500 text-slate-950 hover:bg-amber-500">
+            <Sparkles className="h-3 w-3 mr-1" />
+            Featured
+          </Badge>
+        )}
+      </Link>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm">
+          <Avatar className="h-6 w-6">
+            {service.seller.avatarUrl && <AvatarImage src={service.seller.avatarUrl} />}
+            <AvatarFallback className="bg-slate-700 text-white text-xs">
+              {service.seller.name.charAt(0)}
+            </AvatarFallback>
+          </Avatar>
+          <span className="text-slate-300 truncate">{service.seller.name}</span>
+          {service.seller.isIdVerified && <Shield className="h-4 w-4 text-emerald-400 shrink-0" />}
+        </div>
+
+        <Link
+          href={`/services/${service.slug}`}
+          className="block text-white font-medium leading-snug line-clamp-2 hover:text-emerald-400"
+        >
+          {service.title}
+        </Link>
+
+        <div className="flex items-center gap-3 text-sm text-slate-400">
+          {service.averageRating ? (
+            <span className="flex items-center gap-1 text-amber-400">
+              <Star className="h-4 w-4 fill-current" />
+              <span className="font-medium">{service.averageRating.toFixed(1)}</span>
+              <span className="text-slate-500">({service.reviewCount})</span>
+            </span>
+          ) : (
+            <span className="text-slate-500">New</span>
+          )}
+          <span className="flex items-center gap-1">
+            <ShoppingCart className="h-4 w-4" />
+            {service.orderCount} order{service.orderCount !== 1 ? "s" : ""}
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between border-t border-slate-800 pt-3">
+          <span className="text-xs uppercase tracking-wide text-slate-500">Starting at</span>
+          <span className="font-bold text-white">{formatCurrency(service.price / 100)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ServiceGridProps {
+  services: ServiceSearchResult[];
+}
+
+export function ServiceGrid({ services }: ServiceGridProps) {
+  return (
+    <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+      {services.map((service) => (
+        <ServiceCard key={service.id} service={service} />
+      ))}
+    </div>
+  );
+}
+
+const LISTING_SORTS = ["popular", "rating", "newest", "price_low", "price_high"] as const;
+
+interface ServiceSortLinksProps {
+  basePath: string;
+  current: ServiceSort;
+}
+
+// Sort options as links, so listing pages need no client-side state
+export function ServiceSortLinks({ basePath, current }: ServiceSortLinksProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {LISTING_SORTS.map((sort) => (
+        <Link
+          key={sort}
+          href={`${basePath}?sort=${sort}`}
+          className={
+            sort === current
+              ? "rounded-full px-3 py-1 text-sm bg-emerald-500/15 border border-emerald-500/30 text-emerald-400"
+              : "rounded-full px-3 py-1 text-sm border border-slate-800 text-slate-400 hover:text-white hover:border-slate-700"
+          }
+        >
+          {SORT_LABELS[sort]}
+        </Link>
+      ))}
+    </div>
+  );
+}
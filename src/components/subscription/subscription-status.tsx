@@ -148,9 +148,13 @@ export function SubscriptionStatus({ subscription }: SubscriptionStatusProps) {
           </Badge>
         </CardTitle>
         <CardDescription>
-          {isCancelled
-            ? "Your subscription will end at the current period"
-            : "Full access to all Pro features"}
+          {subscription.status === "expired"
+            ? "Your subscription has ended"
+            : isCancelled
+              ? "Your subscription will end at the current period"
+              : subscription.autoRenews
+                ? "Full access to all Pro features, renewing automatically"
+                : "Full access to all Pro features"}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -169,11 +173,11 @@ export function SubscriptionStatus({ subscription }: SubscriptionStatusProps) {
             <CreditCard className="h-5 w-5 text-muted-foreground" />
             <div>
               <p className="text-sm font-medium">
-                {isCancelled ? "Access Ends" : "Next Billing"}
+                {subscription.autoRenews ? "Next Billing" : "Access Ends"}
               </p>
               <p className="text-xs text-muted-foreground">
                 {format(new Date(subscription.currentPeriodEnd), "MMMM d, yyyy")}
-                {!isCancelled && subscription.daysRemaining > 0 && (
+                {subscription.autoRenews && subscription.daysRemaining > 0 && (
                   <span> ({subscription.daysRemaining} days)</span>
                 )}
               </p>
@@ -181,7 +185,30 @@ export function SubscriptionStatus({ subscription }: SubscriptionStatusProps) {
           </div>
         </div>
 
-        {isCancelled && (
+        {subscription.updatePaymentUrl && (
+          <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 shrink-0 text-red-500" />
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-red-600 dark:text-red-400">
+                  Your renewal payment failed
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Update your card to keep your Pro features. We&apos;ll retry the payment and
+                  your subscription ends if it still can&apos;t be collected.
+                </p>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={subscription.updatePaymentUrl}>
+                    <CreditCard className="mr-2 h-4 w-4" />
+                    Update Payment Details
+                  </a>
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isCancelled && subscription.status === "active" && (
           <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-4">
             <div className="flex items-start gap-3">
               <AlertTriangle className="h-5 w-5 shrink-0 text-amber-500" />
@@ -193,19 +220,21 @@ export function SubscriptionStatus({ subscription }: SubscriptionStatusProps) {
                   You&apos;ll continue to have access until {format(new Date(subscription.currentPeriodEnd), "MMMM d, yyyy")}.
                   After that, you&apos;ll be moved to the free plan.
                 </p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleReactivate}
-                  disabled={reactivateLoading}
-                >
-                  {reactivateLoading ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <RefreshCw className="mr-2 h-4 w-4" />
-                  )}
-                  Reactivate Subscription
-                </Button>
+                {subscription.canReactivate && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleReactivate}
+                    disabled={reactivateLoading}
+                  >
+                    {reactivateLoading ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                    )}
+                    Reactivate Subscription
+                  </Button>
+                )}
               </div>
             </div>
           </div>
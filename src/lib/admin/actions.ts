@@ -2,7 +2,7 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { eq, and, desc, count, sql, or, like } from "drizzle-orm";
+import { eq, and, desc, count, sql, or, like, inArray } from "drizzle-orm";
 import { createDb } from "@/lib/db";
 import { 
   users, 
@@ -17,10 +17,47 @@ import {
   categories,
   auditLogs,
   platformSettings,
+  payoutRequests,
+  transactions,
 } from "@/lib/db/schema";
+import type { ReconciliationRun } from "@/lib/db/schema";
 import { getServerSession } from "@/lib/auth/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { notify } from "@/lib/notifications";
+import { recordPayout } from "@/lib/ledger";
+import { refundOrder } from "@/lib/payments";
+import { releaseDisputedEscrow } from "@/lib/orders/completion";
+import {
+  getFeeSchedule,
+  saveFeeSchedule,
+  validateFeeSchedule,
+  FEE_SCHEDULE_KEY,
+  type FeeSchedule,
+} from "@/lib/fees";
+import {
+  parseEvidence,
+  getEvidenceUrl,
+  getDisputeThread,
+  requireResponse,
+  unfreezeEscrow,
+  ACTIVE_DISPUTE_STATUSES,
+  type DisputeThreadMessage,
+} from "@/lib/disputes";
+import {
+  getSettings,
+  saveSetting,
+  validateSetting,
+  PLATFORM_SETTINGS,
+  type PlatformSettingKey,
+  type PlatformSettingValues,
+  type SettingDefinition,
+} from "@/lib/settings";
+import {
+  reconcilePendingTransactions,
+  findStuckTransactions,
+  getReconciliationRuns,
+} from "@/lib/payments/reconciliation";
+import { buildPayoutBatchCsv } from "@/lib/payouts";
 
 function generateId(): string {
   return crypto.randomUUID();
@@ -556,7 +593,7 @@ export async function getDisputes(
           title: d.title,
           description: d.description,
           status: d.status,
-          evidence: d.evidence ? JSON.parse(d.evidence) : null,
+          evidence: d.evidence ? parseEvidence(d.evidence).map((file) => getEvidenceUrl(d.id, file.key)) : null,
           createdAt: d.createdAt,
           orderAmount: order?.totalAmount || 0,
         };
@@ -589,20 +626,91 @@ export async function resolveDispute(
       return { success: false, error: "Dispute not found" };
     }
 
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+      return { success: false, error: "This dispute is already closed" };
+    }
+
+    if (resolution === "refund_partial" && (!partialAmount || partialAmount <= 0)) {
+      return { success: false, error: "Enter the amount to refund" };
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, dispute.orderId),
+    });
+
+    if (!order) {
+      return { success: false, error: "Order not found" };
+    }
+
     const now = new Date().toISOString();
 
-    await db
+    // Claim the dispute before any money moves, so the deadline job or another
+    // admin can't resolve it at the same time
+    const claimed = await db
       .update(disputes)
       .set({
         status: "resolved",
         resolution,
         resolutionNotes: notes,
         resolutionAmount: partialAmount || null,
+        responseRequiredFrom: null,
+        responseDueAt: null,
         resolvedBy: admin.id,
         resolvedAt: now,
         updatedAt: now,
       })
-      .where(eq(disputes.id, disputeId));
+      .where(and(eq(disputes.id, disputeId), inArray(disputes.status, ACTIVE_DISPUTE_STATUSES)))
+      .returning({ id: disputes.id });
+
+    if (claimed.length === 0) {
+      return { success: false, error: "This dispute is already closed" };
+    }
+
+    // Move the money (or unfreeze the escrow)
+    const note = `Dispute resolution: ${resolution.replace("_", " ")}`;
+    let failure: string | null = null;
+
+    try {
+      if (resolution === "release_funds") {
+        await releaseDisputedEscrow(db, order, { actorId: admin.id, note });
+      } else if (resolution === "no_action" || resolution === "other") {
+        await unfreezeEscrow(db, order.id, admin.id, note);
+      } else {
+        const refund = await refundOrder(db, {
+          order,
+          reason: note,
+          amount: resolution === "refund_partial" ? partialAmount : undefined,
+          releaseRemainder: resolution === "refund_partial",
+        });
+
+        if (!refund.success) {
+          failure = refund.error || "Failed to refund order";
+        }
+      }
+    } catch (error) {
+      console.error("Resolve dispute escrow error:", error);
+      failure = "Failed to resolve dispute";
+    }
+
+    if (failure) {
+      // Reopen the dispute so it can be resolved again
+      await db
+        .update(disputes)
+        .set({
+          status: dispute.status,
+          resolution: null,
+          resolutionNotes: null,
+          resolutionAmount: null,
+          responseRequiredFrom: dispute.responseRequiredFrom,
+          responseDueAt: dispute.responseDueAt,
+          resolvedBy: null,
+          resolvedAt: null,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(disputes.id, disputeId));
+
+      return { success: false, error: failure };
+    }
 
     await logAction(db, admin.id, admin.email, "dispute.resolve", "dispute", disputeId, {
       status: { old: dispute.status, new: "resolved" },
@@ -630,6 +738,7 @@ export async function resolveDispute(
     });
 
     revalidatePath("/admin/disputes");
+    revalidatePath(`/admin/disputes/${disputeId}`);
     return { success: true };
   } catch (error) {
     console.error("Resolve dispute error:", error);
@@ -637,6 +746,720 @@ export async function resolveDispute(
   }
 }
 
+export interface DisputeDetailView extends Omit<DisputeDetails, "evidence"> {
+  evidence: { name: string; url: string }[];
+  orderStatus: string;
+  assignedTo: string | null;
+  responseRequiredFrom: string | null;
+  responseDueAt: string | null;
+  resolution: string | null;
+  resolutionNotes: string | null;
+  messages: DisputeThreadMessage[];
+}
+
+/**
+ * A single dispute with its full thread, internal notes included
+ */
+export async function getDisputeDetail(disputeId: string): Promise<DisputeDetailView | null> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    await requireAdmin(db);
+
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.id, disputeId),
+    });
+
+    if (!dispute) {
+      return null;
+    }
+
+    const [order, raisedBy, against] = await Promise.all([
+      db.query.orders.findFirst({ where: eq(orders.id, dispute.orderId) }),
+      db.query.users.findFirst({ where: eq(users.id, dispute.raisedById) }),
+      db.query.users.findFirst({ where: eq(users.id, dispute.againstId) }),
+    ]);
+
+    return {
+      id: dispute.id,
+      orderId: dispute.orderId,
+      orderNumber: order?.orderNumber || "",
+      orderStatus: order?.status || "",
+      raisedBy: {
+        id: raisedBy?.id || "",
+        name: raisedBy?.name || null,
+        email: raisedBy?.email || "",
+      },
+      against: {
+        id: against?.id || "",
+        name: against?.name || null,
+        email: against?.email || "",
+      },
+      category: dispute.category,
+      title: dispute.title,
+      description: dispute.description,
+      status: dispute.status,
+      evidence: parseEvidence(dispute.evidence).map((file) => ({
+        name: file.name,
+        url: getEvidenceUrl(dispute.id, file.key),
+      })),
+      createdAt: dispute.createdAt,
+      orderAmount: order?.totalAmount || 0,
+      assignedTo: dispute.assignedTo,
+      responseRequiredFrom: dispute.responseRequiredFrom,
+      responseDueAt: dispute.responseDueAt,
+      resolution: dispute.resolution,
+      resolutionNotes: dispute.resolutionNotes,
+      messages: await getDisputeThread(db, dispute.id, true),
+    };
+  } catch (error) {
+    console.error("Get dispute detail error:", error);
+    return null;
+  }
+}
+
+/**
+ * Move an active dispute to under_review (picked up by this admin) or escalated
+ */
+export async function updateDisputeStatus(
+  disputeId: string,
+  status: "under_review" | "escalated",
+  note?: string
+): Promise<ActionResult> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.id, disputeId),
+    });
+
+    if (!dispute) {
+      return { success: false, error: "Dispute not found" };
+    }
+
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+      return { success: false, error: "This dispute is already closed" };
+    }
+
+    if (dispute.status === status) {
+      return { success: false, error: `Dispute is already ${status.replace("_", " ")}` };
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, dispute.orderId),
+    });
+
+    await db
+      .update(disputes)
+      .set({
+        status,
+        assignedTo: dispute.assignedTo || admin.id,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(disputes.id, disputeId));
+
+    await logAction(db, admin.id, admin.email, `dispute.${status}`, "dispute", disputeId, {
+      status: { old: dispute.status, new: status },
+    }, note ? { note } : undefined);
+
+    const update =
+      status === "under_review"
+        ? `Our team is now reviewing the dispute on order ${order?.orderNumber}.`
+        : `The dispute on order ${order?.orderNumber} has been escalated to a senior reviewer.`;
+
+    for (const userId of [dispute.raisedById, dispute.againstId]) {
+      await notify(db, {
+        userId,
+        type: "dispute_updated",
+        title: status === "under_review" ? "Dispute Under Review" : "Dispute Escalated",
+        message: note ? `${update} ${note}` : update,
+        entityType: "dispute",
+        entityId: disputeId,
+        sendEmail: true,
+        emailData: {
+          orderNumber: order?.orderNumber || "",
+          disputeId,
+          update: note ? `${update} ${note}` : update,
+          responseNote: "",
+        },
+      });
+    }
+
+    revalidatePath("/admin/disputes");
+    revalidatePath(`/admin/disputes/${disputeId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Update dispute status error:", error);
+    return { success: false, error: "Failed to update dispute" };
+  }
+}
+
+/**
+ * Ask one party to respond - if they don't reply within the dispute response
+ * window the dispute closes against them
+ */
+export async function requestDisputeResponse(
+  disputeId: string,
+  party: "buyer" | "seller",
+  note?: string
+): Promise<ActionResult> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.id, disputeId),
+    });
+
+    if (!dispute) {
+      return { success: false, error: "Dispute not found" };
+    }
+
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+      return { success: false, error: "This dispute is already closed" };
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, dispute.orderId),
+    });
+
+    const partyId = party === "buyer" ? dispute.raisedById : dispute.againstId;
+    const dueAt = await requireResponse(db, dispute, partyId);
+    const dueDate = new Date(dueAt).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+    const consequence =
+      party === "buyer" ? "the dispute will be closed" : "the buyer will be refunded";
+    const responseNote = `Please respond by ${dueDate}, otherwise ${consequence}.`;
+    const update = note || `We need more information from you about the dispute on order ${order?.orderNumber}.`;
+
+    await logAction(db, admin.id, admin.email, "dispute.request_response", "dispute", disputeId, {
+      responseRequiredFrom: { old: dispute.responseRequiredFrom, new: partyId },
+    }, { party, dueAt });
+
+    await notify(db, {
+      userId: partyId,
+      type: "dispute_updated",
+      title: "Response Needed",
+      message: `${update} ${responseNote}`,
+      entityType: "dispute",
+      entityId: disputeId,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order?.orderNumber || "",
+        disputeId,
+        update,
+        responseNote,
+      },
+    });
+
+    revalidatePath(`/admin/disputes/${disputeId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Request dispute response error:", error);
+    return { success: false, error: "Failed to request a response" };
+  }
+}
+
+// ==================== PAYOUTS ====================
+
+export interface PayoutRequestDetails {
+  id: string;
+  user: { id: string; name: string | null; email: string };
+  amount: number;
+  bankName: string;
+  branchCode: string;
+  accountNumber: string;
+  accountType: string;
+  accountHolder: string;
+  status: string;
+  batchId: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface PayoutBatchResult extends ActionResult {
+  batchId?: string;
+  filename?: string;
+  csv?: string;
+}
+
+export async function getPayoutRequests(
+  status?: "pending" | "approved" | "exported" | "completed" | "rejected"
+): Promise<PayoutRequestDetails[]> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    await requireAdmin(db);
+
+    const requests = await db.query.payoutRequests.findMany({
+      where: status ? eq(payoutRequests.status, status) : undefined,
+      orderBy: [desc(payoutRequests.createdAt)],
+      limit: 200,
+    });
+
+    const enriched = await Promise.all(
+      requests.map(async (p) => {
+        const user = await db.query.users.findFirst({
+          where: eq(users.id, p.userId),
+        });
+
+        return {
+          id: p.id,
+          user: { id: p.userId, name: user?.name || null, email: user?.email || "" },
+          amount: p.amount,
+          bankName: p.bankName,
+          branchCode: p.branchCode,
+          accountNumber: p.accountNumber,
+          accountType: p.accountType,
+          accountHolder: p.accountHolder,
+          status: p.status,
+          batchId: p.batchId,
+          rejectionReason: p.rejectionReason,
+          createdAt: p.createdAt,
+          completedAt: p.completedAt,
+        };
+      })
+    );
+
+    return enriched;
+  } catch (error) {
+    console.error("Get payout requests error:", error);
+    return [];
+  }
+}
+
+export async function approvePayout(payoutId: string): Promise<ActionResult> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const payout = await db.query.payoutRequests.findFirst({
+      where: eq(payoutRequests.id, payoutId),
+    });
+
+    if (!payout || payout.status !== "pending") {
+      return { success: false, error: "Payout request not found or already reviewed" };
+    }
+
+    const now = new Date().toISOString();
+
+    await db
+      .update(payoutRequests)
+      .set({
+        status: "approved",
+        reviewedBy: admin.id,
+        reviewedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(payoutRequests.id, payoutId));
+
+    if (payout.transactionId) {
+      await db
+        .update(transactions)
+        .set({ status: "processing", updatedAt: now })
+        .where(eq(transactions.id, payout.transactionId));
+    }
+
+    await logAction(db, admin.id, admin.email, "payout.approve", "payout_request", payoutId, {
+      status: { old: payout.status, new: "approved" },
+    }, { amount: payout.amount });
+
+    revalidatePath("/admin/payouts");
+    return { success: true };
+  } catch (error) {
+    console.error("Approve payout error:", error);
+    return { success: false, error: "Failed to approve payout" };
+  }
+}
+
+export async function rejectPayout(
+  payoutId: string,
+  reason: string
+): Promise<ActionResult> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const payout = await db.query.payoutRequests.findFirst({
+      where: eq(payoutRequests.id, payoutId),
+    });
+
+    if (!payout || (payout.status !== "pending" && payout.status !== "approved")) {
+      return { success: false, error: "Only pending or approved payouts can be rejected" };
+    }
+
+    const now = new Date().toISOString();
+
+    await db
+      .update(payoutRequests)
+      .set({
+        status: "rejected",
+        rejectionReason: reason,
+        reviewedBy: admin.id,
+        reviewedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(payoutRequests.id, payoutId));
+
+    if (payout.transactionId) {
+      await db
+        .update(transactions)
+        .set({ status: "cancelled", errorMessage: reason, updatedAt: now })
+        .where(eq(transactions.id, payout.transactionId));
+    }
+
+    await logAction(db, admin.id, admin.email, "payout.reject", "payout_request", payoutId, {
+      status: { old: payout.status, new: "rejected" },
+    }, { reason });
+
+    await notify(db, {
+      userId: payout.userId,
+      type: "system",
+      title: "Payout Request Rejected",
+      message: `Your payout request was rejected. Reason: ${reason}. The funds remain in your available balance.`,
+      entityType: "payout",
+      entityId: payoutId,
+      sendEmail: true,
+    });
+
+    revalidatePath("/admin/payouts");
+    revalidatePath("/dashboard/payouts");
+    return { success: true };
+  } catch (error) {
+    console.error("Reject payout error:", error);
+    return { success: false, error: "Failed to reject payout" };
+  }
+}
+
+/**
+ * Export all approved payouts as a bank batch file
+ */
+export async function exportPayoutBatch(): Promise<PayoutBatchResult> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const approved = await db.query.payoutRequests.findMany({
+      where: eq(payoutRequests.status, "approved"),
+      orderBy: [payoutRequests.createdAt],
+    });
+
+    if (approved.length === 0) {
+      return { success: false, error: "No approved payouts to export" };
+    }
+
+    const now = new Date();
+    const batchId = `PB${now.toISOString().slice(0, 10).replace(/-/g, "")}-${generateId().slice(0, 6).toUpperCase()}`;
+
+    // Only payouts still approved are claimed, so one rejected or exported meanwhile is left out
+    const exported = await db
+      .update(payoutRequests)
+      .set({
+        status: "exported",
+        batchId,
+        exportedAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      })
+      .where(
+        and(
+          inArray(payoutRequests.id, approved.map((p) => p.id)),
+          eq(payoutRequests.status, "approved")
+        )
+      )
+      .returning();
+
+    if (exported.length === 0) {
+      return { success: false, error: "No approved payouts to export" };
+    }
+
+    exported.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    await logAction(db, admin.id, admin.email, "payout.export", "payout_batch", batchId, {}, {
+      count: exported.length,
+      total: exported.reduce((sum, p) => sum + p.amount, 0),
+      payoutIds: exported.map((p) => p.id),
+    });
+
+    revalidatePath("/admin/payouts");
+    return {
+      success: true,
+      batchId,
+      filename: `${batchId}.csv`,
+      csv: buildPayoutBatchCsv(batchId, exported, now),
+    };
+  } catch (error) {
+    console.error("Export payout batch error:", error);
+    return { success: false, error: "Failed to export payout batch" };
+  }
+}
+
+/**
+ * Mark an exported batch as paid by the bank
+ */
+export async function completePayoutBatch(batchId: string): Promise<ActionResult> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const exported = await db.query.payoutRequests.findMany({
+      where: and(
+        eq(payoutRequests.batchId, batchId),
+        eq(payoutRequests.status, "exported")
+      ),
+    });
+
+    if (exported.length === 0) {
+      return { success: false, error: "No exported payouts in this batch" };
+    }
+
+    const now = new Date().toISOString();
+
+    for (const payout of exported) {
+      // Claim the payout so completing the batch twice can't pay it out twice
+      const claimed = await db
+        .update(payoutRequests)
+        .set({ status: "completed", completedAt: now, updatedAt: now })
+        .where(and(eq(payoutRequests.id, payout.id), eq(payoutRequests.status, "exported")))
+        .returning({ id: payoutRequests.id });
+
+      if (claimed.length === 0) continue;
+
+      if (payout.transactionId) {
+        await db
+          .update(transactions)
+          .set({
+            status: "completed",
+            providerStatus: batchId,
+            completedAt: now,
+            updatedAt: now,
+          })
+          .where(eq(transactions.id, payout.transactionId));
+
+        await recordPayout(db, {
+          userId: payout.userId,
+          transactionId: payout.transactionId,
+          amount: payout.amount,
+        });
+      }
+
+      await logAction(db, admin.id, admin.email, "payout.complete", "payout_request", payout.id, {
+        status: { old: payout.status, new: "completed" },
+      }, { batchId, amount: payout.amount });
+
+      await notify(db, {
+        userId: payout.userId,
+        type: "system",
+        title: "Payout Sent",
+        message: `R${(payout.amount / 100).toFixed(2)} has been paid to your ${payout.bankName} account.`,
+        entityType: "payout",
+        entityId: payout.id,
+        sendEmail: true,
+      });
+    }
+
+    revalidatePath("/admin/payouts");
+    revalidatePath("/dashboard/payouts");
+    return { success: true };
+  } catch (error) {
+    console.error("Complete payout batch error:", error);
+    return { success: false, error: "Failed to complete payout batch" };
+  }
+}
+
+// ==================== RECONCILIATION ====================
+
+export interface ReconciliationReport {
+  runs: ReconciliationRun[];
+  stuck: {
+    id: string;
+    reference: string | null;
+    provider: string;
+    type: string;
+    status: string;
+    amount: number;
+    createdAt: string;
+  }[];
+}
+
+export async function getReconciliationReport(): Promise<ReconciliationReport> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    await requireAdmin(db);
+
+    const [runs, stuck] = await Promise.all([
+      getReconciliationRuns(db),
+      findStuckTransactions(db),
+    ]);
+
+    return {
+      runs,
+      stuck: stuck.map((t) => ({
+        id: t.id,
+        reference: t.providerReference,
+        provider: t.provider,
+        type: t.type,
+        status: t.status,
+        amount: t.amount,
+        createdAt: t.createdAt,
+      })),
+    };
+  } catch (error) {
+    console.error("Get reconciliation report error:", error);
+    return { runs: [], stuck: [] };
+  }
+}
+
+export async function runReconciliation(): Promise<ActionResult> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const run = await reconcilePendingTransactions(db, {
+      trigger: "manual",
+      triggeredBy: admin.id,
+    });
+
+    await logAction(db, admin.id, admin.email, "payment.reconcile", "reconciliation_run", run.id, {}, {
+      checked: run.checked,
+      completed: run.completed,
+      failed: run.failed,
+      errors: run.errors,
+    });
+
+    revalidatePath("/admin/reconciliation");
+    return { success: true };
+  } catch (error) {
+    console.error("Run reconciliation error:", error);
+    return { success: false, error: "Failed to run reconciliation" };
+  }
+}
+
+// ==================== FEES ====================
+
+export interface FeeSettings {
+  schedule: FeeSchedule;
+  categories: { id: string; name: string }[];
+}
+
+export async function getFeeSettings(): Promise<FeeSettings | null> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    await requireAdmin(db);
+
+    const [schedule, allCategories] = await Promise.all([
+      getFeeSchedule(db),
+      db.query.categories.findMany({
+        columns: { id: true, name: true },
+        orderBy: [categories.name],
+      }),
+    ]);
+
+    return { schedule, categories: allCategories };
+  } catch (error) {
+    console.error("Get fee settings error:", error);
+    return null;
+  }
+}
+
+export async function updateFeeSchedule(
+  schedule: Omit<FeeSchedule, "version">
+): Promise<ActionResult> {
+  const validationError = validateFeeSchedule(schedule);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const previous = await getFeeSchedule(db);
+    const saved = await saveFeeSchedule(db, schedule, admin.id);
+
+    await logAction(db, admin.id, admin.email, "fees.update", "platform_setting", FEE_SCHEDULE_KEY, {
+      schedule: { old: previous, new: saved },
+    });
+
+    revalidatePath("/admin/fees");
+    return { success: true };
+  } catch (error) {
+    console.error("Update fee schedule error:", error);
+    return { success: false, error: "Failed to update fee schedule" };
+  }
+}
+
+// ==================== SETTINGS ====================
+
+export interface PlatformSettingsView {
+  values: PlatformSettingValues;
+  definitions: Record<PlatformSettingKey, SettingDefinition>;
+}
+
+export async function getPlatformSettings(): Promise<PlatformSettingsView | null> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    await requireAdmin(db);
+
+    const values = await getSettings(db);
+    return { values, definitions: PLATFORM_SETTINGS };
+  } catch (error) {
+    console.error("Get platform settings error:", error);
+    return null;
+  }
+}
+
+export async function updatePlatformSettings(
+  values: Partial<PlatformSettingValues>
+): Promise<ActionResult> {
+  const keys = (Object.keys(values) as PlatformSettingKey[]).filter((key) => key in PLATFORM_SETTINGS);
+
+  for (const key of keys) {
+    const validationError = validateSetting(key, values[key] as number);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const previous = await getSettings(db);
+    const changes: Record<string, { old: unknown; new: unknown }> = {};
+
+    for (const key of keys) {
+      const value = values[key] as number;
+      if (previous[key] === value) continue;
+
+      await saveSetting(db, key, value, admin.id);
+      changes[key] = { old: previous[key], new: value };
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await logAction(db, admin.id, admin.email, "settings.update", "platform_setting", Object.keys(changes).join(","), changes);
+    }
+
+    revalidatePath("/admin/settings");
+    return { success: true };
+  } catch (error) {
+    console.error("Update platform settings error:", error);
+    return { success: false, error: "Failed to update settings" };
+  }
+}
+
 // ==================== CATEGORIES ====================
 
 export async function getCategories() {
@@ -724,6 +1547,43 @@ export async function updateCategory(
   }
 }
 
+// ==================== SERVICES ====================
+
+/**
+ * Feature or unfeature a service on /services and its category pages
+ */
+export async function setServiceFeatured(serviceId: string, featured: boolean): Promise<ActionResult> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const { user: admin } = await requireAdmin(db);
+
+    const service = await db.query.services.findFirst({
+      where: eq(services.id, serviceId),
+    });
+
+    if (!service) {
+      return { success: false, error: "Service not found" };
+    }
+
+    await db
+      .update(services)
+      .set({ isFeatured: featured, updatedAt: new Date().toISOString() })
+      .where(eq(services.id, serviceId));
+
+    await logAction(db, admin.id, admin.email, featured ? "service.feature" : "service.unfeature", "service", serviceId, {
+      isFeatured: { old: service.isFeatured, new: featured },
+    });
+
+    revalidatePath("/services");
+    revalidatePath(`/services/${service.slug}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Set service featured error:", error);
+    return { success: false, error: "Failed to update service" };
+  }
+}
+
 // ==================== AUDIT LOGS ====================
 
 export async function getAuditLogs(limit = 100) {
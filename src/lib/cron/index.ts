@@ -0,0 +1,73 @@
+// Scheduled jobs - Run by the Cloudflare cron trigger in worker.ts
+// Each job gets its own try/catch so one failure does not stop the rest.
+
+import { createDb } from "@/lib/db";
+import { reconcilePendingTransactions } from "@/lib/payments/reconciliation";
+import { processSubscriptionBilling } from "@/lib/subscriptions/billing";
+import { processDeliveryAutoCompletion } from "@/lib/orders/completion";
+import { processLateOrders } from "@/lib/orders/deadlines";
+import { processDisputeDeadlines } from "@/lib/disputes";
+import { processProjectExpiry } from "@/lib/projects/lifecycle";
+import { processEarningsClearance } from "@/lib/ledger";
+
+export interface CronJob {
+  name: string;
+  // Cron expression from wrangler.toml [triggers] this job runs on
+  schedule: string;
+  run: (db: ReturnType<typeof createDb>) => Promise<unknown>;
+}
+
+export const CRON_JOBS: CronJob[] = [
+  {
+    name: "payment-reconciliation",
+    schedule: "*/15 * * * *",
+    run: (db) => reconcilePendingTransactions(db, { trigger: "cron" }),
+  },
+  {
+    name: "subscription-billing",
+    schedule: "0 6 * * *",
+    run: (db) => processSubscriptionBilling(db),
+  },
+  {
+    name: "order-auto-complete",
+    schedule: "0 * * * *",
+    run: (db) => processDeliveryAutoCompletion(db),
+  },
+  {
+    name: "order-deadlines",
+    schedule: "0 * * * *",
+    run: (db) => processLateOrders(db),
+  },
+  {
+    name: "dispute-deadlines",
+    schedule: "0 * * * *",
+    run: (db) => processDisputeDeadlines(db),
+  },
+  {
+    name: "project-expiry",
+    schedule: "0 * * * *",
+    run: (db) => processProjectExpiry(db),
+  },
+  {
+    name: "earnings-clearance",
+    schedule: "0 * * * *",
+    run: (db) => processEarningsClearance(db),
+  },
+];
+
+/**
+ * Run every job registered for a cron expression
+ */
+export async function runScheduledJobs(env: CloudflareEnv, cron: string): Promise<void> {
+  const db = createDb(env.DB);
+  const jobs = CRON_JOBS.filter((job) => job.schedule === cron);
+
+  for (const job of jobs) {
+    try {
+      const result = await job.run(db);
+      console.log(`Cron job ${job.name} finished:`, result);
+    } catch (error) {
+      console.error(`Cron job ${job.name} error:`, error);
+    }
+  }
+}
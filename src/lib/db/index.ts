@@ -41,6 +41,8 @@ export type {
   NewOrder,
   Milestone,
   Transaction,
+  LedgerAccount,
+  LedgerEntry,
   Review,
   Message,
   Dispute,
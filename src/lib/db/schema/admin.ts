@@ -110,6 +110,26 @@ export const featureFlags = sqliteTable("feature_flags", {
   updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+// Payment reconciliation runs - Outcome of each sweep over stuck transactions
+export const reconciliationRuns = sqliteTable("reconciliation_runs", {
+  id: text("id").primaryKey(),
+  trigger: text("trigger", { enum: ["cron", "manual"] }).notNull(),
+  triggeredBy: text("triggered_by").references(() => users.id),
+  
+  // Counts
+  checked: integer("checked").default(0).notNull(),
+  completed: integer("completed").default(0).notNull(),
+  failed: integer("failed").default(0).notNull(),
+  unchanged: integer("unchanged").default(0).notNull(),
+  errors: integer("errors").default(0).notNull(),
+  
+  // JSON array of per-transaction results
+  details: text("details"),
+  
+  startedAt: text("started_at").notNull(),
+  finishedAt: text("finished_at"),
+});
+
 // Subscription plans config
 export const subscriptionPlans = sqliteTable("subscription_plans", {
   id: text("id").primaryKey(),
@@ -142,3 +162,4 @@ export type AuditLog = typeof auditLogs.$inferSelect;
 export type PlatformSetting = typeof platformSettings.$inferSelect;
 export type FeatureFlag = typeof featureFlags.$inferSelect;
 export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
@@ -0,0 +1,43 @@
+// Document tables - Tax invoices, receipts and earning statements (PDFs in R2)
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { users, subscriptions } from "./users";
+import { orders, transactions } from "./orders";
+
+// Issued documents - the rendered PDF lives in R2 under r2Key
+export const billingDocuments = sqliteTable("billing_documents", {
+  id: text("id").primaryKey(),
+  type: text("type", {
+    enum: ["tax_invoice", "receipt", "earning_statement"]
+  }).notNull(),
+  number: text("number").notNull().unique(), // e.g. INV-000042 - sequential per type
+  
+  // Who the document is addressed to
+  userId: text("user_id").notNull().references(() => users.id),
+  
+  // What it is for
+  orderId: text("order_id").references(() => orders.id),
+  subscriptionId: text("subscription_id").references(() => subscriptions.id),
+  transactionId: text("transaction_id").references(() => transactions.id),
+  
+  // Totals in cents - VAT is included in total
+  total: integer("total").notNull(),
+  vatAmount: integer("vat_amount").default(0).notNull(),
+  
+  // Snapshot of everything printed on the document (JSON), so it can be re-rendered
+  data: text("data").notNull(),
+  r2Key: text("r2_key").notNull(),
+  storedAt: text("stored_at"), // Set once the PDF has been written to R2
+  
+  issuedAt: text("issued_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Last number issued per document type
+export const documentSequences = sqliteTable("document_sequences", {
+  type: text("type").primaryKey(),
+  lastNumber: integer("last_number").default(0).notNull(),
+});
+
+// Types
+export type BillingDocument = typeof billingDocuments.$inferSelect;
+export type NewBillingDocument = typeof billingDocuments.$inferInsert;
@@ -2,5 +2,8 @@
 export * from "./users";
 export * from "./marketplace";
 export * from "./orders";
+export * from "./ledger";
+export * from "./payouts";
+export * from "./documents";
 export * from "./social";
 export * from "./admin";
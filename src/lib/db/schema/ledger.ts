@@ -0,0 +1,65 @@
+// Double-entry ledger - Tracks where escrowed money sits
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { users } from "./users";
+import { orders, milestones, transactions } from "./orders";
+
+// Ledger accounts - One per (type, owner)
+export const ledgerAccounts = sqliteTable("ledger_accounts", {
+  id: text("id").primaryKey(),
+
+  // Stable lookup key, e.g. "escrow:<orderId>", "seller_available:<userId>", "platform_fees"
+  key: text("key").notNull().unique(),
+
+  type: text("type", {
+    enum: [
+      "gateway", // Money entering/leaving the platform via OZOW/PayFast/bank
+      "buyer_funds", // Buyer money received but not yet allocated
+      "escrow", // Held against a specific order
+      "seller_pending", // Released to seller, still in clearance period
+      "seller_available", // Cleared seller earnings, can be paid out
+      "platform_fees", // Zomieks revenue
+    ],
+  }).notNull(),
+
+  // Owner - user accounts have userId, escrow accounts have orderId
+  userId: text("user_id").references(() => users.id),
+  orderId: text("order_id").references(() => orders.id),
+
+  currency: text("currency").default("ZAR"),
+
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Ledger entries - Each row moves an amount from the debit account to the credit account
+export const ledgerEntries = sqliteTable("ledger_entries", {
+  id: text("id").primaryKey(),
+
+  // Groups all entries posted for one business event
+  journalId: text("journal_id").notNull(),
+
+  debitAccountId: text("debit_account_id").notNull().references(() => ledgerAccounts.id),
+  creditAccountId: text("credit_account_id").notNull().references(() => ledgerAccounts.id),
+  amount: integer("amount").notNull(), // In cents, always positive
+
+  entryType: text("entry_type", {
+    enum: ["payment", "escrow_fund", "escrow_release", "fee", "clearance", "refund", "payout"],
+  }).notNull(),
+
+  // Source records
+  orderId: text("order_id").references(() => orders.id),
+  milestoneId: text("milestone_id").references(() => milestones.id),
+  transactionId: text("transaction_id").references(() => transactions.id),
+
+  description: text("description"),
+
+  // For seller_pending entries - when funds become available
+  availableAt: text("available_at"),
+
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Types
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type NewLedgerEntry = typeof ledgerEntries.$inferInsert;
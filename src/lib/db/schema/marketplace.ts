@@ -29,11 +29,15 @@ export const services = sqliteTable("services", {
   // Pricing tiers stored as JSON
   // { basic: { name, price, deliveryDays, description, features[] }, standard: {...}, premium: {...} }
   pricingTiers: text("pricing_tiers").notNull(), // JSON
+  extras: text("extras"), // JSON array of ServiceExtra (see @/lib/services/extras)
   
   images: text("images"), // JSON array of R2 URLs
   thumbnailUrl: text("thumbnail_url"),
   tags: text("tags"), // JSON array of tags
   
+  // Questions the buyer answers after paying - JSON array of RequirementQuestion (see @/lib/services/requirements)
+  requirementsForm: text("requirements_form"),
+  
   // Service settings
   maxRevisions: integer("max_revisions").default(2),
   deliveryDays: integer("delivery_days").notNull(),
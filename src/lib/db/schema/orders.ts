@@ -18,28 +18,44 @@ export const orders = sqliteTable("orders", {
   serviceId: text("service_id").references(() => services.id),
   projectId: text("project_id").references(() => projects.id),
   bidId: text("bid_id").references(() => bids.id),
+  conversationId: text("conversation_id"), // Conversation a custom offer was accepted in
   
   // Selected tier for service orders
   serviceTier: text("service_tier", { enum: ["basic", "standard", "premium"] }),
+  extras: text("extras"), // JSON - the service extras the buyer picked, as offered when the order was placed
   
   // Requirements from buyer
   requirements: text("requirements"), // Buyer's specific requirements
+  requirementsForm: text("requirements_form"), // JSON - the service's questionnaire when the order was placed
+  requirementAnswers: text("requirement_answers"), // JSON array of RequirementAnswer
   attachments: text("attachments"), // JSON array of R2 URLs
   
   // Pricing - All amounts in ZAR cents to avoid floating point issues
   subtotal: integer("subtotal").notNull(), // Base amount in cents
-  buyerFee: integer("buyer_fee").notNull(), // 3% fee in cents
-  sellerFee: integer("seller_fee").notNull(), // 8% fee in cents
+  buyerFee: integer("buyer_fee").notNull(), // In cents, from the fee schedule
+  sellerFee: integer("seller_fee").notNull(), // In cents, from the fee schedule
   totalAmount: integer("total_amount").notNull(), // subtotal + buyerFee
   sellerEarnings: integer("seller_earnings").notNull(), // subtotal - sellerFee
   currency: text("currency").default("ZAR"),
   
+  // Fee schedule applied when the order was placed (rates in basis points)
+  feeScheduleVersion: integer("fee_schedule_version"),
+  buyerFeeBps: integer("buyer_fee_bps"),
+  sellerFeeBps: integer("seller_fee_bps"),
+  
   // Timeline
   deliveryDays: integer("delivery_days").notNull(),
   deliveryDeadline: text("delivery_deadline"),
   deliveredAt: text("delivered_at"),
   acceptedAt: text("accepted_at"),
   
+  // Automatic completion once the buyer's review window has passed
+  autoCompleteWarnedAt: text("auto_complete_warned_at"), // Buyer reminded about the latest delivery
+  autoCompletedAt: text("auto_completed_at"), // Set when the buyer never responded
+  
+  // Late delivery - parties are told once per missed deadline
+  lateNotifiedAt: text("late_notified_at"),
+  
   // Revisions
   revisionsAllowed: integer("revisions_allowed").default(2),
   revisionsUsed: integer("revisions_used").default(0),
@@ -85,10 +101,14 @@ export const milestones = sqliteTable("milestones", {
   // Deadline for this milestone
   dueDate: text("due_date"),
   
+  // Revisions - each milestone has its own allowance
+  revisionsAllowed: integer("revisions_allowed").default(2),
+  revisionsUsed: integer("revisions_used").default(0),
+  
   // Status
   status: text("status", { 
-    enum: ["pending", "funded", "in_progress", "delivered", "released", "disputed", "refunded"] 
-  }).default("pending").notNull(),
+    enum: ["pending", "funded", "in_progress", "delivered", "released", "disputed", "refunded", "cancelled"] 
+  }).default("pending").notNull(), // cancelled = removed by a change order before it was funded
   
   // Escrow tracking
   fundedAt: text("funded_at"),
@@ -120,7 +140,7 @@ export const transactions = sqliteTable("transactions", {
   currency: text("currency").default("ZAR"),
   
   // Payment provider
-  provider: text("provider", { enum: ["ozow", "payfast", "manual"] }).notNull(),
+  provider: text("provider", { enum: ["ozow", "payfast", "sandbox", "manual"] }).notNull(),
   providerReference: text("provider_reference"), // Transaction ID from provider
   providerStatus: text("provider_status"),
   
@@ -140,6 +160,33 @@ export const transactions = sqliteTable("transactions", {
   completedAt: text("completed_at"),
 });
 
+// Payment webhook events - One row per provider notification, used to ignore replays
+export const webhookEvents = sqliteTable("webhook_events", {
+  id: text("id").primaryKey(),
+  
+  provider: text("provider", { enum: ["ozow", "payfast", "sandbox"] }).notNull(),
+  providerReference: text("provider_reference").notNull(), // Our payment reference
+  providerTransactionId: text("provider_transaction_id"),
+  status: text("status").notNull(), // Normalised notification status
+  
+  // provider:reference:status - a resent notification maps to the same key.
+  // Recurring billing notifications share a reference, so they also carry the provider transaction ID
+  eventKey: text("event_key").notNull().unique(),
+  
+  amount: integer("amount"), // In cents, as reported by the provider
+  payload: text("payload"), // JSON of the raw notification
+  
+  // Outcome
+  processingStatus: text("processing_status", { 
+    enum: ["received", "processed", "rejected", "failed"] 
+  }).default("received").notNull(),
+  error: text("error"),
+  transactionId: text("transaction_id").references(() => transactions.id),
+  
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  processedAt: text("processed_at"),
+});
+
 // Order deliveries/submissions
 export const orderDeliveries = sqliteTable("order_deliveries", {
   id: text("id").primaryKey(),
@@ -161,6 +208,7 @@ export const revisionRequests = sqliteTable("revision_requests", {
   id: text("id").primaryKey(),
   orderId: text("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
   deliveryId: text("delivery_id").notNull().references(() => orderDeliveries.id),
+  milestoneId: text("milestone_id").references(() => milestones.id), // Project orders - the milestone sent back
   
   reason: text("reason").notNull(),
   details: text("details"),
@@ -173,6 +221,71 @@ export const revisionRequests = sqliteTable("revision_requests", {
   respondedAt: text("responded_at"),
 });
 
+// Order history - One row per order or milestone status change, written by the
+// order state machine (see @/lib/orders/state-machine)
+export const orderEvents = sqliteTable("order_events", {
+  id: text("id").primaryKey(),
+  orderId: text("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  milestoneId: text("milestone_id").references(() => milestones.id), // Null for order status changes
+  
+  // Non-status events keep the status unchanged (fromStatus = toStatus)
+  type: text("type", { 
+    enum: ["status_change", "deadline_missed", "deadline_extended", "scope_changed"] 
+  }).default("status_change").notNull(),
+  
+  fromStatus: text("from_status"), // Null when the order is created
+  toStatus: text("to_status").notNull(),
+  
+  actorId: text("actor_id").references(() => users.id), // Null for system changes (webhooks, cron)
+  note: text("note"),
+  
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Deadline extension requests - Seller asks for more time, buyer accepts or declines
+export const deadlineExtensions = sqliteTable("deadline_extensions", {
+  id: text("id").primaryKey(),
+  orderId: text("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  milestoneId: text("milestone_id").references(() => milestones.id), // Null to extend the order deadline
+  requestedBy: text("requested_by").notNull().references(() => users.id),
+  
+  currentDeadline: text("current_deadline"),
+  requestedDeadline: text("requested_deadline").notNull(),
+  reason: text("reason").notNull(),
+  
+  status: text("status", { 
+    enum: ["pending", "accepted", "declined"] 
+  }).default("pending").notNull(),
+  responseNote: text("response_note"),
+  
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  respondedAt: text("responded_at"),
+});
+
+// Change orders - Either party proposes changes to unfunded milestones, the other accepts or declines.
+// Rows are never deleted, so the order keeps its full proposal history.
+export const changeOrders = sqliteTable("change_orders", {
+  id: text("id").primaryKey(),
+  orderId: text("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  proposedBy: text("proposed_by").notNull().references(() => users.id),
+  
+  changes: text("changes").notNull(), // JSON array of ChangeOrderItem (see @/lib/orders/change-orders)
+  reason: text("reason").notNull(),
+  
+  // Order subtotal in cents when proposed, and what it becomes if accepted
+  previousSubtotal: integer("previous_subtotal").notNull(),
+  proposedSubtotal: integer("proposed_subtotal").notNull(),
+  
+  status: text("status", { 
+    enum: ["pending", "accepted", "declined", "withdrawn"] 
+  }).default("pending").notNull(),
+  respondedBy: text("responded_by").references(() => users.id),
+  responseNote: text("response_note"),
+  
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  respondedAt: text("responded_at"),
+});
+
 // Types
 export type Order = typeof orders.$inferSelect;
 export type NewOrder = typeof orders.$inferInsert;
@@ -180,5 +293,9 @@ export type Milestone = typeof milestones.$inferSelect;
 export type NewMilestone = typeof milestones.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
 export type OrderDelivery = typeof orderDeliveries.$inferSelect;
 export type RevisionRequest = typeof revisionRequests.$inferSelect;
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type DeadlineExtension = typeof deadlineExtensions.$inferSelect;
+export type ChangeOrder = typeof changeOrders.$inferSelect;
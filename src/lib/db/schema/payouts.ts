@@ -0,0 +1,65 @@
+// Payout-related tables - Seller bank details and withdrawal requests
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { users } from "./users";
+import { transactions } from "./orders";
+
+// South African bank accounts for EFT payouts
+export const bankAccounts = sqliteTable("bank_accounts", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  
+  accountHolder: text("account_holder").notNull(),
+  bankName: text("bank_name").notNull(),
+  branchCode: text("branch_code").notNull(), // 6 digits (universal branch code)
+  accountNumber: text("account_number").notNull(),
+  accountType: text("account_type", { 
+    enum: ["cheque", "savings", "transmission"] 
+  }).default("cheque").notNull(),
+  
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Seller withdrawal requests
+export const payoutRequests = sqliteTable("payout_requests", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  
+  amount: integer("amount").notNull(), // In cents
+  currency: text("currency").default("ZAR"),
+  
+  // Bank details snapshot at request time
+  accountHolder: text("account_holder").notNull(),
+  bankName: text("bank_name").notNull(),
+  branchCode: text("branch_code").notNull(),
+  accountNumber: text("account_number").notNull(),
+  accountType: text("account_type", { 
+    enum: ["cheque", "savings", "transmission"] 
+  }).notNull(),
+  
+  status: text("status", { 
+    enum: ["pending", "approved", "exported", "completed", "rejected"] 
+  }).default("pending").notNull(),
+  
+  // Linked payout transaction
+  transactionId: text("transaction_id").references(() => transactions.id),
+  
+  // Bank batch file this payout was exported in
+  batchId: text("batch_id"),
+  exportedAt: text("exported_at"),
+  
+  // Admin review
+  reviewedBy: text("reviewed_by").references(() => users.id),
+  reviewedAt: text("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  completedAt: text("completed_at"),
+});
+
+// Types
+export type BankAccount = typeof bankAccounts.$inferSelect;
+export type NewBankAccount = typeof bankAccounts.$inferInsert;
+export type PayoutRequest = typeof payoutRequests.$inferSelect;
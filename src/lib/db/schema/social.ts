@@ -100,6 +100,8 @@ export const messages = sqliteTable("messages", {
   // For offer messages
   offerAmount: integer("offer_amount"), // In cents
   offerStatus: text("offer_status", { enum: ["pending", "accepted", "rejected"] }),
+  offerDetails: text("offer_details"), // JSON CustomOffer (see @/lib/messages/offers)
+  offerOrderId: text("offer_order_id").references(() => orders.id), // Order placed when the offer was accepted
   
   isRead: integer("is_read", { mode: "boolean" }).default(false),
   readAt: text("read_at"),
@@ -133,7 +135,7 @@ export const disputes = sqliteTable("disputes", {
   
   title: text("title").notNull(),
   description: text("description").notNull(),
-  evidence: text("evidence"), // JSON array of R2 URLs
+  evidence: text("evidence"), // JSON array of R2 evidence files (see @/lib/disputes)
   
   // Resolution
   status: text("status", { 
@@ -146,6 +148,11 @@ export const disputes = sqliteTable("disputes", {
   resolutionNotes: text("resolution_notes"),
   resolutionAmount: integer("resolution_amount"), // Partial refund amount
   
+  // Response deadline - the party who must reply next and by when, or the
+  // dispute closes against them (see @/lib/disputes)
+  responseRequiredFrom: text("response_required_from").references(() => users.id),
+  responseDueAt: text("response_due_at"),
+  
   // Admin handling
   assignedTo: text("assigned_to").references(() => users.id),
   resolvedBy: text("resolved_by").references(() => users.id),
@@ -162,7 +169,7 @@ export const disputeMessages = sqliteTable("dispute_messages", {
   senderId: text("sender_id").notNull().references(() => users.id),
   
   message: text("message").notNull(),
-  attachments: text("attachments"), // JSON
+  attachments: text("attachments"), // JSON array of R2 evidence files, like disputes.evidence
   
   isFromAdmin: integer("is_from_admin", { mode: "boolean" }).default(false),
   isInternal: integer("is_internal", { mode: "boolean" }).default(false), // Admin-only notes
@@ -178,19 +185,38 @@ export const notifications = sqliteTable("notifications", {
   type: text("type", { 
     enum: [
       "order_created",
+      "requirements_needed",
+      "requirements_submitted",
       "order_delivered",
+      "delivery_review_reminder",
+      "order_late",
+      "deadline_extension_requested",
+      "deadline_extension_responded",
+      "revision_requested",
+      "change_order_proposed",
+      "change_order_responded",
       "order_completed",
       "order_cancelled",
       "payment_received",
       "new_message",
+      "custom_offer_received",
+      "custom_offer_responded",
       "new_bid",
       "bid_accepted",
+      "bid_shortlisted",
+      "bid_rejected",
+      "project_expired",
       "review_received",
       "dispute_opened",
       "dispute_resolved",
+      "dispute_message",
+      "dispute_updated",
       "verification_approved",
       "verification_rejected",
       "subscription_expiring",
+      "subscription_renewed",
+      "subscription_payment_failed",
+      "subscription_expired",
       "system"
     ] 
   }).notNull(),
@@ -221,4 +247,5 @@ export type Message = typeof messages.$inferSelect;
 export type NewMessage = typeof messages.$inferInsert;
 export type Dispute = typeof disputes.$inferSelect;
 export type NewDispute = typeof disputes.$inferInsert;
+export type DisputeMessage = typeof disputeMessages.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
@@ -29,7 +29,7 @@ export const userProfiles = sqliteTable("user_profiles", {
   location: text("location"),
   hourlyRate: real("hourly_rate"),
   currency: text("currency").default("ZAR"),
-  portfolioUrls: text("portfolio_urls"), // JSON array
+  portfolioUrls: text("portfolio_urls"), // JSON array of PortfolioItem (see @/lib/profiles/portfolio)
   website: text("website"),
   responseTime: text("response_time"), // avg response time
   completionRate: real("completion_rate"), // percentage
@@ -71,6 +71,13 @@ export const subscriptions = sqliteTable("subscriptions", {
   currentPeriodEnd: text("current_period_end").notNull(),
   cancelledAt: text("cancelled_at"),
   paymentReference: text("payment_reference"), // PayFast/OZOW reference
+  
+  // Recurring billing - PayFast subscription token from the first ITN
+  payfastToken: text("payfast_token"),
+  pastDueSince: text("past_due_since"), // First failed or missed renewal
+  dunningCount: integer("dunning_count").default(0).notNull(), // Payment reminders sent
+  lastDunningAt: text("last_dunning_at"),
+  
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
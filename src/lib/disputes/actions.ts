@@ -0,0 +1,346 @@
+// Server actions for disputes
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { eq } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { orders, disputes, disputeMessages, users } from "@/lib/db/schema";
+import { getServerSession } from "@/lib/auth/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { notify } from "@/lib/notifications";
+import {
+  DISPUTE_CATEGORIES,
+  DISPUTABLE_ORDER_STATUSES,
+  validateEvidenceFiles,
+  storeEvidence,
+  getActiveDispute,
+  freezeEscrow,
+  notifyAdmins,
+  requireResponse,
+  getDisputeThread,
+  parseEvidence,
+  getEvidenceUrl,
+  ACTIVE_DISPUTE_STATUSES,
+  type DisputeCategory,
+  type DisputeThreadMessage,
+} from "@/lib/disputes";
+import type { Dispute } from "@/lib/db/schema";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  disputeId?: string;
+}
+
+/**
+ * Open a dispute on an order (buyer action) - freezes the escrow until an admin resolves it.
+ * Takes form data so evidence files can be uploaded: orderId, category, description, evidence[]
+ */
+export async function openDispute(formData: FormData): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const orderId = String(formData.get("orderId") || "");
+  const category = String(formData.get("category") || "") as DisputeCategory;
+  const description = String(formData.get("description") || "").trim();
+  const files = formData
+    .getAll("evidence")
+    .filter((value): value is File => value instanceof File && value.size > 0);
+
+  if (!(category in DISPUTE_CATEGORIES)) {
+    return { success: false, error: "Choose what the dispute is about" };
+  }
+
+  if (description.length < 20) {
+    return { success: false, error: "Please describe the problem in at least 20 characters" };
+  }
+
+  const evidenceError = validateEvidenceFiles(files);
+  if (evidenceError) {
+    return { success: false, error: evidenceError };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, orderId),
+    });
+
+    if (!order || order.buyerId !== session.userId) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (!DISPUTABLE_ORDER_STATUSES.includes(order.status)) {
+      return { success: false, error: "This order can no longer be disputed" };
+    }
+
+    if (await getActiveDispute(db, orderId)) {
+      return { success: false, error: "This order already has an open dispute" };
+    }
+
+    const disputeId = generateId();
+    const evidence = await storeEvidence(env.FILES, disputeId, session.userId, files);
+    const now = new Date().toISOString();
+
+    await db.insert(disputes).values({
+      id: disputeId,
+      orderId,
+      raisedById: session.userId,
+      againstId: order.sellerId,
+      category,
+      title: `${DISPUTE_CATEGORIES[category]} - ${order.orderNumber}`,
+      description,
+      evidence: evidence.length > 0 ? JSON.stringify(evidence) : null,
+      status: "open",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await freezeEscrow(db, order, session.userId, `Dispute opened: ${DISPUTE_CATEGORIES[category]}`);
+
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.id, disputeId),
+    });
+    const dueAt = await requireResponse(db, dispute!, order.sellerId);
+
+    await notify(db, {
+      userId: order.sellerId,
+      type: "dispute_opened",
+      title: "Dispute Opened",
+      message: `The buyer opened a dispute on order ${order.orderNumber}: ${DISPUTE_CATEGORIES[category]}. Payments on the order are on hold until it is resolved. Please respond by ${formatDate(dueAt)} or the buyer will be refunded.`,
+      entityType: "dispute",
+      entityId: disputeId,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId,
+        reason: DISPUTE_CATEGORIES[category],
+      },
+    });
+
+    await notifyAdmins(db, {
+      type: "dispute_opened",
+      title: "New Dispute",
+      message: `Order ${order.orderNumber}: ${DISPUTE_CATEGORIES[category]}`,
+      disputeId,
+    });
+
+    revalidatePath(`/dashboard/orders/${orderId}`);
+    revalidatePath("/admin/disputes");
+    return { success: true, disputeId };
+  } catch (error) {
+    console.error("Open dispute error:", error);
+    return { success: false, error: "Failed to open dispute" };
+  }
+}
+
+export interface DisputeView {
+  dispute: Omit<Dispute, "evidence"> & {
+    evidence: { name: string; url: string }[];
+  };
+  order: { id: string; orderNumber: string; status: string; totalAmount: number };
+  buyer: { id: string; name: string | null };
+  seller: { id: string; name: string | null };
+  userRole: "buyer" | "seller";
+  messages: DisputeThreadMessage[];
+}
+
+/**
+ * A dispute as seen by one of its parties - admin-only internal notes are left out
+ */
+export async function getDispute(disputeId: string): Promise<DisputeView | null> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return null;
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.id, disputeId),
+    });
+
+    if (!dispute || (dispute.raisedById !== session.userId && dispute.againstId !== session.userId)) {
+      return null;
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, dispute.orderId),
+    });
+
+    if (!order) {
+      return null;
+    }
+
+    const [buyer, seller] = await Promise.all([
+      db.query.users.findFirst({ where: eq(users.id, order.buyerId), columns: { id: true, name: true } }),
+      db.query.users.findFirst({ where: eq(users.id, order.sellerId), columns: { id: true, name: true } }),
+    ]);
+
+    return {
+      dispute: {
+        ...dispute,
+        evidence: parseEvidence(dispute.evidence).map((file) => ({
+          name: file.name,
+          url: getEvidenceUrl(dispute.id, file.key),
+        })),
+      },
+      order: { id: order.id, orderNumber: order.orderNumber, status: order.status, totalAmount: order.totalAmount },
+      buyer: { id: order.buyerId, name: buyer?.name ?? null },
+      seller: { id: order.sellerId, name: seller?.name ?? null },
+      userRole: order.buyerId === session.userId ? "buyer" : "seller",
+      messages: await getDisputeThread(db, dispute.id, false),
+    };
+  } catch (error) {
+    console.error("Get dispute error:", error);
+    return null;
+  }
+}
+
+/**
+ * Post to a dispute thread - parties and admins. Takes form data so evidence can
+ * be attached: disputeId, message, evidence[], internal (admins only, hidden from the parties)
+ */
+export async function postDisputeMessage(formData: FormData): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const disputeId = String(formData.get("disputeId") || "");
+  const message = String(formData.get("message") || "").trim();
+  const internal = formData.get("internal") === "true";
+  const files = formData
+    .getAll("evidence")
+    .filter((value): value is File => value instanceof File && value.size > 0);
+  const isAdmin = session.role === "admin" || session.role === "moderator";
+
+  if (!message) {
+    return { success: false, error: "Message cannot be empty" };
+  }
+
+  if (internal && !isAdmin) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const evidenceError = validateEvidenceFiles(files);
+  if (evidenceError) {
+    return { success: false, error: evidenceError };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.id, disputeId),
+    });
+
+    if (!dispute) {
+      return { success: false, error: "Dispute not found" };
+    }
+
+    const isParty = dispute.raisedById === session.userId || dispute.againstId === session.userId;
+    if (!isParty && !isAdmin) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+      return { success: false, error: "This dispute is closed" };
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, dispute.orderId),
+    });
+
+    if (!order) {
+      return { success: false, error: "Order not found" };
+    }
+
+    const attachments = await storeEvidence(env.FILES, dispute.id, session.userId, files);
+    const now = new Date().toISOString();
+
+    await db.insert(disputeMessages).values({
+      id: generateId(),
+      disputeId: dispute.id,
+      senderId: session.userId,
+      message,
+      attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
+      isFromAdmin: isAdmin && !isParty,
+      isInternal: internal,
+      createdAt: now,
+    });
+
+    // A reply from the party we were waiting on stops the clock
+    const answered = dispute.responseRequiredFrom === session.userId;
+    await db
+      .update(disputes)
+      .set(answered ? { responseRequiredFrom: null, responseDueAt: null, updatedAt: now } : { updatedAt: now })
+      .where(eq(disputes.id, dispute.id));
+
+    if (!internal) {
+      const sender = await db.query.users.findFirst({
+        where: eq(users.id, session.userId),
+        columns: { name: true },
+      });
+      const senderName = isParty ? sender?.name || "The other party" : "Zomieks Support";
+      const recipients = [dispute.raisedById, dispute.againstId].filter((id) => id !== session.userId);
+
+      for (const userId of recipients) {
+        const owesReply = !answered && dispute.responseRequiredFrom === userId && dispute.responseDueAt;
+        await notify(db, {
+          userId,
+          type: "dispute_message",
+          title: "New Dispute Message",
+          message: `${senderName} replied to the dispute on order ${order.orderNumber}`,
+          entityType: "dispute",
+          entityId: dispute.id,
+          sendEmail: true,
+          emailData: {
+            orderNumber: order.orderNumber,
+            disputeId: dispute.id,
+            senderName,
+            responseNote: owesReply
+              ? `Please respond by ${formatDate(dispute.responseDueAt!)}.`
+              : "",
+          },
+        });
+      }
+
+      if (isParty && dispute.assignedTo) {
+        await notify(db, {
+          userId: dispute.assignedTo,
+          type: "dispute_message",
+          title: "New Dispute Message",
+          message: `${senderName} replied to the dispute on order ${order.orderNumber}`,
+          entityType: "dispute",
+          entityId: dispute.id,
+        });
+      }
+    }
+
+    revalidatePath(`/dashboard/disputes/${dispute.id}`);
+    revalidatePath(`/admin/disputes/${dispute.id}`);
+    return { success: true, disputeId: dispute.id };
+  } catch (error) {
+    console.error("Post dispute message error:", error);
+    return { success: false, error: "Failed to send message" };
+  }
+}
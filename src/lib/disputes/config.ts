@@ -0,0 +1,21 @@
+// Dispute configuration - safe to import from client components
+
+import type { Dispute } from "@/lib/db/schema";
+
+export type DisputeCategory = Dispute["category"];
+
+export const DISPUTE_CATEGORIES: Record<DisputeCategory, string> = {
+  not_as_described: "Not as described",
+  late_delivery: "Late delivery",
+  no_delivery: "Nothing delivered",
+  poor_quality: "Poor quality",
+  communication_issues: "Communication issues",
+  other: "Other",
+};
+
+export const EVIDENCE_CONFIG = {
+  maxFiles: 5,
+  maxFileSize: 5 * 1024 * 1024, // 5 MB
+  allowedTypes: ["image/jpeg", "image/png", "image/webp", "application/pdf", "text/plain"],
+  typeNames: "JPEG, PNG, WebP, PDF and text files",
+} as const;
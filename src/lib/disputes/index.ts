@@ -0,0 +1,422 @@
+// Disputes
+// A dispute freezes the order's escrow: the order and every milestone still
+// holding money move to `disputed`, so nothing can be accepted, auto-completed
+// or released until an admin resolves it. Evidence files live in R2 under
+// disputes/{disputeId}/ and are served to the parties by /api/disputes.
+//
+// Response deadlines: one party at a time can owe a reply (the seller when the
+// dispute opens, or whoever an admin asks). If the reply doesn't arrive in time
+// the dispute closes against them - the buyer's dispute is closed and work
+// resumes, or the seller's escrow is refunded to the buyer.
+
+import { eq, and, inArray, desc, asc, lt, isNotNull, isNull } from "drizzle-orm";
+import type { R2Bucket } from "@cloudflare/workers-types";
+import { createDb } from "@/lib/db";
+import { disputes, disputeMessages, milestones, orderEvents, orders, users } from "@/lib/db/schema";
+import type { Dispute, Order, Milestone } from "@/lib/db/schema";
+import { transitionOrder, transitionMilestone } from "@/lib/orders/state-machine";
+import { refundOrder } from "@/lib/payments";
+import { notify } from "@/lib/notifications";
+import { getSetting } from "@/lib/settings";
+import { validateFiles, storeFile, type StoredFile } from "@/lib/files";
+import { EVIDENCE_CONFIG } from "./config";
+
+export * from "./config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+// Orders with work (and money) still in play
+export const DISPUTABLE_ORDER_STATUSES: Order["status"][] = [
+  "pending_requirements",
+  "in_progress",
+  "delivered",
+  "revision_requested",
+];
+
+// Disputes an admin still has to deal with
+export const ACTIVE_DISPUTE_STATUSES: Dispute["status"][] = ["open", "under_review", "escalated"];
+
+// Milestone statuses where the milestone amount is held in escrow
+const ESCROWED_MILESTONE_STATUSES: Milestone["status"][] = ["funded", "in_progress", "delivered"];
+
+export interface DisputeDeadlineResult {
+  closed: number;
+  refunded: number;
+  escalated: number;
+}
+
+export interface DisputeEvidence extends StoredFile {
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export function parseEvidence(evidence: string | null): DisputeEvidence[] {
+  if (!evidence) return [];
+  try {
+    return JSON.parse(evidence) as DisputeEvidence[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Download URL for an evidence file - only the parties and admins can open it
+ */
+export function getEvidenceUrl(disputeId: string, key: string): string {
+  return `/api/disputes/${disputeId}/files?key=${encodeURIComponent(key)}`;
+}
+
+/**
+ * Check uploaded files against the evidence limits - returns an error message or null
+ */
+export function validateEvidenceFiles(files: File[], existing = 0): string | null {
+  if (files.length + existing > EVIDENCE_CONFIG.maxFiles) {
+    return `You can attach up to ${EVIDENCE_CONFIG.maxFiles} files`;
+  }
+
+  return validateFiles(files, EVIDENCE_CONFIG);
+}
+
+/**
+ * Upload evidence files to R2 (validate them first with validateEvidenceFiles)
+ */
+export async function storeEvidence(
+  bucket: R2Bucket,
+  disputeId: string,
+  userId: string,
+  files: File[]
+): Promise<DisputeEvidence[]> {
+  const stored: DisputeEvidence[] = [];
+
+  for (const file of files) {
+    stored.push({
+      ...(await storeFile(bucket, `disputes/${disputeId}`, file)),
+      uploadedBy: userId,
+      uploadedAt: new Date().toISOString(),
+    });
+  }
+
+  return stored;
+}
+
+/**
+ * The dispute on an order that has not been resolved yet, if any
+ */
+export async function getActiveDispute(
+  db: ReturnType<typeof createDb>,
+  orderId: string
+): Promise<Dispute | undefined> {
+  return db.query.disputes.findFirst({
+    where: and(eq(disputes.orderId, orderId), inArray(disputes.status, ACTIVE_DISPUTE_STATUSES)),
+    orderBy: [desc(disputes.createdAt)],
+  });
+}
+
+/**
+ * Freeze an order's escrow - the order and its escrowed milestones move to disputed
+ */
+export async function freezeEscrow(
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  actorId: string,
+  note: string
+): Promise<void> {
+  await transitionOrder(db, order.id, "disputed", { actorId, note });
+
+  const held = await db.query.milestones.findMany({
+    where: and(
+      eq(milestones.orderId, order.id),
+      inArray(milestones.status, ESCROWED_MILESTONE_STATUSES)
+    ),
+  });
+
+  for (const milestone of held) {
+    await transitionMilestone(db, milestone.id, "disputed", { actorId, note });
+  }
+}
+
+/**
+ * Tell every admin about something that needs their attention on a dispute
+ */
+export async function notifyAdmins(
+  db: ReturnType<typeof createDb>,
+  input: { title: string; message: string; disputeId: string; type?: "dispute_opened" | "dispute_updated" }
+): Promise<void> {
+  const admins = await db.query.users.findMany({
+    where: eq(users.role, "admin"),
+    columns: { id: true },
+  });
+
+  for (const admin of admins) {
+    await notify(db, {
+      userId: admin.id,
+      type: input.type || "dispute_updated",
+      title: input.title,
+      message: input.message,
+      entityType: "dispute",
+      entityId: input.disputeId,
+    });
+  }
+}
+
+/**
+ * The status an order (or one of its milestones) had when it was last disputed
+ */
+async function getStatusBeforeDispute(
+  db: ReturnType<typeof createDb>,
+  orderId: string,
+  milestoneId: string | null
+): Promise<string | null> {
+  const event = await db.query.orderEvents.findFirst({
+    where: and(
+      eq(orderEvents.orderId, orderId),
+      milestoneId ? eq(orderEvents.milestoneId, milestoneId) : isNull(orderEvents.milestoneId),
+      eq(orderEvents.type, "status_change"),
+      eq(orderEvents.toStatus, "disputed")
+    ),
+    orderBy: [desc(orderEvents.createdAt)],
+  });
+
+  return event?.fromStatus ?? null;
+}
+
+/**
+ * Work resumes after a dispute closes without moving money - the order and its
+ * disputed milestones go back to the status they had before the dispute. Work
+ * that was delivered gets a fresh review window, since the buyer couldn't
+ * accept it while the dispute was open.
+ */
+export async function unfreezeEscrow(
+  db: ReturnType<typeof createDb>,
+  orderId: string,
+  actorId: string | null,
+  note: string
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const frozen = await db.query.milestones.findMany({
+    where: and(eq(milestones.orderId, orderId), eq(milestones.status, "disputed")),
+  });
+
+  for (const milestone of frozen) {
+    const previous = ((await getStatusBeforeDispute(db, orderId, milestone.id)) ?? "in_progress") as Milestone["status"];
+
+    await transitionMilestone(db, milestone.id, previous, {
+      actorId,
+      note,
+      from: ["disputed"],
+      set: previous === "delivered" ? { deliveredAt: now } : {},
+    });
+  }
+
+  const previous = ((await getStatusBeforeDispute(db, orderId, null)) ?? "in_progress") as Order["status"];
+
+  await transitionOrder(db, orderId, previous, {
+    actorId,
+    note,
+    from: ["disputed"],
+    set: previous === "delivered" ? { deliveredAt: now } : {},
+  });
+}
+
+/**
+ * Find an evidence file on a dispute or one of its messages by R2 key
+ */
+export async function findDisputeFile(
+  db: ReturnType<typeof createDb>,
+  dispute: Dispute,
+  key: string,
+  includeInternal: boolean
+): Promise<DisputeEvidence | undefined> {
+  const opening = parseEvidence(dispute.evidence).find((file) => file.key === key);
+  if (opening) return opening;
+
+  const messages = await db.query.disputeMessages.findMany({
+    where: eq(disputeMessages.disputeId, dispute.id),
+  });
+
+  for (const message of messages) {
+    if (message.isInternal && !includeInternal) continue;
+    const file = parseEvidence(message.attachments).find((f) => f.key === key);
+    if (file) return file;
+  }
+
+  return undefined;
+}
+
+export interface DisputeThreadMessage {
+  id: string;
+  senderId: string;
+  senderName: string | null;
+  message: string;
+  attachments: { name: string; url: string }[];
+  isFromAdmin: boolean;
+  isInternal: boolean;
+  createdAt: string;
+}
+
+/**
+ * A dispute's conversation, oldest first. Internal admin notes are left out unless asked for.
+ */
+export async function getDisputeThread(
+  db: ReturnType<typeof createDb>,
+  disputeId: string,
+  includeInternal: boolean
+): Promise<DisputeThreadMessage[]> {
+  const rows = await db
+    .select({ message: disputeMessages, senderName: users.name })
+    .from(disputeMessages)
+    .leftJoin(users, eq(disputeMessages.senderId, users.id))
+    .where(
+      includeInternal
+        ? eq(disputeMessages.disputeId, disputeId)
+        : and(eq(disputeMessages.disputeId, disputeId), eq(disputeMessages.isInternal, false))
+    )
+    .orderBy(asc(disputeMessages.createdAt));
+
+  return rows.map(({ message, senderName }) => ({
+    id: message.id,
+    senderId: message.senderId,
+    senderName,
+    message: message.message,
+    attachments: parseEvidence(message.attachments).map((file) => ({
+      name: file.name,
+      url: getEvidenceUrl(disputeId, file.key),
+    })),
+    isFromAdmin: message.isFromAdmin ?? false,
+    isInternal: message.isInternal ?? false,
+    createdAt: message.createdAt,
+  }));
+}
+
+/**
+ * Ask a party to reply within the dispute response window - returns the due date
+ */
+export async function requireResponse(
+  db: ReturnType<typeof createDb>,
+  dispute: Dispute,
+  partyId: string
+): Promise<string> {
+  const days = await getSetting(db, "dispute_response_days");
+  const now = new Date();
+  const dueAt = new Date(now.getTime() + days * DAY_MS).toISOString();
+
+  await db
+    .update(disputes)
+    .set({ responseRequiredFrom: partyId, responseDueAt: dueAt, updatedAt: now.toISOString() })
+    .where(eq(disputes.id, dispute.id));
+
+  return dueAt;
+}
+
+/**
+ * Scheduled pass over disputes with a response due - closes each one whose
+ * deadline has passed against the party who didn't reply
+ */
+export async function processDisputeDeadlines(
+  db: ReturnType<typeof createDb>
+): Promise<DisputeDeadlineResult> {
+  const result: DisputeDeadlineResult = { closed: 0, refunded: 0, escalated: 0 };
+  const now = new Date().toISOString();
+
+  const overdue = await db.query.disputes.findMany({
+    where: and(
+      inArray(disputes.status, ACTIVE_DISPUTE_STATUSES),
+      isNotNull(disputes.responseRequiredFrom),
+      lt(disputes.responseDueAt, now)
+    ),
+  });
+
+  for (const dispute of overdue) {
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, dispute.orderId),
+    });
+    if (!order) continue;
+
+    const buyerFailed = dispute.responseRequiredFrom === dispute.raisedById;
+    const dueDate = formatDate(dispute.responseDueAt || now);
+    const notes = buyerFailed
+      ? `Closed automatically - the buyer did not respond by ${dueDate}`
+      : `Refunded automatically - the seller did not respond by ${dueDate}`;
+
+    // Claim the dispute before any money moves, so an admin resolving it at the same time can't as well
+    const claimed = await db
+      .update(disputes)
+      .set({
+        status: buyerFailed ? "closed" : "resolved",
+        resolution: buyerFailed ? "no_action" : "refund_full",
+        resolutionNotes: notes,
+        responseRequiredFrom: null,
+        responseDueAt: null,
+        resolvedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(disputes.id, dispute.id), inArray(disputes.status, ACTIVE_DISPUTE_STATUSES)))
+      .returning({ id: disputes.id });
+
+    if (claimed.length === 0) continue;
+
+    try {
+      if (buyerFailed) {
+        await unfreezeEscrow(db, order.id, null, notes);
+      } else {
+        const refund = await refundOrder(db, { order, reason: notes });
+        if (!refund.success) {
+          throw new Error(refund.error || "Refund failed");
+        }
+      }
+    } catch (error) {
+      // Leave it for an admin rather than guess
+      console.error("Dispute auto-close error:", dispute.id, error);
+
+      await db
+        .update(disputes)
+        .set({
+          status: "escalated",
+          resolution: null,
+          resolutionNotes: null,
+          resolvedAt: null,
+          updatedAt: now,
+        })
+        .where(eq(disputes.id, dispute.id));
+
+      await notifyAdmins(db, {
+        title: "Dispute Escalated",
+        message: `Order ${order.orderNumber}: a response deadline passed but the dispute could not be closed automatically.`,
+        disputeId: dispute.id,
+      });
+
+      result.escalated++;
+      continue;
+    }
+
+    for (const userId of [dispute.raisedById, dispute.againstId]) {
+      await notify(db, {
+        userId,
+        type: "dispute_resolved",
+        title: buyerFailed ? "Dispute Closed" : "Dispute Resolved",
+        message: `${notes}.`,
+        entityType: "dispute",
+        entityId: dispute.id,
+        sendEmail: true,
+        emailData: {
+          orderNumber: order.orderNumber,
+          orderId: order.id,
+          resolution: notes,
+        },
+      });
+    }
+
+    if (buyerFailed) {
+      result.closed++;
+    } else {
+      result.refunded++;
+    }
+  }
+
+  return result;
+}
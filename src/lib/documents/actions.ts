@@ -0,0 +1,90 @@
+// Server actions for billing documents
+"use server";
+
+import { eq, and, desc, isNotNull } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { billingDocuments } from "@/lib/db/schema";
+import { getServerSession } from "@/lib/auth/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import type { DocumentData } from "./template";
+
+export interface DocumentSummary {
+  id: string;
+  type: "tax_invoice" | "receipt" | "earning_statement";
+  title: string; // As printed, e.g. "INVOICE" for a tax_invoice without VAT
+  number: string;
+  total: number; // In cents
+  issuedAt: string;
+  url: string;
+}
+
+function toSummary(doc: typeof billingDocuments.$inferSelect): DocumentSummary {
+  return {
+    id: doc.id,
+    type: doc.type,
+    title: (JSON.parse(doc.data) as DocumentData).title,
+    number: doc.number,
+    total: doc.total,
+    issuedAt: doc.issuedAt,
+    url: `/api/documents/${doc.id}`,
+  };
+}
+
+/**
+ * Get the current user's documents for an order
+ */
+export async function getOrderDocuments(orderId: string): Promise<DocumentSummary[]> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return [];
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const docs = await db.query.billingDocuments.findMany({
+      where: and(
+        eq(billingDocuments.orderId, orderId),
+        eq(billingDocuments.userId, session.userId)
+      ),
+      orderBy: [desc(billingDocuments.issuedAt)],
+    });
+
+    return docs.map(toSummary);
+  } catch (error) {
+    console.error("Get order documents error:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the current user's subscription invoices
+ */
+export async function getSubscriptionDocuments(): Promise<DocumentSummary[]> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return [];
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const docs = await db.query.billingDocuments.findMany({
+      where: and(
+        eq(billingDocuments.userId, session.userId),
+        isNotNull(billingDocuments.subscriptionId)
+      ),
+      orderBy: [desc(billingDocuments.issuedAt)],
+      limit: 24,
+    });
+
+    return docs.map(toSummary);
+  } catch (error) {
+    console.error("Get subscription documents error:", error);
+    return [];
+  }
+}
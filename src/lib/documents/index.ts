@@ -0,0 +1,367 @@
+// Billing documents
+// Issues tax invoices (platform fees and subscriptions), payment receipts and
+// seller earning statements. Each document gets the next number in its type's
+// sequence and a snapshot of its contents; the PDF is written to R2 straight
+// away when the bucket is reachable, otherwise on first download.
+//
+// Platform fees and subscriptions are VAT-inclusive at the standard rate. Without
+// PLATFORM_VAT_NUMBER the platform is treated as not VAT registered: invoices are
+// issued as plain invoices with no VAT breakdown.
+
+import { eq, and, sql } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createDb } from "@/lib/db";
+import { billingDocuments, documentSequences, users } from "@/lib/db/schema";
+import type { BillingDocument, Order, Transaction } from "@/lib/db/schema";
+import { renderDocumentPdf, type DocumentData, type DocumentParty } from "./template";
+import type { R2Bucket } from "@cloudflare/workers-types";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+export type DocumentType = BillingDocument["type"];
+
+export const DOCUMENT_CONFIG = {
+  vatRateBps: 1500, // 15% South African VAT
+
+  supplier: {
+    name: process.env.PLATFORM_LEGAL_NAME || "Zomieks (Pty) Ltd",
+    address: process.env.PLATFORM_ADDRESS || "Cape Town, South Africa",
+    registrationNumber: process.env.PLATFORM_REGISTRATION_NUMBER || "",
+    vatNumber: process.env.PLATFORM_VAT_NUMBER || "",
+  },
+
+  prefixes: {
+    tax_invoice: "INV",
+    receipt: "RCT",
+    earning_statement: "EST",
+  } satisfies Record<DocumentType, string>,
+
+  titles: {
+    tax_invoice: "TAX INVOICE",
+    receipt: "RECEIPT",
+    earning_statement: "EARNING STATEMENT",
+  } satisfies Record<DocumentType, string>,
+
+  // Title for a tax_invoice when the supplier has no VAT number
+  plainInvoiceTitle: "INVOICE",
+} as const;
+
+/**
+ * VAT contained in a VAT-inclusive amount, rounded half up to the cent
+ */
+export function vatFromInclusive(amount: number): number {
+  const rate = DOCUMENT_CONFIG.vatRateBps;
+  return Math.floor((amount * rate + (10000 + rate) / 2) / (10000 + rate));
+}
+
+function supplierParty(): DocumentParty {
+  const { supplier } = DOCUMENT_CONFIG;
+  return {
+    name: supplier.name,
+    lines: [
+      supplier.address,
+      ...(supplier.registrationNumber ? [`Reg No: ${supplier.registrationNumber}`] : []),
+    ],
+    vatNumber: supplier.vatNumber || undefined,
+  };
+}
+
+async function recipientParty(
+  db: ReturnType<typeof createDb>,
+  userId: string
+): Promise<DocumentParty> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+
+  return {
+    name: user?.name || user?.email || "Customer",
+    lines: user?.email ? [user.email] : [],
+  };
+}
+
+/**
+ * Take the next number in a document type's sequence (single atomic statement)
+ */
+async function nextDocumentNumber(
+  db: ReturnType<typeof createDb>,
+  type: DocumentType
+): Promise<string> {
+  const [sequence] = await db
+    .insert(documentSequences)
+    .values({ type, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: documentSequences.type,
+      set: { lastNumber: sql`${documentSequences.lastNumber} + 1` },
+    })
+    .returning();
+
+  return `${DOCUMENT_CONFIG.prefixes[type]}-${String(sequence.lastNumber).padStart(6, "0")}`;
+}
+
+async function getBucket(): Promise<R2Bucket | null> {
+  try {
+    const { env } = await getCloudflareContext({ async: true });
+    return env.FILES;
+  } catch {
+    // Outside a request (e.g. the cron worker) - the PDF is stored on first download
+    return null;
+  }
+}
+
+async function storePdf(
+  db: ReturnType<typeof createDb>,
+  bucket: R2Bucket,
+  document: BillingDocument
+): Promise<Uint8Array> {
+  const pdf = renderDocumentPdf(JSON.parse(document.data) as DocumentData);
+
+  await bucket.put(document.r2Key, pdf, {
+    httpMetadata: { contentType: "application/pdf" },
+  });
+
+  await db
+    .update(billingDocuments)
+    .set({ storedAt: new Date().toISOString() })
+    .where(eq(billingDocuments.id, document.id));
+
+  return pdf;
+}
+
+interface IssueDocumentInput {
+  type: DocumentType;
+  userId: string;
+  orderId?: string | null;
+  subscriptionId?: string | null;
+  transactionId?: string | null;
+  reference?: string;
+  lines: DocumentData["lines"];
+  total: number; // In cents
+  vatAmount?: number;
+  notes?: string[];
+}
+
+/**
+ * Number, record and store a document. Issuing is idempotent per
+ * transaction, type and recipient so webhook retries do not duplicate documents.
+ */
+export async function issueDocument(
+  db: ReturnType<typeof createDb>,
+  input: IssueDocumentInput
+): Promise<BillingDocument> {
+  if (input.transactionId) {
+    const existing = await db.query.billingDocuments.findFirst({
+      where: and(
+        eq(billingDocuments.transactionId, input.transactionId),
+        eq(billingDocuments.type, input.type),
+        eq(billingDocuments.userId, input.userId)
+      ),
+    });
+    if (existing) return existing;
+  }
+
+  const id = generateId();
+  const number = await nextDocumentNumber(db, input.type);
+  const issuedAt = new Date().toISOString();
+  // Only a VAT-registered supplier may issue a tax invoice or show VAT
+  const vatInvoice = input.type === "tax_invoice" && Boolean(DOCUMENT_CONFIG.supplier.vatNumber);
+  const plainInvoice = input.type === "tax_invoice" && !vatInvoice;
+  const vatAmount = plainInvoice ? 0 : input.vatAmount ?? 0;
+
+  const totals = vatInvoice
+      ? [
+          { label: "Total excl. VAT", amount: input.total - vatAmount },
+          { label: `VAT @ ${DOCUMENT_CONFIG.vatRateBps / 100}%`, amount: vatAmount },
+          { label: "Total incl. VAT", amount: input.total, bold: true },
+        ]
+      : plainInvoice
+        ? [{ label: "Total", amount: input.total, bold: true }]
+        : [{ label: input.type === "receipt" ? "Amount Paid" : "Net Earnings", amount: input.total, bold: true }];
+
+  const data: DocumentData = {
+    title: plainInvoice ? DOCUMENT_CONFIG.plainInvoiceTitle : DOCUMENT_CONFIG.titles[input.type],
+    number,
+    issuedAt,
+    supplier: supplierParty(),
+    recipient: await recipientParty(db, input.userId),
+    reference: input.reference,
+    lines: input.lines,
+    totals,
+    notes: input.notes,
+  };
+
+  const document: BillingDocument = {
+    id,
+    type: input.type,
+    number,
+    userId: input.userId,
+    orderId: input.orderId || null,
+    subscriptionId: input.subscriptionId || null,
+    transactionId: input.transactionId || null,
+    total: input.total,
+    vatAmount,
+    data: JSON.stringify(data),
+    r2Key: `documents/${input.userId}/${number}.pdf`,
+    storedAt: null,
+    issuedAt,
+  };
+
+  await db.insert(billingDocuments).values(document);
+
+  const bucket = await getBucket();
+  if (bucket) {
+    try {
+      await storePdf(db, bucket, document);
+    } catch (error) {
+      console.error("Store document PDF error:", error);
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Get a document's PDF from R2, rendering and storing it if it is not there yet
+ */
+export async function getDocumentPdf(
+  db: ReturnType<typeof createDb>,
+  bucket: R2Bucket,
+  document: BillingDocument
+): Promise<Uint8Array> {
+  const object = await bucket.get(document.r2Key);
+  if (object) {
+    return new Uint8Array(await object.arrayBuffer());
+  }
+
+  return storePdf(db, bucket, document);
+}
+
+/**
+ * Receipt for an order payment, plus a tax invoice for the buyer fee
+ */
+export async function issueOrderPaymentDocuments(
+  db: ReturnType<typeof createDb>,
+  data: { order: Order; transaction: Transaction; description: string }
+): Promise<void> {
+  const { order, transaction } = data;
+  const reference = `Order ${order.orderNumber}`;
+
+  // Milestone payments carry no buyer fee
+  const buyerFee = transaction.milestoneId ? 0 : order.buyerFee;
+
+  try {
+    await issueDocument(db, {
+      type: "receipt",
+      userId: order.buyerId,
+      orderId: order.id,
+      transactionId: transaction.id,
+      reference,
+      lines: [
+        { description: data.description, amount: transaction.amount - buyerFee },
+        ...(buyerFee > 0 ? [{ description: "Buyer service fee", amount: buyerFee }] : []),
+      ],
+      total: transaction.amount,
+      notes: [
+        `Payment reference ${transaction.providerReference || transaction.id}.`,
+        "Funds are held in escrow until the work is accepted.",
+      ],
+    });
+
+    if (buyerFee > 0) {
+      await issueDocument(db, {
+        type: "tax_invoice",
+        userId: order.buyerId,
+        orderId: order.id,
+        transactionId: transaction.id,
+        reference,
+        lines: [{ description: `Buyer service fee - ${reference}`, amount: buyerFee }],
+        total: buyerFee,
+        vatAmount: vatFromInclusive(buyerFee),
+        notes: ["This invoice covers the platform service fee only."],
+      });
+    }
+  } catch (error) {
+    console.error("Issue payment documents error:", error);
+  }
+}
+
+/**
+ * Earning statement for released escrow, plus a tax invoice for the seller fee
+ */
+export async function issueEarningDocuments(
+  db: ReturnType<typeof createDb>,
+  data: {
+    order: Order;
+    transactionId: string;
+    description: string;
+    amount: number; // Gross released, in cents
+    sellerFee: number;
+  }
+): Promise<void> {
+  const { order } = data;
+  const reference = `Order ${order.orderNumber}`;
+
+  try {
+    await issueDocument(db, {
+      type: "earning_statement",
+      userId: order.sellerId,
+      orderId: order.id,
+      transactionId: data.transactionId,
+      reference,
+      lines: [
+        { description: data.description, amount: data.amount },
+        { description: "Less: platform service fee", amount: -data.sellerFee },
+      ],
+      total: data.amount - data.sellerFee,
+      notes: ["Earnings become available for payout after the clearance period."],
+    });
+
+    if (data.sellerFee > 0) {
+      await issueDocument(db, {
+        type: "tax_invoice",
+        userId: order.sellerId,
+        orderId: order.id,
+        transactionId: data.transactionId,
+        reference,
+        lines: [{ description: `Seller service fee - ${reference}`, amount: data.sellerFee }],
+        total: data.sellerFee,
+        vatAmount: vatFromInclusive(data.sellerFee),
+        notes: ["The fee was deducted from your earnings on this order."],
+      });
+    }
+  } catch (error) {
+    console.error("Issue earning documents error:", error);
+  }
+}
+
+/**
+ * Tax invoice for a subscription payment
+ */
+export async function issueSubscriptionInvoice(
+  db: ReturnType<typeof createDb>,
+  data: { transaction: Transaction; subscriptionId: string; plan: "monthly" | "annual" }
+): Promise<void> {
+  const { transaction } = data;
+
+  try {
+    await issueDocument(db, {
+      type: "tax_invoice",
+      userId: transaction.userId,
+      subscriptionId: data.subscriptionId,
+      transactionId: transaction.id,
+      reference: `Payment ${transaction.providerReference || transaction.id}`,
+      lines: [
+        {
+          description: `Zomieks Pro ${data.plan === "annual" ? "Annual" : "Monthly"} Subscription`,
+          amount: transaction.amount,
+        },
+      ],
+      total: transaction.amount,
+      vatAmount: vatFromInclusive(transaction.amount),
+    });
+  } catch (error) {
+    console.error("Issue subscription invoice error:", error);
+  }
+}
@@ -0,0 +1,122 @@
+// Minimal PDF writer
+// Text and rules only, using the built-in Helvetica fonts, so documents can be
+// rendered inside a Worker without a PDF library. Coordinates are PDF points
+// with the origin at the bottom left of an A4 page.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right";
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules: PdfRule[];
+}
+
+// Helvetica advance widths (1/1000 em) for characters that commonly appear in
+// amounts and references - everything else uses the average width
+const HELVETICA_WIDTHS: Record<string, number> = {
+  " ": 278, ",": 278, ".": 278, "-": 333, ":": 278, "/": 278, "(": 333, ")": 333, "%": 889,
+  "0": 556, "1": 556, "2": 556, "3": 556, "4": 556, "5": 556, "6": 556, "7": 556, "8": 556, "9": 556,
+  R: 722, I: 278, N: 722, V: 667, T: 611, C: 722, Z: 611, O: 778, M: 833, E: 667, S: 667,
+};
+
+/**
+ * Approximate rendered width of a string in points
+ */
+export function textWidth(text: string, size: number, bold = false): number {
+  const units = Array.from(text).reduce((sum, ch) => sum + (HELVETICA_WIDTHS[ch] ?? 556), 0);
+  return (units * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+// Keep to single-byte WinAnsi characters and escape PDF string delimiters
+function encodeText(text: string): string {
+  return Array.from(text)
+    .map((ch) => (ch.charCodeAt(0) > 255 ? "?" : ch))
+    .join("")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+function renderPageContent(page: PdfPage): string {
+  const ops: string[] = [];
+
+  for (const rule of page.rules) {
+    ops.push(`${rule.width ?? 0.5} w ${rule.x1} ${rule.y1} m ${rule.x2} ${rule.y2} l S`);
+  }
+
+  for (const t of page.texts) {
+    const size = t.size ?? 10;
+    const x = t.align === "right" ? t.x - textWidth(t.text, size, t.bold) : t.x;
+    ops.push(
+      `BT /${t.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${t.y.toFixed(2)} Td (${encodeText(t.text)}) Tj ET`
+    );
+  }
+
+  return ops.join("\n");
+}
+
+/**
+ * Render pages to PDF bytes
+ */
+export function renderPdf(pages: PdfPage[]): Uint8Array {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page + content stream per page
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((page, index) => {
+    const pageId = 5 + index * 2;
+    const contentId = pageId + 1;
+    const content = renderPageContent(page);
+
+    pageIds.push(pageId);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
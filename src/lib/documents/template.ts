@@ -0,0 +1,169 @@
+// Document layout - turns a document snapshot into PDF pages
+import { renderPdf, PAGE_HEIGHT, PAGE_WIDTH, type PdfPage } from "./pdf";
+
+export interface DocumentParty {
+  name: string;
+  lines: string[]; // Address, email, registration etc.
+  vatNumber?: string;
+}
+
+export interface DocumentLine {
+  description: string;
+  amount: number; // In cents
+}
+
+export interface DocumentTotal {
+  label: string;
+  amount: number; // In cents
+  bold?: boolean;
+}
+
+export interface DocumentData {
+  title: string;
+  number: string;
+  issuedAt: string;
+  supplier: DocumentParty;
+  recipient: DocumentParty;
+  reference?: string;
+  lines: DocumentLine[];
+  totals: DocumentTotal[];
+  notes?: string[];
+}
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const LINE_HEIGHT = 16;
+
+function formatAmount(cents: number): string {
+  const sign = cents < 0 ? "-" : "";
+  const rands = Math.abs(cents) / 100;
+  const [whole, fraction] = rands.toFixed(2).split(".");
+  return `${sign}R ${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}.${fraction}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-ZA", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function newPage(): PdfPage {
+  return { texts: [], rules: [] };
+}
+
+/**
+ * Render a document snapshot to PDF bytes
+ */
+export function renderDocumentPdf(data: DocumentData): Uint8Array {
+  const pages: PdfPage[] = [newPage()];
+  let page = pages[0];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (y - needed < MARGIN + 40) {
+      page = newPage();
+      pages.push(page);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  // Header - supplier on the left, document title on the right
+  page.texts.push({ x: MARGIN, y, text: data.supplier.name, size: 16, bold: true });
+  page.texts.push({ x: RIGHT, y, text: data.title, size: 16, bold: true, align: "right" });
+  y -= 20;
+
+  const supplierLines = [
+    ...data.supplier.lines,
+    ...(data.supplier.vatNumber ? [`VAT No: ${data.supplier.vatNumber}`] : []),
+  ];
+  const metaLines = [
+    `No: ${data.number}`,
+    `Date: ${formatDate(data.issuedAt)}`,
+    ...(data.reference ? [data.reference] : []),
+  ];
+
+  for (let i = 0; i < Math.max(supplierLines.length, metaLines.length); i++) {
+    if (supplierLines[i]) page.texts.push({ x: MARGIN, y, text: supplierLines[i], size: 9 });
+    if (metaLines[i]) page.texts.push({ x: RIGHT, y, text: metaLines[i], size: 9, align: "right" });
+    y -= 13;
+  }
+
+  // Recipient
+  y -= 15;
+  page.texts.push({ x: MARGIN, y, text: "To:", size: 9, bold: true });
+  y -= 14;
+  page.texts.push({ x: MARGIN, y, text: data.recipient.name, size: 10, bold: true });
+  y -= 13;
+  for (const line of [
+    ...data.recipient.lines,
+    ...(data.recipient.vatNumber ? [`VAT No: ${data.recipient.vatNumber}`] : []),
+  ]) {
+    page.texts.push({ x: MARGIN, y, text: line, size: 9 });
+    y -= 13;
+  }
+
+  // Line items
+  y -= 20;
+  page.texts.push({ x: MARGIN, y, text: "Description", size: 10, bold: true });
+  page.texts.push({ x: RIGHT, y, text: "Amount", size: 10, bold: true, align: "right" });
+  y -= 6;
+  page.rules.push({ x1: MARGIN, y1: y, x2: RIGHT, y2: y });
+  y -= LINE_HEIGHT;
+
+  for (const line of data.lines) {
+    ensureSpace(LINE_HEIGHT);
+    page.texts.push({ x: MARGIN, y, text: line.description, size: 10 });
+    page.texts.push({ x: RIGHT, y, text: formatAmount(line.amount), size: 10, align: "right" });
+    y -= LINE_HEIGHT;
+  }
+
+  // Totals
+  ensureSpace(data.totals.length * LINE_HEIGHT + 10);
+  y += 6;
+  page.rules.push({ x1: PAGE_WIDTH / 2, y1: y, x2: RIGHT, y2: y });
+  y -= LINE_HEIGHT;
+
+  for (const total of data.totals) {
+    page.texts.push({ x: PAGE_WIDTH / 2, y, text: total.label, size: 10, bold: total.bold });
+    page.texts.push({
+      x: RIGHT,
+      y,
+      text: formatAmount(total.amount),
+      size: 10,
+      bold: total.bold,
+      align: "right",
+    });
+    y -= LINE_HEIGHT;
+  }
+
+  // Notes
+  if (data.notes?.length) {
+    y -= 20;
+    for (const note of data.notes) {
+      ensureSpace(13);
+      page.texts.push({ x: MARGIN, y, text: note, size: 8 });
+      y -= 13;
+    }
+  }
+
+  // Footer on every page
+  pages.forEach((p, index) => {
+    p.texts.push({
+      x: MARGIN,
+      y: MARGIN - 20,
+      text: `${data.title} ${data.number}`,
+      size: 8,
+    });
+    p.texts.push({
+      x: RIGHT,
+      y: MARGIN - 20,
+      text: `Page ${index + 1} of ${pages.length}`,
+      size: 8,
+      align: "right",
+    });
+  });
+
+  return renderPdf(pages);
+}
@@ -13,20 +13,37 @@ export type EmailTemplate =
   | "email_verification"
   | "password_reset"
   | "order_created"
+  | "requirements_needed"
+  | "requirements_submitted"
   | "order_paid"
   | "order_delivered"
+  | "delivery_review_reminder"
+  | "order_late"
+  | "deadline_extension_requested"
+  | "deadline_extension_responded"
+  | "revision_requested"
+  | "change_order_proposed"
+  | "change_order_responded"
   | "order_completed"
   | "milestone_funded"
   | "milestone_released"
   | "new_message"
+  | "custom_offer_received"
+  | "custom_offer_responded"
   | "new_bid"
   | "bid_accepted"
+  | "project_expired"
   | "dispute_opened"
   | "dispute_resolved"
+  | "dispute_message"
+  | "dispute_updated"
   | "verification_approved"
   | "verification_rejected"
   | "subscription_activated"
-  | "subscription_expiring";
+  | "subscription_expiring"
+  | "subscription_renewed"
+  | "subscription_payment_failed"
+  | "subscription_expired";
 
 export interface EmailRecipient {
   email: string;
@@ -314,6 +331,44 @@ Order: ${d("orderNumber")}
 Service: ${d("serviceTitle")}
 Amount: R${d("amount")}
 
+View order: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
+    requirements_needed: {
+      subject: `Tell the seller what you need: ${d("orderNumber")}`,
+      html: `
+        <h1>Your Order Is Paid</h1>
+        <p>Hi ${d("name")},</p>
+        <p>Your payment for order <strong>${d("orderNumber")}</strong> went through. Before the seller can start, please answer their questions about what you need.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">Submit Requirements</a>
+        </p>
+      `,
+      text: `Your Order Is Paid
+
+Hi ${d("name")},
+
+Your payment for order ${d("orderNumber")} went through. Before the seller can start, please answer their questions about what you need.
+
+Submit requirements: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
+    requirements_submitted: {
+      subject: `Requirements submitted: ${d("orderNumber")}`,
+      html: `
+        <h1>Requirements Submitted</h1>
+        <p>Hi ${d("name")},</p>
+        <p>The buyer submitted the requirements for order <strong>${d("orderNumber")}</strong>. The order is now in progress.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">View Order</a>
+        </p>
+      `,
+      text: `Requirements Submitted
+
+Hi ${d("name")},
+
+The buyer submitted the requirements for order ${d("orderNumber")}. The order is now in progress.
+
 View order: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
     },
 
@@ -367,6 +422,164 @@ Milestone: ${d("milestoneTitle")}
 Review: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
     },
 
+    delivery_review_reminder: {
+      subject: `Reminder: review your delivery for ${d("orderNumber")}`,
+      html: `
+        <h1>Your Delivery Is Waiting</h1>
+        <p>Hi ${d("name")},</p>
+        <p>You haven't reviewed the delivery for order <strong>${d("orderNumber")}</strong> yet.</p>
+        <div style="background: #fffbeb; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #fde68a;">
+          <p>If you don't respond, the delivery will be accepted automatically on <strong>${d("autoCompleteDate")}</strong> and payment released to the seller.</p>
+        </div>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">Review Delivery</a>
+        </p>
+      `,
+      text: `Your Delivery Is Waiting
+
+Hi ${d("name")},
+
+You haven't reviewed the delivery for order ${d("orderNumber")} yet.
+If you don't respond, it will be accepted automatically on ${d("autoCompleteDate")} and payment released to the seller.
+
+Review: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
+    order_late: {
+      subject: `Order ${d("orderNumber")} is past its deadline`,
+      html: `
+        <h1>Delivery Deadline Missed</h1>
+        <p>Hi ${d("name")},</p>
+        <p>Order <strong>${d("orderNumber")}</strong> was due on <strong>${d("deadline")}</strong> and hasn't been delivered yet.</p>
+        <p>${d("nextStep")}</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">View Order</a>
+        </p>
+      `,
+      text: `Delivery Deadline Missed
+
+Hi ${d("name")},
+
+Order ${d("orderNumber")} was due on ${d("deadline")} and hasn't been delivered yet.
+${d("nextStep")}
+
+View order: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
+    deadline_extension_requested: {
+      subject: `The seller has asked for more time on ${d("orderNumber")}`,
+      html: `
+        <h1>Extension Requested</h1>
+        <p>Hi ${d("name")},</p>
+        <p>The seller on order <strong>${d("orderNumber")}</strong> has asked to move the deadline to <strong>${d("requestedDeadline")}</strong>.</p>
+        <div style="background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p>${d("reason")}</p>
+        </div>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">Accept or Decline</a>
+        </p>
+      `,
+      text: `Extension Requested
+
+Hi ${d("name")},
+
+The seller on order ${d("orderNumber")} has asked to move the deadline to ${d("requestedDeadline")}.
+
+Reason: ${d("reason")}
+
+Respond: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
+    deadline_extension_responded: {
+      subject: `Your extension request on ${d("orderNumber")}`,
+      html: `
+        <h1>Extension Request Answered</h1>
+        <p>Hi ${d("name")},</p>
+        <p>Your extension request on order <strong>${d("orderNumber")}</strong> was ${d("outcome")}.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">View Order</a>
+        </p>
+      `,
+      text: `Extension Request Answered
+
+Hi ${d("name")},
+
+Your extension request on order ${d("orderNumber")} was ${d("outcome")}.
+
+View order: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
+    revision_requested: {
+      subject: `Revision requested: ${d("orderNumber")}`,
+      html: `
+        <h1>Revision Requested</h1>
+        <p>Hi ${d("name")},</p>
+        <p>The buyer on order <strong>${d("orderNumber")}</strong> asked for changes to ${d("subject")}.</p>
+        <p>Reason: ${d("reason")}</p>
+        <p>Revisions left after this one: ${d("revisionsLeft")}</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">View Order</a>
+        </p>
+      `,
+      text: `Revision Requested
+
+Hi ${d("name")},
+
+The buyer on order ${d("orderNumber")} asked for changes to ${d("subject")}.
+
+Reason: ${d("reason")}
+Revisions left after this one: ${d("revisionsLeft")}
+
+View order: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
+    change_order_proposed: {
+      subject: `Change order proposed: ${d("orderNumber")}`,
+      html: `
+        <h1>Change Order Proposed</h1>
+        <p>Hi ${d("name")},</p>
+        <p>${d("proposerName")} has proposed changes to the milestones on order <strong>${d("orderNumber")}</strong>:</p>
+        <p style="white-space: pre-line;">${d("summary")}</p>
+        <p>Reason: ${d("reason")}</p>
+        <p>The order subtotal would change from ${d("previousSubtotal")} to ${d("proposedSubtotal")}.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">Review Changes</a>
+        </p>
+      `,
+      text: `Change Order Proposed
+
+Hi ${d("name")},
+
+${d("proposerName")} has proposed changes to the milestones on order ${d("orderNumber")}:
+
+${d("summary")}
+
+Reason: ${d("reason")}
+
+The order subtotal would change from ${d("previousSubtotal")} to ${d("proposedSubtotal")}.
+
+Review changes: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
+    change_order_responded: {
+      subject: `Your change order on ${d("orderNumber")}`,
+      html: `
+        <h1>Change Order Answered</h1>
+        <p>Hi ${d("name")},</p>
+        <p>Your change order on order <strong>${d("orderNumber")}</strong> was ${d("outcome")}.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}" class="button">View Order</a>
+        </p>
+      `,
+      text: `Change Order Answered
+
+Hi ${d("name")},
+
+Your change order on order ${d("orderNumber")} was ${d("outcome")}.
+
+View order: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
+    },
+
     order_completed: {
       subject: `Order completed: ${d("orderNumber")} ✨`,
       html: `
@@ -467,6 +680,52 @@ New message from ${d("senderName")}:
 Reply at: ${EMAIL_CONFIG.baseUrl}/dashboard/messages/${d("conversationId")}`,
     },
 
+    custom_offer_received: {
+      subject: `Custom offer from ${d("senderName")}`,
+      html: `
+        <h1>You Have a Custom Offer</h1>
+        <p>Hi ${d("name")},</p>
+        <p><span class="highlight">${d("senderName")}</span> sent you a custom offer:</p>
+        <div style="background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p><strong>${d("offerTitle")}</strong></p>
+          <p class="amount">${d("amount")}</p>
+          <p>Delivery in ${d("deliveryDays")} days</p>
+        </div>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/messages/${d("conversationId")}" class="button">View Offer</a>
+        </p>
+      `,
+      text: `You Have a Custom Offer
+
+Hi ${d("name")},
+
+${d("senderName")} sent you a custom offer:
+${d("offerTitle")}
+Price: ${d("amount")}
+Delivery in ${d("deliveryDays")} days
+
+View offer: ${EMAIL_CONFIG.baseUrl}/dashboard/messages/${d("conversationId")}`,
+    },
+
+    custom_offer_responded: {
+      subject: `Your offer was ${d("outcome")}`,
+      html: `
+        <h1>Offer ${d("outcome")}</h1>
+        <p>Hi ${d("name")},</p>
+        <p>Your custom offer <strong>${d("offerTitle")}</strong> was ${d("outcome")}.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}${d("link")}" class="button">View</a>
+        </p>
+      `,
+      text: `Offer ${d("outcome")}
+
+Hi ${d("name")},
+
+Your custom offer ${d("offerTitle")} was ${d("outcome")}.
+
+View: ${EMAIL_CONFIG.baseUrl}${d("link")}`,
+    },
+
     new_bid: {
       subject: `New bid on your project: ${d("projectTitle")}`,
       html: `
@@ -520,6 +779,30 @@ Amount: R${d("bidAmount")}
 View order: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
     },
 
+    project_expired: {
+      subject: `Your project has expired: ${d("projectTitle")}`,
+      html: `
+        <h1>Project Expired ⌛</h1>
+        <p>Hi ${d("name")},</p>
+        <p>Your project <strong>${d("projectTitle")}</strong> has reached the end of its listing period and is no longer taking bids.</p>
+        <p>Bids closed: ${d("bidCount")}</p>
+        <p>Still need it done? Extend the project to reopen bidding, or re-post it as a new listing.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/projects" class="button">Manage Projects</a>
+        </p>
+      `,
+      text: `Project Expired
+
+Hi ${d("name")},
+
+Your project "${d("projectTitle")}" has reached the end of its listing period and is no longer taking bids.
+Bids closed: ${d("bidCount")}
+
+Still need it done? Extend the project to reopen bidding, or re-post it as a new listing.
+
+Manage projects: ${EMAIL_CONFIG.baseUrl}/dashboard/projects`,
+    },
+
     dispute_opened: {
       subject: `Dispute opened: ${d("orderNumber")}`,
       html: `
@@ -567,6 +850,48 @@ Resolution: ${d("resolution")}
 View order: ${EMAIL_CONFIG.baseUrl}/dashboard/orders/${d("orderId")}`,
     },
 
+    dispute_message: {
+      subject: `New message on your dispute: ${d("orderNumber")}`,
+      html: `
+        <h1>New Dispute Message</h1>
+        <p>Hi ${d("name")},</p>
+        <p>${d("senderName")} replied to the dispute on order <strong>${d("orderNumber")}</strong>.</p>
+        <p>${d("responseNote")}</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/disputes/${d("disputeId")}" class="button">View Dispute</a>
+        </p>
+      `,
+      text: `New Dispute Message
+
+Hi ${d("name")},
+
+${d("senderName")} replied to the dispute on order ${d("orderNumber")}.
+${d("responseNote")}
+
+View dispute: ${EMAIL_CONFIG.baseUrl}/dashboard/disputes/${d("disputeId")}`,
+    },
+
+    dispute_updated: {
+      subject: `Dispute update: ${d("orderNumber")}`,
+      html: `
+        <h1>Dispute Update</h1>
+        <p>Hi ${d("name")},</p>
+        <p>${d("update")}</p>
+        <p>${d("responseNote")}</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/disputes/${d("disputeId")}" class="button">View Dispute</a>
+        </p>
+      `,
+      text: `Dispute Update
+
+Hi ${d("name")},
+
+${d("update")}
+${d("responseNote")}
+
+View dispute: ${EMAIL_CONFIG.baseUrl}/dashboard/disputes/${d("disputeId")}`,
+    },
+
     verification_approved: {
       subject: "ID Verification Approved ✅",
       html: `
@@ -661,5 +986,69 @@ Your subscription expires on ${d("expiryDate")}.
 
 Renew: ${EMAIL_CONFIG.baseUrl}/dashboard/subscription`,
     },
+
+    subscription_renewed: {
+      subject: "Your Zomieks Pro subscription has renewed",
+      html: `
+        <h1>Subscription Renewed</h1>
+        <p>Hi ${d("name")},</p>
+        <p>We've received your payment of <strong>${d("amount")}</strong> for Zomieks Pro ${d("planName")}.</p>
+        <p>Your subscription now runs until <strong>${d("periodEnd")}</strong>. Your tax invoice is available on your subscription page.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/subscription" class="button">View Subscription</a>
+        </p>
+      `,
+      text: `Subscription Renewed
+
+Hi ${d("name")},
+
+We've received your payment of ${d("amount")} for Zomieks Pro ${d("planName")}.
+Your subscription now runs until ${d("periodEnd")}.
+
+View subscription: ${EMAIL_CONFIG.baseUrl}/dashboard/subscription`,
+    },
+
+    subscription_payment_failed: {
+      subject: "Action needed: your subscription payment failed",
+      html: `
+        <h1>Payment Failed</h1>
+        <p>Hi ${d("name")},</p>
+        <p>We couldn't collect the renewal payment for your Zomieks Pro ${d("planName")} subscription.</p>
+        <div style="background: #fef2f2; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #fecaca;">
+          <p>Please update your card before <strong>${d("graceEnds")}</strong> to keep your Pro features.</p>
+        </div>
+        <p style="text-align: center;">
+          <a href="${d("updateUrl")}" class="button">Update Payment Details</a>
+        </p>
+      `,
+      text: `Payment Failed
+
+Hi ${d("name")},
+
+We couldn't collect the renewal payment for your Zomieks Pro ${d("planName")} subscription.
+Please update your card before ${d("graceEnds")} to keep your Pro features.
+
+Update payment details: ${d("updateUrl")}`,
+    },
+
+    subscription_expired: {
+      subject: "Your Zomieks Pro subscription has ended",
+      html: `
+        <h1>Subscription Ended</h1>
+        <p>Hi ${d("name")},</p>
+        <p>Your Zomieks Pro ${d("planName")} subscription has ended and your account is back on the free plan.</p>
+        <p>You can subscribe again at any time to get unlimited bids, services and outsourcing back.</p>
+        <p style="text-align: center;">
+          <a href="${EMAIL_CONFIG.baseUrl}/dashboard/subscription" class="button">Subscribe Again</a>
+        </p>
+      `,
+      text: `Subscription Ended
+
+Hi ${d("name")},
+
+Your Zomieks Pro ${d("planName")} subscription has ended and your account is back on the free plan.
+
+Subscribe again: ${EMAIL_CONFIG.baseUrl}/dashboard/subscription`,
+    },
   };
 }
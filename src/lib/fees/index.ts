@@ -0,0 +1,258 @@
+// Fee engine
+// All fees are worked out in integer cents from the fee schedule stored in
+// platform_settings. Rates are basis points (100 bps = 1%).
+//
+// Rounding rules:
+// - A fee is amount * bps / 10000 rounded half up to the nearest cent
+// - The minimum fee then applies, but a fee never exceeds the amount it is charged on
+// - Rates resolve default -> category override -> subscription plan override,
+//   with the buyer's plan setting the buyer fee and the seller's plan the seller fee
+
+import { eq, and } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { platformSettings, subscriptions } from "@/lib/db/schema";
+import type { Order } from "@/lib/db/schema";
+
+export const FEE_SCHEDULE_KEY = "fee_schedule";
+
+export type FeePlan = "monthly" | "annual";
+
+export interface FeeRates {
+  buyerFeeBps: number;
+  sellerFeeBps: number;
+  minBuyerFee: number; // In cents
+  minSellerFee: number; // In cents
+}
+
+export interface FeeSchedule extends FeeRates {
+  version: number;
+  categoryOverrides: Record<string, Partial<FeeRates>>; // Keyed by category ID
+  planOverrides: Partial<Record<FeePlan, Partial<FeeRates>>>;
+}
+
+export interface FeeBreakdown {
+  buyerFee: number;
+  sellerFee: number;
+  buyerTotal: number; // subtotal + buyerFee
+  sellerReceives: number; // subtotal - sellerFee
+}
+
+export interface OrderFees extends FeeBreakdown {
+  scheduleVersion: number;
+  rates: FeeRates;
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  version: 1,
+  buyerFeeBps: 300, // 3%
+  sellerFeeBps: 800, // 8%
+  minBuyerFee: 0,
+  minSellerFee: 0,
+  categoryOverrides: {},
+  planOverrides: {},
+};
+
+/**
+ * Fee on an amount in cents, rounded half up and floored at the minimum
+ */
+export function calculateFeeAmount(amount: number, bps: number, minimum = 0): number {
+  if (amount <= 0) return 0;
+  const fee = Math.floor((amount * bps + 5000) / 10000);
+  return Math.min(Math.max(fee, minimum), amount);
+}
+
+/**
+ * Buyer and seller fees on a subtotal in cents
+ */
+export function calculateFees(subtotal: number, rates: FeeRates): FeeBreakdown {
+  const buyerFee = calculateFeeAmount(subtotal, rates.buyerFeeBps, rates.minBuyerFee);
+  const sellerFee = calculateFeeAmount(subtotal, rates.sellerFeeBps, rates.minSellerFee);
+
+  return {
+    buyerFee,
+    sellerFee,
+    buyerTotal: subtotal + buyerFee,
+    sellerReceives: subtotal - sellerFee,
+  };
+}
+
+/**
+ * Share of an order's seller fee owed on part of its subtotal (e.g. one milestone)
+ * The release that completes the subtotal takes whatever fee is left, so rounding
+ * each share never adds up to more or less than order.sellerFee.
+ */
+export function allocateSellerFee(
+  order: Order,
+  amount: number,
+  released: { amount: number; sellerFee: number } = { amount: 0, sellerFee: 0 }
+): number {
+  if (order.subtotal <= 0 || released.amount + amount >= order.subtotal) {
+    return Math.min(Math.max(order.sellerFee - released.sellerFee, 0), amount);
+  }
+  return Math.floor((order.sellerFee * amount + Math.floor(order.subtotal / 2)) / order.subtotal);
+}
+
+/**
+ * Check a schedule is usable - returns an error message or null
+ */
+export function validateFeeSchedule(schedule: Omit<FeeSchedule, "version">): string | null {
+  const check = (rates: Partial<FeeRates>, label: string): string | null => {
+    for (const key of ["buyerFeeBps", "sellerFeeBps"] as const) {
+      const value = rates[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > 5000)) {
+        return `${label}: fee rates must be between 0% and 50%`;
+      }
+    }
+    for (const key of ["minBuyerFee", "minSellerFee"] as const) {
+      const value = rates[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return `${label}: minimum fees must be whole cents`;
+      }
+    }
+    return null;
+  };
+
+  const errors = [
+    check(schedule, "Default"),
+    ...Object.entries(schedule.categoryOverrides).map(([id, rates]) => check(rates, `Category ${id}`)),
+    ...Object.entries(schedule.planOverrides).map(([plan, rates]) => check(rates || {}, `Plan ${plan}`)),
+  ];
+
+  return errors.find((e) => e !== null) || null;
+}
+
+/**
+ * Load the current fee schedule, falling back to the defaults
+ */
+export async function getFeeSchedule(db: ReturnType<typeof createDb>): Promise<FeeSchedule> {
+  const setting = await db.query.platformSettings.findFirst({
+    where: eq(platformSettings.key, FEE_SCHEDULE_KEY),
+  });
+
+  if (!setting) {
+    return DEFAULT_FEE_SCHEDULE;
+  }
+
+  try {
+    return { ...DEFAULT_FEE_SCHEDULE, ...(JSON.parse(setting.value) as Partial<FeeSchedule>) };
+  } catch {
+    console.error("Invalid fee schedule in platform settings, using defaults");
+    return DEFAULT_FEE_SCHEDULE;
+  }
+}
+
+/**
+ * Save a new fee schedule as the next version
+ */
+export async function saveFeeSchedule(
+  db: ReturnType<typeof createDb>,
+  schedule: Omit<FeeSchedule, "version">,
+  updatedBy: string
+): Promise<FeeSchedule> {
+  const current = await getFeeSchedule(db);
+  const next: FeeSchedule = { ...schedule, version: current.version + 1 };
+  const now = new Date().toISOString();
+
+  await db
+    .insert(platformSettings)
+    .values({
+      key: FEE_SCHEDULE_KEY,
+      value: JSON.stringify(next),
+      description: "Platform fee rates, minimums and overrides",
+      updatedBy,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: platformSettings.key,
+      set: { value: JSON.stringify(next), updatedBy, updatedAt: now },
+    });
+
+  return next;
+}
+
+async function getActivePlan(
+  db: ReturnType<typeof createDb>,
+  userId: string
+): Promise<FeePlan | null> {
+  const subscription = await db.query.subscriptions.findFirst({
+    where: and(eq(subscriptions.userId, userId), eq(subscriptions.status, "active")),
+  });
+
+  if (!subscription || subscription.plan === "free") return null;
+  if (new Date(subscription.currentPeriodEnd) < new Date()) return null;
+  return subscription.plan;
+}
+
+/**
+ * Work out the rates that apply to an order between a buyer and seller
+ */
+export async function resolveFeeRates(
+  db: ReturnType<typeof createDb>,
+  schedule: FeeSchedule,
+  context: { categoryId?: string | null; buyerId: string; sellerId: string }
+): Promise<FeeRates> {
+  const category = context.categoryId ? schedule.categoryOverrides[context.categoryId] : undefined;
+
+  const [buyerPlan, sellerPlan] = await Promise.all([
+    getActivePlan(db, context.buyerId),
+    getActivePlan(db, context.sellerId),
+  ]);
+
+  const buyerOverride = buyerPlan ? schedule.planOverrides[buyerPlan] : undefined;
+  const sellerOverride = sellerPlan ? schedule.planOverrides[sellerPlan] : undefined;
+
+  return {
+    buyerFeeBps: buyerOverride?.buyerFeeBps ?? category?.buyerFeeBps ?? schedule.buyerFeeBps,
+    minBuyerFee: buyerOverride?.minBuyerFee ?? category?.minBuyerFee ?? schedule.minBuyerFee,
+    sellerFeeBps: sellerOverride?.sellerFeeBps ?? category?.sellerFeeBps ?? schedule.sellerFeeBps,
+    minSellerFee: sellerOverride?.minSellerFee ?? category?.minSellerFee ?? schedule.minSellerFee,
+  };
+}
+
+/**
+ * Fees for a new order, with the schedule version to store on it
+ */
+export async function calculateOrderFees(
+  db: ReturnType<typeof createDb>,
+  data: { subtotal: number; categoryId?: string | null; buyerId: string; sellerId: string }
+): Promise<OrderFees> {
+  const schedule = await getFeeSchedule(db);
+  const rates = await resolveFeeRates(db, schedule, data);
+
+  return {
+    ...calculateFees(data.subtotal, rates),
+    scheduleVersion: schedule.version,
+    rates,
+  };
+}
+
+/**
+ * Fees on a changed order subtotal (e.g. after a change order) - the rates
+ * locked in when the order was placed still apply, only the minimums are current
+ */
+export async function recalculateOrderFees(
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  subtotal: number,
+  categoryId?: string | null
+): Promise<FeeBreakdown> {
+  const schedule = await getFeeSchedule(db);
+  const rates = await resolveFeeRates(db, schedule, {
+    categoryId,
+    buyerId: order.buyerId,
+    sellerId: order.sellerId,
+  });
+
+  return calculateFees(subtotal, {
+    ...rates,
+    buyerFeeBps: order.buyerFeeBps ?? rates.buyerFeeBps,
+    sellerFeeBps: order.sellerFeeBps ?? rates.sellerFeeBps,
+  });
+}
+
+/**
+ * Format basis points as a percentage label, e.g. 250 -> "2.5%"
+ */
+export function formatFeeRate(bps: number): string {
+  return `${Number((bps / 100).toFixed(2))}%`;
+}
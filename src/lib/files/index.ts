@@ -0,0 +1,65 @@
+// Uploaded files
+// Requirement answers, dispute evidence and portfolio images all live in the
+// FILES R2 bucket. Each feature checks uploads against its own limits, stores
+// them under its own prefix and serves them from an API route that decides who
+// may see them before streaming the object back.
+
+import { NextResponse } from "next/server";
+import type { R2Bucket } from "@cloudflare/workers-types";
+
+export * from "./limits";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+export interface StoredFile {
+  key: string; // R2 object key
+  name: string;
+  contentType: string;
+  size: number; // In bytes
+}
+
+/**
+ * Upload a file to R2 as {prefix}/{id}-{safe file name} (validate it first with validateFiles)
+ */
+export async function storeFile(
+  bucket: R2Bucket,
+  prefix: string,
+  file: File,
+  id: string = generateId()
+): Promise<StoredFile> {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_").slice(-100);
+  const key = `${prefix}/${id}-${safeName}`;
+
+  await bucket.put(key, await file.arrayBuffer(), {
+    httpMetadata: { contentType: file.type },
+  });
+
+  return { key, name: file.name, contentType: file.type, size: file.size };
+}
+
+/**
+ * Stream a stored file back to the browser - null if it is missing from R2
+ * Named files are served inline under their original name.
+ */
+export async function getFileResponse(
+  bucket: R2Bucket,
+  file: { key: string; contentType: string; name?: string },
+  cacheControl = "private, max-age=3600"
+): Promise<NextResponse | null> {
+  const object = await bucket.get(file.key);
+
+  if (!object) {
+    return null;
+  }
+
+  return new NextResponse(object.body as unknown as BodyInit, {
+    headers: {
+      "Content-Type": file.contentType,
+      ...(file.name ? { "Content-Disposition": `inline; filename="${file.name.replace(/"/g, "")}"` } : {}),
+      "Cache-Control": cacheControl,
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,26 @@
+// Upload limits - safe to import from client components
+
+export interface FileLimits {
+  maxFileSize: number; // In bytes
+  allowedTypes: readonly string[];
+  typeNames: string; // Shown when a type isn't allowed, e.g. "JPEG, PNG and PDF files"
+}
+
+/**
+ * Check files against a feature's upload limits - returns an error message or null
+ */
+export function validateFiles(
+  files: { name: string; type: string; size: number }[],
+  limits: FileLimits
+): string | null {
+  for (const file of files) {
+    if (!limits.allowedTypes.includes(file.type)) {
+      return `${file.name}: only ${limits.typeNames} are allowed`;
+    }
+    if (file.size > limits.maxFileSize) {
+      return `${file.name} is larger than ${limits.maxFileSize / 1024 / 1024} MB`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,28 @@
+// Server actions for wallet balances
+"use server";
+
+import { createDb } from "@/lib/db";
+import { getServerSession } from "@/lib/auth/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getWalletBalance, type WalletBalance } from "@/lib/ledger";
+
+/**
+ * Get the current user's wallet balances (in cents)
+ */
+export async function getWallet(): Promise<WalletBalance | null> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return null;
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    return await getWalletBalance(db, session.userId);
+  } catch (error) {
+    console.error("Get wallet error:", error);
+    return null;
+  }
+}
@@ -0,0 +1,486 @@
+// Double-entry escrow ledger
+// Every payment, release, refund and payout posts balanced entries.
+// An entry moves `amount` from its debit account to its credit account,
+// so an account's balance is credits received minus debits sent.
+
+import { eq, and, or, lte, inArray, sql } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { ledgerAccounts, ledgerEntries, orders } from "@/lib/db/schema";
+import type { LedgerAccount, Order } from "@/lib/db/schema";
+import { PAYMENT_CONFIG } from "@/lib/payments/config";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+export type LedgerAccountType = LedgerAccount["type"];
+export type LedgerEntryType = (typeof ledgerEntries.$inferInsert)["entryType"];
+
+export interface AccountRef {
+  type: LedgerAccountType;
+  userId?: string;
+  orderId?: string;
+}
+
+export interface JournalLine {
+  debit: AccountRef;
+  credit: AccountRef;
+  amount: number; // In cents
+  entryType: LedgerEntryType;
+  description?: string;
+  availableAt?: string;
+}
+
+export interface JournalContext {
+  orderId?: string | null;
+  milestoneId?: string | null;
+  transactionId?: string | null;
+}
+
+export interface WalletBalance {
+  available: number;
+  pending: number;
+  inEscrow: number;
+}
+
+export interface EscrowReleased {
+  amount: number; // In cents, before the seller fee
+  sellerFee: number; // In cents
+}
+
+export interface EarningsClearanceResult {
+  cleared: number;
+  amount: number; // In cents
+}
+
+function accountKey(ref: AccountRef): string {
+  switch (ref.type) {
+    case "gateway":
+    case "platform_fees":
+      return ref.type;
+    case "escrow":
+      if (!ref.orderId) throw new Error("Escrow account requires an orderId");
+      return `escrow:${ref.orderId}`;
+    default:
+      if (!ref.userId) throw new Error(`${ref.type} account requires a userId`);
+      return `${ref.type}:${ref.userId}`;
+  }
+}
+
+/**
+ * Get a ledger account, creating it on first use
+ */
+export async function getOrCreateAccount(
+  db: ReturnType<typeof createDb>,
+  ref: AccountRef
+): Promise<LedgerAccount> {
+  const key = accountKey(ref);
+
+  await db
+    .insert(ledgerAccounts)
+    .values({
+      id: generateId(),
+      key,
+      type: ref.type,
+      userId: ref.type === "escrow" ? null : ref.userId || null,
+      orderId: ref.type === "escrow" ? ref.orderId || null : null,
+      currency: "ZAR",
+      createdAt: new Date().toISOString(),
+    })
+    .onConflictDoNothing({ target: ledgerAccounts.key });
+
+  const account = await db.query.ledgerAccounts.findFirst({
+    where: eq(ledgerAccounts.key, key),
+  });
+
+  if (!account) {
+    throw new Error(`Failed to resolve ledger account ${key}`);
+  }
+
+  return account;
+}
+
+/**
+ * Post a journal of balanced entries in a single statement
+ * Zero-amount lines are skipped. Returns the journal ID.
+ */
+export async function postJournal(
+  db: ReturnType<typeof createDb>,
+  lines: JournalLine[],
+  context: JournalContext = {}
+): Promise<string | null> {
+  const postable = lines.filter((line) => line.amount !== 0);
+
+  for (const line of postable) {
+    if (!Number.isInteger(line.amount) || line.amount < 0) {
+      throw new Error(`Ledger amounts must be positive integer cents, got ${line.amount}`);
+    }
+  }
+
+  if (postable.length === 0) {
+    return null;
+  }
+
+  const journalId = generateId();
+  const now = new Date().toISOString();
+
+  const values = [];
+  for (const line of postable) {
+    const [debit, credit] = await Promise.all([
+      getOrCreateAccount(db, line.debit),
+      getOrCreateAccount(db, line.credit),
+    ]);
+
+    values.push({
+      id: generateId(),
+      journalId,
+      debitAccountId: debit.id,
+      creditAccountId: credit.id,
+      amount: line.amount,
+      entryType: line.entryType,
+      orderId: context.orderId || null,
+      milestoneId: context.milestoneId || null,
+      transactionId: context.transactionId || null,
+      description: line.description || null,
+      availableAt: line.availableAt || null,
+      createdAt: now,
+    });
+  }
+
+  await db.insert(ledgerEntries).values(values);
+
+  return journalId;
+}
+
+/**
+ * Get an account balance (credits minus debits)
+ */
+export async function getAccountBalance(
+  db: ReturnType<typeof createDb>,
+  accountId: string
+): Promise<number> {
+  const result = await db
+    .select({
+      balance: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.creditAccountId} = ${accountId} THEN ${ledgerEntries.amount} ELSE -${ledgerEntries.amount} END), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(
+      or(
+        eq(ledgerEntries.creditAccountId, accountId),
+        eq(ledgerEntries.debitAccountId, accountId)
+      )
+    );
+
+  return result[0]?.balance || 0;
+}
+
+/**
+ * Get the amount currently held in escrow for an order
+ */
+export async function getOrderEscrowBalance(
+  db: ReturnType<typeof createDb>,
+  orderId: string
+): Promise<number> {
+  const account = await db.query.ledgerAccounts.findFirst({
+    where: eq(ledgerAccounts.key, accountKey({ type: "escrow", orderId })),
+  });
+
+  return account ? getAccountBalance(db, account.id) : 0;
+}
+
+/**
+ * Get how much of an order's escrow has been released to the seller so far, and the seller fee taken from it
+ */
+export async function getOrderEscrowReleased(
+  db: ReturnType<typeof createDb>,
+  orderId: string
+): Promise<EscrowReleased> {
+  const account = await db.query.ledgerAccounts.findFirst({
+    where: eq(ledgerAccounts.key, accountKey({ type: "escrow", orderId })),
+  });
+
+  if (!account) {
+    return { amount: 0, sellerFee: 0 };
+  }
+
+  // Releases debit escrow for the seller's share and the seller fee
+  const result = await db
+    .select({
+      amount: sql<number>`COALESCE(SUM(${ledgerEntries.amount}), 0)`,
+      sellerFee: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.entryType} = 'fee' THEN ${ledgerEntries.amount} ELSE 0 END), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.debitAccountId, account.id),
+        inArray(ledgerEntries.entryType, ["escrow_release", "fee"])
+      )
+    );
+
+  return { amount: result[0]?.amount || 0, sellerFee: result[0]?.sellerFee || 0 };
+}
+
+/**
+ * Record a confirmed buyer payment
+ * Gateway -> buyer funds, then buyer funds -> escrow (and buyer fee -> platform)
+ */
+export async function recordPaymentReceived(
+  db: ReturnType<typeof createDb>,
+  data: {
+    order: Order;
+    milestoneId?: string | null;
+    transactionId: string;
+    amount: number;
+  }
+): Promise<string | null> {
+  const { order } = data;
+
+  // Milestone payments only cover the milestone amount; the buyer fee is
+  // charged on full order payments
+  const buyerFee = data.milestoneId ? 0 : Math.min(Math.round(order.buyerFee), data.amount);
+  const buyer = { type: "buyer_funds" as const, userId: order.buyerId };
+
+  return postJournal(
+    db,
+    [
+      {
+        debit: { type: "gateway" },
+        credit: buyer,
+        amount: data.amount,
+        entryType: "payment",
+        description: `Payment for order ${order.orderNumber}`,
+      },
+      {
+        debit: buyer,
+        credit: { type: "escrow", orderId: order.id },
+        amount: data.amount - buyerFee,
+        entryType: "escrow_fund",
+        description: `Escrow funded for order ${order.orderNumber}`,
+      },
+      {
+        debit: buyer,
+        credit: { type: "platform_fees" },
+        amount: buyerFee,
+        entryType: "fee",
+        description: `Buyer fee for order ${order.orderNumber}`,
+      },
+    ],
+    { orderId: order.id, milestoneId: data.milestoneId, transactionId: data.transactionId }
+  );
+}
+
+/**
+ * Release escrow to the seller
+ * Escrow -> seller pending (net of fee) and escrow -> platform (seller fee)
+ */
+export async function recordEscrowRelease(
+  db: ReturnType<typeof createDb>,
+  data: {
+    order: Order;
+    milestoneId?: string | null;
+    transactionId: string;
+    amount: number;
+    sellerFee: number;
+  }
+): Promise<string | null> {
+  const { order } = data;
+  const sellerFee = Math.min(Math.round(data.sellerFee), data.amount);
+  const availableAt = new Date(
+    Date.now() + PAYMENT_CONFIG.clearanceDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+  const escrow = { type: "escrow" as const, orderId: order.id };
+
+  return postJournal(
+    db,
+    [
+      {
+        debit: escrow,
+        credit: { type: "seller_pending", userId: order.sellerId },
+        amount: data.amount - sellerFee,
+        entryType: "escrow_release",
+        description: `Escrow released for order ${order.orderNumber}`,
+        availableAt,
+      },
+      {
+        debit: escrow,
+        credit: { type: "platform_fees" },
+        amount: sellerFee,
+        entryType: "fee",
+        description: `Seller fee for order ${order.orderNumber}`,
+      },
+    ],
+    { orderId: order.id, milestoneId: data.milestoneId, transactionId: data.transactionId }
+  );
+}
+
+/**
+ * Refund a buyer
+ * Escrow (and any refunded fees) -> buyer funds -> gateway
+ */
+export async function recordRefund(
+  db: ReturnType<typeof createDb>,
+  data: {
+    order: Order;
+    milestoneId?: string | null;
+    transactionId: string;
+    fromEscrow: number;
+    fromFees: number;
+  }
+): Promise<string | null> {
+  const { order } = data;
+  const buyer = { type: "buyer_funds" as const, userId: order.buyerId };
+
+  return postJournal(
+    db,
+    [
+      {
+        debit: { type: "escrow", orderId: order.id },
+        credit: buyer,
+        amount: data.fromEscrow,
+        entryType: "refund",
+        description: `Escrow refunded for order ${order.orderNumber}`,
+      },
+      {
+        debit: { type: "platform_fees" },
+        credit: buyer,
+        amount: data.fromFees,
+        entryType: "refund",
+        description: `Fees refunded for order ${order.orderNumber}`,
+      },
+      {
+        debit: buyer,
+        credit: { type: "gateway" },
+        amount: data.fromEscrow + data.fromFees,
+        entryType: "refund",
+        description: `Refund paid out for order ${order.orderNumber}`,
+      },
+    ],
+    { orderId: order.id, milestoneId: data.milestoneId, transactionId: data.transactionId }
+  );
+}
+
+/**
+ * Pay out cleared seller earnings
+ * Seller available -> gateway
+ */
+export async function recordPayout(
+  db: ReturnType<typeof createDb>,
+  data: {
+    userId: string;
+    transactionId: string;
+    amount: number;
+  }
+): Promise<string | null> {
+  return postJournal(
+    db,
+    [
+      {
+        debit: { type: "seller_available", userId: data.userId },
+        credit: { type: "gateway" },
+        amount: data.amount,
+        entryType: "payout",
+        description: "Seller payout",
+      },
+    ],
+    { transactionId: data.transactionId }
+  );
+}
+
+/**
+ * Move seller earnings whose clearance period has passed from pending to available
+ * Each matured release gets one clearance entry keyed on its own ID, so
+ * overlapping runs can never clear the same earnings twice.
+ */
+export async function processEarningsClearance(
+  db: ReturnType<typeof createDb>
+): Promise<EarningsClearanceResult> {
+  const result: EarningsClearanceResult = { cleared: 0, amount: 0 };
+  const now = new Date().toISOString();
+
+  const matured = await db
+    .select({
+      id: ledgerEntries.id,
+      pendingAccountId: ledgerEntries.creditAccountId,
+      amount: ledgerEntries.amount,
+      orderId: ledgerEntries.orderId,
+      milestoneId: ledgerEntries.milestoneId,
+      userId: ledgerAccounts.userId,
+    })
+    .from(ledgerEntries)
+    .innerJoin(ledgerAccounts, eq(ledgerAccounts.id, ledgerEntries.creditAccountId))
+    .where(
+      and(
+        eq(ledgerAccounts.type, "seller_pending"),
+        lte(ledgerEntries.availableAt, now),
+        sql`NOT EXISTS (SELECT 1 FROM ledger_entries c WHERE c.id = ${ledgerEntries.id} || ':clearance')`
+      )
+    );
+
+  for (const entry of matured) {
+    if (!entry.userId) continue;
+
+    const available = await getOrCreateAccount(db, { type: "seller_available", userId: entry.userId });
+
+    const inserted = await db
+      .insert(ledgerEntries)
+      .values({
+        id: `${entry.id}:clearance`,
+        journalId: generateId(),
+        debitAccountId: entry.pendingAccountId,
+        creditAccountId: available.id,
+        amount: entry.amount,
+        entryType: "clearance",
+        orderId: entry.orderId,
+        milestoneId: entry.milestoneId,
+        description: "Earnings cleared",
+        createdAt: new Date().toISOString(),
+      })
+      .onConflictDoNothing({ target: ledgerEntries.id })
+      .returning({ amount: ledgerEntries.amount });
+
+    if (inserted.length > 0) {
+      result.cleared++;
+      result.amount += entry.amount;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get a user's wallet balances
+ */
+export async function getWalletBalance(
+  db: ReturnType<typeof createDb>,
+  userId: string
+): Promise<WalletBalance> {
+  const [available, pending, escrow] = await Promise.all([
+    db.query.ledgerAccounts.findFirst({
+      where: eq(ledgerAccounts.key, accountKey({ type: "seller_available", userId })),
+    }),
+    db.query.ledgerAccounts.findFirst({
+      where: eq(ledgerAccounts.key, accountKey({ type: "seller_pending", userId })),
+    }),
+    // Escrow held across all orders where the user is the buyer
+    db
+      .select({
+        balance: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.creditAccountId} = ${ledgerAccounts.id} THEN ${ledgerEntries.amount} ELSE -${ledgerEntries.amount} END), 0)`,
+      })
+      .from(ledgerEntries)
+      .innerJoin(
+        ledgerAccounts,
+        or(
+          eq(ledgerAccounts.id, ledgerEntries.creditAccountId),
+          eq(ledgerAccounts.id, ledgerEntries.debitAccountId)
+        )
+      )
+      .innerJoin(orders, eq(orders.id, ledgerAccounts.orderId))
+      .where(and(eq(ledgerAccounts.type, "escrow"), eq(orders.buyerId, userId))),
+  ]);
+
+  return {
+    available: available ? await getAccountBalance(db, available.id) : 0,
+    pending: pending ? await getAccountBalance(db, pending.id) : 0,
+    inEscrow: escrow[0]?.balance || 0,
+  };
+}
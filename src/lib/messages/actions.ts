@@ -7,7 +7,8 @@ import { createDb } from "@/lib/db";
 import { conversations, messages, users } from "@/lib/db/schema";
 import { getServerSession } from "@/lib/auth/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
-import { notifyNewMessage } from "@/lib/notifications";
+import { notify, notifyNewMessage } from "@/lib/notifications";
+import { validateOffer, normalizeOffer, parseOffer, type CustomOffer } from "./offers";
 
 function generateId(): string {
   return crypto.randomUUID();
@@ -190,6 +191,169 @@ export async function sendMessage(data: SendMessageData): Promise<ActionResult>
   }
 }
 
+/**
+ * Send a custom offer in a conversation (seller action) - the other participant can accept it
+ * to place an order
+ */
+export async function sendOffer(conversationId: string, offer: CustomOffer): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  if (!session.isIdVerified) {
+    return { success: false, error: "You must verify your ID to send offers" };
+  }
+
+  const offerError = validateOffer(offer);
+  if (offerError) {
+    return { success: false, error: offerError };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+
+    if (
+      !conversation ||
+      (conversation.participant1Id !== session.userId && conversation.participant2Id !== session.userId)
+    ) {
+      return { success: false, error: "Conversation not found" };
+    }
+
+    const details = normalizeOffer(offer);
+    const messageId = generateId();
+    const now = new Date().toISOString();
+
+    await db.insert(messages).values({
+      id: messageId,
+      conversationId,
+      senderId: session.userId,
+      content: details.title,
+      messageType: "offer",
+      offerAmount: details.price,
+      offerStatus: "pending",
+      offerDetails: JSON.stringify(details),
+      createdAt: now,
+    });
+
+    await db
+      .update(conversations)
+      .set({
+        lastMessageAt: now,
+        lastMessagePreview: `Custom offer: ${details.title}`.slice(0, 100),
+        updatedAt: now,
+      })
+      .where(eq(conversations.id, conversationId));
+
+    const recipientId =
+      conversation.participant1Id === session.userId
+        ? conversation.participant2Id
+        : conversation.participant1Id;
+    const sender = await db.query.users.findFirst({ where: eq(users.id, session.userId) });
+    const senderName = sender?.name || sender?.email || "A seller";
+
+    await notify(db, {
+      userId: recipientId,
+      type: "custom_offer_received",
+      title: "New Custom Offer",
+      message: `${senderName} sent you a custom offer: ${details.title} (R${(details.price / 100).toFixed(2)})`,
+      entityType: "conversation",
+      entityId: conversationId,
+      sendEmail: true,
+      emailData: {
+        senderName,
+        offerTitle: details.title,
+        amount: `R${(details.price / 100).toFixed(2)}`,
+        deliveryDays: details.deliveryDays,
+        conversationId,
+      },
+    });
+
+    revalidatePath("/dashboard/messages");
+    revalidatePath(`/dashboard/messages/${conversationId}`);
+
+    return { success: true, conversationId, messageId };
+  } catch (error) {
+    console.error("Send offer error:", error);
+    return { success: false, error: "Failed to send offer" };
+  }
+}
+
+/**
+ * Decline a custom offer (the participant it was sent to)
+ */
+export async function declineOffer(messageId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const message = await db.query.messages.findFirst({
+      where: eq(messages.id, messageId),
+    });
+
+    if (!message || message.messageType !== "offer") {
+      return { success: false, error: "Offer not found" };
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, message.conversationId),
+    });
+
+    const isRecipient =
+      conversation &&
+      message.senderId !== session.userId &&
+      (conversation.participant1Id === session.userId || conversation.participant2Id === session.userId);
+    if (!isRecipient) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const updated = await db
+      .update(messages)
+      .set({ offerStatus: "rejected" })
+      .where(and(eq(messages.id, messageId), eq(messages.offerStatus, "pending")))
+      .returning({ id: messages.id });
+
+    if (updated.length === 0) {
+      return { success: false, error: "This offer has already been answered" };
+    }
+
+    const offer = parseOffer(message.offerDetails);
+
+    await notify(db, {
+      userId: message.senderId,
+      type: "custom_offer_responded",
+      title: "Offer Declined",
+      message: `Your custom offer "${offer?.title || message.content}" was declined.`,
+      entityType: "conversation",
+      entityId: message.conversationId,
+      sendEmail: true,
+      emailData: {
+        offerTitle: offer?.title || message.content,
+        outcome: "declined",
+        link: `/dashboard/messages/${message.conversationId}`,
+      },
+    });
+
+    revalidatePath(`/dashboard/messages/${message.conversationId}`);
+    return { success: true, conversationId: message.conversationId, messageId };
+  } catch (error) {
+    console.error("Decline offer error:", error);
+    return { success: false, error: "Failed to decline offer" };
+  }
+}
+
 /**
  * Get user's conversations
  */
@@ -306,6 +470,7 @@ export async function getConversationMessages(conversationId: string) {
 
     return conversationMessages.map((msg) => ({
       ...msg,
+      offer: parseOffer(msg.offerDetails),
       isOwn: msg.senderId === session.userId,
     }));
   } catch (error) {
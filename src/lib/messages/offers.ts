@@ -0,0 +1,105 @@
+// Custom offers
+// A seller can send a buyer a custom offer inside a conversation - price,
+// delivery time, revisions and optionally milestones. The offer is stored on
+// an `offer` message; when the buyer accepts it an order is placed, linked to
+// the conversation. Offers with milestones become milestone-funded orders like
+// project orders; offers without are paid in full up front like service orders.
+// Safe to import from client components.
+
+export interface OfferMilestone {
+  title: string;
+  amount: number; // In cents
+  dueInDays?: number; // Counted from when the offer is accepted
+}
+
+export interface CustomOffer {
+  title: string;
+  description: string;
+  price: number; // In cents - the order subtotal
+  deliveryDays: number;
+  revisions: number;
+  milestones?: OfferMilestone[];
+}
+
+export const OFFER_CONFIG = {
+  minPrice: 5000, // R50 in cents
+  maxPrice: 100_000_000, // R1,000,000 in cents
+  maxDeliveryDays: 365,
+  maxRevisions: 10,
+  maxMilestones: 10,
+} as const;
+
+export function parseOffer(offer: string | null): CustomOffer | null {
+  if (!offer) return null;
+  try {
+    return JSON.parse(offer) as CustomOffer;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check an offer before it is sent - returns an error message or null
+ */
+export function validateOffer(offer: CustomOffer): string | null {
+  if (!offer.title?.trim()) return "Give the offer a title";
+  if (!offer.description?.trim()) return "Describe what the offer includes";
+
+  if (!Number.isInteger(offer.price) || offer.price < OFFER_CONFIG.minPrice || offer.price > OFFER_CONFIG.maxPrice) {
+    return `The price must be between R${OFFER_CONFIG.minPrice / 100} and R${(OFFER_CONFIG.maxPrice / 100).toLocaleString("en-ZA")}`;
+  }
+  if (!Number.isInteger(offer.deliveryDays) || offer.deliveryDays < 1 || offer.deliveryDays > OFFER_CONFIG.maxDeliveryDays) {
+    return `Delivery must be between 1 and ${OFFER_CONFIG.maxDeliveryDays} days`;
+  }
+  if (!Number.isInteger(offer.revisions) || offer.revisions < 0 || offer.revisions > OFFER_CONFIG.maxRevisions) {
+    return `Revisions must be between 0 and ${OFFER_CONFIG.maxRevisions}`;
+  }
+
+  const milestones = offer.milestones || [];
+  if (milestones.length > OFFER_CONFIG.maxMilestones) {
+    return `An offer can have up to ${OFFER_CONFIG.maxMilestones} milestones`;
+  }
+  if (milestones.length > 0) {
+    for (const [index, milestone] of milestones.entries()) {
+      if (!milestone.title?.trim()) return `Milestone ${index + 1} needs a title`;
+      if (!Number.isInteger(milestone.amount) || milestone.amount <= 0) {
+        return `"${milestone.title}" needs an amount`;
+      }
+      if (
+        milestone.dueInDays !== undefined &&
+        (!Number.isInteger(milestone.dueInDays) || milestone.dueInDays < 1 || milestone.dueInDays > offer.deliveryDays)
+      ) {
+        return `"${milestone.title}" must be due within the delivery time`;
+      }
+    }
+
+    const total = milestones.reduce((sum, m) => sum + m.amount, 0);
+    if (total !== offer.price) {
+      return `Milestones add up to R${(total / 100).toFixed(2)} but the offer price is R${(offer.price / 100).toFixed(2)}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tidy an offer before it is saved
+ */
+export function normalizeOffer(offer: CustomOffer): CustomOffer {
+  return {
+    title: offer.title.trim(),
+    description: offer.description.trim(),
+    price: offer.price,
+    deliveryDays: offer.deliveryDays,
+    revisions: offer.revisions,
+    ...(offer.milestones?.length
+      ? {
+          milestones: offer.milestones.map((m) => ({
+            title: m.title.trim(),
+            amount: m.amount,
+            ...(m.dueInDays ? { dueInDays: m.dueInDays } : {}),
+          })),
+        }
+      : {}),
+  };
+}
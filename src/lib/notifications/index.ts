@@ -10,19 +10,38 @@ function generateId(): string {
 
 export type NotificationType =
   | "order_created"
+  | "requirements_needed"
+  | "requirements_submitted"
   | "order_delivered"
+  | "delivery_review_reminder"
+  | "order_late"
+  | "deadline_extension_requested"
+  | "deadline_extension_responded"
+  | "revision_requested"
+  | "change_order_proposed"
+  | "change_order_responded"
   | "order_completed"
   | "order_cancelled"
   | "payment_received"
   | "new_message"
+  | "custom_offer_received"
+  | "custom_offer_responded"
   | "new_bid"
   | "bid_accepted"
+  | "bid_shortlisted"
+  | "bid_rejected"
+  | "project_expired"
   | "review_received"
   | "dispute_opened"
   | "dispute_resolved"
+  | "dispute_message"
+  | "dispute_updated"
   | "verification_approved"
   | "verification_rejected"
   | "subscription_expiring"
+  | "subscription_renewed"
+  | "subscription_payment_failed"
+  | "subscription_expired"
   | "system";
 
 export interface NotifyInput {
@@ -39,17 +58,34 @@ export interface NotifyInput {
 // Map notification type to email template
 const notificationToEmailTemplate: Partial<Record<NotificationType, EmailTemplate>> = {
   order_created: "order_created",
+  requirements_needed: "requirements_needed",
+  requirements_submitted: "requirements_submitted",
   order_delivered: "order_delivered",
+  delivery_review_reminder: "delivery_review_reminder",
+  order_late: "order_late",
+  deadline_extension_requested: "deadline_extension_requested",
+  deadline_extension_responded: "deadline_extension_responded",
+  revision_requested: "revision_requested",
+  change_order_proposed: "change_order_proposed",
+  change_order_responded: "change_order_responded",
   order_completed: "order_completed",
   payment_received: "order_paid",
   new_message: "new_message",
+  custom_offer_received: "custom_offer_received",
+  custom_offer_responded: "custom_offer_responded",
   new_bid: "new_bid",
   bid_accepted: "bid_accepted",
+  project_expired: "project_expired",
   dispute_opened: "dispute_opened",
   dispute_resolved: "dispute_resolved",
+  dispute_message: "dispute_message",
+  dispute_updated: "dispute_updated",
   verification_approved: "verification_approved",
   verification_rejected: "verification_rejected",
   subscription_expiring: "subscription_expiring",
+  subscription_renewed: "subscription_renewed",
+  subscription_payment_failed: "subscription_payment_failed",
+  subscription_expired: "subscription_expired",
 };
 
 /**
@@ -2,29 +2,81 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { eq, and, desc, or } from "drizzle-orm";
+import { eq, and, desc, or, isNull } from "drizzle-orm";
 import { createDb } from "@/lib/db";
-import { orders, milestones, transactions, services, projects, bids, orderDeliveries, revisionRequests, users } from "@/lib/db/schema";
+import { orders, milestones, services, projects, bids, orderDeliveries, revisionRequests, users, deadlineExtensions, changeOrders, conversations, messages } from "@/lib/db/schema";
+import type { Order } from "@/lib/db/schema";
 import { getServerSession } from "@/lib/auth/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
-import { calculateFees } from "@/lib/utils";
+import { calculateOrderFees } from "@/lib/fees";
+import { initiatePayment, refundOrder, type PaymentProvider } from "@/lib/payments";
+import {
+  canTransitionOrder,
+  canTransitionMilestone,
+  transitionOrder,
+  transitionMilestone,
+  recordOrderCreated,
+  recordOrderEvent,
+  getOrderTimeline,
+} from "@/lib/orders/state-machine";
+import { getMissedDeadline } from "@/lib/orders/deadlines";
+import {
+  CHANGEABLE_ORDER_STATUSES,
+  validateChangeOrder,
+  snapshotChangeOrder,
+  getProposedSubtotal,
+  describeChangeOrder,
+  parseChangeOrder,
+  getMilestonesWithPaymentInFlight,
+  applyChangeOrder,
+  type ChangeOrderInput,
+} from "@/lib/orders/change-orders";
+import {
+  sanitizeRequirementAnswers,
+  validateRequirementFiles,
+  storeRequirementFiles,
+  getRequirementResponses,
+} from "@/lib/orders/requirements";
+import {
+  parseRequirementsForm,
+  parseRequirementAnswers,
+  getMissingRequirements,
+} from "@/lib/services/requirements";
+import { applyExtras, parseServiceExtras } from "@/lib/services/extras";
+import { parseOffer, validateOffer } from "@/lib/messages/offers";
+import { getActiveDispute } from "@/lib/disputes";
+import { notify } from "@/lib/notifications";
+import { completeDelivery, getAutoCompleteDate } from "@/lib/orders/completion";
+import { getSetting } from "@/lib/settings";
+import { EMAIL_CONFIG } from "@/lib/email";
 import { 
   triggerOrderCreatedEmail, 
-  triggerOrderDeliveredEmail, 
-  triggerOrderCompletedEmail,
-  triggerMilestoneReleasedEmail 
+  triggerOrderDeliveredEmail 
 } from "@/lib/orders/email-triggers";
 
 function generateId(): string {
   return crypto.randomUUID();
 }
 
+// Orders whose deadline still matters
+const EXTENDABLE_ORDER_STATUSES: Order["status"][] = ["pending_requirements", "in_progress", "revision_requested"];
+
 function generateOrderNumber(): string {
   const timestamp = Date.now().toString(36).toUpperCase();
   const random = Math.random().toString(36).substring(2, 6).toUpperCase();
   return `ZOM-${timestamp}-${random}`;
 }
 
+function formatDate(date: string | Date): string {
+  return new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+// Payment gateways need absolute return/notify URLs - built from the configured
+// app URL, never from request headers a client can set
+function getBaseUrl(): string {
+  return EMAIL_CONFIG.baseUrl;
+}
+
 export interface MilestoneData {
   title: string;
   description?: string;
@@ -35,6 +87,7 @@ export interface MilestoneData {
 export interface CreateOrderFromServiceData {
   serviceId: string;
   serviceTier: "basic" | "standard" | "premium";
+  extras?: string[]; // Ids of the service extras the buyer picked
   requirements?: string;
 }
 
@@ -43,10 +96,22 @@ export interface CreateOrderFromBidData {
   milestones: MilestoneData[];
 }
 
+export interface RequestDeadlineExtensionData {
+  milestoneId?: string; // Project orders - extend one milestone's due date
+  requestedDeadline: string;
+  reason: string;
+}
+
+export interface ProposeChangeOrderData {
+  changes: ChangeOrderInput[];
+  reason: string;
+}
+
 export interface ActionResult {
   success: boolean;
   error?: string;
   orderId?: string;
+  redirectUrl?: string;
 }
 
 /**
@@ -89,7 +154,25 @@ export async function createOrderFromService(
       return { success: false, error: "Selected tier not available" };
     }
 
-    const fees = calculateFees(subtotal);
+    // Extras add to the price, delivery time and revisions
+    const selectedIds = data.extras || [];
+    const totals = applyExtras(
+      { deliveryDays, revisions: service.maxRevisions ?? 2 },
+      parseServiceExtras(service.extras),
+      selectedIds
+    );
+    if (totals.extras.length !== new Set(selectedIds).size) {
+      return { success: false, error: "One of the selected extras is no longer available" };
+    }
+    subtotal += totals.extrasTotal;
+    deliveryDays = totals.deliveryDays;
+
+    const fees = await calculateOrderFees(db, {
+      subtotal,
+      categoryId: service.categoryId,
+      buyerId: session.userId,
+      sellerId: service.sellerId,
+    });
     const orderId = generateId();
     const orderNumber = generateOrderNumber();
     const now = new Date().toISOString();
@@ -104,20 +187,28 @@ export async function createOrderFromService(
       orderType: "service",
       serviceId: service.id,
       serviceTier: data.serviceTier,
+      extras: totals.extras.length > 0 ? JSON.stringify(totals.extras) : null,
       requirements: data.requirements || null,
+      requirementsForm: service.requirementsForm,
       subtotal,
       buyerFee: fees.buyerFee,
       sellerFee: fees.sellerFee,
       totalAmount: fees.buyerTotal,
       sellerEarnings: fees.sellerReceives,
       currency: "ZAR",
+      feeScheduleVersion: fees.scheduleVersion,
+      buyerFeeBps: fees.rates.buyerFeeBps,
+      sellerFeeBps: fees.rates.sellerFeeBps,
       deliveryDays,
       deliveryDeadline,
+      revisionsAllowed: totals.revisions,
       status: "pending_payment",
       createdAt: now,
       updatedAt: now,
     });
 
+    await recordOrderCreated(db, orderId, session.userId);
+
     // Get buyer and seller info for notification
     const [buyer, seller] = await Promise.all([
       db.query.users.findFirst({ where: eq(users.id, session.userId) }),
@@ -186,7 +277,12 @@ export async function createOrderFromBid(
 
     // Calculate totals from milestones
     const subtotal = data.milestones.reduce((sum, m) => sum + m.amount, 0);
-    const fees = calculateFees(subtotal);
+    const fees = await calculateOrderFees(db, {
+      subtotal,
+      categoryId: project.categoryId,
+      buyerId: session.userId,
+      sellerId: bid.bidderId,
+    });
     const orderId = generateId();
     const orderNumber = generateOrderNumber();
     const now = new Date().toISOString();
@@ -207,6 +303,9 @@ export async function createOrderFromBid(
       totalAmount: fees.buyerTotal,
       sellerEarnings: fees.sellerReceives,
       currency: "ZAR",
+      feeScheduleVersion: fees.scheduleVersion,
+      buyerFeeBps: fees.rates.buyerFeeBps,
+      sellerFeeBps: fees.rates.sellerFeeBps,
       deliveryDays: bid.deliveryDays,
       deliveryDeadline,
       status: "pending_payment",
@@ -214,6 +313,8 @@ export async function createOrderFromBid(
       updatedAt: now,
     });
 
+    await recordOrderCreated(db, orderId, session.userId);
+
     // Create milestones
     for (let i = 0; i < data.milestones.length; i++) {
       const m = data.milestones[i];
@@ -263,6 +364,174 @@ export async function createOrderFromBid(
   }
 }
 
+/**
+ * Accept a custom offer sent in a conversation (buyer action) - places the order.
+ * Offers with milestones are funded milestone by milestone; the rest are paid in full.
+ */
+export async function createOrderFromOffer(messageId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const message = await db.query.messages.findFirst({
+      where: eq(messages.id, messageId),
+    });
+    const offer = message?.messageType === "offer" ? parseOffer(message.offerDetails) : null;
+
+    if (!message || !offer) {
+      return { success: false, error: "Offer not found" };
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, message.conversationId),
+    });
+
+    const isRecipient =
+      conversation &&
+      message.senderId !== session.userId &&
+      (conversation.participant1Id === session.userId || conversation.participant2Id === session.userId);
+    if (!isRecipient) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (message.offerStatus !== "pending") {
+      return { success: false, error: "This offer has already been answered" };
+    }
+
+    const offerError = validateOffer(offer);
+    if (offerError) {
+      return { success: false, error: offerError };
+    }
+
+    const sellerId = message.senderId;
+    const subtotal = offer.price;
+    const offerMilestones = offer.milestones || [];
+    const fees = await calculateOrderFees(db, {
+      subtotal,
+      buyerId: session.userId,
+      sellerId,
+    });
+    const orderId = generateId();
+    const orderNumber = generateOrderNumber();
+    const now = new Date().toISOString();
+    const dayMs = 24 * 60 * 60 * 1000;
+    const deliveryDeadline = new Date(Date.now() + offer.deliveryDays * dayMs).toISOString();
+
+    // Claim the offer first so it can only turn into one order
+    const claimed = await db
+      .update(messages)
+      .set({ offerStatus: "accepted" })
+      .where(and(eq(messages.id, messageId), eq(messages.offerStatus, "pending")))
+      .returning({ id: messages.id });
+
+    if (claimed.length === 0) {
+      return { success: false, error: "This offer has already been answered" };
+    }
+
+    // Place the order and link the offer to it. If that fails, remove the partial
+    // order and hand the offer back so the buyer can accept it again.
+    try {
+      await db.insert(orders).values({
+        id: orderId,
+        orderNumber,
+        buyerId: session.userId,
+        sellerId,
+        orderType: offerMilestones.length > 0 ? "project" : "service",
+        conversationId: message.conversationId,
+        subtotal,
+        buyerFee: fees.buyerFee,
+        sellerFee: fees.sellerFee,
+        totalAmount: fees.buyerTotal,
+        sellerEarnings: fees.sellerReceives,
+        currency: "ZAR",
+        feeScheduleVersion: fees.scheduleVersion,
+        buyerFeeBps: fees.rates.buyerFeeBps,
+        sellerFeeBps: fees.rates.sellerFeeBps,
+        deliveryDays: offer.deliveryDays,
+        deliveryDeadline,
+        revisionsAllowed: offer.revisions,
+        status: "pending_payment",
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      await recordOrderCreated(db, orderId, session.userId);
+
+      for (let i = 0; i < offerMilestones.length; i++) {
+        const m = offerMilestones[i];
+        await db.insert(milestones).values({
+          id: generateId(),
+          orderId,
+          title: m.title,
+          amount: m.amount,
+          sortOrder: i + 1,
+          dueDate: m.dueInDays ? new Date(Date.now() + m.dueInDays * dayMs).toISOString() : null,
+          revisionsAllowed: offer.revisions,
+          status: "pending",
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      await db.update(messages).set({ offerOrderId: orderId }).where(eq(messages.id, messageId));
+    } catch (error) {
+      await db.delete(orders).where(eq(orders.id, orderId));
+      await db.update(messages).set({ offerStatus: "pending" }).where(eq(messages.id, messageId));
+      throw error;
+    }
+
+    await db.insert(messages).values({
+      id: generateId(),
+      conversationId: message.conversationId,
+      senderId: session.userId,
+      content: `Offer accepted - order ${orderNumber} placed`,
+      messageType: "system",
+      createdAt: now,
+    });
+    await db
+      .update(conversations)
+      .set({
+        ...(conversation.orderId ? {} : { orderId }),
+        lastMessageAt: now,
+        lastMessagePreview: `Offer accepted - order ${orderNumber}`,
+        updatedAt: now,
+      })
+      .where(eq(conversations.id, conversation.id));
+
+    await triggerOrderCreatedEmail(db, {
+      orderId,
+      orderNumber,
+      totalAmount: fees.buyerTotal,
+      sellerId,
+      buyerId: session.userId,
+      serviceTitle: offer.title,
+    });
+
+    // The order created email already goes to the seller
+    await notify(db, {
+      userId: sellerId,
+      type: "custom_offer_responded",
+      title: "Offer Accepted",
+      message: `Your custom offer "${offer.title}" was accepted - order ${orderNumber} is waiting for payment.`,
+      entityType: "order",
+      entityId: orderId,
+    });
+
+    revalidatePath("/dashboard/orders");
+    revalidatePath(`/dashboard/messages/${message.conversationId}`);
+    return { success: true, orderId };
+  } catch (error) {
+    console.error("Create order from offer error:", error);
+    return { success: false, error: "Failed to accept offer" };
+  }
+}
+
 /**
  * Get user's orders (as buyer or seller)
  */
@@ -325,7 +594,63 @@ export async function getOrderById(orderId: string) {
       });
     }
 
-    return { ...order, milestones: orderMilestones };
+    const events = await getOrderTimeline(db, orderId);
+
+    // Delivered orders complete on their own once the buyer's review window ends
+    const autoCompletesAt =
+      order.status === "delivered" && order.deliveredAt
+        ? getAutoCompleteDate(
+            order.deliveredAt,
+            await getSetting(db, "order_auto_complete_days")
+          ).toISOString()
+        : null;
+
+    const missedDeadline = getMissedDeadline(order, orderMilestones);
+
+    const extensions = await db.query.deadlineExtensions.findMany({
+      where: eq(deadlineExtensions.orderId, orderId),
+      orderBy: [desc(deadlineExtensions.createdAt)],
+    });
+
+    const dispute = await getActiveDispute(db, orderId);
+
+    // Delivery history, each with the revision the buyer asked for on it
+    const [deliveries, revisions] = await Promise.all([
+      db.query.orderDeliveries.findMany({
+        where: eq(orderDeliveries.orderId, orderId),
+        orderBy: [desc(orderDeliveries.createdAt)],
+      }),
+      db.query.revisionRequests.findMany({
+        where: eq(revisionRequests.orderId, orderId),
+      }),
+    ]);
+
+    const orderChangeOrders = await db.query.changeOrders.findMany({
+      where: eq(changeOrders.orderId, orderId),
+      orderBy: [desc(changeOrders.createdAt)],
+    });
+
+    return {
+      ...order,
+      milestones: orderMilestones,
+      events,
+      autoCompletesAt,
+      missedDeadline,
+      extensions,
+      deliveries: deliveries.map((delivery) => ({
+        ...delivery,
+        revision: revisions.find((r) => r.deliveryId === delivery.id) || null,
+      })),
+      extras: parseServiceExtras(order.extras),
+      requirementResponses: getRequirementResponses(order),
+      changeOrders: orderChangeOrders.map((c) => ({
+        ...c,
+        summary: describeChangeOrder(parseChangeOrder(c.changes)),
+      })),
+      dispute: dispute
+        ? { id: dispute.id, category: dispute.category, status: dispute.status, createdAt: dispute.createdAt }
+        : null,
+    };
   } catch (error) {
     console.error("Get order error:", error);
     return null;
@@ -334,10 +659,11 @@ export async function getOrderById(orderId: string) {
 
 /**
  * Fund a milestone (buyer action) - for project orders
+ * Returns the payment gateway redirect URL
  */
 export async function fundMilestone(
   milestoneId: string,
-  provider: "ozow" | "payfast"
+  provider: PaymentProvider
 ): Promise<ActionResult> {
   const session = await getServerSession();
 
@@ -369,43 +695,25 @@ export async function fundMilestone(
       return { success: false, error: "Milestone is not pending" };
     }
 
-    // TODO: Integrate with OZOW/PayFast payment gateway
-    // For now, simulate payment success
-
-    const now = new Date().toISOString();
-
-    // Create transaction record
-    await db.insert(transactions).values({
-      id: generateId(),
-      orderId: milestone.orderId,
-      milestoneId,
-      userId: session.userId,
-      type: "escrow_fund",
-      amount: milestone.amount,
-      currency: "ZAR",
-      provider,
-      status: "completed",
-      createdAt: now,
-      updatedAt: now,
-      completedAt: now,
-    });
-
-    // Update milestone status
-    await db
-      .update(milestones)
-      .set({ status: "funded", fundedAt: now, updatedAt: now })
-      .where(eq(milestones.id, milestoneId));
-
-    // Update order status if first funding
-    if (order.status === "pending_payment") {
-      await db
-        .update(orders)
-        .set({ status: "in_progress", updatedAt: now })
-        .where(eq(orders.id, order.id));
+    // Creates a pending escrow_fund transaction; the milestone is only
+    // marked funded once the provider's verified notify webhook arrives
+    const result = await initiatePayment(
+      db,
+      {
+        orderId: order.id,
+        milestoneId,
+        provider,
+        buyerEmail: session.email,
+        buyerName: session.name || undefined,
+      },
+      getBaseUrl()
+    );
+
+    if (!result.success || !result.redirectUrl) {
+      return { success: false, error: result.error || "Failed to initiate payment" };
     }
 
-    revalidatePath(`/dashboard/orders/${order.id}`);
-    return { success: true };
+    return { success: true, orderId: order.id, redirectUrl: result.redirectUrl };
   } catch (error) {
     console.error("Fund milestone error:", error);
     return { success: false, error: "Failed to fund milestone" };
@@ -414,10 +722,11 @@ export async function fundMilestone(
 
 /**
  * Pay for full order (buyer action) - for service orders
+ * Returns the payment gateway redirect URL
  */
 export async function payForOrder(
   orderId: string,
-  provider: "ozow" | "payfast"
+  provider: PaymentProvider
 ): Promise<ActionResult> {
   const session = await getServerSession();
 
@@ -445,32 +754,24 @@ export async function payForOrder(
       return { success: false, error: "Order is not pending payment" };
     }
 
-    // TODO: Integrate with payment gateway
-    const now = new Date().toISOString();
-
-    // Create payment transaction
-    await db.insert(transactions).values({
-      id: generateId(),
-      orderId,
-      userId: session.userId,
-      type: "payment",
-      amount: order.totalAmount,
-      currency: "ZAR",
-      provider,
-      status: "completed",
-      createdAt: now,
-      updatedAt: now,
-      completedAt: now,
-    });
-
-    // Update order status
-    await db
-      .update(orders)
-      .set({ status: "pending_requirements", updatedAt: now })
-      .where(eq(orders.id, orderId));
+    // Creates a pending payment transaction; the order only moves to
+    // pending_requirements once the provider's verified notify webhook arrives
+    const result = await initiatePayment(
+      db,
+      {
+        orderId,
+        provider,
+        buyerEmail: session.email,
+        buyerName: session.name || undefined,
+      },
+      getBaseUrl()
+    );
+
+    if (!result.success || !result.redirectUrl) {
+      return { success: false, error: result.error || "Failed to initiate payment" };
+    }
 
-    revalidatePath(`/dashboard/orders/${orderId}`);
-    return { success: true };
+    return { success: true, orderId, redirectUrl: result.redirectUrl };
   } catch (error) {
     console.error("Pay for order error:", error);
     return { success: false, error: "Failed to process payment" };
@@ -478,18 +779,20 @@ export async function payForOrder(
 }
 
 /**
- * Submit requirements (buyer action)
+ * Submit requirements (buyer action) - answers the order's questionnaire and starts the work.
+ * Takes form data so files can be uploaded: orderId, answers (JSON array of RequirementAnswer),
+ * file:<questionId>[] for file questions, and requirements for any extra notes
  */
-export async function submitRequirements(
-  orderId: string,
-  requirements: string
-): Promise<ActionResult> {
+export async function submitRequirements(formData: FormData): Promise<ActionResult> {
   const session = await getServerSession();
 
   if (!session) {
     return { success: false, error: "You must be logged in" };
   }
 
+  const orderId = String(formData.get("orderId") || "");
+  const notes = String(formData.get("requirements") || "").trim();
+
   try {
     const { env } = await getCloudflareContext();
     const db = createDb(env.DB);
@@ -506,16 +809,60 @@ export async function submitRequirements(
       return { success: false, error: "Order is not awaiting requirements" };
     }
 
-    const now = new Date().toISOString();
+    const questions = parseRequirementsForm(order.requirementsForm);
+    const answers = sanitizeRequirementAnswers(
+      questions,
+      parseRequirementAnswers(String(formData.get("answers") || ""))
+    );
+
+    // Files are checked before anything is uploaded
+    const uploads = new Map<string, File[]>();
+    for (const question of questions.filter((q) => q.type === "file")) {
+      const files = formData
+        .getAll(`file:${question.id}`)
+        .filter((value): value is File => value instanceof File && value.size > 0);
+      const fileError = validateRequirementFiles(question, files);
+      if (fileError) {
+        return { success: false, error: fileError };
+      }
+      if (files.length > 0) uploads.set(question.id, files);
+    }
 
-    await db
-      .update(orders)
-      .set({
-        requirements,
-        status: "in_progress",
-        updatedAt: now,
-      })
-      .where(eq(orders.id, orderId));
+    const missing = getMissingRequirements(questions, answers, new Set(uploads.keys()));
+    if (missing.length > 0) {
+      return { success: false, error: `Please answer: ${missing.join(", ")}` };
+    }
+
+    if (questions.length === 0 && !notes) {
+      return { success: false, error: "Tell the seller what you need" };
+    }
+
+    for (const [questionId, files] of uploads) {
+      answers.push({ questionId, files: await storeRequirementFiles(env.FILES, order.id, files) });
+    }
+
+    await transitionOrder(db, orderId, "in_progress", {
+      actorId: session.userId,
+      note: "Requirements submitted",
+      set: {
+        requirements: notes || null,
+        requirementAnswers: answers.length > 0 ? JSON.stringify(answers) : null,
+      },
+    });
+
+    await notify(db, {
+      userId: order.sellerId,
+      type: "requirements_submitted",
+      title: "Requirements Submitted",
+      message: `The buyer submitted the requirements for order ${order.orderNumber}. You can start working on it.`,
+      entityType: "order",
+      entityId: order.id,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId: order.id,
+      },
+    });
 
     revalidatePath(`/dashboard/orders/${orderId}`);
     return { success: true };
@@ -526,7 +873,7 @@ export async function submitRequirements(
 }
 
 /**
- * Submit delivery (seller action)
+ * Submit delivery (seller action) - project orders deliver one milestone at a time
  */
 export async function submitDelivery(
   orderId: string,
@@ -551,12 +898,29 @@ export async function submitDelivery(
       return { success: false, error: "Unauthorized" };
     }
 
-    if (order.status !== "in_progress" && order.status !== "revision_requested") {
+    if (order.orderType === "project" && !milestoneId) {
+      return { success: false, error: "Select the milestone you are delivering" };
+    }
+
+    // Other milestones can be delivered while one is already waiting for the buyer
+    const alreadyDelivered = order.orderType === "project" && order.status === "delivered";
+    if (!alreadyDelivered && !canTransitionOrder(order.status, "delivered")) {
       return { success: false, error: "Order is not in progress" };
     }
 
+    const milestone = milestoneId
+      ? await db.query.milestones.findFirst({
+          where: and(eq(milestones.id, milestoneId), eq(milestones.orderId, orderId)),
+        })
+      : undefined;
+
+    if (milestoneId && (!milestone || !canTransitionMilestone(milestone.status, "delivered"))) {
+      return { success: false, error: "Milestone is not ready for delivery" };
+    }
+
     const now = new Date().toISOString();
     const deliveryId = generateId();
+    const revisionsUsed = milestone ? milestone.revisionsUsed : order.revisionsUsed;
 
     // Create delivery record
     await db.insert(orderDeliveries).values({
@@ -564,22 +928,40 @@ export async function submitDelivery(
       orderId,
       milestoneId: milestoneId || null,
       message,
-      deliveryType: order.revisionsUsed && order.revisionsUsed > 0 ? "revision" : "initial",
+      deliveryType: revisionsUsed && revisionsUsed > 0 ? "revision" : "initial",
       createdAt: now,
     });
 
-    // Update order status
+    // This delivery answers any revision the buyer asked for
     await db
-      .update(orders)
-      .set({ status: "delivered", deliveredAt: now, updatedAt: now })
-      .where(eq(orders.id, orderId));
+      .update(revisionRequests)
+      .set({ status: "accepted", respondedAt: now })
+      .where(
+        and(
+          eq(revisionRequests.orderId, orderId),
+          milestoneId ? eq(revisionRequests.milestoneId, milestoneId) : isNull(revisionRequests.milestoneId),
+          eq(revisionRequests.status, "pending")
+        )
+      );
 
-    // Update milestone if provided
     if (milestoneId) {
+      await transitionMilestone(db, milestoneId, "delivered", {
+        actorId: session.userId,
+        set: { deliveredAt: now },
+      });
+    }
+
+    // The buyer's review window runs from the latest delivery
+    if (alreadyDelivered) {
       await db
-        .update(milestones)
-        .set({ status: "delivered", deliveredAt: now, updatedAt: now })
-        .where(eq(milestones.id, milestoneId));
+        .update(orders)
+        .set({ deliveredAt: now, updatedAt: now })
+        .where(eq(orders.id, orderId));
+    } else {
+      await transitionOrder(db, orderId, "delivered", {
+        actorId: session.userId,
+        set: { deliveredAt: now },
+      });
     }
 
     // Get buyer and seller info for notification
@@ -588,16 +970,7 @@ export async function submitDelivery(
       db.query.users.findFirst({ where: eq(users.id, order.sellerId) }),
     ]);
 
-    // Get milestone title if this is a milestone delivery
-    let milestoneTitle = "Order Delivery";
-    if (milestoneId) {
-      const milestone = await db.query.milestones.findFirst({
-        where: eq(milestones.id, milestoneId),
-      });
-      if (milestone) {
-        milestoneTitle = milestone.title;
-      }
-    }
+    const milestoneTitle = milestone?.title || "Order Delivery";
 
     // Send delivery notification to buyer
     if (buyer && seller) {
@@ -647,116 +1020,24 @@ export async function acceptDelivery(
       return { success: false, error: "Order has not been delivered" };
     }
 
-    const now = new Date().toISOString();
+    if (order.orderType === "project") {
+      if (!milestoneId) {
+        return { success: false, error: "Select the milestone to accept" };
+      }
 
-    // If milestone-based (project order)
-    if (milestoneId) {
       const milestone = await db.query.milestones.findFirst({
-        where: eq(milestones.id, milestoneId),
+        where: and(eq(milestones.id, milestoneId), eq(milestones.orderId, orderId)),
       });
 
       if (!milestone || milestone.status !== "delivered") {
         return { success: false, error: "Milestone not delivered" };
       }
-
-      // Release funds for milestone
-      await db.insert(transactions).values({
-        id: generateId(),
-        orderId,
-        milestoneId,
-        userId: order.sellerId,
-        type: "escrow_release",
-        amount: milestone.amount,
-        currency: "ZAR",
-        provider: "manual",
-        status: "completed",
-        createdAt: now,
-        updatedAt: now,
-        completedAt: now,
-      });
-
-      await db
-        .update(milestones)
-        .set({ status: "released", releasedAt: now, updatedAt: now })
-        .where(eq(milestones.id, milestoneId));
-
-      // Check if all milestones are released
-      const allMilestones = await db.query.milestones.findMany({
-        where: eq(milestones.orderId, orderId),
-      });
-
-      const allReleased = allMilestones.every(
-        (m) => m.id === milestoneId || m.status === "released"
-      );
-
-      if (allReleased) {
-        await db
-          .update(orders)
-          .set({ status: "completed", completedAt: now, acceptedAt: now, updatedAt: now })
-          .where(eq(orders.id, orderId));
-      } else {
-        // Continue with next milestone
-        await db
-          .update(orders)
-          .set({ status: "in_progress", updatedAt: now })
-          .where(eq(orders.id, orderId));
-      }
-    } else {
-      // Service order - release full payment
-      await db.insert(transactions).values({
-        id: generateId(),
-        orderId,
-        userId: order.sellerId,
-        type: "escrow_release",
-        amount: order.sellerEarnings,
-        currency: "ZAR",
-        provider: "manual",
-        status: "completed",
-        createdAt: now,
-        updatedAt: now,
-        completedAt: now,
-      });
-
-      await db
-        .update(orders)
-        .set({ status: "completed", completedAt: now, acceptedAt: now, updatedAt: now })
-        .where(eq(orders.id, orderId));
     }
 
-    // Get buyer and seller info for notification
-    const [buyer, seller] = await Promise.all([
-      db.query.users.findFirst({ where: eq(users.id, order.buyerId) }),
-      db.query.users.findFirst({ where: eq(users.id, order.sellerId) }),
-    ]);
-
-    // Send notifications for milestone release or order completion
-    if (buyer && seller) {
-      if (milestoneId) {
-        const milestone = await db.query.milestones.findFirst({
-          where: eq(milestones.id, milestoneId),
-        });
-
-        if (milestone) {
-          await triggerMilestoneReleasedEmail(db, {
-            orderId: order.id,
-            orderNumber: order.orderNumber,
-            milestoneTitle: milestone.title,
-            amount: milestone.amount,
-            sellerId: seller.id,
-          });
-        }
-      } else {
-        // Order completed notification for service orders
-        await triggerOrderCompletedEmail(db, {
-          orderId: order.id,
-          orderNumber: order.orderNumber,
-          totalAmount: order.totalAmount,
-          sellerEarnings: order.sellerEarnings,
-          sellerId: seller.id,
-          buyerId: buyer.id,
-        });
-      }
-    }
+    await completeDelivery(db, order, {
+      actorId: session.userId,
+      milestoneIds: milestoneId ? [milestoneId] : undefined,
+    });
 
     revalidatePath(`/dashboard/orders/${orderId}`);
     return { success: true };
@@ -767,12 +1048,14 @@ export async function acceptDelivery(
 }
 
 /**
- * Request revision (buyer action)
+ * Request revision (buyer action) - project orders send back one delivered milestone,
+ * counted against that milestone's own revision allowance
  */
 export async function requestRevision(
   orderId: string,
   reason: string,
-  details?: string
+  details?: string,
+  milestoneId?: string
 ): Promise<ActionResult> {
   const session = await getServerSession();
 
@@ -792,20 +1075,39 @@ export async function requestRevision(
       return { success: false, error: "Unauthorized" };
     }
 
-    if (order.status !== "delivered") {
+    if (!canTransitionOrder(order.status, "revision_requested")) {
       return { success: false, error: "Order has not been delivered" };
     }
 
-    const revisionsAllowed = order.revisionsAllowed || 2;
-    const revisionsUsed = order.revisionsUsed || 0;
+    if (order.orderType === "project" && !milestoneId) {
+      return { success: false, error: "Select the milestone that needs changes" };
+    }
+
+    const milestone = milestoneId
+      ? await db.query.milestones.findFirst({
+          where: and(eq(milestones.id, milestoneId), eq(milestones.orderId, orderId)),
+        })
+      : undefined;
+
+    if (milestoneId && (!milestone || milestone.status !== "delivered")) {
+      return { success: false, error: "Milestone not delivered" };
+    }
+
+    const revisionsAllowed = (milestone ? milestone.revisionsAllowed : order.revisionsAllowed) ?? 2;
+    const revisionsUsed = (milestone ? milestone.revisionsUsed : order.revisionsUsed) || 0;
 
     if (revisionsUsed >= revisionsAllowed) {
-      return { success: false, error: "No revisions remaining" };
+      return {
+        success: false,
+        error: milestone ? `No revisions remaining on "${milestone.title}"` : "No revisions remaining",
+      };
     }
 
-    // Get latest delivery
+    // Get latest delivery (of the milestone, for project orders)
     const latestDelivery = await db.query.orderDeliveries.findFirst({
-      where: eq(orderDeliveries.orderId, orderId),
+      where: milestoneId
+        ? and(eq(orderDeliveries.orderId, orderId), eq(orderDeliveries.milestoneId, milestoneId))
+        : eq(orderDeliveries.orderId, orderId),
       orderBy: [desc(orderDeliveries.createdAt)],
     });
 
@@ -820,21 +1122,57 @@ export async function requestRevision(
       id: generateId(),
       orderId,
       deliveryId: latestDelivery.id,
+      milestoneId: milestoneId || null,
       reason,
       details: details || null,
       status: "pending",
       createdAt: now,
     });
 
-    // Update order
-    await db
-      .update(orders)
-      .set({
-        status: "revision_requested",
-        revisionsUsed: revisionsUsed + 1,
-        updatedAt: now,
-      })
-      .where(eq(orders.id, orderId));
+    if (milestone) {
+      await transitionMilestone(db, milestone.id, "in_progress", {
+        actorId: session.userId,
+        note: reason,
+        set: { revisionsUsed: revisionsUsed + 1 },
+      });
+
+      // The order waits on the seller once nothing else is left for the buyer to review
+      const stillDelivered = await db.query.milestones.findFirst({
+        where: and(eq(milestones.orderId, orderId), eq(milestones.status, "delivered")),
+      });
+
+      if (!stillDelivered) {
+        await transitionOrder(db, orderId, "revision_requested", {
+          actorId: session.userId,
+          note: `Revision requested on "${milestone.title}"`,
+        });
+      }
+    } else {
+      await transitionOrder(db, orderId, "revision_requested", {
+        actorId: session.userId,
+        note: reason,
+        set: { revisionsUsed: revisionsUsed + 1 },
+      });
+    }
+
+    await notify(db, {
+      userId: order.sellerId,
+      type: "revision_requested",
+      title: "Revision Requested",
+      message: milestone
+        ? `The buyer asked for changes to "${milestone.title}" on order ${order.orderNumber}: ${reason}`
+        : `The buyer asked for changes to order ${order.orderNumber}: ${reason}`,
+      entityType: "order",
+      entityId: orderId,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId,
+        subject: milestone ? `"${milestone.title}"` : "your delivery",
+        reason,
+        revisionsLeft: String(revisionsAllowed - revisionsUsed - 1),
+      },
+    });
 
     revalidatePath(`/dashboard/orders/${orderId}`);
     return { success: true };
@@ -876,23 +1214,57 @@ export async function cancelOrder(
       return { success: false, error: "Unauthorized" };
     }
 
-    // Only allow cancellation before work starts
-    const cancellableStatuses = ["pending_payment", "pending_requirements"];
-    if (!cancellableStatuses.includes(order.status)) {
+    // Allowed before work starts, or by the buyer once the seller has missed a deadline
+    let isLate = false;
+    if (order.status === "in_progress" && isBuyer) {
+      const orderMilestones = await db.query.milestones.findMany({
+        where: eq(milestones.orderId, orderId),
+      });
+      isLate = getMissedDeadline(order, orderMilestones) !== null;
+    }
+
+    if (
+      !isLate &&
+      (order.status === "in_progress" || !canTransitionOrder(order.status, "cancelled"))
+    ) {
       return { success: false, error: "Order cannot be cancelled at this stage" };
     }
 
-    const now = new Date().toISOString();
+    const note = isLate ? `Cancelled after a missed deadline: ${reason}` : reason;
+    const cancellation = { cancelledBy: session.userId, cancellationReason: reason };
+
+    // Paid orders are cancelled before work starts or after the seller ran late,
+    // so the buyer gets back everything still in escrow. The refund comes first so
+    // a failed one leaves the order where it was instead of cancelled but unpaid.
+    if (order.status === "pending_requirements" || isLate) {
+      const refund = await refundOrder(db, {
+        order,
+        reason: isLate ? `Order cancelled after a missed deadline: ${reason}` : `Order cancelled: ${reason}`,
+        actorId: session.userId,
+        set: cancellation,
+      });
 
-    await db
-      .update(orders)
-      .set({
-        status: "cancelled",
-        cancelledBy: session.userId,
-        cancellationReason: reason,
-        updatedAt: now,
-      })
-      .where(eq(orders.id, orderId));
+      if (!refund.success) {
+        return { success: false, error: refund.error || "Failed to refund order" };
+      }
+    } else {
+      await transitionOrder(db, orderId, "cancelled", {
+        actorId: session.userId,
+        note,
+        set: cancellation,
+      });
+    }
+
+    if (isLate) {
+      await notify(db, {
+        userId: order.sellerId,
+        type: "order_cancelled",
+        title: "Order Cancelled",
+        message: `The buyer cancelled late order ${order.orderNumber} and has been refunded.`,
+        entityType: "order",
+        entityId: orderId,
+      });
+    }
 
     revalidatePath(`/dashboard/orders/${orderId}`);
     revalidatePath("/dashboard/orders");
@@ -902,3 +1274,463 @@ export async function cancelOrder(
     return { success: false, error: "Failed to cancel order" };
   }
 }
+
+/**
+ * Ask the buyer for a later deadline on the order or one milestone (seller action)
+ */
+export async function requestDeadlineExtension(
+  orderId: string,
+  data: RequestDeadlineExtensionData
+): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const reason = data.reason.trim();
+  if (!reason) {
+    return { success: false, error: "Please explain why you need more time" };
+  }
+
+  const requested = new Date(data.requestedDeadline);
+  if (isNaN(requested.getTime()) || requested <= new Date()) {
+    return { success: false, error: "The new deadline must be in the future" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, orderId),
+    });
+
+    if (!order || order.sellerId !== session.userId) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (!EXTENDABLE_ORDER_STATUSES.includes(order.status)) {
+      return { success: false, error: "The deadline can no longer be changed" };
+    }
+
+    let currentDeadline = order.deliveryDeadline;
+    if (data.milestoneId) {
+      const milestone = await db.query.milestones.findFirst({
+        where: and(eq(milestones.id, data.milestoneId), eq(milestones.orderId, orderId)),
+      });
+
+      if (!milestone || ["released", "refunded", "cancelled"].includes(milestone.status)) {
+        return { success: false, error: "Milestone not found" };
+      }
+      currentDeadline = milestone.dueDate;
+    }
+
+    if (currentDeadline && requested <= new Date(currentDeadline)) {
+      return { success: false, error: "The new deadline must be later than the current one" };
+    }
+
+    const pending = await db.query.deadlineExtensions.findFirst({
+      where: and(eq(deadlineExtensions.orderId, orderId), eq(deadlineExtensions.status, "pending")),
+    });
+
+    if (pending) {
+      return { success: false, error: "You already have an extension request waiting for the buyer" };
+    }
+
+    const now = new Date().toISOString();
+    await db.insert(deadlineExtensions).values({
+      id: generateId(),
+      orderId,
+      milestoneId: data.milestoneId || null,
+      requestedBy: session.userId,
+      currentDeadline,
+      requestedDeadline: requested.toISOString(),
+      reason,
+      createdAt: now,
+    });
+
+    await notify(db, {
+      userId: order.buyerId,
+      type: "deadline_extension_requested",
+      title: "Extension Requested",
+      message: `The seller on order ${order.orderNumber} has asked to move the deadline to ${formatDate(requested)}.`,
+      entityType: "order",
+      entityId: orderId,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId,
+        requestedDeadline: formatDate(requested),
+        reason,
+      },
+    });
+
+    revalidatePath(`/dashboard/orders/${orderId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Request deadline extension error:", error);
+    return { success: false, error: "Failed to request extension" };
+  }
+}
+
+/**
+ * Accept or decline a deadline extension request (buyer action)
+ */
+export async function respondToDeadlineExtension(
+  extensionId: string,
+  accept: boolean,
+  note?: string
+): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const extension = await db.query.deadlineExtensions.findFirst({
+      where: eq(deadlineExtensions.id, extensionId),
+    });
+
+    if (!extension) {
+      return { success: false, error: "Extension request not found" };
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, extension.orderId),
+    });
+
+    if (!order || order.buyerId !== session.userId) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (extension.status !== "pending") {
+      return { success: false, error: "This request has already been answered" };
+    }
+
+    if (accept && !EXTENDABLE_ORDER_STATUSES.includes(order.status)) {
+      return { success: false, error: "The deadline can no longer be changed" };
+    }
+
+    const now = new Date().toISOString();
+    const updated = await db
+      .update(deadlineExtensions)
+      .set({
+        status: accept ? "accepted" : "declined",
+        responseNote: note?.trim() || null,
+        respondedAt: now,
+      })
+      .where(and(eq(deadlineExtensions.id, extensionId), eq(deadlineExtensions.status, "pending")))
+      .returning({ id: deadlineExtensions.id });
+
+    if (updated.length === 0) {
+      return { success: false, error: "This request has already been answered" };
+    }
+
+    const newDeadline = new Date(extension.requestedDeadline);
+    const formatted = formatDate(newDeadline);
+
+    if (accept) {
+      if (extension.milestoneId) {
+        await db
+          .update(milestones)
+          .set({ dueDate: extension.requestedDeadline, updatedAt: now })
+          .where(eq(milestones.id, extension.milestoneId));
+      }
+
+      // The order deadline always covers its milestones
+      if (
+        !extension.milestoneId ||
+        !order.deliveryDeadline ||
+        new Date(order.deliveryDeadline) < newDeadline
+      ) {
+        await db
+          .update(orders)
+          .set({ deliveryDeadline: extension.requestedDeadline, updatedAt: now })
+          .where(eq(orders.id, order.id));
+      }
+
+      const previous = extension.currentDeadline ? formatDate(extension.currentDeadline) : "none";
+
+      await recordOrderEvent(db, order.id, "deadline_extended", {
+        actorId: session.userId,
+        milestoneId: extension.milestoneId,
+        note: `Deadline moved from ${previous} to ${formatted}. Reason: ${extension.reason}`,
+      });
+    }
+
+    await notify(db, {
+      userId: extension.requestedBy,
+      type: "deadline_extension_responded",
+      title: accept ? "Extension Accepted" : "Extension Declined",
+      message: accept
+        ? `The buyer accepted your extension on order ${order.orderNumber}. The new deadline is ${formatted}.`
+        : `The buyer declined your extension on order ${order.orderNumber}.`,
+      entityType: "order",
+      entityId: order.id,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId: order.id,
+        outcome: accept ? `accepted. The new deadline is ${formatted}` : "declined. The original deadline still applies",
+      },
+    });
+
+    revalidatePath(`/dashboard/orders/${order.id}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Respond to deadline extension error:", error);
+    return { success: false, error: "Failed to respond to extension request" };
+  }
+}
+
+/**
+ * Propose changes to an order's unfunded milestones (buyer or seller) - the other party accepts or declines
+ */
+export async function proposeChangeOrder(
+  orderId: string,
+  data: ProposeChangeOrderData
+): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const reason = data.reason.trim();
+  if (!reason) {
+    return { success: false, error: "Please explain why the milestones need to change" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, orderId),
+    });
+
+    if (!order || (order.buyerId !== session.userId && order.sellerId !== session.userId)) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (order.orderType !== "project" || !CHANGEABLE_ORDER_STATUSES.includes(order.status)) {
+      return { success: false, error: "This order's milestones can no longer be changed" };
+    }
+
+    const pending = await db.query.changeOrders.findFirst({
+      where: and(eq(changeOrders.orderId, orderId), eq(changeOrders.status, "pending")),
+    });
+
+    if (pending) {
+      return { success: false, error: "There is already a change order waiting for an answer" };
+    }
+
+    const orderMilestones = await db.query.milestones.findMany({
+      where: eq(milestones.orderId, orderId),
+    });
+
+    const validationError = validateChangeOrder(
+      data.changes,
+      orderMilestones,
+      await getMilestonesWithPaymentInFlight(db, orderId)
+    );
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const changes = snapshotChangeOrder(data.changes, orderMilestones);
+    const proposedSubtotal = getProposedSubtotal(order, changes);
+    const now = new Date().toISOString();
+
+    await db.insert(changeOrders).values({
+      id: generateId(),
+      orderId,
+      proposedBy: session.userId,
+      changes: JSON.stringify(changes),
+      reason,
+      previousSubtotal: order.subtotal,
+      proposedSubtotal,
+      createdAt: now,
+    });
+
+    const isBuyer = order.buyerId === session.userId;
+
+    await notify(db, {
+      userId: isBuyer ? order.sellerId : order.buyerId,
+      type: "change_order_proposed",
+      title: "Change Order Proposed",
+      message: `The ${isBuyer ? "buyer" : "seller"} on order ${order.orderNumber} has proposed changes to its milestones.`,
+      entityType: "order",
+      entityId: orderId,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId,
+        proposerName: session.name || (isBuyer ? "The buyer" : "The seller"),
+        summary: describeChangeOrder(changes).join("\n"),
+        reason,
+        previousSubtotal: `R${(order.subtotal / 100).toFixed(2)}`,
+        proposedSubtotal: `R${(proposedSubtotal / 100).toFixed(2)}`,
+      },
+    });
+
+    revalidatePath(`/dashboard/orders/${orderId}`);
+    return { success: true, orderId };
+  } catch (error) {
+    console.error("Propose change order error:", error);
+    return { success: false, error: "Failed to propose change order" };
+  }
+}
+
+/**
+ * Accept or decline a change order (the party who didn't propose it)
+ */
+export async function respondToChangeOrder(
+  changeOrderId: string,
+  accept: boolean,
+  note?: string
+): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const changeOrder = await db.query.changeOrders.findFirst({
+      where: eq(changeOrders.id, changeOrderId),
+    });
+
+    if (!changeOrder) {
+      return { success: false, error: "Change order not found" };
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, changeOrder.orderId),
+    });
+
+    if (
+      !order ||
+      (order.buyerId !== session.userId && order.sellerId !== session.userId) ||
+      changeOrder.proposedBy === session.userId
+    ) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (changeOrder.status !== "pending") {
+      return { success: false, error: "This change order has already been answered" };
+    }
+
+    if (accept) {
+      if (!CHANGEABLE_ORDER_STATUSES.includes(order.status)) {
+        return { success: false, error: "This order's milestones can no longer be changed" };
+      }
+
+      // Milestones may have been funded since the proposal was made
+      const orderMilestones = await db.query.milestones.findMany({
+        where: eq(milestones.orderId, order.id),
+      });
+      const validationError = validateChangeOrder(
+        parseChangeOrder(changeOrder.changes),
+        orderMilestones,
+        await getMilestonesWithPaymentInFlight(db, order.id)
+      );
+      if (validationError) {
+        return { success: false, error: `${validationError}. Decline this change order and propose a new one.` };
+      }
+    }
+
+    const now = new Date().toISOString();
+    const updated = await db
+      .update(changeOrders)
+      .set({
+        status: accept ? "accepted" : "declined",
+        respondedBy: session.userId,
+        responseNote: note?.trim() || null,
+        respondedAt: now,
+      })
+      .where(and(eq(changeOrders.id, changeOrderId), eq(changeOrders.status, "pending")))
+      .returning({ id: changeOrders.id });
+
+    if (updated.length === 0) {
+      return { success: false, error: "This change order has already been answered" };
+    }
+
+    if (accept) {
+      await applyChangeOrder(db, order, changeOrder, session.userId);
+    }
+
+    await notify(db, {
+      userId: changeOrder.proposedBy,
+      type: "change_order_responded",
+      title: accept ? "Change Order Accepted" : "Change Order Declined",
+      message: accept
+        ? `Your change order on ${order.orderNumber} was accepted. The new subtotal is R${(changeOrder.proposedSubtotal / 100).toFixed(2)}.`
+        : `Your change order on ${order.orderNumber} was declined.`,
+      entityType: "order",
+      entityId: order.id,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId: order.id,
+        outcome: accept
+          ? `accepted. The new subtotal is R${(changeOrder.proposedSubtotal / 100).toFixed(2)}`
+          : "declined. The milestones stay as they were",
+      },
+    });
+
+    revalidatePath(`/dashboard/orders/${order.id}`);
+    return { success: true, orderId: order.id };
+  } catch (error) {
+    console.error("Respond to change order error:", error);
+    return { success: false, error: "Failed to respond to change order" };
+  }
+}
+
+/**
+ * Withdraw a change order that hasn't been answered yet (the party who proposed it)
+ */
+export async function withdrawChangeOrder(changeOrderId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const changeOrder = await db.query.changeOrders.findFirst({
+      where: eq(changeOrders.id, changeOrderId),
+    });
+
+    if (!changeOrder || changeOrder.proposedBy !== session.userId) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const updated = await db
+      .update(changeOrders)
+      .set({ status: "withdrawn", respondedAt: new Date().toISOString() })
+      .where(and(eq(changeOrders.id, changeOrderId), eq(changeOrders.status, "pending")))
+      .returning({ id: changeOrders.id });
+
+    if (updated.length === 0) {
+      return { success: false, error: "This change order has already been answered" };
+    }
+
+    revalidatePath(`/dashboard/orders/${changeOrder.orderId}`);
+    return { success: true, orderId: changeOrder.orderId };
+  } catch (error) {
+    console.error("Withdraw change order error:", error);
+    return { success: false, error: "Failed to withdraw change order" };
+  }
+}
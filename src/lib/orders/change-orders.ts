@@ -0,0 +1,268 @@
+// Change orders
+// Project scope changes after the order is placed. Either party proposes a set
+// of changes to milestones that have not been funded yet - add, remove,
+// re-price or re-date - and the other party accepts or declines. Accepting
+// applies every change at once and recomputes the order's subtotal, fees and
+// seller earnings at the order's locked-in fee rates. Funded milestones are
+// never touched: money already in escrow stays with the milestone it paid for.
+
+import { eq, and, inArray } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { orders, milestones, transactions, deadlineExtensions, projects } from "@/lib/db/schema";
+import type { Order, Milestone, ChangeOrder } from "@/lib/db/schema";
+import { recalculateOrderFees } from "@/lib/fees";
+import { transitionMilestone, recordOrderEvent } from "./state-machine";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+// Orders whose remaining milestones can still change
+export const CHANGEABLE_ORDER_STATUSES: Order["status"][] = [
+  "pending_payment",
+  "in_progress",
+  "delivered",
+  "revision_requested",
+];
+
+export interface MilestoneSnapshot {
+  title: string;
+  amount: number; // In cents
+  dueDate: string | null;
+}
+
+export type ChangeOrderInput =
+  | { action: "add"; title: string; description?: string; amount: number; dueDate?: string }
+  | { action: "remove"; milestoneId: string }
+  | { action: "update"; milestoneId: string; title?: string; amount?: number; dueDate?: string | null };
+
+// Stored with the milestone as it was when proposed, so the history reads the same later
+export type ChangeOrderItem = ChangeOrderInput & { before?: MilestoneSnapshot };
+
+function formatAmount(cents: number): string {
+  return `R ${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2 })}`;
+}
+
+function formatDate(date: string | null | undefined): string {
+  return date
+    ? new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" })
+    : "no due date";
+}
+
+export function parseChangeOrder(changes: string): ChangeOrderItem[] {
+  try {
+    return JSON.parse(changes) as ChangeOrderItem[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Unfunded milestones with a payment started but not yet confirmed - they can't change
+ * until the provider's webhook settles the payment
+ */
+export async function getMilestonesWithPaymentInFlight(
+  db: ReturnType<typeof createDb>,
+  orderId: string
+): Promise<Set<string>> {
+  const inFlight = await db.query.transactions.findMany({
+    where: and(
+      eq(transactions.orderId, orderId),
+      inArray(transactions.status, ["pending", "processing"])
+    ),
+    columns: { milestoneId: true },
+  });
+
+  return new Set(inFlight.map((t) => t.milestoneId).filter((id): id is string => !!id));
+}
+
+/**
+ * Check a set of changes against the order's milestones - returns an error message or null
+ */
+export function validateChangeOrder(
+  items: ChangeOrderInput[],
+  orderMilestones: Milestone[],
+  paymentInFlight: Set<string>
+): string | null {
+  if (items.length === 0) {
+    return "Add at least one change";
+  }
+
+  const touched = new Set<string>();
+
+  for (const item of items) {
+    if (item.action === "add") {
+      if (!item.title.trim()) return "New milestones need a title";
+      if (!Number.isInteger(item.amount) || item.amount <= 0) return `"${item.title}" needs an amount`;
+      if (item.dueDate && isNaN(new Date(item.dueDate).getTime())) return `"${item.title}" has an invalid due date`;
+      continue;
+    }
+
+    const milestone = orderMilestones.find((m) => m.id === item.milestoneId);
+    if (!milestone) return "Milestone not found";
+    if (touched.has(milestone.id)) return `"${milestone.title}" is changed more than once`;
+    touched.add(milestone.id);
+
+    if (milestone.status !== "pending") {
+      return `"${milestone.title}" has been funded and can no longer be changed`;
+    }
+    if (paymentInFlight.has(milestone.id)) {
+      return `"${milestone.title}" has a payment in progress`;
+    }
+
+    if (item.action === "update") {
+      if (item.title !== undefined && !item.title.trim()) return "Milestones need a title";
+      if (item.amount !== undefined && (!Number.isInteger(item.amount) || item.amount <= 0)) {
+        return `"${milestone.title}" needs an amount`;
+      }
+      if (item.dueDate && isNaN(new Date(item.dueDate).getTime())) {
+        return `"${milestone.title}" has an invalid due date`;
+      }
+    }
+  }
+
+  // The order must still have work left to do once the change goes through
+  const removed = new Set(items.flatMap((i) => (i.action === "remove" ? [i.milestoneId] : [])));
+  const remaining = orderMilestones.filter(
+    (m) => !removed.has(m.id) && !["released", "refunded", "cancelled"].includes(m.status)
+  );
+  if (remaining.length === 0 && !items.some((i) => i.action === "add")) {
+    return "A change order can't remove every remaining milestone - cancel the order instead";
+  }
+
+  return null;
+}
+
+/**
+ * Record each change with the milestone as it is now
+ */
+export function snapshotChangeOrder(items: ChangeOrderInput[], orderMilestones: Milestone[]): ChangeOrderItem[] {
+  return items.map((item) => {
+    if (item.action === "add") return item;
+    const milestone = orderMilestones.find((m) => m.id === item.milestoneId)!;
+    return {
+      ...item,
+      before: { title: milestone.title, amount: milestone.amount, dueDate: milestone.dueDate },
+    };
+  });
+}
+
+/**
+ * What the order subtotal becomes once the changes are applied
+ */
+export function getProposedSubtotal(order: Order, items: ChangeOrderItem[]): number {
+  return items.reduce((subtotal, item) => {
+    if (item.action === "add") return subtotal + item.amount;
+    if (item.action === "remove") return subtotal - (item.before?.amount ?? 0);
+    if (item.amount === undefined) return subtotal;
+    return subtotal + item.amount - (item.before?.amount ?? item.amount);
+  }, order.subtotal);
+}
+
+/**
+ * One line per change, for the order history and notifications
+ */
+export function describeChangeOrder(items: ChangeOrderItem[]): string[] {
+  return items.map((item) => {
+    if (item.action === "add") {
+      return `Add "${item.title}" (${formatAmount(item.amount)}, ${formatDate(item.dueDate)})`;
+    }
+
+    const title = item.before?.title || "milestone";
+    if (item.action === "remove") {
+      return `Remove "${title}" (${formatAmount(item.before?.amount ?? 0)})`;
+    }
+
+    const parts: string[] = [];
+    if (item.title !== undefined && item.title !== item.before?.title) {
+      parts.push(`rename to "${item.title}"`);
+    }
+    if (item.amount !== undefined && item.amount !== item.before?.amount) {
+      parts.push(`price ${formatAmount(item.before?.amount ?? 0)} → ${formatAmount(item.amount)}`);
+    }
+    if (item.dueDate !== undefined && item.dueDate !== item.before?.dueDate) {
+      parts.push(`due ${formatDate(item.before?.dueDate)} → ${formatDate(item.dueDate)}`);
+    }
+    return `Change "${title}": ${parts.join(", ") || "no changes"}`;
+  });
+}
+
+/**
+ * Apply an accepted change order - validate it again first with validateChangeOrder,
+ * since milestones may have been funded while the proposal was waiting
+ */
+export async function applyChangeOrder(
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  changeOrder: ChangeOrder,
+  actorId: string
+): Promise<void> {
+  const items = parseChangeOrder(changeOrder.changes);
+  const now = new Date().toISOString();
+  const note = `Change order: ${changeOrder.reason}`;
+
+  const existing = await db.query.milestones.findMany({
+    where: eq(milestones.orderId, order.id),
+  });
+  let sortOrder = Math.max(0, ...existing.map((m) => m.sortOrder ?? 0));
+
+  for (const item of items) {
+    if (item.action === "add") {
+      await db.insert(milestones).values({
+        id: generateId(),
+        orderId: order.id,
+        title: item.title.trim(),
+        description: item.description?.trim() || null,
+        amount: item.amount,
+        sortOrder: ++sortOrder,
+        dueDate: item.dueDate || null,
+        status: "pending",
+        createdAt: now,
+        updatedAt: now,
+      });
+    } else if (item.action === "remove") {
+      await transitionMilestone(db, item.milestoneId, "cancelled", { actorId, note });
+
+      // An open extension request on a removed milestone no longer means anything
+      await db
+        .update(deadlineExtensions)
+        .set({ status: "declined", responseNote: "Milestone removed by a change order", respondedAt: now })
+        .where(
+          and(eq(deadlineExtensions.milestoneId, item.milestoneId), eq(deadlineExtensions.status, "pending"))
+        );
+    } else {
+      await db
+        .update(milestones)
+        .set({
+          ...(item.title !== undefined ? { title: item.title.trim() } : {}),
+          ...(item.amount !== undefined ? { amount: item.amount } : {}),
+          ...(item.dueDate !== undefined ? { dueDate: item.dueDate } : {}),
+          updatedAt: now,
+        })
+        .where(and(eq(milestones.id, item.milestoneId), eq(milestones.status, "pending")));
+    }
+  }
+
+  const project = order.projectId
+    ? await db.query.projects.findFirst({ where: eq(projects.id, order.projectId), columns: { categoryId: true } })
+    : undefined;
+  const subtotal = getProposedSubtotal(order, items);
+  const fees = await recalculateOrderFees(db, order, subtotal, project?.categoryId);
+
+  await db
+    .update(orders)
+    .set({
+      subtotal,
+      buyerFee: fees.buyerFee,
+      sellerFee: fees.sellerFee,
+      totalAmount: fees.buyerTotal,
+      sellerEarnings: fees.sellerReceives,
+      updatedAt: now,
+    })
+    .where(eq(orders.id, order.id));
+
+  await recordOrderEvent(db, order.id, "scope_changed", {
+    actorId,
+    note: [...describeChangeOrder(items), `Subtotal ${formatAmount(order.subtotal)} → ${formatAmount(subtotal)}`].join("\n"),
+  });
+}
@@ -0,0 +1,335 @@
+// Delivery completion
+// Releases escrow for accepted work. Used when the buyer accepts a delivery,
+// by the scheduled job that completes deliveries the buyer never reviewed and
+// when an admin resolves a dispute by releasing the funds to the seller.
+
+import { eq, and, lte } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { orders, milestones, transactions } from "@/lib/db/schema";
+import type { Order, NewOrder, Milestone } from "@/lib/db/schema";
+import { allocateSellerFee } from "@/lib/fees";
+import { recordEscrowRelease, getOrderEscrowReleased } from "@/lib/ledger";
+import { issueEarningDocuments } from "@/lib/documents";
+import { notify } from "@/lib/notifications";
+import { getSettings } from "@/lib/settings";
+import { transitionOrder, transitionMilestone } from "./state-machine";
+import { triggerOrderCompletedEmail, triggerMilestoneReleasedEmail } from "./email-triggers";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CompleteDeliveryOptions {
+  actorId: string | null; // Null when completed automatically
+  milestoneIds?: string[]; // Project orders - the delivered milestones being accepted
+  note?: string;
+  set?: Omit<Partial<NewOrder>, "id" | "status">;
+}
+
+export interface AutoCompleteResult {
+  warned: number;
+  completed: number;
+  failed: number;
+}
+
+/**
+ * Release one milestone's escrow to the seller. The milestone is moved to
+ * released first, so a request racing on it fails before any money moves.
+ */
+async function releaseMilestone(
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  milestone: Milestone,
+  options: Pick<CompleteDeliveryOptions, "actorId" | "note">
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  await transitionMilestone(db, milestone.id, "released", {
+    actorId: options.actorId,
+    note: options.note,
+    from: [milestone.status],
+    set: { releasedAt: now },
+  });
+
+  const transactionId = generateId();
+  await db.insert(transactions).values({
+    id: transactionId,
+    orderId: order.id,
+    milestoneId: milestone.id,
+    userId: order.sellerId,
+    type: "escrow_release",
+    amount: milestone.amount,
+    currency: "ZAR",
+    provider: "manual",
+    status: "completed",
+    createdAt: now,
+    updatedAt: now,
+    completedAt: now,
+  });
+
+  const released = await getOrderEscrowReleased(db, order.id);
+  const sellerFee = allocateSellerFee(order, milestone.amount, released);
+
+  await recordEscrowRelease(db, {
+    order,
+    milestoneId: milestone.id,
+    transactionId,
+    amount: milestone.amount,
+    sellerFee,
+  });
+
+  await issueEarningDocuments(db, {
+    order,
+    transactionId,
+    description: `Milestone: ${milestone.title}`,
+    amount: milestone.amount,
+    sellerFee,
+  });
+
+  await triggerMilestoneReleasedEmail(db, {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    milestoneTitle: milestone.title,
+    amount: milestone.amount,
+    sellerId: order.sellerId,
+  });
+}
+
+/**
+ * Move a project order on once milestones have been released - completed when
+ * nothing is left to pay out, otherwise back to work on the next milestone
+ */
+async function advanceProjectOrder(
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  options: CompleteDeliveryOptions
+): Promise<void> {
+  const now = new Date().toISOString();
+  const allMilestones = await db.query.milestones.findMany({
+    where: eq(milestones.orderId, order.id),
+  });
+
+  if (allMilestones.every((m) => m.status === "released" || m.status === "cancelled")) {
+    await transitionOrder(db, order.id, "completed", {
+      actorId: options.actorId,
+      note: options.note,
+      set: { ...options.set, completedAt: now, acceptedAt: now },
+    });
+  } else if (!allMilestones.some((m) => m.status === "delivered")) {
+    // Continue with next milestone
+    await transitionOrder(db, order.id, "in_progress", {
+      actorId: options.actorId,
+      note: options.note,
+      set: options.set,
+    });
+  }
+}
+
+/**
+ * Release a service order's full payment to the seller. The order is moved to
+ * completed first, so a request racing on it fails before any money moves.
+ */
+async function releaseServiceOrder(
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  options: CompleteDeliveryOptions
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  await transitionOrder(db, order.id, "completed", {
+    actorId: options.actorId,
+    note: options.note,
+    from: [order.status],
+    set: { ...options.set, completedAt: now, acceptedAt: now },
+  });
+
+  const transactionId = generateId();
+  await db.insert(transactions).values({
+    id: transactionId,
+    orderId: order.id,
+    userId: order.sellerId,
+    type: "escrow_release",
+    amount: order.sellerEarnings,
+    currency: "ZAR",
+    provider: "manual",
+    status: "completed",
+    createdAt: now,
+    updatedAt: now,
+    completedAt: now,
+  });
+
+  await recordEscrowRelease(db, {
+    order,
+    transactionId,
+    amount: order.subtotal,
+    sellerFee: order.sellerFee,
+  });
+
+  await issueEarningDocuments(db, {
+    order,
+    transactionId,
+    description: `Order ${order.orderNumber}`,
+    amount: order.subtotal,
+    sellerFee: order.sellerFee,
+  });
+
+  await triggerOrderCompletedEmail(db, {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    totalAmount: order.totalAmount,
+    sellerEarnings: order.sellerEarnings,
+    sellerId: order.sellerId,
+    buyerId: order.buyerId,
+  });
+}
+
+/**
+ * Accept a delivered order (or some of its milestones) and release the escrow to the seller
+ */
+export async function completeDelivery(
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  options: CompleteDeliveryOptions
+): Promise<void> {
+  if (order.orderType !== "project") {
+    if (order.status !== "delivered") {
+      throw new Error(`Order ${order.id} is not delivered`);
+    }
+    await releaseServiceOrder(db, order, options);
+    return;
+  }
+
+  for (const milestoneId of options.milestoneIds || []) {
+    const milestone = await db.query.milestones.findFirst({
+      where: and(eq(milestones.id, milestoneId), eq(milestones.orderId, order.id)),
+    });
+
+    if (!milestone || milestone.status !== "delivered") {
+      throw new Error(`Milestone ${milestoneId} is not delivered`);
+    }
+
+    await releaseMilestone(db, order, milestone, options);
+  }
+
+  await advanceProjectOrder(db, order, options);
+}
+
+/**
+ * Release everything a dispute froze to the seller - the order and its
+ * disputed milestones move on the same way as an accepted delivery
+ */
+export async function releaseDisputedEscrow(
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  options: CompleteDeliveryOptions
+): Promise<void> {
+  if (order.status !== "disputed") {
+    throw new Error(`Order ${order.id} is not disputed`);
+  }
+
+  if (order.orderType !== "project") {
+    await releaseServiceOrder(db, order, options);
+    return;
+  }
+
+  const frozen = await db.query.milestones.findMany({
+    where: and(eq(milestones.orderId, order.id), eq(milestones.status, "disputed")),
+  });
+
+  for (const milestone of frozen) {
+    await releaseMilestone(db, order, milestone, options);
+  }
+
+  await advanceProjectOrder(db, order, options);
+}
+
+/**
+ * When a delivered order will complete automatically
+ */
+export function getAutoCompleteDate(deliveredAt: string, reviewDays: number): Date {
+  return new Date(new Date(deliveredAt).getTime() + reviewDays * DAY_MS);
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+/**
+ * Scheduled pass over delivered orders - reminds buyers as the review window
+ * closes and completes the delivery once it has passed
+ */
+export async function processDeliveryAutoCompletion(
+  db: ReturnType<typeof createDb>
+): Promise<AutoCompleteResult> {
+  const result: AutoCompleteResult = { warned: 0, completed: 0, failed: 0 };
+  const settings = await getSettings(db);
+  const reviewDays = settings.order_auto_complete_days;
+  const warningDays = Math.min(settings.order_auto_complete_warning_days, reviewDays);
+  const now = new Date();
+
+  // Everything delivered long enough ago to need a reminder or completion
+  const warnCutoff = new Date(now.getTime() - (reviewDays - warningDays) * DAY_MS);
+  const delivered = await db.query.orders.findMany({
+    where: and(eq(orders.status, "delivered"), lte(orders.deliveredAt, warnCutoff.toISOString())),
+  });
+
+  for (const order of delivered) {
+    if (!order.deliveredAt) continue;
+    const completesAt = getAutoCompleteDate(order.deliveredAt, reviewDays);
+
+    if (completesAt <= now) {
+      try {
+        const deliveredMilestones = await db.query.milestones.findMany({
+          where: and(eq(milestones.orderId, order.id), eq(milestones.status, "delivered")),
+        });
+
+        if (order.orderType === "project" && deliveredMilestones.length === 0) {
+          console.error("Auto-complete skipped - no delivered milestones on order:", order.id);
+          continue;
+        }
+
+        await completeDelivery(db, order, {
+          actorId: null,
+          milestoneIds: deliveredMilestones.map((m) => m.id),
+          note: `Accepted automatically - the buyer did not respond within ${reviewDays} days of delivery`,
+          set: { autoCompletedAt: now.toISOString() },
+        });
+        result.completed++;
+      } catch (error) {
+        console.error("Auto-complete order error:", order.id, error);
+        result.failed++;
+      }
+      continue;
+    }
+
+    // One reminder per delivery - a new delivery after a revision gets its own
+    const alreadyWarned = order.autoCompleteWarnedAt && order.autoCompleteWarnedAt >= order.deliveredAt;
+    if (warningDays === 0 || alreadyWarned) continue;
+
+    await notify(db, {
+      userId: order.buyerId,
+      type: "delivery_review_reminder",
+      title: "Review Your Delivery",
+      message: `Order ${order.orderNumber} will be accepted automatically on ${formatDate(completesAt)}. Accept it or request a revision before then.`,
+      entityType: "order",
+      entityId: order.id,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId: order.id,
+        autoCompleteDate: formatDate(completesAt),
+      },
+    });
+
+    await db
+      .update(orders)
+      .set({ autoCompleteWarnedAt: now.toISOString() })
+      .where(eq(orders.id, order.id));
+
+    result.warned++;
+  }
+
+  return result;
+}
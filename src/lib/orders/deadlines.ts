@@ -0,0 +1,134 @@
+// Delivery deadlines
+// An order is late once its delivery deadline, or the due date of a milestone
+// being worked on, has passed. The scheduled job tells both parties once per
+// missed deadline. A late order can be cancelled by the buyer for a full
+// refund, and the seller can ask for more time with an extension request.
+
+import { eq } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { orders, milestones } from "@/lib/db/schema";
+import type { Order, Milestone } from "@/lib/db/schema";
+import { notify } from "@/lib/notifications";
+import { recordOrderEvent } from "./state-machine";
+
+export interface MissedDeadline {
+  milestoneId: string | null;
+  milestoneTitle: string | null;
+  deadline: string;
+}
+
+export interface LateOrderResult {
+  flagged: number;
+}
+
+// Milestone statuses where the seller still owes the work
+const ACTIVE_MILESTONE_STATUSES: Milestone["status"][] = ["funded", "in_progress"];
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+/**
+ * The most recently missed deadline on an order that is still being worked on, or null if it is on time
+ */
+export function getMissedDeadline(
+  order: Order,
+  orderMilestones: Milestone[],
+  now: Date = new Date()
+): MissedDeadline | null {
+  if (order.status !== "in_progress") return null;
+
+  const deadlines: MissedDeadline[] = [];
+
+  if (order.deliveryDeadline) {
+    deadlines.push({ milestoneId: null, milestoneTitle: null, deadline: order.deliveryDeadline });
+  }
+
+  for (const milestone of orderMilestones) {
+    if (milestone.dueDate && ACTIVE_MILESTONE_STATUSES.includes(milestone.status)) {
+      deadlines.push({ milestoneId: milestone.id, milestoneTitle: milestone.title, deadline: milestone.dueDate });
+    }
+  }
+
+  const missed = deadlines
+    .filter((d) => new Date(d.deadline) < now)
+    .sort((a, b) => new Date(b.deadline).getTime() - new Date(a.deadline).getTime());
+
+  return missed[0] || null;
+}
+
+/**
+ * Scheduled pass over orders in progress - flags newly missed deadlines and tells both parties
+ */
+export async function processLateOrders(db: ReturnType<typeof createDb>): Promise<LateOrderResult> {
+  const result: LateOrderResult = { flagged: 0 };
+  const now = new Date();
+
+  const inProgress = await db.query.orders.findMany({
+    where: eq(orders.status, "in_progress"),
+  });
+
+  for (const order of inProgress) {
+    const orderMilestones =
+      order.orderType === "project"
+        ? await db.query.milestones.findMany({ where: eq(milestones.orderId, order.id) })
+        : [];
+
+    const missed = getMissedDeadline(order, orderMilestones, now);
+    if (!missed) continue;
+
+    // Already told about this deadline - an extension that runs out is a new one
+    if (order.lateNotifiedAt && order.lateNotifiedAt >= missed.deadline) continue;
+
+    await db
+      .update(orders)
+      .set({ lateNotifiedAt: now.toISOString() })
+      .where(eq(orders.id, order.id));
+
+    const deadline = formatDate(missed.deadline);
+    const what = missed.milestoneTitle
+      ? `Milestone "${missed.milestoneTitle}" on order ${order.orderNumber}`
+      : `Order ${order.orderNumber}`;
+
+    await recordOrderEvent(db, order.id, "deadline_missed", {
+      milestoneId: missed.milestoneId,
+      note: `Due ${deadline}`,
+    });
+
+    await notify(db, {
+      userId: order.buyerId,
+      type: "order_late",
+      title: "Order Is Late",
+      message: `${what} was due on ${deadline}. You can cancel for a full refund or give the seller more time.`,
+      entityType: "order",
+      entityId: order.id,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId: order.id,
+        deadline,
+        nextStep: "You can cancel the order for a full refund, or give the seller more time.",
+      },
+    });
+
+    await notify(db, {
+      userId: order.sellerId,
+      type: "order_late",
+      title: "Delivery Deadline Missed",
+      message: `${what} was due on ${deadline}. Deliver now or request a deadline extension - the buyer can cancel for a full refund.`,
+      entityType: "order",
+      entityId: order.id,
+      sendEmail: true,
+      emailData: {
+        orderNumber: order.orderNumber,
+        orderId: order.id,
+        deadline,
+        nextStep: "Deliver now or request a deadline extension. Until then the buyer can cancel for a full refund.",
+      },
+    });
+
+    result.flagged++;
+  }
+
+  return result;
+}
@@ -0,0 +1,98 @@
+// Order requirements
+// After paying for a service the buyer answers the questionnaire the order was
+// placed with (see @/lib/services/requirements). Answers are stored on the
+// order as JSON; uploaded files live in R2 under orders/{orderId}/requirements/
+// and are served to the parties by /api/orders.
+
+import type { R2Bucket } from "@cloudflare/workers-types";
+import type { Order } from "@/lib/db/schema";
+import { validateFiles, storeFile } from "@/lib/files";
+import {
+  REQUIREMENTS_CONFIG,
+  parseRequirementsForm,
+  parseRequirementAnswers,
+  type RequirementQuestion,
+  type RequirementAnswer,
+  type RequirementFile,
+} from "@/lib/services/requirements";
+
+/**
+ * Check the files uploaded for one question - returns an error message or null
+ */
+export function validateRequirementFiles(question: RequirementQuestion, files: File[]): string | null {
+  if (files.length > REQUIREMENTS_CONFIG.maxFilesPerQuestion) {
+    return `"${question.label}": you can upload up to ${REQUIREMENTS_CONFIG.maxFilesPerQuestion} files`;
+  }
+
+  return validateFiles(files, REQUIREMENTS_CONFIG);
+}
+
+/**
+ * Keep only what each question allows - text for text questions, known options
+ * for multiple choice. Answers to questions not on the form are dropped.
+ */
+export function sanitizeRequirementAnswers(
+  questions: RequirementQuestion[],
+  answers: RequirementAnswer[]
+): RequirementAnswer[] {
+  return questions.flatMap((question): RequirementAnswer[] => {
+    const answer = answers.find((a) => a.questionId === question.id);
+    if (!answer) return [];
+
+    if (question.type === "text") {
+      const text = (answer.text || "").trim().slice(0, REQUIREMENTS_CONFIG.maxTextLength);
+      return text ? [{ questionId: question.id, text }] : [];
+    }
+
+    if (question.type === "multiple_choice") {
+      const choices = [...new Set(answer.choices || [])].filter((c) => question.options?.includes(c));
+      const allowed = question.allowMultiple ? choices : choices.slice(0, 1);
+      return allowed.length > 0 ? [{ questionId: question.id, choices: allowed }] : [];
+    }
+
+    return [];
+  });
+}
+
+/**
+ * Upload a question's files to R2 (validate them first with validateRequirementFiles)
+ */
+export async function storeRequirementFiles(
+  bucket: R2Bucket,
+  orderId: string,
+  files: File[]
+): Promise<RequirementFile[]> {
+  const stored: RequirementFile[] = [];
+
+  for (const file of files) {
+    stored.push(await storeFile(bucket, `orders/${orderId}/requirements`, file));
+  }
+
+  return stored;
+}
+
+/**
+ * Find a file the buyer uploaded with their answers by R2 key
+ */
+export function findRequirementFile(order: Order, key: string): RequirementFile | undefined {
+  return parseRequirementAnswers(order.requirementAnswers)
+    .flatMap((answer) => answer.files || [])
+    .find((file) => file.key === key);
+}
+
+export interface RequirementResponse {
+  question: RequirementQuestion;
+  answer: RequirementAnswer | null;
+}
+
+/**
+ * Each question on the order paired with the buyer's answer, in the order they were asked
+ */
+export function getRequirementResponses(order: Order): RequirementResponse[] {
+  const answers = parseRequirementAnswers(order.requirementAnswers);
+
+  return parseRequirementsForm(order.requirementsForm).map((question) => ({
+    question,
+    answer: answers.find((a) => a.questionId === question.id) || null,
+  }));
+}
@@ -0,0 +1,277 @@
+// Order state machine
+// The only place order and milestone statuses change. Each transition is
+// checked against the tables below, applied with a conditional update (so two
+// requests racing on the same order cannot both win) and written to
+// order_events, which the order page renders as its history. Other dated
+// events (missed deadlines, extensions) go through recordOrderEvent.
+
+import { eq, and, asc } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { orders, milestones, orderEvents, users } from "@/lib/db/schema";
+import type { Order, Milestone, NewOrder, NewMilestone, OrderEvent } from "@/lib/db/schema";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+export type OrderStatus = Order["status"];
+export type MilestoneStatus = Milestone["status"];
+export type OrderEventType = OrderEvent["type"];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_payment: ["pending_requirements", "in_progress", "cancelled"],
+  pending_requirements: ["in_progress", "cancelled", "disputed", "refunded"],
+  in_progress: ["delivered", "cancelled", "disputed", "refunded"], // Buyers may cancel late orders
+  delivered: ["completed", "in_progress", "revision_requested", "disputed", "refunded"],
+  revision_requested: ["delivered", "disputed", "refunded"],
+  disputed: ["pending_requirements", "in_progress", "delivered", "revision_requested", "completed", "refunded"], // Closing without a payout restores the status before the dispute
+  cancelled: ["refunded"], // Paid orders are refunded after cancelling
+  completed: [],
+  refunded: [],
+};
+
+export const MILESTONE_TRANSITIONS: Record<MilestoneStatus, MilestoneStatus[]> = {
+  pending: ["funded", "refunded", "cancelled"], // Change orders cancel unfunded milestones
+  funded: ["in_progress", "delivered", "released", "disputed", "refunded"],
+  in_progress: ["delivered", "released", "disputed", "refunded"],
+  delivered: ["released", "in_progress", "disputed", "refunded"],
+  disputed: ["funded", "in_progress", "delivered", "released", "refunded"],
+  released: [],
+  refunded: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending_payment: "Awaiting Payment",
+  pending_requirements: "Awaiting Requirements",
+  in_progress: "In Progress",
+  delivered: "Delivered",
+  revision_requested: "Revision Requested",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  disputed: "Disputed",
+  refunded: "Refunded",
+};
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  pending: "Awaiting Funding",
+  funded: "Funded",
+  in_progress: "In Progress",
+  delivered: "Delivered",
+  released: "Released",
+  disputed: "Disputed",
+  refunded: "Refunded",
+  cancelled: "Cancelled",
+};
+
+export interface TransitionOptions<T extends { status?: string }> {
+  actorId?: string | null; // Omit for system changes (webhooks, cron)
+  note?: string;
+  from?: NonNullable<T["status"]>[]; // Only move from one of these statuses
+  set?: Omit<Partial<T>, "id" | "status">; // Other columns to update with the status
+}
+
+export interface OrderTimelineEvent {
+  id: string;
+  type: OrderEventType;
+  milestoneId: string | null;
+  milestoneTitle: string | null;
+  fromStatus: string | null;
+  toStatus: string;
+  actorId: string | null;
+  actorName: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionMilestone(from: MilestoneStatus, to: MilestoneStatus): boolean {
+  return MILESTONE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move an order to a new status. Throws if the move is not allowed from the
+ * order's current status or the order changed underneath us.
+ */
+export async function transitionOrder(
+  db: ReturnType<typeof createDb>,
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions<NewOrder> = {}
+): Promise<OrderStatus> {
+  const order = await db.query.orders.findFirst({
+    where: eq(orders.id, orderId),
+    columns: { status: true },
+  });
+
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  const from = order.status;
+  if (options.from && !options.from.includes(from)) {
+    throw new Error(`Order ${orderId} is ${from}, expected ${options.from.join(" or ")}`);
+  }
+  if (!canTransitionOrder(from, to)) {
+    throw new Error(`Order ${orderId} cannot move from ${from} to ${to}`);
+  }
+
+  const now = new Date().toISOString();
+  const updated = await db
+    .update(orders)
+    .set({ ...options.set, status: to, updatedAt: now })
+    .where(and(eq(orders.id, orderId), eq(orders.status, from)))
+    .returning({ id: orders.id });
+
+  if (updated.length === 0) {
+    throw new Error(`Order ${orderId} changed status while moving to ${to}`);
+  }
+
+  await db.insert(orderEvents).values({
+    id: generateId(),
+    orderId,
+    fromStatus: from,
+    toStatus: to,
+    actorId: options.actorId || null,
+    note: options.note || null,
+    createdAt: now,
+  });
+
+  return from;
+}
+
+/**
+ * Move a milestone to a new status - same rules as transitionOrder
+ */
+export async function transitionMilestone(
+  db: ReturnType<typeof createDb>,
+  milestoneId: string,
+  to: MilestoneStatus,
+  options: TransitionOptions<NewMilestone> = {}
+): Promise<MilestoneStatus> {
+  const milestone = await db.query.milestones.findFirst({
+    where: eq(milestones.id, milestoneId),
+    columns: { status: true, orderId: true },
+  });
+
+  if (!milestone) {
+    throw new Error(`Milestone ${milestoneId} not found`);
+  }
+
+  const from = milestone.status;
+  if (options.from && !options.from.includes(from)) {
+    throw new Error(`Milestone ${milestoneId} is ${from}, expected ${options.from.join(" or ")}`);
+  }
+  if (!canTransitionMilestone(from, to)) {
+    throw new Error(`Milestone ${milestoneId} cannot move from ${from} to ${to}`);
+  }
+
+  const now = new Date().toISOString();
+  const updated = await db
+    .update(milestones)
+    .set({ ...options.set, status: to, updatedAt: now })
+    .where(and(eq(milestones.id, milestoneId), eq(milestones.status, from)))
+    .returning({ id: milestones.id });
+
+  if (updated.length === 0) {
+    throw new Error(`Milestone ${milestoneId} changed status while moving to ${to}`);
+  }
+
+  await db.insert(orderEvents).values({
+    id: generateId(),
+    orderId: milestone.orderId,
+    milestoneId,
+    fromStatus: from,
+    toStatus: to,
+    actorId: options.actorId || null,
+    note: options.note || null,
+    createdAt: now,
+  });
+
+  return from;
+}
+
+/**
+ * Start an order's history - called once when the order row is inserted
+ */
+export async function recordOrderCreated(
+  db: ReturnType<typeof createDb>,
+  orderId: string,
+  actorId: string
+): Promise<void> {
+  await db.insert(orderEvents).values({
+    id: generateId(),
+    orderId,
+    fromStatus: null,
+    toStatus: "pending_payment",
+    actorId,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Add something other than a status change to an order's history
+ */
+export async function recordOrderEvent(
+  db: ReturnType<typeof createDb>,
+  orderId: string,
+  type: Exclude<OrderEventType, "status_change">,
+  options: { actorId?: string | null; milestoneId?: string | null; note?: string } = {}
+): Promise<void> {
+  const order = await db.query.orders.findFirst({
+    where: eq(orders.id, orderId),
+    columns: { status: true },
+  });
+
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  await db.insert(orderEvents).values({
+    id: generateId(),
+    orderId,
+    milestoneId: options.milestoneId || null,
+    type,
+    fromStatus: order.status,
+    toStatus: order.status,
+    actorId: options.actorId || null,
+    note: options.note || null,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * An order's status history, oldest first, with actor names and milestone titles
+ */
+export async function getOrderTimeline(
+  db: ReturnType<typeof createDb>,
+  orderId: string
+): Promise<OrderTimelineEvent[]> {
+  const rows = await db
+    .select({
+      event: orderEvents,
+      actorName: users.name,
+      milestoneTitle: milestones.title,
+    })
+    .from(orderEvents)
+    .leftJoin(users, eq(orderEvents.actorId, users.id))
+    .leftJoin(milestones, eq(orderEvents.milestoneId, milestones.id))
+    .where(eq(orderEvents.orderId, orderId))
+    .orderBy(asc(orderEvents.createdAt));
+
+  return rows.map(({ event, actorName, milestoneTitle }) => ({
+    id: event.id,
+    type: event.type,
+    milestoneId: event.milestoneId,
+    milestoneTitle,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    actorId: event.actorId,
+    actorName,
+    note: event.note,
+    createdAt: event.createdAt,
+  }));
+}
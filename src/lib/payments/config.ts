@@ -1,13 +1,17 @@
-// Payment gateway configuration for OZOW and PayFast
+// Payment gateway configuration for OZOW, PayFast and the local sandbox
 // All amounts are in ZAR cents
 
 export const PAYMENT_CONFIG = {
   currency: "ZAR",
   currencyCode: "ZA",
   
-  // Fee structure
-  buyerFeePercent: 0.03, // 3%
-  sellerFeePercent: 0.08, // 8%
+  // Fee rates live in the fee schedule - see @/lib/fees
+  
+  // Released seller earnings are held this long before they can be paid out
+  clearanceDays: 7,
+  
+  // Smallest withdrawal a seller can request
+  minPayoutAmount: 10000, // R100 in cents
   
   // Minimum/maximum amounts
   minAmount: 5000, // R50 in cents
@@ -15,6 +19,11 @@ export const PAYMENT_CONFIG = {
   
   // Webhook signature validation
   webhookTimeout: 300, // 5 minutes
+  
+  // Reconciliation - pending payments older than this are checked with the provider
+  reconcileAfterMinutes: 30,
+  // Payments the provider still has no record of after this are marked failed
+  reconcileExpireHours: 48,
 } as const;
 
 // OZOW Configuration
@@ -50,6 +59,9 @@ export const PAYFAST_CONFIG = {
   merchantKey: process.env.PAYFAST_MERCHANT_KEY || "",
   passphrase: process.env.PAYFAST_PASSPHRASE || "",
   
+  // Merchant API (refunds, transaction queries)
+  apiUrl: process.env.PAYFAST_API_URL || "https://api.payfast.co.za",
+  
   // Test mode
   isTest: process.env.PAYFAST_SANDBOX === "true",
   
@@ -59,8 +71,22 @@ export const PAYFAST_CONFIG = {
   notifyUrl: "/api/payments/payfast/notify",
 } as const;
 
+// Sandbox Configuration - simulated gateway for local development
+export const SANDBOX_CONFIG = {
+  // Never enabled in production unless explicitly switched on
+  enabled: process.env.PAYMENT_SANDBOX === "true" || process.env.NODE_ENV === "development",
+
+  // Shared secret used to sign simulated webhooks
+  secret: process.env.PAYMENT_SANDBOX_SECRET || "sandbox-secret",
+
+  // URLs
+  checkoutUrl: "/payments/sandbox",
+  completeUrl: "/api/payments/sandbox/complete",
+  notifyUrl: "/api/payments/sandbox/notify",
+} as const;
+
 // Payment types
-export type PaymentProvider = "ozow" | "payfast";
+export type PaymentProvider = "ozow" | "payfast" | "sandbox";
 
 export interface PaymentRequest {
   orderId: string;
@@ -80,6 +106,61 @@ export interface PaymentResult {
   error?: string;
 }
 
+export interface RefundRequest {
+  providerTransactionId: string; // Provider's ID for the original payment
+  amount: number; // In cents
+  reason: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  providerReference?: string;
+  // Provider has no refund API - finance pays the buyer back by EFT
+  manual?: boolean;
+  error?: string;
+}
+
+export type PaymentStatus = "success" | "failed" | "cancelled" | "pending";
+
+// A provider notification, normalised to our reference and cents
+export interface PaymentNotification {
+  provider: PaymentProvider;
+  reference: string; // Our payment reference
+  transactionId: string; // Provider's transaction ID
+  amount?: number; // In cents - absent when the provider did not report it
+  status: PaymentStatus;
+  message?: string;
+  token?: string; // Recurring billing token - set on subscription payments
+}
+
+export interface PaymentStatusResult {
+  success: boolean;
+  found?: boolean; // false when the provider has no record of the reference
+  status?: PaymentStatus;
+  transactionId?: string;
+  amount?: number; // In cents
+  error?: string;
+}
+
+/**
+ * Everything the platform needs from a payment gateway. New gateways are added
+ * by implementing this and registering it in providers.ts.
+ */
+export interface PaymentProviderAdapter {
+  id: PaymentProvider;
+  name: string;
+  isConfigured: () => boolean;
+  // Start a payment - returns the URL to send the buyer to
+  createPayment: (request: PaymentRequest, baseUrl: string) => Promise<PaymentResult>;
+  verifyWebhook: (
+    body: Record<string, string>,
+    context: { sourceIp: string }
+  ) => Promise<{ valid: boolean; error?: string }>;
+  parseWebhook: (body: Record<string, string>) => PaymentNotification;
+  queryStatus: (reference: string) => Promise<PaymentStatusResult>;
+  refund: (request: RefundRequest) => Promise<RefundResult>;
+}
+
 export interface WebhookPayload {
   provider: PaymentProvider;
   transactionId: string;
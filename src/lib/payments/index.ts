@@ -1,12 +1,21 @@
 // Unified Payment Service
-// Handles OZOW and PayFast payments
+// Provider-agnostic - gateways are looked up through the adapter registry
 
 import { eq } from "drizzle-orm";
 import { createDb } from "@/lib/db";
 import { orders, milestones, transactions, users } from "@/lib/db/schema";
-import { createOzowPayment } from "./ozow";
-import { createPayFastPayment } from "./payfast";
+import { getPaymentProvider } from "./providers";
 import { triggerPaymentReceivedEmail, triggerMilestoneReleasedEmail } from "@/lib/orders/email-triggers";
+import { recordPaymentReceived } from "@/lib/ledger";
+import { notify } from "@/lib/notifications";
+import { issueOrderPaymentDocuments } from "@/lib/documents";
+import {
+  canTransitionOrder,
+  canTransitionMilestone,
+  transitionOrder,
+  transitionMilestone,
+} from "@/lib/orders/state-machine";
+import { withProviderTransactionId } from "./metadata";
 import type { PaymentProvider, PaymentRequest, PaymentResult } from "./config";
 
 function generateId(): string {
@@ -35,6 +44,12 @@ export async function initiatePayment(
   input: InitiatePaymentInput,
   baseUrl: string
 ): Promise<PaymentResult> {
+  const provider = getPaymentProvider(input.provider);
+
+  if (!provider) {
+    return { success: false, error: "Invalid payment provider" };
+  }
+
   // Get order
   const order = await db.query.orders.findFirst({
     where: eq(orders.id, input.orderId),
@@ -105,16 +120,7 @@ export async function initiatePayment(
     provider: input.provider,
   };
 
-  // Route to appropriate provider
-  let result: PaymentResult;
-
-  if (input.provider === "ozow") {
-    result = await createOzowPayment(paymentRequest, baseUrl);
-  } else if (input.provider === "payfast") {
-    result = await createPayFastPayment(paymentRequest, baseUrl);
-  } else {
-    return { success: false, error: "Invalid payment provider" };
-  }
+  const result = await provider.createPayment(paymentRequest, baseUrl);
 
   // Update transaction with result
   if (!result.success) {
@@ -161,12 +167,12 @@ export async function handlePaymentSuccess(
     return { success: true };
   }
 
-  // Update transaction status
+  // Update transaction status - keep our reference so later notifications still match
   await db
     .update(transactions)
     .set({
       status: "completed",
-      providerReference: data.providerTransactionId,
+      metadata: withProviderTransactionId(existingTransaction, data.providerTransactionId),
       completedAt: now,
       updatedAt: now,
     })
@@ -181,6 +187,14 @@ export async function handlePaymentSuccess(
     return { success: false, error: "Order not found" };
   }
 
+  // Post the payment to the escrow ledger
+  await recordPaymentReceived(db, {
+    order,
+    milestoneId: data.milestoneId,
+    transactionId: existingTransaction.id,
+    amount: existingTransaction.amount,
+  });
+
   // Get buyer and seller info
   const [buyer, seller] = await Promise.all([
     db.query.users.findFirst({ where: eq(users.id, order.buyerId) }),
@@ -193,24 +207,17 @@ export async function handlePaymentSuccess(
       where: eq(milestones.id, data.milestoneId),
     });
 
-    await db
-      .update(milestones)
-      .set({
-        status: "funded",
-        fundedAt: now,
-        updatedAt: now,
-      })
-      .where(eq(milestones.id, data.milestoneId));
+    // The money is in escrow either way - a milestone that moved on while the
+    // payment was pending is left for support to refund
+    if (milestone && canTransitionMilestone(milestone.status, "funded")) {
+      await transitionMilestone(db, milestone.id, "funded", { set: { fundedAt: now } });
+    } else {
+      console.error("Milestone payment received for milestone not awaiting funding:", data.milestoneId);
+    }
 
     // Check if this is the first milestone - start the order
     if (order.status === "pending_payment") {
-      await db
-        .update(orders)
-        .set({
-          status: "in_progress",
-          updatedAt: now,
-        })
-        .where(eq(orders.id, data.orderId));
+      await transitionOrder(db, order.id, "in_progress", { note: "First milestone funded" });
     }
 
     // Send milestone funded notification
@@ -223,15 +230,34 @@ export async function handlePaymentSuccess(
         sellerId: seller.id,
       });
     }
+
+    await issueOrderPaymentDocuments(db, {
+      order,
+      transaction: existingTransaction,
+      description: `Milestone: ${milestone?.title || "Milestone payment"}`,
+    });
   } else {
-    // Full order payment - update order status
-    await db
-      .update(orders)
-      .set({
-        status: "pending_requirements",
-        updatedAt: now,
-      })
-      .where(eq(orders.id, data.orderId));
+    // Full order payment - an order cancelled while the payment was pending stays cancelled
+    if (canTransitionOrder(order.status, "pending_requirements")) {
+      await transitionOrder(db, order.id, "pending_requirements", { note: "Payment received" });
+
+      // The seller can't start until the buyer has answered the service's questions
+      await notify(db, {
+        userId: order.buyerId,
+        type: "requirements_needed",
+        title: "Submit Your Requirements",
+        message: `Payment for order ${order.orderNumber} went through. Tell the seller what you need so they can start.`,
+        entityType: "order",
+        entityId: order.id,
+        sendEmail: true,
+        emailData: {
+          orderNumber: order.orderNumber,
+          orderId: order.id,
+        },
+      });
+    } else {
+      console.error("Order payment received for order in status:", order.status, order.id);
+    }
 
     // Send payment received notification
     if (buyer && seller) {
@@ -242,6 +268,12 @@ export async function handlePaymentSuccess(
         sellerId: seller.id,
       });
     }
+
+    await issueOrderPaymentDocuments(db, {
+      order,
+      transaction: existingTransaction,
+      description: `Order ${order.orderNumber}`,
+    });
   }
 
   return { success: true };
@@ -299,3 +331,7 @@ export async function getPaymentStatus(
 export * from "./config";
 export * from "./ozow";
 export * from "./payfast";
+export * from "./sandbox";
+export * from "./providers";
+export * from "./refunds";
+export { getProviderTransactionId } from "./metadata";
@@ -0,0 +1,29 @@
+// Helpers for provider data kept in transactions.metadata (JSON)
+import type { Transaction } from "@/lib/db/schema";
+
+function parseMetadata(transaction: Transaction): Record<string, unknown> {
+  if (!transaction.metadata) return {};
+  try {
+    return JSON.parse(transaction.metadata) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get the provider's own ID for a transaction (stored once the payment is confirmed)
+ */
+export function getProviderTransactionId(transaction: Transaction): string | null {
+  const value = parseMetadata(transaction).providerTransactionId;
+  return typeof value === "string" && value ? value : null;
+}
+
+/**
+ * Merge the provider's transaction ID into existing metadata
+ */
+export function withProviderTransactionId(
+  transaction: Transaction,
+  providerTransactionId: string
+): string {
+  return JSON.stringify({ ...parseMetadata(transaction), providerTransactionId });
+}
@@ -1,7 +1,13 @@
 // OZOW Instant EFT Integration
 // Documentation: https://docs.ozow.com/
 
-import { OZOW_CONFIG, type PaymentRequest, type PaymentResult } from "./config";
+import {
+  OZOW_CONFIG,
+  type PaymentProviderAdapter,
+  type PaymentRequest,
+  type PaymentResult,
+  type PaymentStatusResult,
+} from "./config";
 
 /**
  * Generate OZOW hash for request verification
@@ -174,21 +180,23 @@ export function parseOzowWebhook(body: Record<string, string>): {
 
 /**
  * Get OZOW transaction status via API
+ * Looks up by our transaction reference; OZOW returns every attempt made against it
  */
 export async function getOzowTransactionStatus(
-  transactionId: string
-): Promise<{
-  success: boolean;
-  status?: string;
-  error?: string;
-}> {
+  transactionReference: string
+): Promise<PaymentStatusResult> {
   try {
     if (!OZOW_CONFIG.apiKey) {
       return { success: false, error: "OZOW API key not configured" };
     }
 
+    const query = new URLSearchParams({
+      siteCode: OZOW_CONFIG.siteCode,
+      transactionReference,
+    });
+
     const response = await fetch(
-      `${OZOW_CONFIG.baseUrl}/GetTransactionByReference?siteCode=${OZOW_CONFIG.siteCode}&transactionReference=${transactionId}`,
+      `${OZOW_CONFIG.baseUrl}/GetTransactionByReference?${query.toString()}`,
       {
         headers: {
           Accept: "application/json",
@@ -201,13 +209,47 @@ export async function getOzowTransactionStatus(
       return { success: false, error: "Failed to fetch transaction status" };
     }
 
-    const data = (await response.json()) as { status?: string };
+    type OzowTransaction = { transactionId?: string; status?: string; amount?: number | string };
+    const data = (await response.json()) as OzowTransaction | OzowTransaction[];
+    const attempts = Array.isArray(data) ? data : [data];
+
+    if (attempts.length === 0 || !attempts[0]?.status) {
+      return { success: true, found: false };
+    }
+
+    // A completed attempt wins over earlier abandoned ones
+    const attempt = attempts.find((t) => t.status === "Complete") || attempts[attempts.length - 1];
+    const parsed = parseOzowWebhook({
+      TransactionId: attempt.transactionId || "",
+      TransactionReference: transactionReference,
+      Amount: String(attempt.amount ?? "0"),
+      Status: attempt.status || "",
+    });
+
     return {
       success: true,
-      status: data.status,
+      found: true,
+      status: parsed.status,
+      transactionId: parsed.transactionId,
+      amount: parsed.amount,
     };
   } catch (error) {
     console.error("OZOW status check error:", error);
     return { success: false, error: "Failed to check transaction status" };
   }
 }
+
+export const ozowProvider: PaymentProviderAdapter = {
+  id: "ozow",
+  name: "Instant EFT (OZOW)",
+  isConfigured: () => !!(OZOW_CONFIG.siteCode && OZOW_CONFIG.privateKey),
+  createPayment: createOzowPayment,
+  verifyWebhook: async (body) => {
+    const valid = await verifyOzowWebhook(body);
+    return valid ? { valid } : { valid, error: "Invalid signature" };
+  },
+  parseWebhook: (body) => ({ provider: "ozow", ...parseOzowWebhook(body) }),
+  queryStatus: getOzowTransactionStatus,
+  // Instant EFT - OZOW has no card-style reversal, finance refunds by EFT
+  refund: async () => ({ success: true, manual: true }),
+};
@@ -1,7 +1,15 @@
 // PayFast Card Payment Integration
 // Documentation: https://developers.payfast.co.za/
 
-import { PAYFAST_CONFIG, type PaymentRequest, type PaymentResult } from "./config";
+import {
+  PAYFAST_CONFIG,
+  type PaymentProviderAdapter,
+  type PaymentRequest,
+  type PaymentResult,
+  type PaymentStatusResult,
+  type RefundRequest,
+  type RefundResult,
+} from "./config";
 
 /**
  * MD5 implementation for PayFast signatures
@@ -191,13 +199,26 @@ function generateSignature(params: Record<string, string>): string {
   return md5(dataToHash);
 }
 
+// PayFast frequency codes for recurring billing
+const PAYFAST_FREQUENCIES = {
+  monthly: "3",
+  annual: "6",
+} as const;
+
+export interface PayFastRecurringOptions {
+  frequency: keyof typeof PAYFAST_FREQUENCIES;
+  billingDate?: string; // YYYY-MM-DD of the first charge, defaults to today
+}
+
 /**
  * Create PayFast payment form data
- * Returns HTML form that auto-submits to PayFast
+ * Returns HTML form that auto-submits to PayFast. Pass `recurring` to set up
+ * a subscription - PayFast then charges the card every period until cancelled.
  */
 export async function createPayFastPayment(
   request: PaymentRequest,
-  baseUrl: string
+  baseUrl: string,
+  recurring?: PayFastRecurringOptions
 ): Promise<PaymentResult> {
   try {
     if (!PAYFAST_CONFIG.merchantId || !PAYFAST_CONFIG.merchantKey) {
@@ -245,6 +266,14 @@ export async function createPayFastPayment(
       payment_method: "",
     };
 
+    if (recurring) {
+      params.subscription_type = "1";
+      params.billing_date = recurring.billingDate || new Date().toISOString().slice(0, 10);
+      params.recurring_amount = amountInRands;
+      params.frequency = PAYFAST_FREQUENCIES[recurring.frequency];
+      params.cycles = "0"; // Until cancelled
+    }
+
     // Generate signature
     const signature = generateSignature(params);
     params.signature = signature;
@@ -353,6 +382,7 @@ export function parsePayFastITN(body: Record<string, string>): {
   amount: number;
   status: "success" | "failed" | "cancelled" | "pending";
   paymentMethod: string;
+  token: string | null;
 } {
   const statusMap: Record<string, "success" | "failed" | "cancelled" | "pending"> = {
     COMPLETE: "success",
@@ -373,6 +403,7 @@ export function parsePayFastITN(body: Record<string, string>): {
     amount: amountInCents,
     status: statusMap[body.payment_status] || "failed",
     paymentMethod: body.payment_method || "unknown",
+    token: body.token || null,
   };
 }
 
@@ -412,3 +443,213 @@ export async function generatePayFastForm(
 
   return { success: true, html: formHtml };
 }
+
+/**
+ * Generate PayFast merchant API signature
+ * Unlike form signatures, the passphrase is sorted in with the other fields
+ */
+function generateApiSignature(params: Record<string, string>): string {
+  const withPassphrase = PAYFAST_CONFIG.passphrase
+    ? { ...params, passphrase: PAYFAST_CONFIG.passphrase }
+    : params;
+
+  const queryString = Object.keys(withPassphrase)
+    .sort()
+    .map(key => `${key}=${encodeURIComponent(withPassphrase[key]).replace(/%20/g, "+")}`)
+    .join("&");
+
+  return md5(queryString);
+}
+
+/**
+ * Refund a PayFast payment (full or partial) via the merchant API
+ */
+export async function refundPayFastPayment(
+  request: RefundRequest
+): Promise<RefundResult> {
+  try {
+    if (!PAYFAST_CONFIG.merchantId || !PAYFAST_CONFIG.passphrase) {
+      return { success: false, error: "PayFast not configured" };
+    }
+
+    const headers: Record<string, string> = {
+      "merchant-id": PAYFAST_CONFIG.merchantId,
+      version: "v1",
+      timestamp: new Date().toISOString().slice(0, 19),
+    };
+    const body: Record<string, string> = {
+      amount: String(request.amount), // Refund API takes cents
+      reason: request.reason.slice(0, 255),
+    };
+
+    const signature = generateApiSignature({ ...headers, ...body });
+    const testing = PAYFAST_CONFIG.isTest ? "?testing=true" : "";
+
+    const response = await fetch(
+      `${PAYFAST_CONFIG.apiUrl}/refunds/${request.providerTransactionId}${testing}`,
+      {
+        method: "POST",
+        headers: {
+          ...headers,
+          signature,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams(body).toString(),
+      }
+    );
+
+    const data = (await response.json()) as {
+      status?: string;
+      data?: { response?: boolean | string; message?: string };
+    };
+
+    if (!response.ok || data.status !== "success") {
+      return { success: false, error: data.data?.message || "PayFast refund failed" };
+    }
+
+    return { success: true, providerReference: request.providerTransactionId };
+  } catch (error) {
+    console.error("PayFast refund error:", error);
+    return { success: false, error: "Failed to submit PayFast refund" };
+  }
+}
+
+/**
+ * Query a PayFast payment by our reference (m_payment_id) via the merchant API
+ */
+export async function queryPayFastPayment(
+  reference: string
+): Promise<PaymentStatusResult> {
+  try {
+    if (!PAYFAST_CONFIG.merchantId || !PAYFAST_CONFIG.passphrase) {
+      return { success: false, error: "PayFast not configured" };
+    }
+
+    const headers: Record<string, string> = {
+      "merchant-id": PAYFAST_CONFIG.merchantId,
+      version: "v1",
+      timestamp: new Date().toISOString().slice(0, 19),
+    };
+
+    const signature = generateApiSignature(headers);
+    const testing = PAYFAST_CONFIG.isTest ? "?testing=true" : "";
+
+    const response = await fetch(
+      `${PAYFAST_CONFIG.apiUrl}/process/query/${encodeURIComponent(reference)}${testing}`,
+      { headers: { ...headers, signature } }
+    );
+
+    if (response.status === 404) {
+      return { success: true, found: false };
+    }
+
+    if (!response.ok) {
+      return { success: false, error: "Failed to query PayFast payment" };
+    }
+
+    const data = (await response.json()) as {
+      data?: {
+        response?: {
+          status?: string;
+          payment_status?: string;
+          pf_payment_id?: string;
+          amount_gross?: string;
+        };
+      };
+    };
+
+    const payment = data.data?.response;
+    const paymentStatus = payment?.payment_status || payment?.status;
+
+    if (!payment || !paymentStatus) {
+      return { success: true, found: false };
+    }
+
+    const parsed = parsePayFastITN({
+      payment_status: paymentStatus,
+      pf_payment_id: payment.pf_payment_id || "",
+      m_payment_id: reference,
+      amount_gross: payment.amount_gross || "0",
+    });
+
+    return {
+      success: true,
+      found: true,
+      status: parsed.status,
+      transactionId: parsed.transactionId,
+      amount: parsed.amount,
+    };
+  } catch (error) {
+    console.error("PayFast query error:", error);
+    return { success: false, error: "Failed to query PayFast payment" };
+  }
+}
+
+/**
+ * Cancel a PayFast subscription so the card is not charged again
+ */
+export async function cancelPayFastSubscription(
+  token: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!PAYFAST_CONFIG.merchantId || !PAYFAST_CONFIG.passphrase) {
+      return { success: false, error: "PayFast not configured" };
+    }
+
+    const headers: Record<string, string> = {
+      "merchant-id": PAYFAST_CONFIG.merchantId,
+      version: "v1",
+      timestamp: new Date().toISOString().slice(0, 19),
+    };
+
+    const signature = generateApiSignature(headers);
+    const testing = PAYFAST_CONFIG.isTest ? "?testing=true" : "";
+
+    const response = await fetch(
+      `${PAYFAST_CONFIG.apiUrl}/subscriptions/${encodeURIComponent(token)}/cancel${testing}`,
+      { method: "PUT", headers: { ...headers, signature } }
+    );
+
+    const data = (await response.json().catch(() => ({}))) as {
+      status?: string;
+      data?: { response?: boolean | string; message?: string };
+    };
+
+    if (!response.ok || data.status !== "success") {
+      return { success: false, error: data.data?.message || "PayFast cancellation failed" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("PayFast subscription cancel error:", error);
+    return { success: false, error: "Failed to cancel PayFast subscription" };
+  }
+}
+
+/**
+ * PayFast page where a subscriber can replace the card used for renewals
+ */
+export function getPayFastCardUpdateUrl(token: string, returnUrl: string): string {
+  return `${PAYFAST_CONFIG.baseUrl}/eng/recurring/update/${encodeURIComponent(token)}?return=${encodeURIComponent(returnUrl)}`;
+}
+
+export const payfastProvider: PaymentProviderAdapter = {
+  id: "payfast",
+  name: "Card Payment (PayFast)",
+  isConfigured: () => !!(PAYFAST_CONFIG.merchantId && PAYFAST_CONFIG.merchantKey),
+  createPayment: createPayFastPayment,
+  verifyWebhook: (body, context) => verifyPayFastITN(body, context.sourceIp),
+  parseWebhook: (body) => {
+    const itn = parsePayFastITN(body);
+    return {
+      provider: "payfast",
+      reference: itn.reference,
+      transactionId: itn.transactionId,
+      amount: itn.amount,
+      status: itn.status,
+      token: itn.token || undefined,
+    };
+  },
+  queryStatus: queryPayFastPayment,
+  refund: refundPayFastPayment,
+};
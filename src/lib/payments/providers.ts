@@ -0,0 +1,36 @@
+// Payment provider registry
+// Maps a provider ID to its adapter so callers never branch on the gateway.
+
+import { ozowProvider } from "./ozow";
+import { payfastProvider } from "./payfast";
+import { sandboxProvider } from "./sandbox";
+import { SANDBOX_CONFIG, type PaymentProvider, type PaymentProviderAdapter } from "./config";
+
+const PAYMENT_PROVIDERS: Record<PaymentProvider, PaymentProviderAdapter> = {
+  ozow: ozowProvider,
+  payfast: payfastProvider,
+  sandbox: sandboxProvider,
+};
+
+function isEnabled(id: PaymentProvider): boolean {
+  return id !== "sandbox" || SANDBOX_CONFIG.enabled;
+}
+
+/**
+ * Get the adapter for a provider, or null if it is unknown or disabled
+ */
+export function getPaymentProvider(id: string): PaymentProviderAdapter | null {
+  if (!Object.hasOwn(PAYMENT_PROVIDERS, id)) return null;
+
+  const provider = id as PaymentProvider;
+  return isEnabled(provider) ? PAYMENT_PROVIDERS[provider] : null;
+}
+
+/**
+ * Providers buyers can choose from at checkout
+ */
+export function getAvailablePaymentProviders(): { id: PaymentProvider; name: string }[] {
+  return (Object.keys(PAYMENT_PROVIDERS) as PaymentProvider[])
+    .filter(isEnabled)
+    .map((id) => ({ id, name: PAYMENT_PROVIDERS[id].name }));
+}
@@ -0,0 +1,204 @@
+// Payment Reconciliation
+// Finds payments stuck in pending/processing (usually a lost webhook), asks the
+// provider what happened and applies the answer through the webhook pipeline,
+// so reconciliation gets the same dedupe and amount checks as live notifications.
+
+import { eq, and, inArray, lte, desc } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { transactions, reconciliationRuns } from "@/lib/db/schema";
+import type { Transaction, ReconciliationRun } from "@/lib/db/schema";
+import { handlePaymentFailure } from "./index";
+import { getPaymentProvider } from "./providers";
+import { processPaymentNotification } from "./webhooks";
+import { PAYMENT_CONFIG } from "./config";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+// Max transactions checked per run - keeps cron invocations short
+const BATCH_SIZE = 50;
+
+export type ReconciliationAction = "completed" | "failed" | "unchanged" | "error";
+
+export interface ReconciliationResult {
+  transactionId: string;
+  reference: string | null;
+  provider: string;
+  amount: number;
+  action: ReconciliationAction;
+  providerStatus?: string;
+  message?: string;
+}
+
+/**
+ * Find payments that have been waiting on the provider for too long
+ */
+export async function findStuckTransactions(
+  db: ReturnType<typeof createDb>,
+  olderThanMinutes: number = PAYMENT_CONFIG.reconcileAfterMinutes
+): Promise<Transaction[]> {
+  const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000).toISOString();
+
+  return db.query.transactions.findMany({
+    where: and(
+      inArray(transactions.status, ["pending", "processing"]),
+      inArray(transactions.type, ["payment", "escrow_fund", "subscription"]),
+      inArray(transactions.provider, ["ozow", "payfast", "sandbox"]),
+      lte(transactions.createdAt, cutoff)
+    ),
+    orderBy: [transactions.createdAt],
+    limit: BATCH_SIZE,
+  });
+}
+
+/**
+ * Reconcile a single stuck transaction
+ */
+async function reconcileTransaction(
+  db: ReturnType<typeof createDb>,
+  transaction: Transaction
+): Promise<ReconciliationResult> {
+  const result: ReconciliationResult = {
+    transactionId: transaction.id,
+    reference: transaction.providerReference,
+    provider: transaction.provider,
+    amount: transaction.amount,
+    action: "unchanged",
+  };
+
+  if (!transaction.providerReference) {
+    return { ...result, action: "error", message: "Transaction has no payment reference" };
+  }
+
+  const provider = getPaymentProvider(transaction.provider);
+  if (!provider) {
+    return { ...result, action: "error", message: `Provider ${transaction.provider} is not available` };
+  }
+
+  const reference = transaction.providerReference;
+  const status = await provider.queryStatus(reference);
+
+  if (!status.success) {
+    return { ...result, action: "error", message: status.error };
+  }
+
+  // Provider has never seen this payment - the buyer most likely abandoned checkout
+  if (!status.found) {
+    const expiresAt =
+      new Date(transaction.createdAt).getTime() + PAYMENT_CONFIG.reconcileExpireHours * 60 * 60 * 1000;
+
+    if (Date.now() < expiresAt) {
+      return { ...result, message: "Not found at provider yet" };
+    }
+
+    await handlePaymentFailure(db, reference, "Expired: no payment received by provider");
+    return { ...result, action: "failed", message: "Expired without payment" };
+  }
+
+  result.providerStatus = status.status;
+
+  if (status.status === "pending") {
+    return { ...result, message: "Still pending at provider" };
+  }
+
+  const outcome = await processPaymentNotification(
+    db,
+    {
+      provider: provider.id,
+      reference,
+      transactionId: status.transactionId || "",
+      amount: status.amount,
+      status: status.status || "failed",
+      message: "Resolved by reconciliation",
+    },
+    { source: "reconciliation", reference, status: status.status || "" }
+  );
+
+  if (outcome.outcome === "rejected") {
+    return { ...result, action: "error", message: outcome.error };
+  }
+
+  return {
+    ...result,
+    action: status.status === "success" ? "completed" : "failed",
+    message: outcome.outcome === "duplicate" ? "Already applied by webhook" : undefined,
+  };
+}
+
+/**
+ * Check all stuck transactions with their provider and record a run report
+ */
+export async function reconcilePendingTransactions(
+  db: ReturnType<typeof createDb>,
+  options: { trigger: "cron" | "manual"; triggeredBy?: string; olderThanMinutes?: number }
+): Promise<ReconciliationRun> {
+  const runId = generateId();
+  const startedAt = new Date().toISOString();
+
+  await db.insert(reconciliationRuns).values({
+    id: runId,
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy || null,
+    startedAt,
+  });
+
+  const stuck = await findStuckTransactions(db, options.olderThanMinutes);
+  const results: ReconciliationResult[] = [];
+
+  // Sequential on purpose - provider APIs are rate limited
+  for (const transaction of stuck) {
+    try {
+      results.push(await reconcileTransaction(db, transaction));
+    } catch (error) {
+      console.error("Reconcile transaction error:", transaction.id, error);
+      results.push({
+        transactionId: transaction.id,
+        reference: transaction.providerReference,
+        provider: transaction.provider,
+        amount: transaction.amount,
+        action: "error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const count = (action: ReconciliationAction) =>
+    results.filter((r) => r.action === action).length;
+
+  const summary = {
+    checked: results.length,
+    completed: count("completed"),
+    failed: count("failed"),
+    unchanged: count("unchanged"),
+    errors: count("error"),
+    details: JSON.stringify(results),
+    finishedAt: new Date().toISOString(),
+  };
+
+  await db
+    .update(reconciliationRuns)
+    .set(summary)
+    .where(eq(reconciliationRuns.id, runId));
+
+  return {
+    id: runId,
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy || null,
+    startedAt,
+    ...summary,
+  };
+}
+
+/**
+ * Get recent reconciliation runs, newest first
+ */
+export async function getReconciliationRuns(
+  db: ReturnType<typeof createDb>,
+  limit = 20
+): Promise<ReconciliationRun[]> {
+  return db.query.reconciliationRuns.findMany({
+    orderBy: [desc(reconciliationRuns.startedAt)],
+    limit,
+  });
+}
@@ -0,0 +1,341 @@
+// Refund Service
+// Works out what can be refunded on an order, pays it back through the
+// original provider and keeps transactions, milestones and the ledger in step.
+//
+// Buyer fee policy: the buyer fee is refunded in proportion to the escrow
+// amount refunded - a full refund returns the whole fee, a 50% refund half.
+// Milestone payments carry no buyer fee, so there is nothing extra to return.
+
+import { eq, and } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { orders, milestones, transactions } from "@/lib/db/schema";
+import type { NewOrder, Order, Transaction } from "@/lib/db/schema";
+import {
+  recordRefund,
+  recordEscrowRelease,
+  getOrderEscrowBalance,
+  getOrderEscrowReleased,
+} from "@/lib/ledger";
+import { getPaymentProvider } from "./providers";
+import { getProviderTransactionId } from "./metadata";
+import { allocateSellerFee } from "@/lib/fees";
+import { issueEarningDocuments } from "@/lib/documents";
+import {
+  canTransitionOrder,
+  transitionOrder,
+  transitionMilestone,
+  type TransitionOptions,
+} from "@/lib/orders/state-machine";
+import type { RefundResult } from "./config";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+// Manual payments (and providers no longer enabled) are refunded by EFT
+const manualRefund = async (): Promise<RefundResult> => ({ success: true, manual: true });
+
+function getRefundHandler(provider: Transaction["provider"]) {
+  return getPaymentProvider(provider)?.refund ?? manualRefund;
+}
+
+// Milestone statuses where the milestone amount is still held in escrow
+const ESCROWED_MILESTONE_STATUSES = ["funded", "in_progress", "delivered", "disputed"];
+
+export interface RefundablePayment {
+  transaction: Transaction;
+  milestoneId: string | null;
+  escrow: number; // In cents
+  fee: number; // In cents
+}
+
+export interface RefundableAmounts {
+  escrow: number;
+  fee: number;
+  total: number;
+  payments: RefundablePayment[];
+}
+
+interface RefundMetadata {
+  originalTransactionId?: string;
+  fromEscrow?: number;
+  fromFees?: number;
+  reason?: string;
+}
+
+function parseMetadata(metadata: string | null): RefundMetadata {
+  if (!metadata) return {};
+  try {
+    return JSON.parse(metadata) as RefundMetadata;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Work out how much of each completed payment on an order can still be refunded
+ */
+export async function getRefundableAmounts(
+  db: ReturnType<typeof createDb>,
+  order: Order
+): Promise<RefundableAmounts> {
+  const [orderTransactions, orderMilestones, escrowBalance] = await Promise.all([
+    db.query.transactions.findMany({
+      where: eq(transactions.orderId, order.id),
+    }),
+    db.query.milestones.findMany({
+      where: eq(milestones.orderId, order.id),
+    }),
+    getOrderEscrowBalance(db, order.id),
+  ]);
+
+  // Refunds already issued (or in progress) against each payment
+  const refunded = new Map<string, { escrow: number; fee: number }>();
+  for (const t of orderTransactions) {
+    if (t.type !== "refund" || t.status === "failed" || t.status === "cancelled") continue;
+    const meta = parseMetadata(t.metadata);
+    if (!meta.originalTransactionId) continue;
+    const prev = refunded.get(meta.originalTransactionId) || { escrow: 0, fee: 0 };
+    refunded.set(meta.originalTransactionId, {
+      escrow: prev.escrow + (meta.fromEscrow || 0),
+      fee: prev.fee + (meta.fromFees || 0),
+    });
+  }
+
+  const payments: RefundablePayment[] = [];
+
+  for (const t of orderTransactions) {
+    if (t.status !== "completed" || (t.type !== "payment" && t.type !== "escrow_fund")) {
+      continue;
+    }
+
+    let escrow = 0;
+    let fee = 0;
+
+    if (t.milestoneId) {
+      const milestone = orderMilestones.find((m) => m.id === t.milestoneId);
+      if (milestone && ESCROWED_MILESTONE_STATUSES.includes(milestone.status)) {
+        escrow = t.amount;
+      }
+    } else if (order.status !== "completed") {
+      escrow = order.subtotal;
+      fee = order.buyerFee;
+    }
+
+    const already = refunded.get(t.id) || { escrow: 0, fee: 0 };
+    escrow = Math.max(0, escrow - already.escrow);
+    fee = Math.max(0, fee - already.fee);
+
+    // Escrow already released to the seller can't be refunded, nor its share of the fee
+    if (!t.milestoneId && escrow > escrowBalance) {
+      const held = Math.max(0, escrowBalance);
+      fee = Math.round((fee * held) / escrow);
+      escrow = held;
+    }
+
+    if (escrow > 0 || fee > 0) {
+      payments.push({ transaction: t, milestoneId: t.milestoneId, escrow, fee });
+    }
+  }
+
+  const escrow = payments.reduce((sum, p) => sum + p.escrow, 0);
+  const fee = payments.reduce((sum, p) => sum + p.fee, 0);
+
+  return { escrow, fee, total: escrow + fee, payments };
+}
+
+export interface RefundOrderInput {
+  order: Order;
+  reason: string;
+  // Escrow amount to refund in cents - defaults to everything refundable
+  amount?: number;
+  // Release escrow left over after a partial refund to the seller
+  releaseRemainder?: boolean;
+  // Who asked for the refund and other order columns to set with the refunded status
+  actorId?: string;
+  set?: TransitionOptions<NewOrder>["set"];
+}
+
+export interface RefundOrderResult {
+  success: boolean;
+  error?: string;
+  refunded?: number; // Total returned to the buyer, in cents
+  pendingManual?: boolean; // Some refunds must be paid out by finance
+}
+
+/**
+ * Refund an order (fully or partially) and mark it refunded
+ * The order is moved to refunded first, so only one caller can refund it.
+ */
+export async function refundOrder(
+  db: ReturnType<typeof createDb>,
+  input: RefundOrderInput
+): Promise<RefundOrderResult> {
+  const { order } = input;
+
+  // Check against the stored status - callers may have just cancelled the order
+  const current = await db.query.orders.findFirst({
+    where: eq(orders.id, order.id),
+    columns: { status: true },
+  });
+
+  if (!current || !canTransitionOrder(current.status, "refunded")) {
+    return { success: false, error: "Order cannot be refunded in its current status" };
+  }
+
+  const refundable = await getRefundableAmounts(db, order);
+
+  if (refundable.total === 0) {
+    return { success: false, error: "Nothing to refund on this order" };
+  }
+
+  const target = input.amount ?? refundable.escrow;
+
+  if (!Number.isInteger(target) || target < 0 || target > refundable.escrow) {
+    return { success: false, error: "Refund amount exceeds the amount held in escrow" };
+  }
+
+  // Claim the order before any money moves so a second refund of it finds it already refunded
+  try {
+    await transitionOrder(db, order.id, "refunded", {
+      actorId: input.actorId,
+      note: input.reason,
+      from: [current.status],
+      set: input.set,
+    });
+  } catch {
+    return { success: false, error: "Order cannot be refunded in its current status" };
+  }
+
+  const now = new Date().toISOString();
+  let remaining = target;
+  let totalRefunded = 0;
+  let pendingManual = false;
+
+  for (const payment of refundable.payments) {
+    const fromEscrow = Math.min(remaining, payment.escrow);
+    remaining -= fromEscrow;
+
+    const fromFees = payment.escrow === 0
+      ? payment.fee
+      : Math.round((payment.fee * fromEscrow) / payment.escrow);
+
+    const leftover = payment.escrow - fromEscrow;
+
+    if (fromEscrow + fromFees > 0) {
+      const amount = fromEscrow + fromFees;
+      const transactionId = generateId();
+
+      await db.insert(transactions).values({
+        id: transactionId,
+        orderId: order.id,
+        milestoneId: payment.milestoneId,
+        userId: order.buyerId,
+        type: "refund",
+        amount,
+        currency: "ZAR",
+        provider: payment.transaction.provider,
+        status: "pending",
+        metadata: JSON.stringify({
+          originalTransactionId: payment.transaction.id,
+          fromEscrow,
+          fromFees,
+          reason: input.reason,
+        } satisfies RefundMetadata),
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const refund = getRefundHandler(payment.transaction.provider);
+      const result = await refund({
+        providerTransactionId: getProviderTransactionId(payment.transaction) || "",
+        amount,
+        reason: input.reason,
+      });
+
+      // Failed or unsupported provider refunds stay processing for finance to pay by EFT
+      const settled = result.success && !result.manual;
+      if (!settled) pendingManual = true;
+
+      await db
+        .update(transactions)
+        .set({
+          status: settled ? "completed" : "processing",
+          providerReference: result.providerReference || null,
+          providerStatus: result.manual ? "manual_refund" : result.success ? "refunded" : "refund_failed",
+          errorMessage: result.error || null,
+          completedAt: settled ? now : null,
+          updatedAt: now,
+        })
+        .where(eq(transactions.id, transactionId));
+
+      // The buyer is owed the money either way, so it leaves escrow now
+      await recordRefund(db, {
+        order,
+        milestoneId: payment.milestoneId,
+        transactionId,
+        fromEscrow,
+        fromFees,
+      });
+
+      totalRefunded += amount;
+    }
+
+    if (leftover > 0 && input.releaseRemainder) {
+      const releaseId = generateId();
+      const released = await getOrderEscrowReleased(db, order.id);
+      const sellerFee = allocateSellerFee(order, leftover, released);
+
+      await db.insert(transactions).values({
+        id: releaseId,
+        orderId: order.id,
+        milestoneId: payment.milestoneId,
+        userId: order.sellerId,
+        type: "escrow_release",
+        amount: leftover - sellerFee,
+        currency: "ZAR",
+        provider: "manual",
+        status: "completed",
+        createdAt: now,
+        updatedAt: now,
+        completedAt: now,
+      });
+
+      await recordEscrowRelease(db, {
+        order,
+        milestoneId: payment.milestoneId,
+        transactionId: releaseId,
+        amount: leftover,
+        sellerFee,
+      });
+
+      await issueEarningDocuments(db, {
+        order,
+        transactionId: releaseId,
+        description: `Partial release after refund - Order ${order.orderNumber}`,
+        amount: leftover,
+        sellerFee,
+      });
+    }
+
+    if (payment.milestoneId && leftover === 0) {
+      await transitionMilestone(db, payment.milestoneId, "refunded", { note: input.reason });
+    } else if (payment.milestoneId && input.releaseRemainder) {
+      await transitionMilestone(db, payment.milestoneId, "released", {
+        note: input.reason,
+        set: { releasedAt: now },
+      });
+    }
+  }
+
+  // Milestones never funded can no longer be paid into a refunded order
+  const unfunded = await db.query.milestones.findMany({
+    where: and(eq(milestones.orderId, order.id), eq(milestones.status, "pending")),
+  });
+
+  for (const milestone of unfunded) {
+    await transitionMilestone(db, milestone.id, "refunded");
+  }
+
+  return { success: true, refunded: totalRefunded, pendingManual };
+}
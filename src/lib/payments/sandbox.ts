@@ -0,0 +1,127 @@
+// Sandbox Payment Provider
+// Simulated gateway for local development. The checkout page lets the developer
+// choose an outcome, which is then sent through the normal webhook pipeline as a
+// signed notification - no merchant credentials needed.
+
+import {
+  SANDBOX_CONFIG,
+  type PaymentProviderAdapter,
+  type PaymentRequest,
+  type PaymentResult,
+  type PaymentStatus,
+} from "./config";
+
+/**
+ * Sign sandbox parameters with HMAC-SHA256 (sorted key=value pairs)
+ */
+async function signParams(params: Record<string, string>): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(SANDBOX_CONFIG.secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+
+  const payload = Object.keys(params)
+    .filter((k) => k !== "signature")
+    .sort()
+    .map((k) => `${k}=${params[k]}`)
+    .join("&");
+
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Create a sandbox payment - redirects to the local simulated checkout page
+ */
+export async function createSandboxPayment(
+  request: PaymentRequest,
+  baseUrl: string
+): Promise<PaymentResult> {
+  if (!SANDBOX_CONFIG.enabled) {
+    return { success: false, error: "Sandbox payments are disabled" };
+  }
+
+  const params = new URLSearchParams({
+    reference: request.reference,
+    amount: String(request.amount),
+    description: request.description,
+  });
+
+  return {
+    success: true,
+    redirectUrl: `${baseUrl}${SANDBOX_CONFIG.checkoutUrl}?${params.toString()}`,
+    transactionId: request.reference,
+  };
+}
+
+/**
+ * Build the signed notification the sandbox "gateway" sends for an outcome
+ */
+export async function buildSandboxNotification(data: {
+  reference: string;
+  amount: number; // In cents
+  status: PaymentStatus;
+}): Promise<Record<string, string>> {
+  const body: Record<string, string> = {
+    reference: data.reference,
+    transaction_id: `SBX-${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+    amount: String(data.amount),
+    status: data.status,
+  };
+
+  body.signature = await signParams(body);
+  return body;
+}
+
+/**
+ * Verify a sandbox notification signature
+ */
+export async function verifySandboxWebhook(
+  body: Record<string, string>
+): Promise<{ valid: boolean; error?: string }> {
+  if (!SANDBOX_CONFIG.enabled) {
+    return { valid: false, error: "Sandbox payments are disabled" };
+  }
+
+  if (!body.signature) {
+    return { valid: false, error: "Missing signature" };
+  }
+
+  const expected = await signParams(body);
+  if (expected !== body.signature) {
+    return { valid: false, error: "Invalid signature" };
+  }
+
+  return { valid: true };
+}
+
+export const sandboxProvider: PaymentProviderAdapter = {
+  id: "sandbox",
+  name: "Sandbox (test payments)",
+  isConfigured: () => SANDBOX_CONFIG.enabled,
+  createPayment: createSandboxPayment,
+  verifyWebhook: (body) => verifySandboxWebhook(body),
+  parseWebhook: (body) => {
+    const statuses: PaymentStatus[] = ["success", "failed", "cancelled", "pending"];
+    return {
+      provider: "sandbox",
+      reference: body.reference || "",
+      transactionId: body.transaction_id || "",
+      amount: parseInt(body.amount || "0", 10),
+      status: statuses.find((s) => s === body.status) || "failed",
+      message: "Sandbox payment",
+    };
+  },
+  // Outcomes are only ever delivered by webhook, so there is nothing to look up
+  queryStatus: async () => ({ success: true, found: false }),
+  refund: async (request) => ({
+    success: true,
+    providerReference: `SBX-RF-${request.providerTransactionId}`,
+  }),
+};
@@ -0,0 +1,364 @@
+// Payment Webhook Processing
+// Single entry point for provider notifications. Every notification is
+// stored in webhook_events keyed by provider + reference + status, so a resent
+// notification is acknowledged without being applied twice. Recurring billing
+// sends one notification per charge against the same reference, so those keys
+// also include the provider's transaction ID.
+
+import { eq } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { subscriptions, transactions, webhookEvents } from "@/lib/db/schema";
+import type { Transaction, WebhookEvent } from "@/lib/db/schema";
+import { notify } from "@/lib/notifications";
+import { issueSubscriptionInvoice } from "@/lib/documents";
+import { handlePaymentSuccess, handlePaymentFailure } from "./index";
+import {
+  addBillingPeriod,
+  renewSubscription,
+  recordFailedRenewal,
+  recordProviderCancellation,
+} from "@/lib/subscriptions/billing";
+import { getProviderTransactionId, withProviderTransactionId } from "./metadata";
+import { getPaymentProvider } from "./providers";
+import type { PaymentNotification } from "./config";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+export type WebhookOutcome = "processed" | "duplicate" | "rejected" | "invalid";
+
+export interface WebhookResult {
+  outcome: WebhookOutcome;
+  error?: string;
+}
+
+/**
+ * Store a notification, or return the existing row if we have seen it before
+ */
+async function recordWebhookEvent(
+  db: ReturnType<typeof createDb>,
+  notification: PaymentNotification,
+  payload: Record<string, string>
+): Promise<{ event: WebhookEvent; isNew: boolean }> {
+  const eventKey = notification.token
+    ? `${notification.provider}:${notification.reference}:${notification.transactionId}:${notification.status}`
+    : `${notification.provider}:${notification.reference}:${notification.status}`;
+  const id = generateId();
+
+  await db
+    .insert(webhookEvents)
+    .values({
+      id,
+      provider: notification.provider,
+      providerReference: notification.reference,
+      providerTransactionId: notification.transactionId || null,
+      status: notification.status,
+      eventKey,
+      amount: notification.amount ?? null,
+      payload: JSON.stringify(payload),
+      processingStatus: "received",
+      createdAt: new Date().toISOString(),
+    })
+    .onConflictDoNothing({ target: webhookEvents.eventKey });
+
+  const event = await db.query.webhookEvents.findFirst({
+    where: eq(webhookEvents.eventKey, eventKey),
+  });
+
+  if (!event) {
+    throw new Error(`Failed to record webhook event ${eventKey}`);
+  }
+
+  return { event, isNew: event.id === id };
+}
+
+async function finishWebhookEvent(
+  db: ReturnType<typeof createDb>,
+  eventId: string,
+  processingStatus: "processed" | "rejected" | "failed",
+  data: { transactionId?: string; error?: string } = {}
+) {
+  await db
+    .update(webhookEvents)
+    .set({
+      processingStatus,
+      transactionId: data.transactionId || null,
+      error: data.error || null,
+      processedAt: new Date().toISOString(),
+    })
+    .where(eq(webhookEvents.id, eventId));
+}
+
+/**
+ * Apply a verified payment notification exactly once
+ */
+export async function processPaymentNotification(
+  db: ReturnType<typeof createDb>,
+  notification: PaymentNotification,
+  payload: Record<string, string>
+): Promise<WebhookResult> {
+  const { event, isNew } = await recordWebhookEvent(db, notification, payload);
+
+  // Events that failed mid-way are retried; anything else has already been handled
+  if (!isNew && event.processingStatus !== "failed") {
+    return { outcome: "duplicate" };
+  }
+
+  try {
+    const transaction = await db.query.transactions.findFirst({
+      where: eq(transactions.providerReference, notification.reference),
+    });
+
+    const rejection = validateNotification(notification, transaction);
+    if (rejection || !transaction) {
+      const error = rejection || "Transaction not found";
+      await finishWebhookEvent(db, event.id, "rejected", {
+        transactionId: transaction?.id,
+        error,
+      });
+      console.error("Payment notification rejected:", { eventKey: event.eventKey, error });
+      return { outcome: "rejected", error };
+    }
+
+    await applyNotification(db, notification, transaction);
+    await finishWebhookEvent(db, event.id, "processed", { transactionId: transaction.id });
+    return { outcome: "processed" };
+  } catch (error) {
+    await finishWebhookEvent(db, event.id, "failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Check a notification against the transaction we created when the payment started
+ */
+function validateNotification(
+  notification: PaymentNotification,
+  transaction: Transaction | undefined
+): string | null {
+  if (!transaction) {
+    return "Transaction not found";
+  }
+
+  if (transaction.provider !== notification.provider) {
+    return `Transaction belongs to ${transaction.provider}`;
+  }
+
+  // Status lookups may not report an amount - there is nothing to compare then
+  if (
+    notification.status === "success" &&
+    notification.amount !== undefined &&
+    notification.amount !== transaction.amount
+  ) {
+    return `Amount mismatch: expected ${transaction.amount}, received ${notification.amount}`;
+  }
+
+  return null;
+}
+
+/**
+ * A recurring billing notification for a subscription whose first payment is already settled
+ */
+function isRecurringCharge(notification: PaymentNotification, transaction: Transaction): boolean {
+  return (
+    transaction.type === "subscription" &&
+    transaction.status === "completed" &&
+    !!notification.token &&
+    getProviderTransactionId(transaction) !== notification.transactionId
+  );
+}
+
+async function applyNotification(
+  db: ReturnType<typeof createDb>,
+  notification: PaymentNotification,
+  transaction: Transaction
+) {
+  const now = new Date().toISOString();
+  const isOpen = transaction.status === "pending" || transaction.status === "processing";
+
+  if (isRecurringCharge(notification, transaction)) {
+    if (notification.status === "success") {
+      await renewSubscription(db, notification, transaction);
+    } else if (notification.status === "failed") {
+      await recordFailedRenewal(db, notification, transaction);
+    } else if (notification.status === "cancelled") {
+      await recordProviderCancellation(db, notification, transaction);
+    }
+    return;
+  }
+
+  switch (notification.status) {
+    case "success":
+      if (transaction.status === "completed") {
+        // Reconciliation can settle a subscription before the ITN carrying its token arrives
+        if (transaction.subscriptionId && notification.token) {
+          await db
+            .update(subscriptions)
+            .set({ payfastToken: notification.token, updatedAt: now })
+            .where(eq(subscriptions.id, transaction.subscriptionId));
+        }
+        return;
+      }
+
+      if (transaction.type === "subscription") {
+        await activateSubscription(db, notification, transaction);
+        return;
+      }
+
+      if (!transaction.orderId) {
+        throw new Error(`Transaction ${transaction.id} has no order`);
+      }
+
+      // Order and milestone come from our record, not the provider's custom fields
+      await handlePaymentSuccess(db, {
+        reference: notification.reference,
+        providerTransactionId: notification.transactionId,
+        orderId: transaction.orderId,
+        milestoneId: transaction.milestoneId,
+        amount: transaction.amount,
+        provider: notification.provider,
+      });
+      return;
+
+    case "pending":
+      if (transaction.status === "pending") {
+        await db
+          .update(transactions)
+          .set({ status: "processing", providerStatus: "pending", updatedAt: now })
+          .where(eq(transactions.id, transaction.id));
+      }
+      return;
+
+    case "failed":
+    case "cancelled":
+      if (!isOpen) return;
+
+      await handlePaymentFailure(
+        db,
+        notification.reference,
+        `Payment ${notification.status}${notification.message ? `: ${notification.message}` : ""}`
+      );
+
+      if (transaction.type === "subscription") {
+        await notify(db, {
+          userId: transaction.userId,
+          type: "system",
+          title: "Payment Failed",
+          message: `Your subscription payment ${notification.status}. Please try again.`,
+          sendEmail: true,
+        });
+      }
+      return;
+  }
+}
+
+/**
+ * Activate or extend a subscription once its payment is confirmed
+ */
+async function activateSubscription(
+  db: ReturnType<typeof createDb>,
+  notification: PaymentNotification,
+  transaction: Transaction
+) {
+  const metadata = transaction.metadata
+    ? (JSON.parse(transaction.metadata) as { plan?: "monthly" | "annual" })
+    : {};
+  const plan = metadata.plan;
+
+  if (!plan) {
+    throw new Error(`Subscription transaction ${transaction.id} has no plan`);
+  }
+
+  const now = new Date();
+  const periodEnd = addBillingPeriod(now, plan);
+
+  const existingSub = await db.query.subscriptions.findFirst({
+    where: eq(subscriptions.userId, transaction.userId),
+  });
+
+  let subscriptionId = existingSub?.id;
+
+  if (existingSub) {
+    await db
+      .update(subscriptions)
+      .set({
+        plan,
+        status: "active",
+        currentPeriodStart: now.toISOString(),
+        currentPeriodEnd: periodEnd.toISOString(),
+        paymentReference: notification.transactionId,
+        payfastToken: notification.token || null,
+        pastDueSince: null,
+        dunningCount: 0,
+        lastDunningAt: null,
+        cancelledAt: null,
+        updatedAt: now.toISOString(),
+      })
+      .where(eq(subscriptions.id, existingSub.id));
+  } else {
+    subscriptionId = generateId();
+    await db.insert(subscriptions).values({
+      id: subscriptionId,
+      userId: transaction.userId,
+      plan,
+      status: "active",
+      bidsUsed: 0,
+      servicesUsed: 0,
+      currentPeriodStart: now.toISOString(),
+      currentPeriodEnd: periodEnd.toISOString(),
+      paymentReference: notification.transactionId,
+      payfastToken: notification.token || null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+  }
+
+  await db
+    .update(transactions)
+    .set({
+      status: "completed",
+      subscriptionId,
+      metadata: withProviderTransactionId(transaction, notification.transactionId),
+      completedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    })
+    .where(eq(transactions.id, transaction.id));
+
+  if (subscriptionId) {
+    await issueSubscriptionInvoice(db, { transaction, subscriptionId, plan });
+  }
+
+  await notify(db, {
+    userId: transaction.userId,
+    type: "system",
+    title: "Subscription Activated!",
+    message: `Your ${plan} Pro subscription is now active. Enjoy unlimited access!`,
+    sendEmail: true,
+    emailData: { plan, transactionId: notification.transactionId },
+  });
+}
+
+/**
+ * Verify and process a notification from any registered provider
+ */
+export async function handleProviderNotification(
+  db: ReturnType<typeof createDb>,
+  providerId: string,
+  body: Record<string, string>,
+  context: { sourceIp: string }
+): Promise<WebhookResult> {
+  const provider = getPaymentProvider(providerId);
+  if (!provider) {
+    return { outcome: "invalid", error: `Unknown payment provider: ${providerId}` };
+  }
+
+  const verification = await provider.verifyWebhook(body, context);
+  if (!verification.valid) {
+    return { outcome: "invalid", error: verification.error };
+  }
+
+  return processPaymentNotification(db, provider.parseWebhook(body), body);
+}
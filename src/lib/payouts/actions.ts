@@ -0,0 +1,199 @@
+// Server actions for seller payouts
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { eq, desc } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { bankAccounts, payoutRequests, transactions } from "@/lib/db/schema";
+import type { BankAccount, PayoutRequest } from "@/lib/db/schema";
+import { getServerSession } from "@/lib/auth/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getWalletBalance, type WalletBalance } from "@/lib/ledger";
+import { PAYMENT_CONFIG } from "@/lib/payments/config";
+import {
+  validateBankDetails,
+  getPayableBalance,
+  createPayoutRequest,
+  type BankDetailsInput,
+} from "@/lib/payouts";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  payoutId?: string;
+}
+
+export interface PayoutOverview {
+  bankAccount: BankAccount | null;
+  wallet: WalletBalance;
+  payable: number; // In cents
+  minimum: number; // In cents
+  requests: PayoutRequest[];
+}
+
+/**
+ * Get the current user's bank details, balances and payout history
+ */
+export async function getPayoutOverview(): Promise<PayoutOverview | null> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return null;
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const [bankAccount, wallet, requests] = await Promise.all([
+      db.query.bankAccounts.findFirst({
+        where: eq(bankAccounts.userId, session.userId),
+      }),
+      getWalletBalance(db, session.userId),
+      db.query.payoutRequests.findMany({
+        where: eq(payoutRequests.userId, session.userId),
+        orderBy: [desc(payoutRequests.createdAt)],
+        limit: 50,
+      }),
+    ]);
+
+    const payable = await getPayableBalance(db, session.userId, wallet);
+
+    return {
+      bankAccount: bankAccount || null,
+      wallet,
+      payable,
+      minimum: PAYMENT_CONFIG.minPayoutAmount,
+      requests,
+    };
+  } catch (error) {
+    console.error("Get payout overview error:", error);
+    return null;
+  }
+}
+
+/**
+ * Save the current user's bank details
+ */
+export async function saveBankAccount(data: BankDetailsInput): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const validationError = validateBankDetails(data);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+    const now = new Date().toISOString();
+
+    const details = {
+      accountHolder: data.accountHolder.trim(),
+      bankName: data.bankName.trim(),
+      branchCode: data.branchCode.replace(/\s/g, ""),
+      accountNumber: data.accountNumber.replace(/\s/g, ""),
+      accountType: data.accountType,
+    };
+
+    await db
+      .insert(bankAccounts)
+      .values({
+        id: generateId(),
+        userId: session.userId,
+        ...details,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: bankAccounts.userId,
+        set: { ...details, updatedAt: now },
+      });
+
+    revalidatePath("/dashboard/payouts");
+    return { success: true };
+  } catch (error) {
+    console.error("Save bank account error:", error);
+    return { success: false, error: "Failed to save bank details" };
+  }
+}
+
+/**
+ * Request a withdrawal of cleared earnings
+ */
+export async function requestPayout(amount: number): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  if (!session.isIdVerified) {
+    return { success: false, error: "You must verify your ID to withdraw earnings" };
+  }
+
+  if (!Number.isInteger(amount) || amount < PAYMENT_CONFIG.minPayoutAmount) {
+    return {
+      success: false,
+      error: `The minimum withdrawal is R${(PAYMENT_CONFIG.minPayoutAmount / 100).toFixed(2)}`,
+    };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const bankAccount = await db.query.bankAccounts.findFirst({
+      where: eq(bankAccounts.userId, session.userId),
+    });
+
+    if (!bankAccount) {
+      return { success: false, error: "Add your bank details before requesting a payout" };
+    }
+
+    const payoutId = generateId();
+    const transactionId = generateId();
+    const now = new Date().toISOString();
+
+    await db.insert(transactions).values({
+      id: transactionId,
+      userId: session.userId,
+      type: "payout",
+      amount,
+      currency: "ZAR",
+      provider: "manual",
+      providerReference: payoutId,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const created = await createPayoutRequest(db, {
+      id: payoutId,
+      userId: session.userId,
+      amount,
+      transactionId,
+      bankAccount,
+    });
+
+    if (!created) {
+      await db.delete(transactions).where(eq(transactions.id, transactionId));
+      return { success: false, error: "Amount exceeds your available balance" };
+    }
+
+    revalidatePath("/dashboard/payouts");
+    revalidatePath("/admin/payouts");
+    return { success: true, payoutId };
+  } catch (error) {
+    console.error("Request payout error:", error);
+    return { success: false, error: "Failed to request payout" };
+  }
+}
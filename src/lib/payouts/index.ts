@@ -0,0 +1,196 @@
+// Payout service - Bank detail validation, payable balances and EFT batch files
+import { eq, and, or, inArray, sql } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { ledgerAccounts, ledgerEntries, payoutRequests } from "@/lib/db/schema";
+import type { BankAccount, PayoutRequest } from "@/lib/db/schema";
+import { getWalletBalance, type WalletBalance } from "@/lib/ledger";
+
+export type BankAccountType = PayoutRequest["accountType"];
+
+export interface BankDetailsInput {
+  accountHolder: string;
+  bankName: string;
+  branchCode: string;
+  accountNumber: string;
+  accountType: BankAccountType;
+}
+
+// Universal branch codes for the major South African banks
+export const SA_BANKS = [
+  { name: "ABSA", branchCode: "632005" },
+  { name: "African Bank", branchCode: "430000" },
+  { name: "Capitec", branchCode: "470010" },
+  { name: "Discovery Bank", branchCode: "679000" },
+  { name: "FNB", branchCode: "250655" },
+  { name: "Investec", branchCode: "580105" },
+  { name: "Nedbank", branchCode: "198765" },
+  { name: "Standard Bank", branchCode: "051001" },
+  { name: "TymeBank", branchCode: "678910" },
+] as const;
+
+// ACB account type codes
+const ACB_ACCOUNT_TYPE: Record<BankAccountType, string> = {
+  cheque: "1",
+  savings: "2",
+  transmission: "3",
+};
+
+// Payout requests that still hold part of the available balance
+const OPEN_PAYOUT_STATUSES = ["pending", "approved", "exported"] as const;
+
+/**
+ * Normalise bank details and check them for obvious mistakes
+ * Returns an error message, or null if the details are valid
+ */
+export function validateBankDetails(data: BankDetailsInput): string | null {
+  if (data.accountHolder.trim().length < 2) {
+    return "Account holder name is required";
+  }
+
+  if (!data.bankName.trim()) {
+    return "Bank name is required";
+  }
+
+  if (!/^\d{6}$/.test(data.branchCode.replace(/\s/g, ""))) {
+    return "Branch code must be 6 digits";
+  }
+
+  if (!/^\d{7,11}$/.test(data.accountNumber.replace(/\s/g, ""))) {
+    return "Account number must be 7 to 11 digits";
+  }
+
+  if (!(data.accountType in ACB_ACCOUNT_TYPE)) {
+    return "Invalid account type";
+  }
+
+  return null;
+}
+
+/**
+ * Mask an account number for display, e.g. "*****6789"
+ */
+export function maskAccountNumber(accountNumber: string): string {
+  return accountNumber.slice(-4).padStart(accountNumber.length, "*");
+}
+
+/**
+ * Get the amount a seller can still withdraw (in cents)
+ * Available ledger balance minus payouts that are requested but not yet paid.
+ * Pass the wallet if the caller has already loaded it.
+ */
+export async function getPayableBalance(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  wallet?: WalletBalance
+): Promise<number> {
+  const [available, open] = await Promise.all([
+    wallet ? wallet.available : getWalletBalance(db, userId).then((w) => w.available),
+    db
+      .select({ total: sql<number>`COALESCE(SUM(${payoutRequests.amount}), 0)` })
+      .from(payoutRequests)
+      .where(
+        and(
+          eq(payoutRequests.userId, userId),
+          inArray(payoutRequests.status, [...OPEN_PAYOUT_STATUSES])
+        )
+      ),
+  ]);
+
+  return Math.max(0, available - (open[0]?.total || 0));
+}
+
+/**
+ * Create a pending payout request if the amount fits in the seller's payable balance
+ * The balance check and the insert are one statement, so concurrent requests
+ * can't both claim the same earnings. Returns false if the amount doesn't fit.
+ */
+export async function createPayoutRequest(
+  db: ReturnType<typeof createDb>,
+  data: {
+    id: string;
+    userId: string;
+    amount: number;
+    transactionId: string;
+    bankAccount: BankAccount;
+  }
+): Promise<boolean> {
+  const { bankAccount } = data;
+  const now = new Date().toISOString();
+
+  const available = db
+    .select({
+      balance: sql<number>`COALESCE(SUM(CASE WHEN ${ledgerEntries.creditAccountId} = ${ledgerAccounts.id} THEN ${ledgerEntries.amount} ELSE -${ledgerEntries.amount} END), 0)`,
+    })
+    .from(ledgerEntries)
+    .innerJoin(
+      ledgerAccounts,
+      or(
+        eq(ledgerAccounts.id, ledgerEntries.creditAccountId),
+        eq(ledgerAccounts.id, ledgerEntries.debitAccountId)
+      )
+    )
+    .where(and(eq(ledgerAccounts.type, "seller_available"), eq(ledgerAccounts.userId, data.userId)));
+
+  const open = db
+    .select({ total: sql<number>`COALESCE(SUM(${payoutRequests.amount}), 0)` })
+    .from(payoutRequests)
+    .where(
+      and(
+        eq(payoutRequests.userId, data.userId),
+        inArray(payoutRequests.status, [...OPEN_PAYOUT_STATUSES])
+      )
+    );
+
+  const result = await db.run(sql`
+    INSERT INTO payout_requests (
+      id, user_id, amount, currency, account_holder, bank_name, branch_code,
+      account_number, account_type, status, transaction_id, created_at, updated_at
+    )
+    SELECT ${data.id}, ${data.userId}, ${data.amount}, 'ZAR', ${bankAccount.accountHolder},
+      ${bankAccount.bankName}, ${bankAccount.branchCode}, ${bankAccount.accountNumber},
+      ${bankAccount.accountType}, 'pending', ${data.transactionId}, ${now}, ${now}
+    WHERE ${data.amount} <= (${available}) - (${open})
+  `);
+
+  return result.meta.changes > 0;
+}
+
+function csvField(value: string | number): string {
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Build a generic ACB/EFT batch file for the bank's bulk payment import
+ * H = header, D = one line per beneficiary, T = trailer with totals
+ */
+export function buildPayoutBatchCsv(
+  batchId: string,
+  payouts: PayoutRequest[],
+  actionDate = new Date()
+): string {
+  const date = actionDate.toISOString().slice(0, 10).replace(/-/g, "");
+  const total = payouts.reduce((sum, p) => sum + p.amount, 0);
+
+  // Hash total of account numbers, as used by ACB to detect corrupted files
+  const hashTotal = payouts
+    .reduce((sum, p) => sum + BigInt(p.accountNumber.slice(-11)), BigInt(0))
+    .toString()
+    .slice(-12);
+
+  const lines: (string | number)[][] = [
+    ["H", batchId, date, payouts.length, total],
+    ...payouts.map((p) => [
+      "D",
+      p.branchCode,
+      p.accountNumber,
+      ACB_ACCOUNT_TYPE[p.accountType],
+      p.amount,
+      p.accountHolder.slice(0, 30),
+      `ZOMIEKS ${p.id.slice(0, 8).toUpperCase()}`,
+    ]),
+    ["T", payouts.length, total, hashTotal],
+  ];
+
+  return lines.map((line) => line.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
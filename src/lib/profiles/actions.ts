@@ -0,0 +1,282 @@
+// Server actions for freelancer profiles
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { eq } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { users, userProfiles, subscriptions } from "@/lib/db/schema";
+import { getServerSession } from "@/lib/auth/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { storeFile } from "@/lib/files";
+import {
+  PROFILE_CONFIG,
+  parsePortfolio,
+  parseSkills,
+  validatePortfolioItem,
+  validateProfile,
+  type PortfolioItem,
+  type ProfileFormData,
+} from "./portfolio";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface PublicProfile {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+  isIdVerified: boolean;
+  isPro: boolean;
+  memberSince: string;
+  headline: string | null;
+  bio: string | null;
+  location: string | null;
+  website: string | null;
+  hourlyRate: number | null;
+  skills: string[];
+  portfolio: PortfolioItem[];
+}
+
+/**
+ * Get a user's profile row, creating an empty one for accounts that predate profiles
+ */
+async function getOrCreateProfile(db: ReturnType<typeof createDb>, userId: string) {
+  const existing = await db.query.userProfiles.findFirst({
+    where: eq(userProfiles.userId, userId),
+  });
+  if (existing) return existing;
+
+  const now = new Date().toISOString();
+  const [profile] = await db
+    .insert(userProfiles)
+    .values({ id: generateId(), userId, createdAt: now, updatedAt: now })
+    .returning();
+  return profile;
+}
+
+async function loadProfile(db: ReturnType<typeof createDb>, userId: string): Promise<PublicProfile | null> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+
+  if (!user || user.isSuspended) return null;
+
+  const [profile, subscription] = await Promise.all([
+    db.query.userProfiles.findFirst({
+      where: eq(userProfiles.userId, userId),
+    }),
+    db.query.subscriptions.findFirst({
+      where: eq(subscriptions.userId, userId),
+    }),
+  ]);
+
+  return {
+    id: user.id,
+    name: user.name,
+    avatarUrl: user.avatarUrl,
+    isIdVerified: user.isIdVerified,
+    isPro: !!subscription && subscription.plan !== "free" && subscription.status === "active",
+    memberSince: user.createdAt,
+    headline: profile?.headline ?? null,
+    bio: profile?.bio ?? null,
+    location: profile?.location ?? null,
+    website: profile?.website ?? null,
+    hourlyRate: profile?.hourlyRate ?? null,
+    skills: parseSkills(profile?.skills ?? null),
+    portfolio: parsePortfolio(profile?.portfolioUrls ?? null),
+  };
+}
+
+/**
+ * Get a user's public profile - null for unknown or suspended users
+ */
+export async function getPublicProfile(userId: string): Promise<PublicProfile | null> {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    return await loadProfile(db, userId);
+  } catch (error) {
+    console.error("Get public profile error:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the current user's profile for editing
+ */
+export async function getMyProfile(): Promise<PublicProfile | null> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return null;
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    return await loadProfile(db, session.userId);
+  } catch (error) {
+    console.error("Get my profile error:", error);
+    return null;
+  }
+}
+
+/**
+ * Save the current user's profile details
+ */
+export async function updateProfile(data: ProfileFormData): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const validationError = validateProfile(data);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const profile = await getOrCreateProfile(db, session.userId);
+    const skills = [...new Set(data.skills.map((skill) => skill.trim()))];
+
+    await db
+      .update(userProfiles)
+      .set({
+        headline: data.headline.trim() || null,
+        bio: data.bio.trim() || null,
+        location: data.location.trim() || null,
+        website: data.website.trim() || null,
+        hourlyRate: data.hourlyRate,
+        skills: skills.length ? JSON.stringify(skills) : null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(userProfiles.id, profile.id));
+
+    revalidatePath("/dashboard/profile");
+    revalidatePath(`/users/${session.userId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Update profile error:", error);
+    return { success: false, error: "Failed to update profile" };
+  }
+}
+
+/**
+ * Add a portfolio item - formData holds title, description, link and an image
+ */
+export async function addPortfolioItem(
+  formData: FormData
+): Promise<ActionResult & { item?: PortfolioItem }> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const title = ((formData.get("title") as string) || "").trim();
+  const description = ((formData.get("description") as string) || "").trim();
+  const link = ((formData.get("link") as string) || "").trim();
+  const image = formData.get("image");
+  const file = image instanceof File ? image : null;
+
+  const validationError = validatePortfolioItem({ title, description, link }, file);
+  if (validationError || !file) {
+    return { success: false, error: validationError || "Add an image of the work" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const profile = await getOrCreateProfile(db, session.userId);
+    const portfolio = parsePortfolio(profile.portfolioUrls);
+
+    if (portfolio.length >= PROFILE_CONFIG.maxPortfolioItems) {
+      return { success: false, error: `You can show up to ${PROFILE_CONFIG.maxPortfolioItems} portfolio items` };
+    }
+
+    const itemId = generateId();
+    const image = await storeFile(env.FILES, `portfolio/${session.userId}`, file, itemId);
+
+    const item: PortfolioItem = {
+      id: itemId,
+      title,
+      ...(description ? { description } : {}),
+      ...(link ? { link } : {}),
+      imageKey: image.key,
+      contentType: image.contentType,
+    };
+
+    await db
+      .update(userProfiles)
+      .set({
+        portfolioUrls: JSON.stringify([...portfolio, item]),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(userProfiles.id, profile.id));
+
+    revalidatePath("/dashboard/profile");
+    revalidatePath(`/users/${session.userId}`);
+    return { success: true, item };
+  } catch (error) {
+    console.error("Add portfolio item error:", error);
+    return { success: false, error: "Failed to add portfolio item" };
+  }
+}
+
+/**
+ * Remove a portfolio item and its image
+ */
+export async function removePortfolioItem(itemId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const profile = await db.query.userProfiles.findFirst({
+      where: eq(userProfiles.userId, session.userId),
+    });
+    const portfolio = parsePortfolio(profile?.portfolioUrls ?? null);
+    const item = portfolio.find((i) => i.id === itemId);
+
+    if (!profile || !item) {
+      return { success: false, error: "Portfolio item not found" };
+    }
+
+    const remaining = portfolio.filter((i) => i.id !== itemId);
+
+    await db
+      .update(userProfiles)
+      .set({
+        portfolioUrls: remaining.length ? JSON.stringify(remaining) : null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(userProfiles.id, profile.id));
+
+    await env.FILES.delete(item.imageKey);
+
+    revalidatePath("/dashboard/profile");
+    revalidatePath(`/users/${session.userId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Remove portfolio item error:", error);
+    return { success: false, error: "Failed to remove portfolio item" };
+  }
+}
@@ -0,0 +1,119 @@
+// Freelancer profiles
+// Profile fields shown on /users/[id] and edited under /dashboard/profile.
+// Portfolio items are stored on user_profiles.portfolio_urls as JSON; each
+// item's image lives in R2 under portfolio/{userId}/ and is served publicly by
+// /api/users/[id]/portfolio. Safe to import from client components.
+
+import { validateFiles } from "@/lib/files/limits";
+
+export interface PortfolioItem {
+  id: string;
+  title: string;
+  description?: string;
+  link?: string; // Where the work can be seen live
+  imageKey: string; // R2 key
+  contentType: string;
+}
+
+export interface ProfileFormData {
+  headline: string;
+  bio: string;
+  location: string;
+  website: string;
+  hourlyRate: number | null; // In rands, like userProfiles.hourlyRate
+  skills: string[];
+}
+
+export const PROFILE_CONFIG = {
+  maxHeadlineLength: 100,
+  maxBioLength: 2000,
+  maxLocationLength: 100,
+  maxSkills: 15,
+  maxSkillLength: 40,
+  maxHourlyRate: 100_000,
+  maxPortfolioItems: 12,
+  maxImageSize: 5 * 1024 * 1024, // 5MB
+  allowedImageTypes: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+} as const;
+
+export function parsePortfolio(portfolio: string | null): PortfolioItem[] {
+  if (!portfolio) return [];
+  try {
+    return JSON.parse(portfolio) as PortfolioItem[];
+  } catch {
+    return [];
+  }
+}
+
+export function parseSkills(skills: string | null): string[] {
+  if (!skills) return [];
+  try {
+    return JSON.parse(skills) as string[];
+  } catch {
+    return [];
+  }
+}
+
+export function getPortfolioImageUrl(userId: string, itemId: string): string {
+  return `/api/users/${userId}/portfolio/${itemId}`;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check profile fields before saving - returns an error message or null
+ */
+export function validateProfile(data: ProfileFormData): string | null {
+  if (data.headline.trim().length > PROFILE_CONFIG.maxHeadlineLength) {
+    return `Your headline can be up to ${PROFILE_CONFIG.maxHeadlineLength} characters`;
+  }
+  if (data.bio.trim().length > PROFILE_CONFIG.maxBioLength) {
+    return `Your bio can be up to ${PROFILE_CONFIG.maxBioLength} characters`;
+  }
+  if (data.location.trim().length > PROFILE_CONFIG.maxLocationLength) {
+    return "Your location is too long";
+  }
+  if (data.website.trim() && !isHttpUrl(data.website.trim())) {
+    return "Your website must be a full http(s) address";
+  }
+  if (
+    data.hourlyRate !== null &&
+    (!Number.isFinite(data.hourlyRate) || data.hourlyRate < 0 || data.hourlyRate > PROFILE_CONFIG.maxHourlyRate)
+  ) {
+    return "Enter a valid hourly rate";
+  }
+  if (data.skills.length > PROFILE_CONFIG.maxSkills) {
+    return `You can list up to ${PROFILE_CONFIG.maxSkills} skills`;
+  }
+  if (data.skills.some((skill) => !skill.trim() || skill.trim().length > PROFILE_CONFIG.maxSkillLength)) {
+    return `Skills must be between 1 and ${PROFILE_CONFIG.maxSkillLength} characters`;
+  }
+  return null;
+}
+
+/**
+ * Check a portfolio item before it is added - returns an error message or null
+ */
+export function validatePortfolioItem(
+  item: { title: string; description?: string; link?: string },
+  image: { name: string; type: string; size: number } | null
+): string | null {
+  if (!item.title.trim()) return "Give the portfolio item a title";
+  if (item.title.trim().length > 100) return "The title can be up to 100 characters";
+  if ((item.description?.trim().length ?? 0) > 500) return "The description can be up to 500 characters";
+  if (item.link?.trim() && !isHttpUrl(item.link.trim())) return "The link must be a full http(s) address";
+
+  if (!image || image.size === 0) return "Add an image of the work";
+  return validateFiles([image], {
+    maxFileSize: PROFILE_CONFIG.maxImageSize,
+    allowedTypes: PROFILE_CONFIG.allowedImageTypes,
+    typeNames: "JPEG, PNG, WebP and GIF images",
+  });
+}
@@ -2,11 +2,17 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { eq, and, desc, ne } from "drizzle-orm";
+import { eq, and, desc, ne, inArray, count } from "drizzle-orm";
 import { createDb } from "@/lib/db";
-import { projects, bids, subscriptions, categories } from "@/lib/db/schema";
+import { projects, bids, subscriptions, categories, users } from "@/lib/db/schema";
+import type { Bid, Project } from "@/lib/db/schema";
 import { getServerSession } from "@/lib/auth/server";
+import { notify } from "@/lib/notifications";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { indexProject, searchProjects } from "@/lib/search";
+import type { ProjectSearchFilters } from "@/lib/search/filters";
+import { getListingExpiry, isListingExpired, rejectOpenBids, reopenExpiredBids } from "./lifecycle";
+import { OPEN_BID_STATUSES, validateBid, type BidValues } from "./bids";
 
 function generateId(): string {
   return crypto.randomUUID();
@@ -45,6 +51,54 @@ export interface ActionResult {
   id?: string;
 }
 
+export interface ProjectBid extends Bid {
+  bidder: {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+    isIdVerified: boolean;
+  };
+}
+
+/**
+ * Recount a project's bids - withdrawn bids don't count
+ */
+async function syncBidCount(db: ReturnType<typeof createDb>, projectId: string): Promise<void> {
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(bids)
+    .where(and(eq(bids.projectId, projectId), ne(bids.status, "withdrawn")));
+
+  await db
+    .update(projects)
+    .set({ bidCount: total, updatedAt: new Date().toISOString() })
+    .where(eq(projects.id, projectId));
+}
+
+/**
+ * A bid together with its project, if the project belongs to the buyer
+ */
+async function findBidForBuyer(
+  db: ReturnType<typeof createDb>,
+  bidId: string,
+  buyerId: string
+): Promise<{ bid: Bid; project: Project } | null> {
+  const bid = await db.query.bids.findFirst({
+    where: eq(bids.id, bidId),
+  });
+
+  if (!bid) return null;
+
+  const project = await db.query.projects.findFirst({
+    where: and(
+      eq(projects.id, bid.projectId),
+      eq(projects.buyerId, buyerId)
+    ),
+  });
+
+  return project ? { bid, project } : null;
+}
+
 /**
  * Create a new project
  */
@@ -93,8 +147,11 @@ export async function createProject(data: ProjectFormData): Promise<ActionResult
       status: "open",
       createdAt: now,
       updatedAt: now,
+      expiresAt: await getListingExpiry(db),
     });
 
+    await indexProject(db, projectId);
+
     revalidatePath("/dashboard/projects");
     revalidatePath("/browse/projects");
     return { success: true, id: projectId };
@@ -118,6 +175,11 @@ export async function submitBid(data: BidFormData): Promise<ActionResult> {
     return { success: false, error: "You must verify your ID to submit bids" };
   }
 
+  const validationError = validateBid(data);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
   try {
     const { env } = await getCloudflareContext();
     const db = createDb(env.DB);
@@ -130,7 +192,7 @@ export async function submitBid(data: BidFormData): Promise<ActionResult> {
       ),
     });
 
-    if (!project) {
+    if (!project || isListingExpired(project)) {
       return { success: false, error: "Project not found or not accepting bids" };
     }
 
@@ -180,14 +242,7 @@ export async function submitBid(data: BidFormData): Promise<ActionResult> {
       updatedAt: now,
     });
 
-    // Update bid count on project
-    await db
-      .update(projects)
-      .set({ 
-        bidCount: (project.bidCount ?? 0) + 1,
-        updatedAt: now,
-      })
-      .where(eq(projects.id, data.projectId));
+    await syncBidCount(db, data.projectId);
 
     // Increment bids used for free tier
     if (userSubscription.plan === "free") {
@@ -258,21 +313,17 @@ export async function getUserBids() {
 }
 
 /**
- * Get open projects for browsing
+ * Search open projects for browsing
  */
-export async function getOpenProjects() {
+export async function getOpenProjects(filters: ProjectSearchFilters) {
   try {
     const { env } = await getCloudflareContext();
     const db = createDb(env.DB);
 
-    return await db.query.projects.findMany({
-      where: eq(projects.status, "open"),
-      orderBy: [desc(projects.createdAt)],
-      limit: 50,
-    });
+    return await searchProjects(db, filters);
   } catch (error) {
     console.error("Get open projects error:", error);
-    return [];
+    return { items: [], nextCursor: null };
   }
 }
 
@@ -308,9 +359,9 @@ export async function getProjectBySlug(slug: string) {
 }
 
 /**
- * Get bids for a project (only visible to project owner)
+ * Get bids for a project (only visible to project owner) - opening them marks them read
  */
-export async function getProjectBids(projectId: string) {
+export async function getProjectBids(projectId: string): Promise<ProjectBid[]> {
   const session = await getServerSession();
   
   if (!session) {
@@ -333,10 +384,31 @@ export async function getProjectBids(projectId: string) {
       return [];
     }
 
-    return await db.query.bids.findMany({
-      where: eq(bids.projectId, projectId),
-      orderBy: [desc(bids.createdAt)],
-    });
+    const rows = await db
+      .select({
+        bid: bids,
+        bidder: {
+          id: users.id,
+          name: users.name,
+          avatarUrl: users.avatarUrl,
+          isIdVerified: users.isIdVerified,
+        },
+      })
+      .from(bids)
+      .innerJoin(users, eq(bids.bidderId, users.id))
+      .where(and(eq(bids.projectId, projectId), ne(bids.status, "withdrawn")))
+      .orderBy(desc(bids.createdAt));
+
+    // Returned as they were, so the buyer can still see which bids are new
+    const unreadIds = rows.filter((row) => !row.bid.isRead).map((row) => row.bid.id);
+    if (unreadIds.length > 0) {
+      await db
+        .update(bids)
+        .set({ isRead: true, readAt: new Date().toISOString() })
+        .where(inArray(bids.id, unreadIds));
+    }
+
+    return rows.map((row) => ({ ...row.bid, bidder: row.bidder }));
   } catch (error) {
     console.error("Get project bids error:", error);
     return [];
@@ -378,6 +450,10 @@ export async function acceptBid(bidId: string): Promise<ActionResult> {
       return { success: false, error: "Project not found" };
     }
 
+    if (project.status !== "open" || !OPEN_BID_STATUSES.includes(bid.status)) {
+      return { success: false, error: "This bid can no longer be accepted" };
+    }
+
     const now = new Date().toISOString();
 
     // Update the bid
@@ -386,13 +462,14 @@ export async function acceptBid(bidId: string): Promise<ActionResult> {
       .set({ status: "accepted", updatedAt: now })
       .where(eq(bids.id, bidId));
 
-    // Reject other bids
+    // Reject other open bids
     await db
       .update(bids)
       .set({ status: "rejected", updatedAt: now })
       .where(and(
         eq(bids.projectId, bid.projectId),
-        ne(bids.id, bidId)
+        ne(bids.id, bidId),
+        inArray(bids.status, OPEN_BID_STATUSES)
       ));
 
     // Update project status
@@ -416,3 +493,385 @@ export async function acceptBid(bidId: string): Promise<ActionResult> {
     return { success: false, error: "Failed to accept bid" };
   }
 }
+
+/**
+ * Shortlist a pending bid, or move a shortlisted bid back to pending
+ */
+export async function shortlistBid(bidId: string, shortlisted: boolean): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const found = await findBidForBuyer(db, bidId, session.userId);
+
+    if (!found) {
+      return { success: false, error: "Bid not found" };
+    }
+
+    const { bid, project } = found;
+
+    if (project.status !== "open") {
+      return { success: false, error: "This project is no longer accepting bids" };
+    }
+
+    if (bid.status !== (shortlisted ? "pending" : "shortlisted")) {
+      return { success: false, error: shortlisted ? "Only pending bids can be shortlisted" : "This bid is not shortlisted" };
+    }
+
+    await db
+      .update(bids)
+      .set({ status: shortlisted ? "shortlisted" : "pending", updatedAt: new Date().toISOString() })
+      .where(eq(bids.id, bidId));
+
+    if (shortlisted) {
+      await notify(db, {
+        userId: bid.bidderId,
+        type: "bid_shortlisted",
+        title: "Bid Shortlisted",
+        message: `The client shortlisted your bid on "${project.title}".`,
+        entityType: "bid",
+        entityId: bid.id,
+      });
+    }
+
+    revalidatePath(`/dashboard/projects/${project.id}/bids`);
+    revalidatePath("/dashboard/bids");
+    return { success: true };
+  } catch (error) {
+    console.error("Shortlist bid error:", error);
+    return { success: false, error: "Failed to update bid" };
+  }
+}
+
+/**
+ * Reject a bid the buyer has not answered yet
+ */
+export async function rejectBid(bidId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const found = await findBidForBuyer(db, bidId, session.userId);
+
+    if (!found) {
+      return { success: false, error: "Bid not found" };
+    }
+
+    const { bid, project } = found;
+
+    if (!OPEN_BID_STATUSES.includes(bid.status)) {
+      return { success: false, error: "This bid has already been answered or withdrawn" };
+    }
+
+    await db
+      .update(bids)
+      .set({ status: "rejected", updatedAt: new Date().toISOString() })
+      .where(eq(bids.id, bidId));
+
+    await notify(db, {
+      userId: bid.bidderId,
+      type: "bid_rejected",
+      title: "Bid Not Selected",
+      message: `The client has decided not to go ahead with your bid on "${project.title}".`,
+      entityType: "bid",
+      entityId: bid.id,
+    });
+
+    revalidatePath(`/dashboard/projects/${project.id}/bids`);
+    revalidatePath("/dashboard/bids");
+    return { success: true };
+  } catch (error) {
+    console.error("Reject bid error:", error);
+    return { success: false, error: "Failed to reject bid" };
+  }
+}
+
+/**
+ * Edit a pending bid - the buyer sees it as new again
+ */
+export async function updateBid(bidId: string, data: BidValues): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const validationError = validateBid(data);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const bid = await db.query.bids.findFirst({
+      where: and(
+        eq(bids.id, bidId),
+        eq(bids.bidderId, session.userId)
+      ),
+    });
+
+    if (!bid) {
+      return { success: false, error: "Bid not found" };
+    }
+
+    if (bid.status !== "pending") {
+      return { success: false, error: "Only pending bids can be edited" };
+    }
+
+    const project = await db.query.projects.findFirst({
+      where: eq(projects.id, bid.projectId),
+    });
+
+    if (!project || project.status !== "open" || isListingExpired(project)) {
+      return { success: false, error: "This project is no longer accepting bids" };
+    }
+
+    await db
+      .update(bids)
+      .set({
+        amount: data.amount,
+        deliveryDays: data.deliveryDays,
+        proposal: data.proposal.trim(),
+        isRead: false,
+        readAt: null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(bids.id, bidId));
+
+    revalidatePath(`/dashboard/projects/${project.id}/bids`);
+    revalidatePath("/dashboard/bids");
+    return { success: true };
+  } catch (error) {
+    console.error("Update bid error:", error);
+    return { success: false, error: "Failed to update bid" };
+  }
+}
+
+/**
+ * Withdraw a bid the buyer has not answered yet
+ */
+export async function withdrawBid(bidId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const bid = await db.query.bids.findFirst({
+      where: and(
+        eq(bids.id, bidId),
+        eq(bids.bidderId, session.userId)
+      ),
+    });
+
+    if (!bid) {
+      return { success: false, error: "Bid not found" };
+    }
+
+    if (!OPEN_BID_STATUSES.includes(bid.status)) {
+      return { success: false, error: "This bid has already been answered" };
+    }
+
+    await db
+      .update(bids)
+      .set({ status: "withdrawn", updatedAt: new Date().toISOString() })
+      .where(eq(bids.id, bidId));
+
+    await syncBidCount(db, bid.projectId);
+
+    revalidatePath(`/dashboard/projects/${bid.projectId}/bids`);
+    revalidatePath("/dashboard/bids");
+    revalidatePath("/browse/projects");
+    return { success: true };
+  } catch (error) {
+    console.error("Withdraw bid error:", error);
+    return { success: false, error: "Failed to withdraw bid" };
+  }
+}
+
+/**
+ * Close an open project without hiring - open bids are rejected and the bidders told
+ */
+export async function closeProject(projectId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const project = await db.query.projects.findFirst({
+      where: and(
+        eq(projects.id, projectId),
+        eq(projects.buyerId, session.userId)
+      ),
+    });
+
+    if (!project) {
+      return { success: false, error: "Project not found" };
+    }
+
+    if (project.status !== "open") {
+      return { success: false, error: "Only open projects can be closed" };
+    }
+
+    await db
+      .update(projects)
+      .set({ status: "cancelled", updatedAt: new Date().toISOString() })
+      .where(eq(projects.id, projectId));
+
+    await rejectOpenBids(db, project, "closed");
+
+    revalidatePath(`/projects/${project.slug}`);
+    revalidatePath("/dashboard/projects");
+    revalidatePath("/browse/projects");
+    return { success: true };
+  } catch (error) {
+    console.error("Close project error:", error);
+    return { success: false, error: "Failed to close project" };
+  }
+}
+
+/**
+ * Extend an open or expired project by another listing period - an expired one reopens for bids
+ */
+export async function extendProject(projectId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const project = await db.query.projects.findFirst({
+      where: and(
+        eq(projects.id, projectId),
+        eq(projects.buyerId, session.userId)
+      ),
+    });
+
+    if (!project) {
+      return { success: false, error: "Project not found" };
+    }
+
+    if (project.status !== "open" && project.status !== "expired") {
+      return { success: false, error: "Only open or expired projects can be extended" };
+    }
+
+    // Extending early adds to the current period rather than starting over
+    const now = new Date();
+    const from =
+      project.status === "open" && project.expiresAt && new Date(project.expiresAt) > now
+        ? new Date(project.expiresAt)
+        : now;
+
+    await db
+      .update(projects)
+      .set({
+        status: "open",
+        expiresAt: await getListingExpiry(db, from),
+        updatedAt: now.toISOString(),
+      })
+      .where(eq(projects.id, projectId));
+
+    // Bidders whose bids the expiry closed can't bid again, so their bids come back
+    await reopenExpiredBids(db, project);
+
+    revalidatePath(`/projects/${project.slug}`);
+    revalidatePath("/dashboard/projects");
+    revalidatePath("/browse/projects");
+    return { success: true };
+  } catch (error) {
+    console.error("Extend project error:", error);
+    return { success: false, error: "Failed to extend project" };
+  }
+}
+
+/**
+ * Re-post an expired or closed project as a new listing with no bids
+ */
+export async function repostProject(projectId: string): Promise<ActionResult> {
+  const session = await getServerSession();
+
+  if (!session) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  if (!session.isIdVerified) {
+    return { success: false, error: "You must verify your ID to post projects" };
+  }
+
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const project = await db.query.projects.findFirst({
+      where: and(
+        eq(projects.id, projectId),
+        eq(projects.buyerId, session.userId),
+        inArray(projects.status, ["expired", "cancelled"])
+      ),
+    });
+
+    if (!project) {
+      return { success: false, error: "Only expired or closed projects can be re-posted" };
+    }
+
+    const newProjectId = generateId();
+    const now = new Date().toISOString();
+
+    await db.insert(projects).values({
+      id: newProjectId,
+      buyerId: project.buyerId,
+      categoryId: project.categoryId,
+      title: project.title,
+      slug: generateSlug(project.title) + "-" + newProjectId.slice(0, 8),
+      description: project.description,
+      budgetType: project.budgetType,
+      budgetMin: project.budgetMin,
+      budgetMax: project.budgetMax,
+      currency: project.currency,
+      deadline: project.deadline,
+      expectedDuration: project.expectedDuration,
+      skills: project.skills,
+      attachments: project.attachments,
+      status: "open",
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: await getListingExpiry(db),
+    });
+
+    await indexProject(db, newProjectId);
+
+    revalidatePath("/dashboard/projects");
+    revalidatePath("/browse/projects");
+    return { success: true, id: newProjectId };
+  } catch (error) {
+    console.error("Repost project error:", error);
+    return { success: false, error: "Failed to re-post project" };
+  }
+}
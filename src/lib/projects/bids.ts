@@ -0,0 +1,42 @@
+// Bids
+// A bid is pending until the buyer shortlists, rejects or accepts it. While it
+// is pending the bidder can edit it, and until it is answered the bidder can
+// withdraw it. `projects.bidCount` counts every bid that has not been
+// withdrawn. Safe to import from client components.
+
+import type { Bid } from "@/lib/db/schema";
+
+export interface BidValues {
+  amount: number; // In rands, like the project budget
+  deliveryDays: number;
+  proposal: string;
+}
+
+export const BID_CONFIG = {
+  minProposalLength: 50,
+  maxProposalLength: 3000,
+  maxDeliveryDays: 365,
+} as const;
+
+// Bids the buyer has not answered yet
+export const OPEN_BID_STATUSES: Bid["status"][] = ["pending", "shortlisted"];
+
+/**
+ * Check a bid before it is submitted or edited - returns an error message or null
+ */
+export function validateBid(bid: BidValues): string | null {
+  if (!Number.isFinite(bid.amount) || bid.amount <= 0) {
+    return "Please enter a valid bid amount";
+  }
+  if (!Number.isInteger(bid.deliveryDays) || bid.deliveryDays <= 0 || bid.deliveryDays > BID_CONFIG.maxDeliveryDays) {
+    return `Delivery time must be between 1 and ${BID_CONFIG.maxDeliveryDays} days`;
+  }
+  const proposal = bid.proposal.trim();
+  if (proposal.length < BID_CONFIG.minProposalLength) {
+    return `Proposal must be at least ${BID_CONFIG.minProposalLength} characters`;
+  }
+  if (proposal.length > BID_CONFIG.maxProposalLength) {
+    return `Proposal can be up to ${BID_CONFIG.maxProposalLength} characters`;
+  }
+  return null;
+}
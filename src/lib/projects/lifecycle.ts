@@ -0,0 +1,179 @@
+// Project lifecycle
+// An open project is listed for project_listing_days, then the scheduled job
+// expires it and tells the buyer, who can extend it or re-post it as a new
+// listing. Whenever a project stops taking bids without one being accepted -
+// it expires or the buyer closes it - the bids still waiting on an answer are
+// rejected and each bidder is told. Extending an expired project puts the bids
+// its expiry closed back in front of the buyer.
+
+import { eq, and, inArray, lt, gte, isNotNull } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { projects, bids } from "@/lib/db/schema";
+import type { Project } from "@/lib/db/schema";
+import { notify } from "@/lib/notifications";
+import { getSetting } from "@/lib/settings";
+import { OPEN_BID_STATUSES } from "./bids";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ProjectCloseReason = "expired" | "closed";
+
+export interface ProjectExpiryResult {
+  expired: number;
+  bidsRejected: number;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+/**
+ * When a project listed (or extended) now stops taking bids
+ */
+export async function getListingExpiry(
+  db: ReturnType<typeof createDb>,
+  from: Date = new Date()
+): Promise<string> {
+  const days = await getSetting(db, "project_listing_days");
+  return new Date(from.getTime() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Whether an open project has passed its listing expiry (the scheduled job may not have run yet)
+ */
+export function isListingExpired(project: Pick<Project, "expiresAt">, now: Date = new Date()): boolean {
+  return !!project.expiresAt && new Date(project.expiresAt) <= now;
+}
+
+/**
+ * Reject every bid still waiting on an answer and tell the bidders why - returns how many were rejected
+ */
+export async function rejectOpenBids(
+  db: ReturnType<typeof createDb>,
+  project: Project,
+  reason: ProjectCloseReason
+): Promise<number> {
+  const openBids = await db.query.bids.findMany({
+    where: and(eq(bids.projectId, project.id), inArray(bids.status, OPEN_BID_STATUSES)),
+  });
+
+  if (openBids.length === 0) return 0;
+
+  const now = new Date().toISOString();
+
+  await db
+    .update(bids)
+    .set({ status: "rejected", updatedAt: now })
+    .where(inArray(bids.id, openBids.map((bid) => bid.id)));
+
+  const message =
+    reason === "expired"
+      ? `"${project.title}" expired before the client accepted a bid, so your bid has been closed.`
+      : `The client closed "${project.title}" without accepting a bid, so your bid has been closed.`;
+
+  for (const bid of openBids) {
+    await notify(db, {
+      userId: bid.bidderId,
+      type: "bid_rejected",
+      title: "Project Closed",
+      message,
+      entityType: "bid",
+      entityId: bid.id,
+    });
+  }
+
+  return openBids.length;
+}
+
+/**
+ * Reopen the bids an expired project's expiry closed - returns how many were reopened
+ * The scheduled job only rejects bids once expiresAt has passed, so bids
+ * rejected since then are the ones it closed.
+ */
+export async function reopenExpiredBids(
+  db: ReturnType<typeof createDb>,
+  project: Project
+): Promise<number> {
+  if (project.status !== "expired" || !project.expiresAt) return 0;
+
+  const closed = await db.query.bids.findMany({
+    where: and(
+      eq(bids.projectId, project.id),
+      eq(bids.status, "rejected"),
+      gte(bids.updatedAt, project.expiresAt)
+    ),
+  });
+
+  if (closed.length === 0) return 0;
+
+  await db
+    .update(bids)
+    .set({ status: "pending", updatedAt: new Date().toISOString() })
+    .where(inArray(bids.id, closed.map((bid) => bid.id)));
+
+  for (const bid of closed) {
+    await notify(db, {
+      userId: bid.bidderId,
+      type: "system",
+      title: "Project Reopened",
+      message: `The client reopened "${project.title}", so your bid is active again.`,
+      entityType: "bid",
+      entityId: bid.id,
+    });
+  }
+
+  return closed.length;
+}
+
+/**
+ * Expire an open project, reject its open bids and tell the buyer how to list it again
+ */
+export async function expireProject(
+  db: ReturnType<typeof createDb>,
+  project: Project
+): Promise<number> {
+  await db
+    .update(projects)
+    .set({ status: "expired", updatedAt: new Date().toISOString() })
+    .where(and(eq(projects.id, project.id), eq(projects.status, "open")));
+
+  const rejected = await rejectOpenBids(db, project, "expired");
+
+  await notify(db, {
+    userId: project.buyerId,
+    type: "project_expired",
+    title: "Project Expired",
+    message: `"${project.title}" stopped taking bids on ${formatDate(project.expiresAt ?? new Date().toISOString())}. Extend it to reopen bidding or re-post it as a new listing.`,
+    entityType: "project",
+    entityId: project.id,
+    sendEmail: true,
+    emailData: {
+      projectTitle: project.title,
+      bidCount: String(rejected),
+    },
+  });
+
+  return rejected;
+}
+
+/**
+ * Scheduled pass over open projects - expires the ones past their listing expiry
+ */
+export async function processProjectExpiry(db: ReturnType<typeof createDb>): Promise<ProjectExpiryResult> {
+  const result: ProjectExpiryResult = { expired: 0, bidsRejected: 0 };
+
+  const stale = await db.query.projects.findMany({
+    where: and(
+      eq(projects.status, "open"),
+      isNotNull(projects.expiresAt),
+      lt(projects.expiresAt, new Date().toISOString())
+    ),
+  });
+
+  for (const project of stale) {
+    result.bidsRejected += await expireProject(db, project);
+    result.expired++;
+  }
+
+  return result;
+}
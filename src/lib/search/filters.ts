@@ -0,0 +1,197 @@
+// Search filters
+// Filters, sort orders and cursors for searching services and projects. The
+// browse pages and /api/search read the same query string parameters, so a
+// search can be linked to, paged through and fetched as JSON alike.
+// Prices and budgets in the query string are in rands. Safe to import from
+// client components.
+
+export const SERVICE_SORTS = ["relevance", "newest", "popular", "price_low", "price_high", "rating"] as const;
+export const PROJECT_SORTS = ["relevance", "newest", "budget_high", "budget_low", "fewest_bids"] as const;
+
+export type ServiceSort = (typeof SERVICE_SORTS)[number];
+export type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+export const SORT_LABELS: Record<ServiceSort | ProjectSort, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  popular: "Most orders",
+  price_low: "Price: low to high",
+  price_high: "Price: high to low",
+  rating: "Top rated",
+  budget_high: "Budget: high to low",
+  budget_low: "Budget: low to high",
+  fewest_bids: "Fewest bids",
+};
+
+export const SEARCH_CONFIG = {
+  pageSize: 20,
+  maxPageSize: 50,
+  maxQueryLength: 200,
+  maxSkills: 10,
+} as const;
+
+export interface ServiceSearchFilters {
+  query?: string;
+  category?: string; // Category slug - includes its subcategories
+  minPrice?: number; // Rands, compared with the basic tier price
+  maxPrice?: number;
+  maxDeliveryDays?: number;
+  minRating?: number; // Seller's average rating, 1-5
+  verifiedOnly?: boolean; // Only sellers who have verified their ID
+  skills?: string[]; // Matched against the service's tags
+  featuredOnly?: boolean;
+  sellerId?: string; // Set by profile pages, not read from the query string
+  sort: ServiceSort;
+  cursor?: string;
+  limit: number;
+}
+
+export interface ProjectSearchFilters {
+  query?: string;
+  category?: string; // Category slug - includes its subcategories
+  minBudget?: number; // Rands - projects whose budget range overlaps
+  maxBudget?: number;
+  budgetType?: "fixed" | "hourly";
+  skills?: string[]; // Projects must ask for all of these
+  sort: ProjectSort;
+  cursor?: string;
+  limit: number;
+}
+
+export interface SearchPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// Search params as handed to a page, or read from a request URL
+export type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function getParam(params: SearchParamsInput, key: string): string | undefined {
+  const value = params instanceof URLSearchParams ? params.get(key) : params[key];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+function getNumber(params: SearchParamsInput, key: string): number | undefined {
+  const value = getParam(params, key);
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function getFlag(params: SearchParamsInput, key: string): boolean {
+  const value = getParam(params, key);
+  return value === "1" || value === "true";
+}
+
+// Skills can be repeated (?skills=a&skills=b) or comma separated
+function getSkills(params: SearchParamsInput): string[] | undefined {
+  const raw = params instanceof URLSearchParams ? params.getAll("skills") : params.skills;
+  const values = (Array.isArray(raw) ? raw : raw ? [raw] : [])
+    .flatMap((value) => value.split(","))
+    .map((skill) => skill.trim())
+    .filter(Boolean);
+  const skills = [...new Set(values)].slice(0, SEARCH_CONFIG.maxSkills);
+  return skills.length ? skills : undefined;
+}
+
+function getLimit(params: SearchParamsInput): number {
+  const limit = Math.floor(getNumber(params, "limit") ?? SEARCH_CONFIG.pageSize);
+  return Math.min(Math.max(limit, 1), SEARCH_CONFIG.maxPageSize);
+}
+
+function getQuery(params: SearchParamsInput): string | undefined {
+  return getParam(params, "q")?.slice(0, SEARCH_CONFIG.maxQueryLength);
+}
+
+/**
+ * Read service search filters from query string parameters
+ */
+export function parseServiceSearchParams(params: SearchParamsInput): ServiceSearchFilters {
+  const query = getQuery(params);
+  const sort = getParam(params, "sort") as ServiceSort | undefined;
+  const minRating = getNumber(params, "rating");
+
+  return {
+    query,
+    category: getParam(params, "category"),
+    minPrice: getNumber(params, "minPrice"),
+    maxPrice: getNumber(params, "maxPrice"),
+    maxDeliveryDays: getNumber(params, "deliveryDays"),
+    minRating: minRating !== undefined ? Math.min(minRating, 5) : undefined,
+    verifiedOnly: getFlag(params, "verified"),
+    skills: getSkills(params),
+    featuredOnly: getFlag(params, "featured"),
+    // Relevance only means something with a query
+    sort: sort && SERVICE_SORTS.includes(sort) && (sort !== "relevance" || query) ? sort : query ? "relevance" : "newest",
+    cursor: getParam(params, "cursor"),
+    limit: getLimit(params),
+  };
+}
+
+/**
+ * Read project search filters from query string parameters
+ */
+export function parseProjectSearchParams(params: SearchParamsInput): ProjectSearchFilters {
+  const query = getQuery(params);
+  const sort = getParam(params, "sort") as ProjectSort | undefined;
+  const budgetType = getParam(params, "budgetType");
+
+  return {
+    query,
+    category: getParam(params, "category"),
+    minBudget: getNumber(params, "minBudget"),
+    maxBudget: getNumber(params, "maxBudget"),
+    budgetType: budgetType === "fixed" || budgetType === "hourly" ? budgetType : undefined,
+    skills: getSkills(params),
+    sort: sort && PROJECT_SORTS.includes(sort) && (sort !== "relevance" || query) ? sort : query ? "relevance" : "newest",
+    cursor: getParam(params, "cursor"),
+    limit: getLimit(params),
+  };
+}
+
+/**
+ * Query string for the same search with some parameters changed - pass
+ * undefined to drop a parameter (e.g. the cursor when filters change)
+ */
+export function buildSearchQuery(
+  params: SearchParamsInput,
+  changes: Record<string, string | undefined>
+): string {
+  const query = new URLSearchParams();
+
+  const entries =
+    params instanceof URLSearchParams
+      ? [...params.entries()]
+      : Object.entries(params).flatMap(([key, value]) =>
+          (Array.isArray(value) ? value : value !== undefined ? [value] : []).map((v) => [key, v] as const)
+        );
+
+  for (const [key, value] of entries) {
+    if (!(key in changes) && value) query.append(key, value);
+  }
+  for (const [key, value] of Object.entries(changes)) {
+    if (value) query.set(key, value);
+  }
+
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : "";
+}
+
+/**
+ * Cursors are opaque to callers - the sort value and id of the last item on
+ * the previous page
+ */
+export function encodeCursor(value: string | number, id: string): string {
+  return btoa(JSON.stringify([value, id])).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string): { value: string | number; id: string } | null {
+  try {
+    const [value, id] = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+    if ((typeof value !== "string" && typeof value !== "number") || typeof id !== "string") return null;
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,375 @@
+// Search
+// Full-text search over services and projects using SQLite FTS5 virtual tables
+// on D1 (services_fts, projects_fts - created in drizzle/0017_search_fts.sql).
+// The index tables aren't part of the Drizzle schema, so they're declared here
+// for querying only. Services and projects are re-indexed whenever they're
+// created or edited; the rest of the filtering happens on the real tables and
+// results are paged with keyset cursors (see ./filters).
+
+import { and, asc, desc, eq, gt, gte, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { sqliteTable, text, type SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { createDb } from "@/lib/db";
+import { services, projects, categories, users, reviews } from "@/lib/db/schema";
+import {
+  decodeCursor,
+  encodeCursor,
+  type ServiceSearchFilters,
+  type ProjectSearchFilters,
+  type SearchPage,
+} from "./filters";
+
+const servicesFts = sqliteTable("services_fts", {
+  serviceId: text("service_id").notNull(),
+  title: text("title").notNull(),
+  shortDescription: text("short_description").notNull(),
+  description: text("description").notNull(),
+  tags: text("tags").notNull(),
+});
+
+const projectsFts = sqliteTable("projects_fts", {
+  projectId: text("project_id").notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  skills: text("skills").notNull(),
+});
+
+export interface ServiceSearchResult {
+  id: string;
+  slug: string;
+  title: string;
+  shortDescription: string | null;
+  thumbnailUrl: string | null;
+  tags: string[];
+  price: number; // Basic tier price in cents
+  deliveryDays: number;
+  averageRating: number | null;
+  reviewCount: number;
+  orderCount: number;
+  isFeatured: boolean;
+  category: { name: string; slug: string };
+  seller: { id: string; name: string; avatarUrl: string | null; isIdVerified: boolean; rating: number | null };
+}
+
+export interface ProjectSearchResult {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  budgetType: "fixed" | "hourly";
+  budgetMin: number;
+  budgetMax: number;
+  skills: string[];
+  bidCount: number;
+  deadline: string | null;
+  createdAt: string;
+  category: { name: string; slug: string };
+}
+
+// JSON array column as space separated words for the index
+function joinWords(json: string | null): string {
+  if (!json) return "";
+  try {
+    return (JSON.parse(json) as string[]).join(" ");
+  } catch {
+    return "";
+  }
+}
+
+function parseList(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    return JSON.parse(json) as string[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Turn what the user typed into an FTS5 query - every word must match, the
+ * last one as a prefix so results show up while typing. Returns null when
+ * there is nothing searchable.
+ */
+function toMatchQuery(query: string): string | null {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words?.length) return null;
+  return words.map((word, index) => `"${word}"${index === words.length - 1 ? "*" : ""}`).join(" ");
+}
+
+// A category slug matches the category itself and its subcategories
+function inCategory(categoryId: SQLiteColumn, slug: string): SQL {
+  return sql`${categoryId} in (
+    select ${categories.id} from ${categories} where ${categories.slug} = ${slug}
+    union
+    select ${categories.id} from ${categories} where ${categories.parentId} in (
+      select ${categories.id} from ${categories} where ${categories.slug} = ${slug}
+    )
+  )`;
+}
+
+// Keyset condition for the page after the cursor, ordered by (expr, id)
+function afterCursor(
+  expr: SQL,
+  id: SQLiteColumn,
+  direction: "asc" | "desc",
+  cursor: string | undefined
+): SQL | undefined {
+  const position = cursor ? decodeCursor(cursor) : null;
+  if (!position) return undefined;
+
+  const beyond = direction === "asc" ? gt : lt;
+  return or(beyond(expr, position.value), and(eq(expr, position.value), beyond(id, position.id)));
+}
+
+/**
+ * Add or refresh a service in the search index. Failures are logged rather
+ * than thrown so a search problem never blocks saving the service.
+ */
+export async function indexService(db: ReturnType<typeof createDb>, serviceId: string): Promise<void> {
+  try {
+    const service = await db.query.services.findFirst({
+      where: eq(services.id, serviceId),
+    });
+
+    await db.delete(servicesFts).where(eq(servicesFts.serviceId, serviceId));
+    if (!service) return;
+
+    await db.insert(servicesFts).values({
+      serviceId: service.id,
+      title: service.title,
+      shortDescription: service.shortDescription || "",
+      description: service.description,
+      tags: joinWords(service.tags),
+    });
+  } catch (error) {
+    console.error("Index service error:", error);
+  }
+}
+
+/**
+ * Add or refresh a project in the search index
+ */
+export async function indexProject(db: ReturnType<typeof createDb>, projectId: string): Promise<void> {
+  try {
+    const project = await db.query.projects.findFirst({
+      where: eq(projects.id, projectId),
+    });
+
+    await db.delete(projectsFts).where(eq(projectsFts.projectId, projectId));
+    if (!project) return;
+
+    await db.insert(projectsFts).values({
+      projectId: project.id,
+      title: project.title,
+      description: project.description,
+      skills: joinWords(project.skills),
+    });
+  } catch (error) {
+    console.error("Index project error:", error);
+  }
+}
+
+/**
+ * Drop a deleted service from the search index
+ */
+export async function removeServiceFromIndex(db: ReturnType<typeof createDb>, serviceId: string): Promise<void> {
+  try {
+    await db.delete(servicesFts).where(eq(servicesFts.serviceId, serviceId));
+  } catch (error) {
+    console.error("Remove service from index error:", error);
+  }
+}
+
+/**
+ * Search active services
+ */
+export async function searchServices(
+  db: ReturnType<typeof createDb>,
+  filters: ServiceSearchFilters
+): Promise<SearchPage<ServiceSearchResult>> {
+  const match = filters.query ? toMatchQuery(filters.query) : null;
+
+  const price = sql<number>`json_extract(${services.pricingTiers}, '$.basic.price')`;
+  const sellerRating = sql<number | null>`(
+    select avg(${reviews.overallRating}) from ${reviews}
+    where ${reviews.revieweeId} = ${services.sellerId} and ${reviews.reviewType} = 'buyer_to_seller'
+      and ${reviews.isVisible} = 1
+  )`;
+
+  const sort = filters.sort === "relevance" && !match ? "newest" : filters.sort;
+  const [sortExpr, direction]: [SQL, "asc" | "desc"] =
+    sort === "relevance"
+      ? [sql`bm25(${servicesFts})`, "asc"]
+      : sort === "popular"
+        ? [sql`coalesce(${services.orderCount}, 0)`, "desc"]
+        : sort === "price_low"
+          ? [price, "asc"]
+          : sort === "price_high"
+            ? [price, "desc"]
+            : sort === "rating"
+              ? [sql`coalesce(${sellerRating}, 0)`, "desc"]
+              : [sql`${services.createdAt}`, "desc"];
+
+  const conditions: (SQL | undefined)[] = [
+    eq(services.status, "active"),
+    eq(services.isActive, true),
+    eq(users.isSuspended, false),
+    match ? sql`${servicesFts} match ${match}` : undefined,
+    filters.category ? inCategory(services.categoryId, filters.category) : undefined,
+    filters.featuredOnly ? eq(services.isFeatured, true) : undefined,
+    filters.sellerId ? eq(services.sellerId, filters.sellerId) : undefined,
+    filters.minPrice !== undefined ? gte(price, Math.round(filters.minPrice * 100)) : undefined,
+    filters.maxPrice !== undefined ? lte(price, Math.round(filters.maxPrice * 100)) : undefined,
+    filters.maxDeliveryDays !== undefined ? lte(services.deliveryDays, filters.maxDeliveryDays) : undefined,
+    filters.minRating !== undefined ? gte(sellerRating, filters.minRating) : undefined,
+    filters.verifiedOnly ? eq(users.isIdVerified, true) : undefined,
+    ...(filters.skills || []).map(
+      (skill) => sql`exists (select 1 from json_each(${services.tags}) where lower(value) = lower(${skill}))`
+    ),
+    afterCursor(sortExpr, services.id, direction, filters.cursor),
+  ];
+
+  const query = db
+    .select({
+      id: services.id,
+      slug: services.slug,
+      title: services.title,
+      shortDescription: services.shortDescription,
+      thumbnailUrl: services.thumbnailUrl,
+      tags: services.tags,
+      price,
+      deliveryDays: services.deliveryDays,
+      averageRating: services.averageRating,
+      reviewCount: services.reviewCount,
+      orderCount: services.orderCount,
+      isFeatured: services.isFeatured,
+      categoryName: categories.name,
+      categorySlug: categories.slug,
+      sellerId: users.id,
+      sellerName: users.name,
+      sellerAvatarUrl: users.avatarUrl,
+      sellerVerified: users.isIdVerified,
+      sellerRating,
+      sortValue: sql<string | number>`${sortExpr}`,
+    })
+    .from(services)
+    .innerJoin(users, eq(users.id, services.sellerId))
+    .innerJoin(categories, eq(categories.id, services.categoryId))
+    .$dynamic();
+
+  const rows = await (match ? query.innerJoin(servicesFts, eq(servicesFts.serviceId, services.id)) : query)
+    .where(and(...conditions))
+    .orderBy(...(direction === "asc" ? [asc(sortExpr), asc(services.id)] : [desc(sortExpr), desc(services.id)]))
+    .limit(filters.limit + 1);
+
+  const page = rows.slice(0, filters.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map((row) => ({
+      id: row.id,
+      slug: row.slug,
+      title: row.title,
+      shortDescription: row.shortDescription,
+      thumbnailUrl: row.thumbnailUrl,
+      tags: parseList(row.tags),
+      price: row.price,
+      deliveryDays: row.deliveryDays,
+      averageRating: row.averageRating,
+      reviewCount: row.reviewCount ?? 0,
+      orderCount: row.orderCount ?? 0,
+      isFeatured: row.isFeatured ?? false,
+      category: { name: row.categoryName, slug: row.categorySlug },
+      seller: {
+        id: row.sellerId,
+        name: row.sellerName,
+        avatarUrl: row.sellerAvatarUrl,
+        isIdVerified: row.sellerVerified,
+        rating: row.sellerRating !== null ? Math.round(row.sellerRating * 10) / 10 : null,
+      },
+    })),
+    nextCursor: rows.length > filters.limit && last ? encodeCursor(last.sortValue, last.id) : null,
+  };
+}
+
+/**
+ * Search open projects
+ */
+export async function searchProjects(
+  db: ReturnType<typeof createDb>,
+  filters: ProjectSearchFilters
+): Promise<SearchPage<ProjectSearchResult>> {
+  const match = filters.query ? toMatchQuery(filters.query) : null;
+
+  const sort = filters.sort === "relevance" && !match ? "newest" : filters.sort;
+  const [sortExpr, direction]: [SQL, "asc" | "desc"] =
+    sort === "relevance"
+      ? [sql`bm25(${projectsFts})`, "asc"]
+      : sort === "budget_high"
+        ? [sql`${projects.budgetMax}`, "desc"]
+        : sort === "budget_low"
+          ? [sql`${projects.budgetMin}`, "asc"]
+          : sort === "fewest_bids"
+            ? [sql`coalesce(${projects.bidCount}, 0)`, "asc"]
+            : [sql`${projects.createdAt}`, "desc"];
+
+  const conditions: (SQL | undefined)[] = [
+    eq(projects.status, "open"),
+    match ? sql`${projectsFts} match ${match}` : undefined,
+    filters.category ? inCategory(projects.categoryId, filters.category) : undefined,
+    // Budget filters match any project whose range overlaps the one asked for
+    filters.minBudget !== undefined ? gte(projects.budgetMax, filters.minBudget) : undefined,
+    filters.maxBudget !== undefined ? lte(projects.budgetMin, filters.maxBudget) : undefined,
+    filters.budgetType ? eq(projects.budgetType, filters.budgetType) : undefined,
+    ...(filters.skills || []).map(
+      (skill) => sql`exists (select 1 from json_each(${projects.skills}) where lower(value) = lower(${skill}))`
+    ),
+    afterCursor(sortExpr, projects.id, direction, filters.cursor),
+  ];
+
+  const query = db
+    .select({
+      id: projects.id,
+      slug: projects.slug,
+      title: projects.title,
+      description: projects.description,
+      budgetType: projects.budgetType,
+      budgetMin: projects.budgetMin,
+      budgetMax: projects.budgetMax,
+      skills: projects.skills,
+      bidCount: projects.bidCount,
+      deadline: projects.deadline,
+      createdAt: projects.createdAt,
+      categoryName: categories.name,
+      categorySlug: categories.slug,
+      sortValue: sql<string | number>`${sortExpr}`,
+    })
+    .from(projects)
+    .innerJoin(categories, eq(categories.id, projects.categoryId))
+    .$dynamic();
+
+  const rows = await (match ? query.innerJoin(projectsFts, eq(projectsFts.projectId, projects.id)) : query)
+    .where(and(...conditions))
+    .orderBy(...(direction === "asc" ? [asc(sortExpr), asc(projects.id)] : [desc(sortExpr), desc(projects.id)]))
+    .limit(filters.limit + 1);
+
+  const page = rows.slice(0, filters.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map((row) => ({
+      id: row.id,
+      slug: row.slug,
+      title: row.title,
+      description: row.description,
+      budgetType: row.budgetType,
+      budgetMin: row.budgetMin,
+      budgetMax: row.budgetMax,
+      skills: parseList(row.skills),
+      bidCount: row.bidCount ?? 0,
+      deadline: row.deadline,
+      createdAt: row.createdAt,
+      category: { name: row.categoryName, slug: row.categorySlug },
+    })),
+    nextCursor: rows.length > filters.limit && last ? encodeCursor(last.sortValue, last.id) : null,
+  };
+}
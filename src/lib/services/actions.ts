@@ -4,9 +4,23 @@
 import { revalidatePath } from "next/cache";
 import { eq, and, desc } from "drizzle-orm";
 import { createDb } from "@/lib/db";
-import { services, categories, subscriptions } from "@/lib/db/schema";
+import { services, categories, subscriptions, users } from "@/lib/db/schema";
+import type { Category } from "@/lib/db/schema";
 import { getServerSession } from "@/lib/auth/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import {
+  validateRequirementsForm,
+  normalizeRequirementsForm,
+  type RequirementQuestion,
+} from "./requirements";
+import {
+  validateServiceExtras,
+  normalizeServiceExtras,
+  parseServiceExtras,
+  type ServiceExtra,
+} from "./extras";
+import { indexService, removeServiceFromIndex, searchServices } from "@/lib/search";
+import type { ServiceSearchFilters } from "@/lib/search/filters";
 
 // Generate UUID
 function generateId(): string {
@@ -40,6 +54,8 @@ export interface ServiceFormData {
   premiumTier?: PricingTier;
   tags?: string[];
   maxRevisions?: number;
+  extras?: ServiceExtra[]; // Optional add-ons the buyer can pick at checkout
+  requirementsForm?: RequirementQuestion[]; // Questions the buyer answers after paying
 }
 
 export interface ActionResult {
@@ -62,6 +78,16 @@ export async function createService(data: ServiceFormData): Promise<ActionResult
     return { success: false, error: "You must verify your ID to create services" };
   }
 
+  const extrasError = validateServiceExtras(data.extras || []);
+  if (extrasError) {
+    return { success: false, error: extrasError };
+  }
+
+  const requirementsError = validateRequirementsForm(data.requirementsForm || []);
+  if (requirementsError) {
+    return { success: false, error: requirementsError };
+  }
+
   try {
     const { env } = await getCloudflareContext();
     const db = createDb(env.DB);
@@ -108,8 +134,12 @@ export async function createService(data: ServiceFormData): Promise<ActionResult
       description: data.description.trim(),
       shortDescription: data.shortDescription?.trim(),
       pricingTiers: JSON.stringify(pricingTiers),
+      extras: data.extras?.length ? JSON.stringify(normalizeServiceExtras(data.extras)) : null,
       tags: data.tags ? JSON.stringify(data.tags) : null,
       maxRevisions: data.maxRevisions ?? 2,
+      requirementsForm: data.requirementsForm?.length
+        ? JSON.stringify(normalizeRequirementsForm(data.requirementsForm))
+        : null,
       deliveryDays: data.basicTier.deliveryDays,
       status: "active", // Auto-approve for now, can add review queue later
       isActive: true,
@@ -128,7 +158,10 @@ export async function createService(data: ServiceFormData): Promise<ActionResult
         .where(eq(subscriptions.id, userSubscription.id));
     }
 
+    await indexService(db, serviceId);
+
     revalidatePath("/dashboard/services");
+    revalidatePath("/browse/services");
     return { success: true, serviceId };
   } catch (error) {
     console.error("Create service error:", error);
@@ -149,6 +182,20 @@ export async function updateService(
     return { success: false, error: "You must be logged in" };
   }
 
+  if (data.extras) {
+    const extrasError = validateServiceExtras(data.extras);
+    if (extrasError) {
+      return { success: false, error: extrasError };
+    }
+  }
+
+  if (data.requirementsForm) {
+    const requirementsError = validateRequirementsForm(data.requirementsForm);
+    if (requirementsError) {
+      return { success: false, error: requirementsError };
+    }
+  }
+
   try {
     const { env } = await getCloudflareContext();
     const db = createDb(env.DB);
@@ -178,6 +225,15 @@ export async function updateService(
     if (data.shortDescription !== undefined) updates.shortDescription = data.shortDescription?.trim();
     if (data.tags) updates.tags = JSON.stringify(data.tags);
     if (data.maxRevisions !== undefined) updates.maxRevisions = data.maxRevisions;
+    if (data.extras) {
+      updates.extras = data.extras.length ? JSON.stringify(normalizeServiceExtras(data.extras)) : null;
+    }
+    if (data.requirementsForm) {
+      // Orders already placed keep the questions they were placed with
+      updates.requirementsForm = data.requirementsForm.length
+        ? JSON.stringify(normalizeRequirementsForm(data.requirementsForm))
+        : null;
+    }
 
     if (data.basicTier) {
       const existingTiers = JSON.parse(service.pricingTiers);
@@ -191,8 +247,10 @@ export async function updateService(
     }
 
     await db.update(services).set(updates).where(eq(services.id, serviceId));
+    await indexService(db, serviceId);
 
     revalidatePath("/dashboard/services");
+    revalidatePath("/browse/services");
     revalidatePath(`/services/${service.slug}`);
     return { success: true, serviceId };
   } catch (error) {
@@ -271,6 +329,7 @@ export async function deleteService(serviceId: string): Promise<ActionResult> {
     // TODO: Add order check when orders are implemented
 
     await db.delete(services).where(eq(services.id, serviceId));
+    await removeServiceFromIndex(db, serviceId);
 
     revalidatePath("/dashboard/services");
     return { success: true };
@@ -306,6 +365,7 @@ export async function getUserServices() {
         standard?: PricingTier;
         premium?: PricingTier;
       },
+      extras: parseServiceExtras(service.extras),
       tags: service.tags ? JSON.parse(service.tags) : [],
       images: service.images ? JSON.parse(service.images) : [],
     }));
@@ -339,9 +399,26 @@ export async function getServiceBySlug(slug: string) {
       .set({ viewCount: (service.viewCount ?? 0) + 1 })
       .where(eq(services.id, service.id));
 
+    const category = await db.query.categories.findFirst({
+      where: eq(categories.id, service.categoryId),
+    });
+    const parentCategory = category?.parentId
+      ? await db.query.categories.findFirst({
+          where: eq(categories.id, category.parentId),
+        })
+      : undefined;
+    const seller = await db.query.users.findFirst({
+      where: eq(users.id, service.sellerId),
+      columns: { id: true, name: true, avatarUrl: true, isIdVerified: true },
+    });
+
     return {
       ...service,
+      seller: seller ?? null,
+      category: category ?? null,
+      parentCategory: parentCategory ?? null,
       pricingTiers: JSON.parse(service.pricingTiers),
+      extras: parseServiceExtras(service.extras),
       tags: service.tags ? JSON.parse(service.tags) : [],
       images: service.images ? JSON.parse(service.images) : [],
     };
@@ -351,6 +428,21 @@ export async function getServiceBySlug(slug: string) {
   }
 }
 
+/**
+ * Search active services for browsing
+ */
+export async function getActiveServices(filters: ServiceSearchFilters) {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    return await searchServices(db, filters);
+  } catch (error) {
+    console.error("Get active services error:", error);
+    return { items: [], nextCursor: null };
+  }
+}
+
 /**
  * Get all categories
  */
@@ -368,3 +460,55 @@ export async function getCategories() {
     return [];
   }
 }
+
+export interface CategoryNode extends Category {
+  children: Category[];
+}
+
+/**
+ * Get active categories as a tree - top-level categories with their subcategories
+ */
+export async function getCategoryTree(): Promise<CategoryNode[]> {
+  const all = await getCategories();
+
+  // A subcategory whose parent is inactive is shown at the top level
+  return all
+    .filter((category) => !category.parentId || !all.some((parent) => parent.id === category.parentId))
+    .map((category) => ({
+      ...category,
+      children: all.filter((child) => child.parentId === category.id),
+    }));
+}
+
+/**
+ * Get an active category with its parent and subcategories
+ */
+export async function getCategoryBySlug(slug: string) {
+  try {
+    const { env } = await getCloudflareContext();
+    const db = createDb(env.DB);
+
+    const category = await db.query.categories.findFirst({
+      where: and(eq(categories.slug, slug), eq(categories.isActive, true)),
+    });
+
+    if (!category) return null;
+
+    const [parent, children] = await Promise.all([
+      category.parentId
+        ? db.query.categories.findFirst({
+            where: and(eq(categories.id, category.parentId), eq(categories.isActive, true)),
+          })
+        : undefined,
+      db.query.categories.findMany({
+        where: and(eq(categories.parentId, category.id), eq(categories.isActive, true)),
+        orderBy: [categories.sortOrder],
+      }),
+    ]);
+
+    return { ...category, parent: parent ?? null, children };
+  } catch (error) {
+    console.error("Get category error:", error);
+    return null;
+  }
+}
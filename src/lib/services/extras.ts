@@ -0,0 +1,116 @@
+// Service extras
+// Optional add-ons a seller offers on top of the pricing tiers - extra fast
+// delivery, additional revisions, source files and so on. Each extra adds to
+// the price and can shorten or lengthen delivery and add revisions. The order
+// keeps a copy of the extras the buyer picked, so later edits to the service
+// don't change what was bought. Safe to import from client components.
+
+export interface ServiceExtra {
+  id: string;
+  title: string;
+  description?: string;
+  price: number; // In cents, added to the tier price
+  deliveryDays: number; // Added to the tier's delivery days - negative for faster delivery
+  revisions: number; // Added to the service's revisions
+}
+
+export interface ExtrasTotals {
+  extras: ServiceExtra[]; // The extras picked, as offered
+  extrasTotal: number; // In cents
+  deliveryDays: number;
+  revisions: number;
+}
+
+export const EXTRAS_CONFIG = {
+  maxExtras: 10,
+  maxPrice: 10_000_000, // R100,000 in cents
+  maxDeliveryDays: 90,
+  maxRevisions: 10,
+} as const;
+
+export function parseServiceExtras(extras: string | null): ServiceExtra[] {
+  if (!extras) return [];
+  try {
+    return JSON.parse(extras) as ServiceExtra[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check a seller's extras - returns an error message or null
+ */
+export function validateServiceExtras(extras: ServiceExtra[]): string | null {
+  if (extras.length > EXTRAS_CONFIG.maxExtras) {
+    return `You can offer up to ${EXTRAS_CONFIG.maxExtras} extras`;
+  }
+
+  const ids = new Set<string>();
+
+  for (const [index, extra] of extras.entries()) {
+    const label = extra.title?.trim() ? `"${extra.title.trim()}"` : `Extra ${index + 1}`;
+
+    if (!extra.id || ids.has(extra.id)) return `${label} is invalid`;
+    ids.add(extra.id);
+
+    if (!extra.title?.trim()) return `${label} needs a title`;
+    if (!Number.isInteger(extra.price) || extra.price < 0 || extra.price > EXTRAS_CONFIG.maxPrice) {
+      return `${label} needs a valid price`;
+    }
+    if (!Number.isInteger(extra.deliveryDays) || Math.abs(extra.deliveryDays) > EXTRAS_CONFIG.maxDeliveryDays) {
+      return `${label} has an invalid delivery time`;
+    }
+    if (!Number.isInteger(extra.revisions) || extra.revisions < 0 || extra.revisions > EXTRAS_CONFIG.maxRevisions) {
+      return `${label} has an invalid number of revisions`;
+    }
+    if (extra.price === 0 && extra.deliveryDays === 0 && extra.revisions === 0 && !extra.description?.trim()) {
+      return `${label} doesn't add anything`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tidy extras before they are saved
+ */
+export function normalizeServiceExtras(extras: ServiceExtra[]): ServiceExtra[] {
+  return extras.map((extra) => ({
+    id: extra.id,
+    title: extra.title.trim(),
+    ...(extra.description?.trim() ? { description: extra.description.trim() } : {}),
+    price: extra.price,
+    deliveryDays: extra.deliveryDays,
+    revisions: extra.revisions,
+  }));
+}
+
+/**
+ * Price, delivery time and revisions for a tier with the chosen extras.
+ * Unknown ids are ignored; delivery never drops below a day.
+ */
+export function applyExtras(
+  base: { deliveryDays: number; revisions: number },
+  offered: ServiceExtra[],
+  selectedIds: string[]
+): ExtrasTotals {
+  const extras = offered.filter((extra) => selectedIds.includes(extra.id));
+
+  return {
+    extras,
+    extrasTotal: extras.reduce((sum, extra) => sum + extra.price, 0),
+    deliveryDays: Math.max(1, extras.reduce((days, extra) => days + extra.deliveryDays, base.deliveryDays)),
+    revisions: extras.reduce((revisions, extra) => revisions + extra.revisions, base.revisions),
+  };
+}
+
+/**
+ * Short description of what an extra changes, e.g. "+R150.00 · 2 days faster · +1 revision"
+ */
+export function describeExtra(extra: ServiceExtra): string {
+  const parts = [`+R${(extra.price / 100).toFixed(2)}`];
+  if (extra.deliveryDays < 0) parts.push(`${-extra.deliveryDays} day${extra.deliveryDays === -1 ? "" : "s"} faster`);
+  if (extra.deliveryDays > 0) parts.push(`+${extra.deliveryDays} day${extra.deliveryDays === 1 ? "" : "s"}`);
+  if (extra.revisions > 0) parts.push(`+${extra.revisions} revision${extra.revisions === 1 ? "" : "s"}`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,156 @@
+// Requirements questionnaire
+// Sellers define the questions on their service; buyers answer them after
+// paying, and the order only starts once every required question is answered.
+// Orders keep a copy of the questions they were placed with, so later edits to
+// the service don't change what an existing order asked. Safe to import from
+// client components.
+
+export type RequirementQuestionType = "text" | "multiple_choice" | "file";
+
+export interface RequirementQuestion {
+  id: string;
+  type: RequirementQuestionType;
+  label: string;
+  description?: string;
+  required: boolean;
+  options?: string[]; // multiple_choice only
+  allowMultiple?: boolean; // multiple_choice - tick several options
+}
+
+export interface RequirementFile {
+  key: string; // R2 object key
+  name: string;
+  contentType: string;
+  size: number; // In bytes
+}
+
+export interface RequirementAnswer {
+  questionId: string;
+  text?: string;
+  choices?: string[];
+  files?: RequirementFile[];
+}
+
+export const REQUIREMENT_QUESTION_TYPES: Record<RequirementQuestionType, string> = {
+  text: "Free text",
+  multiple_choice: "Multiple choice",
+  file: "File upload",
+};
+
+export const REQUIREMENTS_CONFIG = {
+  maxQuestions: 20,
+  maxOptions: 10,
+  maxFilesPerQuestion: 5,
+  maxFileSize: 10 * 1024 * 1024, // 10MB
+  maxTextLength: 5000,
+  allowedTypes: [
+    "image/jpeg",
+    "image/png",
+    "image/webp",
+    "image/gif",
+    "application/pdf",
+    "text/plain",
+    "application/zip",
+  ],
+  typeNames: "images, PDF, text and ZIP files",
+} as const;
+
+export function parseRequirementsForm(form: string | null): RequirementQuestion[] {
+  if (!form) return [];
+  try {
+    return JSON.parse(form) as RequirementQuestion[];
+  } catch {
+    return [];
+  }
+}
+
+export function parseRequirementAnswers(answers: string | null): RequirementAnswer[] {
+  if (!answers) return [];
+  try {
+    return JSON.parse(answers) as RequirementAnswer[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Download URL for a file a buyer uploaded with their answers - only the order's parties can open it
+ */
+export function getRequirementFileUrl(orderId: string, key: string): string {
+  return `/api/orders/${orderId}/files?key=${encodeURIComponent(key)}`;
+}
+
+/**
+ * Check a seller's questionnaire - returns an error message or null
+ */
+export function validateRequirementsForm(questions: RequirementQuestion[]): string | null {
+  if (questions.length > REQUIREMENTS_CONFIG.maxQuestions) {
+    return `You can ask up to ${REQUIREMENTS_CONFIG.maxQuestions} questions`;
+  }
+
+  const ids = new Set<string>();
+
+  for (const [index, question] of questions.entries()) {
+    const label = `Question ${index + 1}`;
+
+    if (!question.id || ids.has(question.id)) return `${label} is invalid`;
+    ids.add(question.id);
+
+    if (!(question.type in REQUIREMENT_QUESTION_TYPES)) return `${label} has an unknown type`;
+    if (!question.label?.trim()) return `${label} needs a question`;
+
+    if (question.type === "multiple_choice") {
+      const options = (question.options || []).map((o) => o.trim()).filter(Boolean);
+      if (options.length < 2) return `${label} needs at least two options`;
+      if (options.length > REQUIREMENTS_CONFIG.maxOptions) {
+        return `${label} can have up to ${REQUIREMENTS_CONFIG.maxOptions} options`;
+      }
+      if (new Set(options).size !== options.length) return `${label} has duplicate options`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tidy a questionnaire before it is saved - trims text and drops options from non-choice questions
+ */
+export function normalizeRequirementsForm(questions: RequirementQuestion[]): RequirementQuestion[] {
+  return questions.map((question) => ({
+    id: question.id,
+    type: question.type,
+    label: question.label.trim(),
+    ...(question.description?.trim() ? { description: question.description.trim() } : {}),
+    required: !!question.required,
+    ...(question.type === "multiple_choice"
+      ? {
+          options: (question.options || []).map((o) => o.trim()).filter(Boolean),
+          allowMultiple: !!question.allowMultiple,
+        }
+      : {}),
+  }));
+}
+
+/**
+ * Whether an answer actually answers its question
+ */
+export function isAnswered(question: RequirementQuestion, answer: RequirementAnswer | undefined): boolean {
+  if (!answer) return false;
+  if (question.type === "text") return !!answer.text?.trim();
+  if (question.type === "multiple_choice") return (answer.choices || []).length > 0;
+  return (answer.files || []).length > 0;
+}
+
+/**
+ * Labels of the required questions still unanswered. `uploaded` holds the file
+ * questions that have files attached but not stored yet.
+ */
+export function getMissingRequirements(
+  questions: RequirementQuestion[],
+  answers: RequirementAnswer[],
+  uploaded: ReadonlySet<string> = new Set()
+): string[] {
+  return questions
+    .filter((q) => q.required && !uploaded.has(q.id) && !isAnswered(q, answers.find((a) => a.questionId === q.id)))
+    .map((q) => q.label);
+}
@@ -0,0 +1,127 @@
+// Platform settings
+// Numeric operating settings kept in platform_settings. Each setting has a
+// default that applies until an admin saves a value under Admin -> Settings.
+// The fee schedule is stored alongside these but managed by @/lib/fees.
+
+import { eq, inArray } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { platformSettings } from "@/lib/db/schema";
+
+export interface SettingDefinition {
+  group: string; // Card the setting is shown under in Admin -> Settings
+  label: string;
+  description: string;
+  default: number;
+  min: number;
+  max: number;
+}
+
+export const PLATFORM_SETTINGS = {
+  order_auto_complete_days: {
+    group: "Orders",
+    label: "Delivery review window (days)",
+    description: "Days a buyer has to accept or reject a delivery before the order completes automatically",
+    default: 3,
+    min: 1,
+    max: 30,
+  },
+  order_auto_complete_warning_days: {
+    group: "Orders",
+    label: "Auto-complete reminder (days before)",
+    description: "How long before automatic completion the buyer is reminded to review the delivery",
+    default: 2,
+    min: 0,
+    max: 14,
+  },
+  dispute_response_days: {
+    group: "Disputes",
+    label: "Dispute response window (days)",
+    description: "Days a party has to reply in a dispute before it closes against them",
+    default: 3,
+    min: 1,
+    max: 14,
+  },
+  project_listing_days: {
+    group: "Projects",
+    label: "Project listing period (days)",
+    description: "Days an open project takes bids before it expires; extending it adds the same period again",
+    default: 30,
+    min: 1,
+    max: 180,
+  },
+} satisfies Record<string, SettingDefinition>;
+
+export type PlatformSettingKey = keyof typeof PLATFORM_SETTINGS;
+export type PlatformSettingValues = Record<PlatformSettingKey, number>;
+
+const SETTING_KEYS = Object.keys(PLATFORM_SETTINGS) as PlatformSettingKey[];
+
+function parseValue(key: PlatformSettingKey, raw: string | undefined): number {
+  const value = raw === undefined ? NaN : Number(raw);
+  return validateSetting(key, value) === null ? value : PLATFORM_SETTINGS[key].default;
+}
+
+/**
+ * Check a value is a whole number within the setting's range - returns an error message or null
+ */
+export function validateSetting(key: PlatformSettingKey, value: number): string | null {
+  const definition = PLATFORM_SETTINGS[key];
+  if (!Number.isInteger(value) || value < definition.min || value > definition.max) {
+    return `${definition.label} must be a whole number from ${definition.min} to ${definition.max}`;
+  }
+  return null;
+}
+
+/**
+ * Current value of a setting, falling back to its default
+ */
+export async function getSetting(
+  db: ReturnType<typeof createDb>,
+  key: PlatformSettingKey
+): Promise<number> {
+  const setting = await db.query.platformSettings.findFirst({
+    where: eq(platformSettings.key, key),
+  });
+
+  return parseValue(key, setting?.value);
+}
+
+/**
+ * Current values of every setting
+ */
+export async function getSettings(db: ReturnType<typeof createDb>): Promise<PlatformSettingValues> {
+  const rows = await db.query.platformSettings.findMany({
+    where: inArray(platformSettings.key, SETTING_KEYS),
+  });
+
+  const stored = new Map(rows.map((row) => [row.key, row.value]));
+  return Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, parseValue(key, stored.get(key))])
+  ) as PlatformSettingValues;
+}
+
+/**
+ * Save a setting value (validate it first with validateSetting)
+ */
+export async function saveSetting(
+  db: ReturnType<typeof createDb>,
+  key: PlatformSettingKey,
+  value: number,
+  updatedBy: string
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  await db
+    .insert(platformSettings)
+    .values({
+      key,
+      value: String(value),
+      description: PLATFORM_SETTINGS[key].description,
+      updatedBy,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: platformSettings.key,
+      set: { value: String(value), updatedBy, updatedAt: now },
+    });
+}
@@ -8,13 +8,26 @@ import { subscriptions, users, transactions } from "@/lib/db/schema";
 import { getServerSession } from "@/lib/auth/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { notify } from "@/lib/notifications";
-import { createPayFastPayment } from "@/lib/payments/payfast";
+import { createPayFastPayment, cancelPayFastSubscription } from "@/lib/payments/payfast";
 import { PAYFAST_CONFIG } from "@/lib/payments/config";
+import { EMAIL_CONFIG } from "@/lib/email";
+import { addBillingPeriod, getUpdatePaymentUrl } from "./billing";
 
 function generateId(): string {
   return crypto.randomUUID();
 }
 
+// PayFast needs absolute return/notify URLs - built from the configured app URL,
+// never from request headers a client can set
+function getBaseUrl(): string {
+  return EMAIL_CONFIG.baseUrl;
+}
+
+// Without PayFast credentials (or in test mode) checkout is simulated locally
+function isMockCheckout(): boolean {
+  return !PAYFAST_CONFIG.merchantId || PAYFAST_CONFIG.isTest;
+}
+
 export interface ActionResult {
   success: boolean;
   error?: string;
@@ -33,6 +46,9 @@ export interface SubscriptionDetails {
   servicesUsed: number;
   canUpgrade: boolean;
   canCancel: boolean;
+  canReactivate: boolean;
+  autoRenews: boolean; // PayFast charges the card at the period end
+  updatePaymentUrl: string | null; // Set while a renewal payment is overdue
   daysRemaining: number;
 }
 
@@ -110,6 +126,9 @@ export async function getSubscription(): Promise<SubscriptionDetails | null> {
         servicesUsed: 0,
         canUpgrade: true,
         canCancel: false,
+        canReactivate: false,
+        autoRenews: false,
+        updatePaymentUrl: null,
         daysRemaining: 0,
       };
     }
@@ -127,8 +146,16 @@ export async function getSubscription(): Promise<SubscriptionDetails | null> {
       cancelledAt: subscription.cancelledAt,
       bidsUsed: subscription.bidsUsed,
       servicesUsed: subscription.servicesUsed,
-      canUpgrade: subscription.plan === "free" || (subscription.plan === "monthly" && subscription.status === "active"),
+      canUpgrade:
+        subscription.plan === "free" ||
+        subscription.status === "expired" ||
+        (subscription.plan === "monthly" && subscription.status === "active"),
       canCancel: subscription.plan !== "free" && subscription.status === "active" && !subscription.cancelledAt,
+      // A cancelled PayFast subscription cannot be restarted - the user subscribes again instead
+      canReactivate:
+        subscription.status === "active" && !!subscription.cancelledAt && !subscription.payfastToken,
+      autoRenews: !!subscription.payfastToken && !subscription.cancelledAt && subscription.status !== "expired",
+      updatePaymentUrl: subscription.status === "past_due" ? getUpdatePaymentUrl(subscription) : null,
       daysRemaining,
     };
   } catch (error) {
@@ -171,17 +198,36 @@ export async function createCheckoutSession(
       return { success: false, error: "You already have an active subscription" };
     }
 
+    if (currentSub?.status === "past_due") {
+      return { success: false, error: "Your subscription payment is overdue. Please update your payment details instead." };
+    }
+
     const amount = PLAN_PRICES[plan];
     const reference = `SUB-${plan.toUpperCase()}-${Date.now()}-${session.userId.slice(0, 8)}`;
-    const baseUrl = "https://zomieks.co.za"; // TODO: Get from environment
 
     // Use mock checkout in development or when PayFast not configured
-    if (!PAYFAST_CONFIG.merchantId || PAYFAST_CONFIG.isTest) {
+    if (isMockCheckout()) {
       const paymentUrl = `/dashboard/subscription/checkout?plan=${plan}&ref=${reference}&amount=${amount}`;
       return { success: true, paymentUrl };
     }
 
-    // Create real PayFast payment
+    // Pending transaction lets the ITN handler resolve the user and plan from the reference
+    const now = new Date().toISOString();
+    await db.insert(transactions).values({
+      id: generateId(),
+      userId: session.userId,
+      type: "subscription",
+      amount,
+      currency: "ZAR",
+      provider: "payfast",
+      providerReference: reference,
+      status: "pending",
+      metadata: JSON.stringify({ plan }),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    // Create real PayFast payment - PayFast keeps charging the card every period
     const paymentResult = await createPayFastPayment(
       {
         reference,
@@ -192,7 +238,8 @@ export async function createCheckoutSession(
         buyerName: user.name || undefined,
         provider: "payfast",
       },
-      baseUrl
+      getBaseUrl(),
+      { frequency: plan }
     );
 
     if (!paymentResult.success || !paymentResult.redirectUrl) {
@@ -207,7 +254,8 @@ export async function createCheckoutSession(
 }
 
 /**
- * Confirm subscription payment (called after PayFast webhook or mock payment)
+ * Confirm a mock checkout payment. Real PayFast subscriptions are activated
+ * and renewed by the ITN handler, so this only runs when checkout is simulated.
  */
 export async function confirmSubscription(
   plan: "monthly" | "annual",
@@ -219,19 +267,26 @@ export async function confirmSubscription(
     return { success: false, error: "You must be logged in" };
   }
 
+  if (!isMockCheckout()) {
+    return { success: false, error: "Subscriptions are confirmed once PayFast notifies us of payment" };
+  }
+
   try {
     const { env } = await getCloudflareContext();
     const db = createDb(env.DB);
 
-    const now = new Date();
-    const periodEnd = new Date();
-    
-    if (plan === "monthly") {
-      periodEnd.setMonth(periodEnd.getMonth() + 1);
-    } else {
-      periodEnd.setFullYear(periodEnd.getFullYear() + 1);
+    // A payment reference can only be applied once
+    const existingTransaction = await db.query.transactions.findFirst({
+      where: eq(transactions.providerReference, paymentReference),
+    });
+
+    if (existingTransaction?.status === "completed") {
+      return { success: true };
     }
 
+    const now = new Date();
+    const periodEnd = addBillingPeriod(now, plan);
+
     // Get current subscription
     const currentSub = await db.query.subscriptions.findFirst({
       where: eq(subscriptions.userId, session.userId),
@@ -247,6 +302,10 @@ export async function confirmSubscription(
           currentPeriodStart: now.toISOString(),
           currentPeriodEnd: periodEnd.toISOString(),
           paymentReference,
+          payfastToken: null, // Mock subscriptions do not renew
+          pastDueSince: null,
+          dunningCount: 0,
+          lastDunningAt: null,
           cancelledAt: null,
           updatedAt: now.toISOString(),
         })
@@ -331,6 +390,14 @@ export async function cancelSubscription(): Promise<ActionResult> {
       return { success: false, error: "Subscription is already cancelled" };
     }
 
+    // Stop PayFast charging the card before recording the cancellation
+    if (subscription.payfastToken) {
+      const result = await cancelPayFastSubscription(subscription.payfastToken);
+      if (!result.success) {
+        return { success: false, error: result.error || "Failed to cancel billing with PayFast" };
+      }
+    }
+
     const now = new Date().toISOString();
 
     await db
@@ -383,6 +450,13 @@ export async function reactivateSubscription(): Promise<ActionResult> {
       return { success: false, error: "Subscription is not cancelled" };
     }
 
+    if (subscription.payfastToken) {
+      return {
+        success: false,
+        error: "Automatic billing was cancelled with PayFast. You can subscribe again when your current period ends.",
+      };
+    }
+
     // Check if still within period
     if (new Date(subscription.currentPeriodEnd) < new Date()) {
       return { success: false, error: "Subscription has expired. Please subscribe again." };
@@ -452,7 +526,8 @@ export async function getSubscriptionUsage(): Promise<{
       };
     }
 
-    const features = PLAN_FEATURES[subscription.plan];
+    // Past-due subscriptions keep Pro features until the dunning grace period ends
+    const features = PLAN_FEATURES[subscription.status === "expired" ? "free" : subscription.plan];
 
     return {
       bidsUsed: subscription.bidsUsed,
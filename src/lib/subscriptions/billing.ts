@@ -0,0 +1,381 @@
+// Subscription billing
+// Pro plans renew through PayFast recurring billing. PayFast charges the card
+// every period and sends an ITN carrying the subscription token; each renewal
+// gets its own transaction and tax invoice and extends the current period.
+//
+// Dunning: a failed renewal ITN, or no renewal at all within the grace window,
+// moves the subscription to past_due. Reminders go out every few days and the
+// subscription expires (cancelling the token) when the past-due grace runs out.
+
+import { eq, and, ne, lt, isNull, isNotNull, or } from "drizzle-orm";
+import { createDb } from "@/lib/db";
+import { subscriptions, transactions } from "@/lib/db/schema";
+import type { Subscription, Transaction } from "@/lib/db/schema";
+import { notify } from "@/lib/notifications";
+import { issueSubscriptionInvoice } from "@/lib/documents";
+import { EMAIL_CONFIG } from "@/lib/email";
+import { cancelPayFastSubscription, getPayFastCardUpdateUrl } from "@/lib/payments/payfast";
+import type { PaymentNotification } from "@/lib/payments/config";
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+export type PaidPlan = "monthly" | "annual";
+
+export const BILLING_CONFIG = {
+  // A renewal that has not arrived this long after the period end counts as missed
+  renewalGraceHours: 48,
+  // Past-due subscriptions keep Pro features this long before they expire
+  pastDueGraceDays: 14,
+  // Time between dunning reminders
+  dunningIntervalDays: 3,
+} as const;
+
+export interface SubscriptionBillingResult {
+  pastDue: number;
+  reminded: number;
+  expired: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * End of a billing period that starts at `from`
+ */
+export function addBillingPeriod(from: Date, plan: PaidPlan): Date {
+  const end = new Date(from);
+  if (plan === "monthly") {
+    end.setMonth(end.getMonth() + 1);
+  } else {
+    end.setFullYear(end.getFullYear() + 1);
+  }
+  return end;
+}
+
+function planName(plan: Subscription["plan"]): string {
+  return plan === "annual" ? "Annual" : "Monthly";
+}
+
+function formatDate(date: string | Date): string {
+  return new Date(date).toLocaleDateString("en-ZA", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/**
+ * Where a subscriber fixes a failed payment - PayFast's card update page when
+ * the subscription renews automatically
+ */
+export function getUpdatePaymentUrl(subscription: Subscription): string {
+  const returnUrl = `${EMAIL_CONFIG.baseUrl}/dashboard/subscription`;
+  return subscription.payfastToken && !subscription.cancelledAt
+    ? getPayFastCardUpdateUrl(subscription.payfastToken, returnUrl)
+    : returnUrl;
+}
+
+async function findBillingSubscription(
+  db: ReturnType<typeof createDb>,
+  notification: PaymentNotification,
+  transaction: Transaction
+): Promise<Subscription | undefined> {
+  if (notification.token) {
+    const byToken = await db.query.subscriptions.findFirst({
+      where: eq(subscriptions.payfastToken, notification.token),
+    });
+    if (byToken) return byToken;
+  }
+
+  return db.query.subscriptions.findFirst({
+    where: eq(subscriptions.userId, transaction.userId),
+  });
+}
+
+/**
+ * Apply a successful recurring charge to the subscription it belongs to.
+ * `original` is the transaction for the first payment, which the renewal ITN references.
+ */
+export async function renewSubscription(
+  db: ReturnType<typeof createDb>,
+  notification: PaymentNotification,
+  original: Transaction
+): Promise<void> {
+  const subscription = await findBillingSubscription(db, notification, original);
+  if (!subscription || subscription.plan === "free") {
+    throw new Error(`No paid subscription for renewal ${notification.transactionId}`);
+  }
+  if (notification.amount === undefined) {
+    throw new Error(`Renewal ${notification.transactionId} has no amount`);
+  }
+  const amount = notification.amount;
+
+  const existing = await db.query.transactions.findFirst({
+    where: eq(transactions.providerReference, notification.transactionId),
+  });
+  if (existing) return;
+
+  const plan = subscription.plan;
+  const now = new Date();
+
+  // PayFast bills on a fixed day, so a renewal continues the period it follows
+  const periodStart =
+    subscription.status === "expired" ? now : new Date(subscription.currentPeriodEnd);
+  const periodEnd = addBillingPeriod(periodStart, plan);
+
+  const renewal: Transaction = {
+    id: generateId(),
+    orderId: null,
+    milestoneId: null,
+    userId: subscription.userId,
+    subscriptionId: subscription.id,
+    type: "subscription",
+    amount,
+    currency: "ZAR",
+    provider: notification.provider,
+    providerReference: notification.transactionId,
+    providerStatus: "COMPLETE",
+    status: "completed",
+    errorMessage: null,
+    metadata: JSON.stringify({
+      plan,
+      renewalOf: original.id,
+      providerTransactionId: notification.transactionId,
+    }),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    completedAt: now.toISOString(),
+  };
+
+  await db.insert(transactions).values(renewal);
+
+  await db
+    .update(subscriptions)
+    .set({
+      status: "active",
+      currentPeriodStart: periodStart.toISOString(),
+      currentPeriodEnd: periodEnd.toISOString(),
+      paymentReference: notification.transactionId,
+      payfastToken: notification.token || subscription.payfastToken,
+      pastDueSince: null,
+      dunningCount: 0,
+      lastDunningAt: null,
+      updatedAt: now.toISOString(),
+    })
+    .where(eq(subscriptions.id, subscription.id));
+
+  await issueSubscriptionInvoice(db, { transaction: renewal, subscriptionId: subscription.id, plan });
+
+  await notify(db, {
+    userId: subscription.userId,
+    type: "subscription_renewed",
+    title: "Subscription Renewed",
+    message: `Your Pro ${plan} subscription has renewed until ${formatDate(periodEnd)}.`,
+    sendEmail: true,
+    emailData: {
+      planName: planName(plan),
+      amount: `R${(amount / 100).toFixed(2)}`,
+      periodEnd: formatDate(periodEnd),
+    },
+  });
+}
+
+async function sendDunningNotice(
+  db: ReturnType<typeof createDb>,
+  subscription: Subscription,
+  pastDueSince: string
+) {
+  const graceEnds = new Date(
+    new Date(pastDueSince).getTime() + BILLING_CONFIG.pastDueGraceDays * DAY_MS
+  );
+
+  await notify(db, {
+    userId: subscription.userId,
+    type: "subscription_payment_failed",
+    title: "Subscription Payment Failed",
+    message: `We couldn't renew your Pro subscription. Update your payment details before ${formatDate(graceEnds)} to keep Pro.`,
+    sendEmail: true,
+    emailData: {
+      planName: planName(subscription.plan),
+      graceEnds: formatDate(graceEnds),
+      updateUrl: getUpdatePaymentUrl(subscription),
+    },
+  });
+}
+
+/**
+ * Move a subscription to past_due and send the first dunning notice
+ */
+export async function markSubscriptionPastDue(
+  db: ReturnType<typeof createDb>,
+  subscription: Subscription
+): Promise<boolean> {
+  if (subscription.status !== "active" || subscription.plan === "free") {
+    return false;
+  }
+
+  const now = new Date().toISOString();
+
+  await db
+    .update(subscriptions)
+    .set({
+      status: "past_due",
+      pastDueSince: now,
+      dunningCount: 1,
+      lastDunningAt: now,
+      updatedAt: now,
+    })
+    .where(eq(subscriptions.id, subscription.id));
+
+  await sendDunningNotice(db, subscription, now);
+  return true;
+}
+
+/**
+ * A recurring charge was declined
+ */
+export async function recordFailedRenewal(
+  db: ReturnType<typeof createDb>,
+  notification: PaymentNotification,
+  original: Transaction
+): Promise<void> {
+  const subscription = await findBillingSubscription(db, notification, original);
+  if (subscription) {
+    await markSubscriptionPastDue(db, subscription);
+  }
+}
+
+/**
+ * The subscriber cancelled billing on PayFast's side - keep access to the period end
+ */
+export async function recordProviderCancellation(
+  db: ReturnType<typeof createDb>,
+  notification: PaymentNotification,
+  original: Transaction
+): Promise<void> {
+  const subscription = await findBillingSubscription(db, notification, original);
+  if (!subscription || subscription.cancelledAt) return;
+
+  const now = new Date().toISOString();
+  await db
+    .update(subscriptions)
+    .set({ cancelledAt: now, updatedAt: now })
+    .where(eq(subscriptions.id, subscription.id));
+
+  await notify(db, {
+    userId: subscription.userId,
+    type: "system",
+    title: "Subscription Cancelled",
+    message: `Automatic renewal was cancelled. Your Pro access ends on ${formatDate(subscription.currentPeriodEnd)}.`,
+  });
+}
+
+/**
+ * End a subscription, cancelling its PayFast billing if that is still running
+ */
+export async function expireSubscription(
+  db: ReturnType<typeof createDb>,
+  subscription: Subscription
+): Promise<void> {
+  if (subscription.payfastToken && !subscription.cancelledAt) {
+    const result = await cancelPayFastSubscription(subscription.payfastToken);
+    if (!result.success) {
+      // Still expire locally - a late renewal ITN reactivates the subscription
+      console.error("Expire subscription token cancel error:", result.error);
+    }
+  }
+
+  const now = new Date().toISOString();
+  await db
+    .update(subscriptions)
+    .set({
+      status: "expired",
+      cancelledAt: subscription.cancelledAt || now,
+      updatedAt: now,
+    })
+    .where(eq(subscriptions.id, subscription.id));
+
+  await notify(db, {
+    userId: subscription.userId,
+    type: "subscription_expired",
+    title: "Subscription Ended",
+    message: "Your Pro subscription has ended and your account is back on the free plan.",
+    sendEmail: true,
+    emailData: { planName: planName(subscription.plan) },
+  });
+}
+
+/**
+ * Scheduled billing pass - flags missed renewals, sends dunning reminders and
+ * expires subscriptions that have run out
+ */
+export async function processSubscriptionBilling(
+  db: ReturnType<typeof createDb>
+): Promise<SubscriptionBillingResult> {
+  const result: SubscriptionBillingResult = { pastDue: 0, reminded: 0, expired: 0 };
+  const now = new Date();
+
+  // Renewing subscriptions whose renewal never arrived
+  const missedBefore = new Date(now.getTime() - BILLING_CONFIG.renewalGraceHours * 60 * 60 * 1000);
+  const missed = await db.query.subscriptions.findMany({
+    where: and(
+      eq(subscriptions.status, "active"),
+      ne(subscriptions.plan, "free"),
+      isNotNull(subscriptions.payfastToken),
+      isNull(subscriptions.cancelledAt),
+      lt(subscriptions.currentPeriodEnd, missedBefore.toISOString())
+    ),
+  });
+
+  for (const subscription of missed) {
+    if (await markSubscriptionPastDue(db, subscription)) result.pastDue++;
+  }
+
+  // Past due - remind, or expire once the grace period is over
+  const pastDue = await db.query.subscriptions.findMany({
+    where: eq(subscriptions.status, "past_due"),
+  });
+
+  for (const subscription of pastDue) {
+    const since = subscription.pastDueSince || subscription.updatedAt;
+
+    if (now.getTime() - new Date(since).getTime() >= BILLING_CONFIG.pastDueGraceDays * DAY_MS) {
+      await expireSubscription(db, subscription);
+      result.expired++;
+      continue;
+    }
+
+    const lastReminder = subscription.lastDunningAt || since;
+    if (now.getTime() - new Date(lastReminder).getTime() >= BILLING_CONFIG.dunningIntervalDays * DAY_MS) {
+      await db
+        .update(subscriptions)
+        .set({
+          dunningCount: subscription.dunningCount + 1,
+          lastDunningAt: now.toISOString(),
+          updatedAt: now.toISOString(),
+        })
+        .where(eq(subscriptions.id, subscription.id));
+
+      await sendDunningNotice(db, subscription, since);
+      result.reminded++;
+    }
+  }
+
+  // Cancelled or non-renewing subscriptions that have reached their period end
+  const ended = await db.query.subscriptions.findMany({
+    where: and(
+      eq(subscriptions.status, "active"),
+      ne(subscriptions.plan, "free"),
+      or(isNotNull(subscriptions.cancelledAt), isNull(subscriptions.payfastToken)),
+      lt(subscriptions.currentPeriodEnd, now.toISOString())
+    ),
+  });
+
+  for (const subscription of ended) {
+    await expireSubscription(db, subscription);
+    result.expired++;
+  }
+
+  return result;
+}
@@ -54,25 +54,3 @@ export function getInitials(name: string): string {
     .toUpperCase()
     .slice(0, 2);
 }
-
-/**
- * Calculate platform fees
- */
-export function calculateFees(grossAmount: number): {
-  buyerFee: number;
-  sellerFee: number;
-  buyerTotal: number;
-  sellerReceives: number;
-} {
-  const buyerFee = grossAmount * 0.03; // 3% buyer fee
-  const sellerFee = grossAmount * 0.08; // 8% seller fee
-  const buyerTotal = grossAmount + buyerFee;
-  const sellerReceives = grossAmount - sellerFee;
-
-  return {
-    buyerFee: Math.round(buyerFee * 100) / 100,
-    sellerFee: Math.round(sellerFee * 100) / 100,
-    buyerTotal: Math.round(buyerTotal * 100) / 100,
-    sellerReceives: Math.round(sellerReceives * 100) / 100,
-  };
-}
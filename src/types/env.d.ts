@@ -45,9 +45,17 @@ declare global {
       OZOW_SITE_CODE?: string;
       OZOW_PRIVATE_KEY?: string;
       OZOW_API_KEY?: string;
+      OZOW_BASE_URL?: string;
       PAYFAST_MERCHANT_ID?: string;
       PAYFAST_MERCHANT_KEY?: string;
       PAYFAST_PASSPHRASE?: string;
+      PAYFAST_API_URL?: string;
+      PAYMENT_SANDBOX?: string;
+      PAYMENT_SANDBOX_SECRET?: string;
+      PLATFORM_LEGAL_NAME?: string;
+      PLATFORM_ADDRESS?: string;
+      PLATFORM_REGISTRATION_NUMBER?: string;
+      PLATFORM_VAT_NUMBER?: string;
       RESEND_API_KEY?: string;
     }
   }
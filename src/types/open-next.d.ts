@@ -0,0 +1,8 @@
+// OpenNext worker output type declaration
+// `.open-next/worker.js` is generated by `npm run cf:build`, so it does not exist
+// when the project is type-checked from a clean checkout
+
+declare module "*/.open-next/worker.js" {
+  const handler: ExportedHandler<CloudflareEnv>;
+  export default handler;
+}
@@ -0,0 +1,13 @@
+// Cloudflare Worker entry point
+// Wraps the OpenNext handler so the same worker also serves cron triggers.
+
+import { default as handler } from "./.open-next/worker.js";
+import { runScheduledJobs } from "./src/lib/cron";
+
+export default {
+  fetch: handler.fetch,
+
+  async scheduled(controller: ScheduledController, env: CloudflareEnv, ctx: ExecutionContext) {
+    ctx.waitUntil(runScheduledJobs(env, controller.cron));
+  },
+} satisfies ExportedHandler<CloudflareEnv>;